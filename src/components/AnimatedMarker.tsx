@@ -0,0 +1,57 @@
+/**
+ * @fileoverview AnimatedMarker component implementation.
+ *
+ * @module components/AnimatedMarker
+ *
+ * @description
+ * This module provides the AnimatedMarker component, which cycles through
+ * the frames of a frame-based marker, such as a spinner. Every animated
+ * marker of a list follows the animation clock of its root list, shared
+ * through UnorderedListAnimationContext, so a list runs a single timer
+ * however many markers animate, and none while no marker is mounted.
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList.Item
+ *   marker={<AnimatedMarker frames={["◐", "◓", "◑", "◒"]} interval={120} />}
+ * >
+ *   <Text>Syncing</Text>
+ * </UnorderedList.Item>
+ * ```
+ */
+
+import { Text } from "tinky";
+import { JSX } from "react";
+import { useAnimationFrame } from "../hooks/use-animation-frame.js";
+import { type UnorderedListAnimatedMarker } from "../types/unordered-list-marker.js";
+
+/**
+ * Props for the AnimatedMarker component: the `frames` of the marker, shown
+ * in order, and the `interval` between them in milliseconds.
+ */
+export type AnimatedMarkerProps = UnorderedListAnimatedMarker;
+
+/**
+ * AnimatedMarker component cycling through the frames of a marker.
+ *
+ * @param {AnimatedMarkerProps} props - Component props
+ * @param {readonly string[]} props.frames - Frames of the marker
+ * @param {number} props.interval - Milliseconds between two frames
+ *
+ * @returns {JSX.Element} The current frame
+ *
+ * Theme markers given as `{ frames, interval }` and the spinner of running
+ * items are rendered with this component. Like text markers, the frames of
+ * theme markers are styled with the `marker` style. Markers sharing an
+ * interval show the same frame at the same time.
+ *
+ * @see {@link UnorderedListAnimationContext}
+ */
+export function AnimatedMarker({
+  frames,
+  interval,
+}: AnimatedMarkerProps): JSX.Element {
+  const frame = useAnimationFrame(interval);
+
+  return <Text>{frames[frame % frames.length] ?? ""}</Text>;
+}
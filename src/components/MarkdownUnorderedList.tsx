@@ -0,0 +1,245 @@
+/**
+ * @fileoverview MarkdownUnorderedList component implementation.
+ *
+ * @module components/MarkdownUnorderedList
+ *
+ * @description
+ * This module provides the MarkdownUnorderedList component, which renders a
+ * Markdown bullet list, such as a help text or a changelog, with
+ * UnorderedList and UnorderedList.Item. Nesting, task list checkboxes and
+ * inline formatting are rendered with the active theme: checkboxes use its
+ * `checkboxMarkers`, code spans, links, emphasis, strong emphasis and
+ * strikethrough its `inlineCode`, `link`, `emphasis`, `strong` and
+ * `strikethrough` styles.
+ *
+ * @example
+ * ```tsx
+ * <MarkdownUnorderedList
+ *   markdown={[
+ *     "- [x] Run `npm test`",
+ *     "- [ ] Update the **changelog**",
+ *     "  - See [the guide](https://example.com/guide)",
+ *   ].join("\n")}
+ * />
+ * ```
+ */
+
+import { Text, type TextProps } from "tinky";
+import { JSX, useMemo, type ReactNode } from "react";
+import { useComponentTheme } from "tinky-theme";
+import { unorderedListTheme } from "../themes/unordered-list-theme.js";
+import { UnorderedList, type UnorderedListProps } from "./UnorderedList.js";
+import { UnorderedListItem } from "./UnorderedListItem.js";
+import { useUnorderedListItem } from "../hooks/use-unordered-list-item.js";
+import { parseMarkdownList } from "../utils/markdown-list.js";
+import { type MarkdownInline } from "../types/markdown-inline.js";
+import { type MarkdownListItemData } from "../types/markdown-list-item-data.js";
+import { type UnorderedListMarker } from "../types/unordered-list-marker.js";
+import { type UnorderedListStyleState } from "../types/unordered-list-style-state.js";
+
+/**
+ * Props for the MarkdownUnorderedList component.
+ *
+ * @interface MarkdownUnorderedListProps
+ *
+ * @property {string} markdown - Markdown source holding a single bullet list
+ * @property {UnorderedListVariant} variant - Rendering variant of the list
+ * @property {UnorderedListMarker} marker - Marker of the items of every level,
+ *   overriding the theme configuration
+ * @property {UnorderedListWrap} wrap - How long item text is wrapped or truncated
+ * @property {number} maxLines - Maximum number of text lines of each item
+ * @property {number} hangingIndent - Extra indentation of continuation lines
+ *
+ * The text layout options apply to the items without inline formatting, like
+ * they apply to the plain text children of UnorderedList.Item.
+ */
+export interface MarkdownUnorderedListProps extends Pick<
+  UnorderedListProps,
+  "variant" | "marker" | "wrap" | "maxLines" | "hangingIndent"
+> {
+  readonly markdown: string;
+}
+
+/**
+ * Inline styles resolved from the theme.
+ */
+interface InlineStyles {
+  readonly inlineCode: TextProps;
+  readonly link: TextProps;
+  readonly emphasis: TextProps;
+  readonly strong: TextProps;
+  readonly strikethrough: TextProps;
+}
+
+/**
+ * Renders inline nodes as nested Text elements.
+ *
+ * @param {readonly MarkdownInline[]} nodes - Inline nodes
+ * @param {InlineStyles} styles - Styles of code spans, links and formatted text
+ * @returns {ReactNode[]} The rendered nodes
+ *
+ * Links show their URL after their text, unless the text is the URL itself.
+ */
+const renderInline = (
+  nodes: readonly MarkdownInline[],
+  styles: InlineStyles,
+): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "code":
+        return (
+          <Text key={index} {...styles.inlineCode}>
+            {node.value}
+          </Text>
+        );
+      case "emphasis":
+      case "strong":
+      case "strikethrough":
+        return (
+          <Text key={index} {...styles[node.type]}>
+            {renderInline(node.children, styles)}
+          </Text>
+        );
+      case "link": {
+        const isBare =
+          node.children.length === 1 &&
+          node.children[0]?.type === "text" &&
+          node.children[0].value === node.url;
+
+        return (
+          <Text key={index}>
+            <Text {...styles.link}>{renderInline(node.children, styles)}</Text>
+            {isBare ? null : ` (${node.url})`}
+          </Text>
+        );
+      }
+    }
+  });
+
+/**
+ * Renders the formatted text of an item with the styles of its position.
+ *
+ * @param {object} props - Component props
+ * @param {readonly MarkdownInline[]} props.content - Inline content of the item
+ * @returns {JSX.Element} The text of the item
+ */
+function MarkdownText({
+  content,
+}: {
+  readonly content: readonly MarkdownInline[];
+}): JSX.Element {
+  const position = useUnorderedListItem();
+  const styleState: UnorderedListStyleState = {
+    depth: position.depth,
+    index: position.index,
+    isFirst: position.isFirst,
+    isLast: position.isLast,
+    siblingCount: position.siblingCount,
+    path: position.path,
+  };
+  const { styles } = useComponentTheme(
+    "UnorderedList",
+    unorderedListTheme,
+    styleState,
+  );
+
+  return (
+    <Text>
+      {renderInline(content, {
+        inlineCode: styles.inlineCode,
+        link: styles.link,
+        emphasis: styles.emphasis,
+        strong: styles.strong,
+        strikethrough: styles.strikethrough,
+      })}
+    </Text>
+  );
+}
+
+/**
+ * Renders parsed items and their nested lists.
+ *
+ * @param {readonly MarkdownListItemData[]} items - Items of a list
+ * @param {UnorderedListMarker | undefined} marker - Marker passed to the nested lists
+ * @returns {JSX.Element[]} The list items
+ */
+const renderItems = (
+  items: readonly MarkdownListItemData[],
+  marker: UnorderedListMarker | undefined,
+): JSX.Element[] =>
+  items.map((item) => (
+    <UnorderedListItem key={item.key} selected={item.checked}>
+      {item.content.every((node) => node.type === "text") ? (
+        <Text>{item.label}</Text>
+      ) : (
+        <MarkdownText content={item.content} />
+      )}
+      {item.children ? (
+        <UnorderedList marker={marker}>
+          {renderItems(item.children, marker)}
+        </UnorderedList>
+      ) : null}
+    </UnorderedListItem>
+  ));
+
+/**
+ * MarkdownUnorderedList component rendering a Markdown bullet list.
+ *
+ * @param {MarkdownUnorderedListProps} props - Component props
+ * @param {string} props.markdown - Markdown source of the list
+ * @param {UnorderedListVariant} props.variant - Rendering variant of the list
+ * @param {UnorderedListMarker} props.marker - Marker of the items of every level
+ * @param {UnorderedListWrap} props.wrap - Wrap or truncation mode of long text
+ * @param {number} props.maxLines - Maximum number of text lines of each item
+ * @param {number} props.hangingIndent - Extra indentation of continuation lines
+ *
+ * @returns {JSX.Element} The rendered list
+ * @throws {MarkdownListParseError} When `markdown` isn't a well-formed bullet
+ *   list; see {@link parseMarkdownList}
+ *
+ * The source is parsed with {@link parseMarkdownList} and each item is
+ * rendered as an UnorderedList.Item, with nested items in nested lists:
+ * - Task list items (`- [ ]`, `- [x]`) show the theme's checkbox glyphs in
+ *   place of their marker
+ * - `*emphasis*`, `**strong**` and `~~strikethrough~~` are styled with the
+ *   theme's `emphasis`, `strong` and `strikethrough` styles: italic, bold and
+ *   struck through by default
+ * - Code spans are styled with the theme's `inlineCode` style and the text of
+ *   links with its `link` style, followed by their URL
+ *
+ * To render the items interactively, parse the source with
+ * {@link parseMarkdownList} and pass the result to the `items` prop of
+ * UnorderedList instead.
+ *
+ * @example
+ * ```tsx
+ * <MarkdownUnorderedList variant="tree" markdown={changelog} />
+ * ```
+ *
+ * @see {@link parseMarkdownList}
+ * @see {@link UnorderedList}
+ */
+export function MarkdownUnorderedList({
+  markdown,
+  variant,
+  marker,
+  wrap,
+  maxLines,
+  hangingIndent,
+}: MarkdownUnorderedListProps): JSX.Element {
+  const items = useMemo(() => parseMarkdownList(markdown), [markdown]);
+
+  return (
+    <UnorderedList
+      variant={variant}
+      marker={marker}
+      wrap={wrap}
+      maxLines={maxLines}
+      hangingIndent={hangingIndent}
+    >
+      {renderItems(items, marker)}
+    </UnorderedList>
+  );
+}
@@ -12,8 +12,17 @@
  * Key features:
  * - Automatic depth tracking for nested lists
  * - Configurable markers (single character or array for different levels)
+ * - Marker column alignment across markers of different widths
  * - Integration with tinky-theme for consistent styling
  * - React Context-based state management for clean composition
+ * - Optional tree variant with box-drawing connectors
+ * - Scrollable viewport with "↑ N more" / "↓ N more" indicators
+ * - Pagination with a page footer for non-interactive output
+ * - Incremental filtering with an inline query input
+ * - Type-ahead navigation jumping to items by the start of their label
+ * - Disabled and non-selectable items skipped by keyboard navigation
+ * - Groups of items under section headers, without nesting
+ * - Sorting and grouping of data trees, with a key cycling the sort order
  *
  * @example
  * Basic usage:
@@ -42,18 +51,114 @@
  *   </UnorderedList.Item>
  * </UnorderedList>
  * ```
+ *
+ * @example
+ * Tree connectors:
+ * ```tsx
+ * <UnorderedList variant="tree" items={files} />
+ * ```
+ *
+ * @example
+ * Data-driven tree:
+ * ```tsx
+ * <UnorderedList
+ *   items={[
+ *     { key: "a", label: "Parent", children: [{ key: "b", label: "Child" }] },
+ *   ]}
+ * />
+ * ```
  */
 
-import { Box } from "tinky";
-import { useMemo, type ReactNode, useContext, JSX } from "react";
+import {
+  Box,
+  Text,
+  useInput,
+  useStdout,
+  type BoxProps,
+  type TextProps,
+} from "tinky";
+import {
+  Children,
+  cloneElement,
+  isValidElement,
+  useCallback,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type ReactElement,
+  type ReactNode,
+  type Ref,
+  useContext,
+  JSX,
+} from "react";
 import { useComponentTheme } from "tinky-theme";
 import {
+  defaultPageFooter,
+  defaultFilterEmpty,
+  defaultFilterPrompt,
+  defaultScrollIndicators,
+  defaultStatusSummary,
   unorderedListTheme,
-  defaultMarker,
 } from "../themes/unordered-list-theme.js";
-import { UnorderedListItem } from "./UnorderedListItem.js";
+import {
+  UnorderedListItem,
+  type UnorderedListItemProps,
+} from "./UnorderedListItem.js";
+import {
+  UnorderedListGroup,
+  type UnorderedListGroupProps,
+} from "./UnorderedListGroup.js";
 import { UnorderedListContext } from "../contexts/unordered-list-context.js";
 import { UnorderedListItemContext } from "../contexts/unordered-list-item-context.js";
+import { UnorderedListInteractionContext } from "../contexts/unordered-list-interaction-context.js";
+import { UnorderedListAnimationContext } from "../contexts/unordered-list-animation-context.js";
+import { useListNavigation } from "../hooks/use-list-navigation.js";
+import { useListSelection } from "../hooks/use-list-selection.js";
+import { useListExpansion } from "../hooks/use-list-expansion.js";
+import { useListWindow } from "../hooks/use-list-window.js";
+import { useListViewport } from "../hooks/use-list-viewport.js";
+import { useListPagination } from "../hooks/use-list-pagination.js";
+import { useListFilter } from "../hooks/use-list-filter.js";
+import { useListSort } from "../hooks/use-list-sort.js";
+import {
+  expandGroups,
+  flattenItems,
+  hasChildren,
+  isSelectableItem,
+  type FlatListItem,
+} from "../utils/list-tree.js";
+import { resolveExpansionAction } from "../utils/list-expansion.js";
+import { createAnimationClock } from "../utils/list-animation.js";
+import {
+  measureMarker,
+  resolveMarker,
+  resolveStateMarker,
+  resolveStatusMarker,
+  resolveTreeConnector,
+} from "../utils/list-marker.js";
+import {
+  getCheckedState,
+  resolveSelectionAction,
+} from "../utils/list-selection.js";
+import { resolveFilterAction } from "../utils/list-filter.js";
+import { resolvePageAction } from "../utils/list-pagination.js";
+import { resolveSortAction } from "../utils/list-sort.js";
+import { countStatuses, getItemStatuses } from "../utils/list-status.js";
+import { formatScrollIndicator } from "../utils/list-viewport.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import { type UnorderedListItemState } from "../types/unordered-list-item-state.js";
+import { type UnorderedListItemExpansion } from "../types/unordered-list-item-expansion.js";
+import { type UnorderedListVariant } from "../types/unordered-list-variant.js";
+import { type UnorderedListMarker } from "../types/unordered-list-marker.js";
+import { type UnorderedListWrap } from "../types/unordered-list-wrap.js";
+import { type UnorderedListHandle } from "../types/unordered-list-handle.js";
+import { type UnorderedListStatus } from "../types/unordered-list-status.js";
+import { type UnorderedListFilterMode } from "../types/unordered-list-filter-mode.js";
+import {
+  type UnorderedListSort,
+  type UnorderedListSortDirection,
+  type UnorderedListSortKey,
+} from "../types/unordered-list-sort.js";
 
 /**
  * Props for the UnorderedList component.
@@ -61,8 +166,53 @@ import { UnorderedListItemContext } from "../contexts/unordered-list-item-contex
  * @interface UnorderedListProps
  *
  * @property {ReactNode} children - The list items to render within the unordered list.
- *   Can include UnorderedList.Item components or other valid React children.
+ *   Can include UnorderedList.Item and UnorderedList.Group components or other
+ *   valid React children.
  *   Must be a valid ReactNode (components, elements, strings, numbers, etc.).
+ * @property {readonly UnorderedListItemData[]} items - Optional data tree to render
+ *   instead of `children`. Each node becomes an UnorderedList.Item and nodes with
+ *   children are rendered as nested lists.
+ * @property {Function} renderItem - Optional callback rendering the content of a
+ *   data item. Defaults to rendering the item's label as text.
+ * @property {UnorderedListVariant} variant - Rendering variant; `"tree"` draws
+ *   box-drawing connectors. Inherited by nested lists.
+ * @property {boolean} interactive - Enables keyboard navigation over `items`,
+ *   or over the UnorderedList.Item children.
+ * @property {string} defaultFocusedKey - Key of the item focused on mount.
+ * @property {number} typeAheadTimeout - Time, in milliseconds, after which typed
+ *   characters start a new type-ahead prefix.
+ * @property {Function} onFocusChange - Called when the focus cursor moves.
+ * @property {Function} onSelect - Called when Enter is pressed on the focused item.
+ * @property {boolean} multiple - Enables multi-select mode with checkbox markers.
+ * @property {readonly string[]} selectedKeys - Controlled selection of a multi-select list.
+ * @property {readonly string[]} defaultSelectedKeys - Initial uncontrolled selection.
+ * @property {Function} onSelectionChange - Called with the new selection.
+ * @property {boolean} filterable - Lets the user filter `items` through an inline query input.
+ * @property {string} filterQuery - Controlled filter query.
+ * @property {string} defaultFilterQuery - Initial uncontrolled filter query.
+ * @property {Function} onFilterChange - Called with the new filter query.
+ * @property {UnorderedListFilterMode} filterMode - How the query is matched against items.
+ * @property {UnorderedListSort | UnorderedListSortKey} sortBy - How the items of
+ *   `items` are sorted, at every level.
+ * @property {Function} groupBy - Gathers the items of `items` into groups, at every level.
+ * @property {Function} onSortChange - Called with the new sort direction.
+ * @property {boolean} collapsible - Lets items with children be collapsed and expanded.
+ * @property {readonly string[]} expandedKeys - Controlled expanded items of a collapsible list.
+ * @property {readonly string[]} defaultExpandedKeys - Initial uncontrolled expanded items.
+ * @property {Function} onExpandedChange - Called with the new expanded items.
+ * @property {UnorderedListMarker} marker - Marker of the list's items, overriding
+ *   the theme configuration.
+ * @property {UnorderedListWrap} wrap - How long item text is wrapped or truncated.
+ * @property {number} maxLines - Maximum number of text lines of each item.
+ * @property {number} hangingIndent - Extra indentation of continuation lines.
+ * @property {boolean} virtualized - Only mounts the rows of `items` that fit in `height`.
+ * @property {number} height - Number of rows mounted by a virtualized list.
+ * @property {number} maxHeight - Number of rows the list may take before it scrolls.
+ * @property {number} pageSize - Number of items per page of a paginated list.
+ * @property {number} page - Controlled page of a paginated list, numbered from `1`.
+ * @property {number} defaultPage - Initial uncontrolled page of a paginated list.
+ * @property {Function} onPageChange - Called with the newly requested page.
+ * @property {Ref<UnorderedListHandle>} ref - Receives methods scrolling the list.
  *
  * @example
  * ```tsx
@@ -78,13 +228,598 @@ export interface UnorderedListProps {
    * When not provided, the list will render as empty.
    */
   readonly children?: ReactNode;
+
+  /**
+   * Data tree to render as list items. When provided, `children` is ignored
+   * and nested lists are built automatically from each node's `children`.
+   */
+  readonly items?: readonly UnorderedListItemData[];
+
+  /**
+   * Renders the content of a single data item. Only used together with
+   * `items`; the same callback is applied at every nesting level.
+   */
+  readonly renderItem?: (
+    item: UnorderedListItemData,
+    state: UnorderedListItemState,
+  ) => ReactNode;
+
+  /**
+   * How items are attached to the list. `"tree"` replaces markers with
+   * box-drawing connectors (`├─`, `└─`) and draws vertical bars down to the
+   * next sibling, like `tree` or `npm ls`. Nested lists inherit the variant
+   * of their parent unless they set their own. Defaults to `"default"`.
+   */
+  readonly variant?: UnorderedListVariant;
+
+  /**
+   * Turns the list into a keyboard-navigable menu over `items`, or over
+   * its UnorderedList.Item children when `items` is not set.
+   * ↑/k and ↓/j move the focus cursor, Home/End jump to the first/last
+   * item and Enter selects the focused item. Focus moves across all
+   * nesting levels in document order.
+   */
+  readonly interactive?: boolean;
+
+  /**
+   * Key of the item focused when the list mounts.
+   * Defaults to the first item. Items written as UnorderedList.Item are
+   * keyed by their path, e.g. `"1.0"` for the first item nested in the
+   * second one.
+   */
+  readonly defaultFocusedKey?: string;
+
+  /**
+   * Time, in milliseconds, after which the characters typed to jump to an
+   * item start a new prefix instead of extending the current one.
+   * Defaults to 500.
+   */
+  readonly typeAheadTimeout?: number;
+
+  /**
+   * Called with the newly focused item whenever the focus cursor moves.
+   */
+  readonly onFocusChange?: (item: UnorderedListItemData) => void;
+
+  /**
+   * Called with the focused item when Enter is pressed.
+   */
+  readonly onSelect?: (item: UnorderedListItemData) => void;
+
+  /**
+   * Turns the list into an interactive multi-select list over `items`.
+   * Implies `interactive`. Space toggles the focused item (and all of its
+   * descendants), Ctrl+A selects all items and Ctrl+N clears the selection.
+   * Markers are replaced by the theme's checkbox glyphs, and parents show
+   * an indeterminate checkbox while their children are partially selected.
+   */
+  readonly multiple?: boolean;
+
+  /**
+   * Keys of the selected items, for a controlled multi-select list.
+   */
+  readonly selectedKeys?: readonly string[];
+
+  /**
+   * Keys of the items selected on mount, for an uncontrolled multi-select list.
+   */
+  readonly defaultSelectedKeys?: readonly string[];
+
+  /**
+   * Called with the keys of all checked items, in document order, whenever
+   * the selection changes. Parents are included when all of their children
+   * are selected.
+   */
+  readonly onSelectionChange?: (selectedKeys: string[]) => void;
+
+  /**
+   * Lets the user narrow `items` down by typing a query. Implies
+   * `interactive`. `/` opens a query input above the items, in which
+   * printable characters are typed, Backspace deletes and ↑/↓ still move the
+   * focus; Enter closes the input and keeps the filter, Escape clears it.
+   * Only the items matching the query and their ancestors are shown, with
+   * the matching characters highlighted, and the theme's `filterEmpty` text
+   * replaces the items when none match.
+   */
+  readonly filterable?: boolean;
+
+  /**
+   * Filter query, for a controlled filter. Filters any data-driven list,
+   * filterable or not, e.g. from a text input of the application.
+   */
+  readonly filterQuery?: string;
+
+  /**
+   * Filter query on mount, for an uncontrolled filter.
+   */
+  readonly defaultFilterQuery?: string;
+
+  /**
+   * Called with the new query whenever it is typed into the query input.
+   */
+  readonly onFilterChange?: (query: string) => void;
+
+  /**
+   * How the query is matched against the `searchText` of items, or their
+   * `label` without one: as a case-insensitive substring (`"substring"`, the
+   * default) or as characters in order (`"fuzzy"`).
+   */
+  readonly filterMode?: UnorderedListFilterMode;
+
+  /**
+   * Sorts the items of `items`, at every nesting level: by their `label`,
+   * their `key` or a value read by a function, or with a comparator, as an
+   * object also setting the direction, natural-numeric ordering and the
+   * locale of the collation. The sort is stable. In an interactive list, `s`
+   * cycles the order through ascending, descending and the order of the data.
+   */
+  readonly sortBy?: UnorderedListSort | UnorderedListSortKey;
+
+  /**
+   * Gathers the items of `items` into groups, at every nesting level,
+   * titled by the string returned for each item. Items for which it returns
+   * `undefined` stay out of groups. Groups come in the order of their first
+   * item, after sorting.
+   */
+  readonly groupBy?: (item: UnorderedListItemData) => string | undefined;
+
+  /**
+   * Called with the new sort direction whenever `s` cycles it, `undefined`
+   * once the items are back in the order of the data.
+   */
+  readonly onSortChange?: (
+    direction: UnorderedListSortDirection | undefined,
+  ) => void;
+
+  /**
+   * Makes the items of `items` that have children collapsible. Their marker
+   * is replaced by the theme's expand/collapse glyph and collapsed items hide
+   * their children. In an interactive list, → expands and ← collapses the
+   * focused item, and Enter toggles it instead of calling `onSelect`.
+   */
+  readonly collapsible?: boolean;
+
+  /**
+   * Keys of the expanded items, for a controlled collapsible list.
+   */
+  readonly expandedKeys?: readonly string[];
+
+  /**
+   * Keys of the items expanded on mount, for an uncontrolled collapsible
+   * list. Defaults to all items with children, including items passed after
+   * mount, which then start expanded as well.
+   */
+  readonly defaultExpandedKeys?: readonly string[];
+
+  /**
+   * Called with the keys of all expanded items whenever an item is expanded
+   * or collapsed.
+   */
+  readonly onExpandedChange?: (expandedKeys: string[]) => void;
+
+  /**
+   * Marker of the items of this list, overriding the theme's `marker`
+   * configuration without a ThemeProvider. Accepts the same values: a
+   * string, an array indexed by depth or a resolver called for every item.
+   * Nested lists rendered from `items` inherit it; hand-written nested lists
+   * keep using the theme unless they set their own.
+   */
+  readonly marker?: UnorderedListMarker;
+
+  /**
+   * How item text wider than the content column is laid out: wrapped below
+   * the content column (`"wrap"`) or cut with an ellipsis at the end, in the
+   * middle or at the start of each line. Inherited by nested lists and
+   * overridable per item. Defaults to the theme's `wrap` option.
+   */
+  readonly wrap?: UnorderedListWrap;
+
+  /**
+   * Maximum number of text lines of each item. Extra lines are replaced by a
+   * `…(+N more lines)` indicator. Inherited by nested lists and overridable
+   * per item. Defaults to the theme's `maxLines` option (unlimited).
+   */
+  readonly maxLines?: number;
+
+  /**
+   * Extra indentation, in columns, of the continuation lines of item text
+   * relative to the content column. Inherited by nested lists and
+   * overridable per item. Defaults to the theme's `hangingIndent` option.
+   */
+  readonly hangingIndent?: number;
+
+  /**
+   * Renders `items` as a flat window of rows instead of one element per
+   * item: the whole tree is flattened in document order and only the rows
+   * that fit in `height` are mounted, which keeps lists of thousands of
+   * items fast to lay out. The window follows the focus cursor of an
+   * interactive list. Depth-based markers, indentation and tree connectors
+   * are preserved. Ignored without `items`.
+   */
+  readonly virtualized?: boolean;
+
+  /**
+   * Number of rows mounted by a virtualized list. Each item counts as one
+   * row, so items should fit on a single line, e.g. with
+   * `wrap="truncate-end"`. Defaults to the number of rows of the terminal.
+   */
+  readonly height?: number;
+
+  /**
+   * Number of terminal rows the list may take. Items past it are clipped
+   * and replaced by "↑ N more" / "↓ N more" indicators, which take one row
+   * each and are styled with the theme's `scrollIndicator` style. The list
+   * then scrolls by one page with PageUp/PageDown, through `ref`, and to the
+   * item holding the focus of an interactive list. The list scrolls by root
+   * items, each taking a row plus one per visible nested item or group
+   * header, and the indicators count the rows hidden. Items whose text
+   * wraps are clipped. Ignored by virtualized lists, which use `height`
+   * instead.
+   */
+  readonly maxHeight?: number;
+
+  /**
+   * Splits the list into pages of at most this many items and renders one
+   * page at a time, followed by the theme's `pageFooter` (e.g.
+   * `Page 2/7 · n/p to navigate`) styled with `pageFooter`. Nested items
+   * count towards the page size, but are never separated from their parent:
+   * pages hold whole root items with their visible descendants, and a root
+   * item with more descendants than `pageSize` gets a page of its own. The
+   * `n` and `p` keys turn the pages. Ignored by virtualized lists.
+   */
+  readonly pageSize?: number;
+
+  /**
+   * Page shown, numbered from `1`, for a controlled paginated list.
+   */
+  readonly page?: number;
+
+  /**
+   * Page shown on mount, numbered from `1`, for an uncontrolled paginated
+   * list. Defaults to the first page.
+   */
+  readonly defaultPage?: number;
+
+  /**
+   * Called with the requested page whenever the page changes through the
+   * keyboard, `ref` or the focus of an interactive list.
+   */
+  readonly onPageChange?: (page: number) => void;
+
+  /**
+   * Shows a summary line below the items of a checklist, counting the items
+   * of each status, descendants included (e.g. `3/5 done, 1 failed`). The
+   * line is rendered by the theme's `statusSummary` and styled with the
+   * `statusSummary` style.
+   */
+  readonly summary?: boolean;
+
+  /**
+   * Receives the methods scrolling a list with a `maxHeight` and turning the
+   * pages of a list with a `pageSize`.
+   */
+  readonly ref?: Ref<UnorderedListHandle>;
 }
 
+/**
+ * Fallback tree used by the interactive hooks of lists without `items`.
+ */
+const noItems: readonly UnorderedListItemData[] = [];
+
+/**
+ * Fallback matches and source items of lists that are not filtered.
+ */
+const noMatches: ReadonlyMap<string, readonly number[]> = new Map();
+const noSourceItems: ReadonlyMap<string, UnorderedListItemData> = new Map();
+
+/**
+ * Expanded states registered by the items of a list, before any registers.
+ */
+const noItemExpansions: ReadonlyMap<string, UnorderedListItemExpansion> =
+  new Map();
+
+/**
+ * Reads the marker set through the `status` or `marker` prop of an item element.
+ *
+ * @param {ReactNode} entry - A child of the list
+ * @param {Record<string, unknown> | undefined} config - Resolved theme configuration
+ * @returns {ReactNode} The glyph of the status of the item, its marker
+ *   override, or `undefined`
+ */
+const getMarkerOverride = (
+  entry: ReactNode,
+  config: Record<string, unknown> | undefined,
+): ReactNode =>
+  isValidElement<UnorderedListItemProps>(entry) &&
+  entry.type === UnorderedListItem
+    ? (resolveStatusMarker(config, entry.props.status)?.marker ??
+      entry.props.marker)
+    : undefined;
+
+/**
+ * Tells whether a child of a list is an UnorderedList.Group.
+ *
+ * @param {ReactNode} entry - A child of the list
+ * @returns {boolean} `true` for UnorderedListGroup elements
+ */
+const isGroupEntry = (
+  entry: ReactNode,
+): entry is ReactElement<UnorderedListGroupProps> =>
+  isValidElement(entry) && entry.type === UnorderedListGroup;
+
+/**
+ * Lists the entries of a list, with the items of its groups.
+ *
+ * @param {ReactNode[]} entries - The children of the list
+ * @returns {ReactNode[]} The children, each group replaced by its header
+ *   followed by its own entries
+ *
+ * Entries of groups are keyed after their group, so that they don't clash
+ * with the children of the list.
+ */
+const expandGroupEntries = (entries: ReactNode[]): ReactNode[] =>
+  entries.flatMap((entry) =>
+    isGroupEntry(entry)
+      ? [
+          cloneElement(entry, { children: undefined }),
+          ...expandGroupEntries(Children.toArray(entry.props.children)).map(
+            (child) =>
+              isValidElement(child)
+                ? cloneElement(child, { key: `${entry.key}${child.key}` })
+                : child,
+          ),
+        ]
+      : [entry],
+  );
+
+/**
+ * Counts the items of a data tree, descendants included.
+ *
+ * @param {readonly UnorderedListItemData[]} data - The list tree
+ * @param {boolean} [countHeaders=false] - Counts groups as well
+ * @returns {number} Number of items in the tree, groups left out unless
+ *   `countHeaders` is set
+ */
+const countDataItems = (
+  data: readonly UnorderedListItemData[],
+  countHeaders = false,
+): number =>
+  data.reduce(
+    (count, item) =>
+      count +
+      (item.group && !countHeaders ? 0 : 1) +
+      countDataItems(item.children ?? [], countHeaders),
+    0,
+  );
+
+/**
+ * Counts the items shown by a child of a list, for pagination, or the rows
+ * it takes, for the viewport of a list with a `maxHeight`.
+ *
+ * @param {ReactNode} entry - A child of the list
+ * @param {boolean} [countHeaders=false] - Counts the header row of groups
+ * @returns {number} `1` for the child itself, plus the items of the nested
+ *   lists of an UnorderedList.Item that is not collapsed; the items of a
+ *   group, which only counts itself with `countHeaders`
+ */
+const countEntryItems = (entry: ReactNode, countHeaders = false): number => {
+  if (isGroupEntry(entry)) {
+    return Children.toArray(entry.props.children).reduce<number>(
+      (count, child) => count + countEntryItems(child, countHeaders),
+      countHeaders ? 1 : 0,
+    );
+  }
+
+  if (
+    !isValidElement<UnorderedListItemProps>(entry) ||
+    entry.type !== UnorderedListItem ||
+    (entry.props.expanded ?? entry.props.defaultExpanded) === false
+  ) {
+    return 1;
+  }
+
+  return Children.toArray(entry.props.children).reduce<number>(
+    (count, child) => {
+      if (
+        !isValidElement<UnorderedListProps>(child) ||
+        child.type !== UnorderedList
+      ) {
+        return count;
+      }
+
+      return (
+        count +
+        (child.props.items
+          ? countDataItems(child.props.items, countHeaders)
+          : Children.toArray(child.props.children).reduce<number>(
+              (total, nested) => total + countEntryItems(nested, countHeaders),
+              0,
+            ))
+      );
+    },
+    1,
+  );
+};
+
+/**
+ * Lists the statuses of the items shown by a child of a list, for its summary.
+ *
+ * @param {ReactNode} entry - A child of the list
+ * @returns {(UnorderedListStatus | undefined)[]} The status of the child,
+ *   followed by the statuses of the items of its nested lists, collapsed or
+ *   not; the statuses of the items of a group
+ */
+const getEntryStatuses = (
+  entry: ReactNode,
+): (UnorderedListStatus | undefined)[] => {
+  if (isGroupEntry(entry)) {
+    return Children.toArray(entry.props.children).flatMap(getEntryStatuses);
+  }
+
+  if (
+    !isValidElement<UnorderedListItemProps>(entry) ||
+    entry.type !== UnorderedListItem
+  ) {
+    return [];
+  }
+
+  return Children.toArray(entry.props.children).reduce<
+    (UnorderedListStatus | undefined)[]
+  >(
+    (statuses, child) => {
+      if (
+        !isValidElement<UnorderedListProps>(child) ||
+        child.type !== UnorderedList
+      ) {
+        return statuses;
+      }
+
+      return [
+        ...statuses,
+        ...(child.props.items
+          ? getItemStatuses(child.props.items)
+          : Children.toArray(child.props.children).flatMap(getEntryStatuses)),
+      ];
+    },
+    [entry.props.status],
+  );
+};
+
+/**
+ * Reads the plain text of the content of an item element.
+ *
+ * @param {ReactNode} content - The children of an UnorderedList.Item
+ * @returns {string} The strings and numbers of the content and of its Text
+ *   elements, joined
+ */
+const getEntryLabel = (content: ReactNode): string =>
+  Children.toArray(content)
+    .map((child) =>
+      typeof child === "string" || typeof child === "number"
+        ? String(child)
+        : isValidElement<TextProps>(child) && child.type === Text
+          ? getEntryLabel(child.props.children)
+          : "",
+    )
+    .join("");
+
+/**
+ * Describes the children of a list as a data tree, for the focus cursor of
+ * an interactive list without `items`.
+ *
+ * @param {ReactNode[]} entries - The children of the list, groups expanded
+ * @param {readonly number[]} path - Path of the item holding the list
+ * @param {Set<string>} collapsedKeys - Receives the keys of the items that
+ *   are collapsed when they mount
+ * @returns {UnorderedListItemData[]} One data item per entry, in order:
+ *   UnorderedList.Item elements keyed by their path and labelled with their
+ *   plain text, with the items of their nested lists as children; groups as
+ *   headers; any other child as an item that cannot be chosen
+ *
+ * The rows of the tree line up with the entries of the list, and their keys
+ * with the paths the items read from UnorderedListItemContext, so that each
+ * item can tell whether it has the focus. Nested lists with `items` bring
+ * their own data items.
+ */
+const describeEntries = (
+  entries: readonly ReactNode[],
+  path: readonly number[],
+  collapsedKeys: Set<string>,
+): UnorderedListItemData[] => {
+  let index = 0;
+
+  return entries.map((entry, entryIndex) => {
+    if (isGroupEntry(entry)) {
+      return {
+        key: `group:${[...path, entryIndex].join(".")}`,
+        label: getEntryLabel(entry.props.title),
+        group: true,
+      };
+    }
+
+    const itemPath = [...path, index++];
+    const key = itemPath.join(".");
+
+    if (
+      !isValidElement<UnorderedListItemProps>(entry) ||
+      entry.type !== UnorderedListItem
+    ) {
+      return { key, label: "", selectable: false };
+    }
+
+    const { props } = entry;
+    const nested = Children.toArray(props.children).flatMap((child) =>
+      isValidElement<UnorderedListProps>(child) && child.type === UnorderedList
+        ? (child.props.items ??
+          describeEntries(
+            expandGroupEntries(Children.toArray(child.props.children)),
+            itemPath,
+            collapsedKeys,
+          ))
+        : [],
+    );
+
+    if ((props.expanded ?? props.defaultExpanded) === false) {
+      collapsedKeys.add(key);
+    }
+
+    return {
+      key,
+      label: getEntryLabel(props.children),
+      status: props.status,
+      disabled: props.disabled,
+      disabledReason:
+        props.disabledReason === undefined || props.disabledReason === null
+          ? undefined
+          : getEntryLabel(props.disabledReason),
+      selectable: props.selectable,
+      children: nested.length > 0 ? nested : undefined,
+    };
+  });
+};
+
 /**
  * UnorderedList component for rendering bulleted lists in terminal UIs.
  *
  * @param {UnorderedListProps} props - Component props
  * @param {ReactNode} props.children - List items to render
+ * @param {readonly UnorderedListItemData[]} props.items - Data tree to render instead of children
+ * @param {Function} props.renderItem - Content renderer for data items
+ * @param {UnorderedListVariant} props.variant - Rendering variant, inherited by nested lists
+ * @param {boolean} props.interactive - Enables keyboard navigation over items
+ * @param {string} props.defaultFocusedKey - Key of the item focused on mount
+ * @param {number} props.typeAheadTimeout - Timeout of the type-ahead prefix
+ * @param {Function} props.onFocusChange - Focus change callback
+ * @param {Function} props.onSelect - Selection callback
+ * @param {boolean} props.multiple - Enables multi-select mode
+ * @param {readonly string[]} props.selectedKeys - Controlled selection
+ * @param {readonly string[]} props.defaultSelectedKeys - Initial uncontrolled selection
+ * @param {Function} props.onSelectionChange - Selection change callback
+ * @param {boolean} props.filterable - Enables the inline query input
+ * @param {string} props.filterQuery - Controlled filter query
+ * @param {string} props.defaultFilterQuery - Initial uncontrolled filter query
+ * @param {Function} props.onFilterChange - Filter query change callback
+ * @param {UnorderedListFilterMode} props.filterMode - How the query is matched
+ * @param {UnorderedListSort | UnorderedListSortKey} props.sortBy - How data items are sorted
+ * @param {Function} props.groupBy - Group title of data items
+ * @param {Function} props.onSortChange - Sort direction change callback
+ * @param {boolean} props.collapsible - Enables collapsing items with children
+ * @param {readonly string[]} props.expandedKeys - Controlled expanded items
+ * @param {readonly string[]} props.defaultExpandedKeys - Initial uncontrolled expanded items
+ * @param {Function} props.onExpandedChange - Expansion change callback
+ * @param {UnorderedListMarker} props.marker - Marker overriding the theme configuration
+ * @param {UnorderedListWrap} props.wrap - Wrap or truncation mode of item text
+ * @param {number} props.maxLines - Maximum number of text lines per item
+ * @param {number} props.hangingIndent - Extra indentation of continuation lines
+ * @param {boolean} props.virtualized - Only mounts the visible rows of `items`
+ * @param {number} props.height - Number of rows mounted by a virtualized list
+ * @param {number} props.maxHeight - Number of rows the list may take before it scrolls
+ * @param {number} props.pageSize - Number of items per page of a paginated list
+ * @param {number} props.page - Controlled page of a paginated list
+ * @param {number} props.defaultPage - Initial uncontrolled page of a paginated list
+ * @param {Function} props.onPageChange - Page change callback
+ * @param {boolean} props.summary - Shows the status summary line of a checklist
+ * @param {Ref<UnorderedListHandle>} props.ref - Receives the scroll and page methods
  *
  * @returns {JSX.Element} The rendered unordered list component
  *
@@ -94,16 +829,113 @@ export interface UnorderedListProps {
  * - Marker resolution for different nesting levels
  * - Nested list support with automatic depth increment
  *
- * The component uses two React Contexts:
- * 1. UnorderedListContext - Tracks the current nesting depth
- * 2. UnorderedListItemContext - Provides the marker character to items
+ * The theme's `list` style function is called with the depth of the list,
+ * so themes can e.g. indent or space deeper levels differently.
+ *
+ * The component uses three React Contexts:
+ * 1. UnorderedListContext - Tracks the current nesting depth and variant
+ * 2. UnorderedListItemContext - Provides the marker character to items,
+ *    along with the position of each item among its siblings and the
+ *    indices of its ancestors
+ * 3. UnorderedListAnimationContext - Shares the animation clock of the root
+ *    list with the animated markers and spinners of the whole tree, so they
+ *    advance together on a single timer that only runs while they are
+ *    mounted
+ *
+ * When `items` is provided, the list is data-driven: every node is rendered
+ * as an UnorderedList.Item whose content comes from `renderItem`, and nodes
+ * with children produce a nested UnorderedList, so depth tracking and marker
+ * resolution work exactly as for hand-written nested lists.
+ *
+ * An interactive list owns the focus cursor for its whole data tree and
+ * shares it with the nested lists it renders through
+ * UnorderedListInteractionContext. Without `items`, the focus moves across
+ * the UnorderedList.Item children of the list and of its nested lists,
+ * which are described to the callbacks as data items keyed by their path
+ * (`"0"`, `"0.1"`, ...) and labelled with their plain text; the other
+ * interactive features (`multiple`, `filterable`, `sortBy`) need `items`.
+ * The focused item is highlighted with the `focusedItem` theme style. In
+ * `multiple` mode the same context carries the selection, from which every
+ * nested list derives the checkbox state of its items. A `collapsible` list
+ * shares its expanded items the same way; the focus cursor skips the
+ * children of collapsed items.
+ *
+ * Typing printable characters in an interactive list moves the focus to the
+ * next item whose label starts with them, wrapping around, among the items
+ * the focus cursor can reach. Characters typed within `typeAheadTimeout` of
+ * each other form a longer prefix, and repeating a character cycles through
+ * the items starting with it. Keys used by the other features of the list
+ * (Space in `multiple` mode, `/` in a `filterable` list, `n`/`p` with a
+ * `pageSize`, `s` with a `sortBy`) keep their meaning, and `j`, `k` and
+ * other spaces only extend a prefix being typed.
+ *
+ * Data items with `disabled` or `selectable: false` set are never focused:
+ * navigation and type-ahead skip them, and multi-select actions leave their
+ * checked state alone. Disabled items are dimmed with the `disabledItem`
+ * theme style, and moving the focus past one shows its `disabledReason`
+ * until the next keypress. Items that cannot be selected show no checkbox,
+ * which suits section headings.
+ *
+ * UnorderedList.Group children, and data items with `group` set, gather
+ * items under a header styled with the `groupHeader` theme style. A group is
+ * not an item: its header takes a row but no marker, and its items are
+ * items of the list itself, at its depth, whose positions, marker widths,
+ * counts and pages only count items. Navigation never focuses headers, and
+ * a page starts with the header of its first item.
+ *
+ * `sortBy` and `groupBy` arrange `items` before anything else, at every
+ * level: the tree is sorted, stably, then its items are gathered into
+ * groups, and filtering, selection, navigation and callbacks all work on
+ * the arranged tree. `s` cycles the sort order of an interactive list,
+ * except while the query input of a filterable list is open.
  *
- * Marker resolution logic:
+ * Marker resolution logic (the `marker` prop takes precedence over config.marker):
  * - If config.marker is a string, all items use that marker
  * - If config.marker is an array, markers are selected by depth index
  * - If no marker is found at the current depth, the last array element is used
+ * - If config.marker is a function, it is called for every item with the
+ *   item's depth, position and, for data-driven lists, its data
  * - Falls back to defaultMarker if no valid marker is configured
  *
+ * Markers are measured with string-width once resolved, including the
+ * `marker` props of UnorderedList.Item children, and the width of the widest
+ * one is shared with every item so that all contents start in the same
+ * column. The theme's `markerAlign` option pads narrower markers on their
+ * right (`"left"`, the default) or on their left (`"right"`).
+ *
+ * A `virtualized` list flattens `items` into rows and only mounts the
+ * `height` rows around the focused item, so its render cost depends on the
+ * window rather than on the size of the tree. Every row is an
+ * UnorderedList.Item indented by the marker columns of its ancestors (or
+ * drawn below their tree connectors) and wrapped in the contexts a nested
+ * list would provide, so markers still follow the depth of each item.
+ * Marker columns are aligned across the visible rows only, and collapsed
+ * items do not show the number of their hidden children.
+ *
+ * With a `maxHeight`, a list that does not fit only shows the items of its
+ * viewport, clipped to that height, and counts the rows of the others,
+ * nested items included, in "↑ N more" and "↓ N more" indicators.
+ * PageUp/PageDown and the {@link UnorderedListHandle} passed to `ref` scroll
+ * it, and an interactive list scrolls to the item holding its focus.
+ *
+ * With a `pageSize`, the root items are split into pages weighted by the
+ * number of items they show, nested ones included, and only the current
+ * page is rendered, followed by a footer when there are several pages. This
+ * works in non-interactive output, where a list cannot scroll. `n`/`p`, the
+ * `ref` and the focus of an interactive list turn the pages.
+ *
+ * A `filterable` list, or a list with a `filterQuery`, renders the items of
+ * `items` matching the query along with their ancestors, at their original
+ * depth, so markers and tree connectors follow the filtered tree. Ancestors
+ * of matches are shown expanded, nested lists receive the matches through
+ * UnorderedListInteractionContext to highlight them, and callbacks receive
+ * the original items, children included.
+ *
+ * Items with a `status` (the prop of UnorderedList.Item or the field of
+ * data items) make the list a checklist: their markers show the glyph of
+ * their status, measured like other markers, and `summary` adds a line
+ * counting the statuses of all items below the list, above the page footer.
+ *
  * @example
  * Basic usage:
  * ```tsx
@@ -130,13 +962,78 @@ export interface UnorderedListProps {
  * </ThemeProvider>
  * ```
  *
+ * @example
+ * With a one-off marker:
+ * ```tsx
+ * <UnorderedList marker="⚠">
+ *   <UnorderedList.Item>
+ *     <Text>Deprecated option</Text>
+ *   </UnorderedList.Item>
+ * </UnorderedList>
+ * ```
+ *
  * @see {@link UnorderedListProps}
  * @see {@link UnorderedListItem}
  * @see {@link unorderedListTheme}
  */
-export function UnorderedList({ children }: UnorderedListProps): JSX.Element {
-  const { depth } = useContext(UnorderedListContext);
-  const props = { children };
+export function UnorderedList({
+  children,
+  items,
+  renderItem,
+  variant,
+  interactive = false,
+  defaultFocusedKey,
+  typeAheadTimeout,
+  onFocusChange,
+  onSelect,
+  multiple = false,
+  selectedKeys,
+  defaultSelectedKeys,
+  onSelectionChange,
+  filterable = false,
+  filterQuery,
+  defaultFilterQuery,
+  onFilterChange,
+  filterMode = "substring",
+  sortBy,
+  groupBy,
+  onSortChange,
+  collapsible = false,
+  expandedKeys,
+  defaultExpandedKeys,
+  onExpandedChange,
+  marker,
+  wrap,
+  maxLines,
+  hangingIndent,
+  virtualized = false,
+  height,
+  maxHeight,
+  pageSize,
+  page,
+  defaultPage,
+  onPageChange,
+  summary = false,
+  ref,
+}: UnorderedListProps): JSX.Element {
+  const parentList = useContext(UnorderedListContext);
+  const { depth, variant: parentVariant } = parentList;
+  const resolvedVariant = variant ?? parentVariant ?? "default";
+  const { path: parentPath = [] } = useContext(UnorderedListItemContext);
+  const ancestorPath = depth === 0 ? [] : parentPath;
+  const parentInteraction = useContext(UnorderedListInteractionContext);
+  const parentAnimation = useContext(UnorderedListAnimationContext);
+  const [ownClock] = useState(createAnimationClock);
+  const isInteractive = interactive || multiple || filterable;
+  const isVirtualized = virtualized && items !== undefined;
+  const { stdout } = useStdout();
+  const props = {
+    children,
+    items,
+    renderItem,
+    interactive: isInteractive,
+    depth,
+  };
   const { styles, config } = useComponentTheme(
     "UnorderedList",
     unorderedListTheme,
@@ -146,35 +1043,751 @@ export function UnorderedList({ children }: UnorderedListProps): JSX.Element {
   const listContext = useMemo(
     () => ({
       depth: depth + 1,
+      variant: resolvedVariant,
+      wrap: wrap ?? parentList.wrap,
+      maxLines: maxLines ?? parentList.maxLines,
+      hangingIndent: hangingIndent ?? parentList.hangingIndent,
     }),
-    [depth],
+    [depth, resolvedVariant, wrap, maxLines, hangingIndent, parentList],
   );
 
-  const listItemContext = useMemo(() => {
-    const resolvedConfig =
-      typeof config === "function" ? config(props) : config;
-    const marker = resolvedConfig?.marker as string | string[] | undefined;
+  const animationContext = useMemo(
+    () =>
+      parentAnimation.clock === undefined
+        ? { clock: ownClock }
+        : parentAnimation,
+    [parentAnimation, ownClock],
+  );
+
+  const resolvedConfig = useMemo(
+    () => (typeof config === "function" ? config(props) : config),
+    [config, depth],
+  );
+  const markerConfig = marker ?? resolvedConfig?.marker;
+
+  const sort = useListSort({
+    items: items ?? noItems,
+    sortBy,
+    groupBy,
+    onSortChange,
+  });
+  const listItems = items ? sort.items : undefined;
+
+  const expansion = useListExpansion({
+    items: listItems ?? noItems,
+    expandedKeys,
+    defaultExpandedKeys,
+    onExpandedChange,
+  });
 
-    if (typeof marker === "string") {
-      return { marker };
+  const filter = useListFilter({
+    items: listItems ?? noItems,
+    isActive: isInteractive && filterable,
+    mode: filterMode,
+    query: filterQuery,
+    defaultQuery: defaultFilterQuery,
+    onQueryChange: onFilterChange,
+  });
+  const filterResult = listItems ? filter.result : undefined;
+  const shownItems = filterResult?.items ?? listItems;
+  const filteredExpandedKeys = useMemo(
+    () =>
+      new Set(
+        flattenItems(filterResult?.items ?? noItems)
+          .filter((row) => hasChildren(row.item))
+          .map((row) => row.item.key),
+      ),
+    [filterResult],
+  );
+  const getSourceItem = (item: UnorderedListItemData) =>
+    filterResult?.sources.get(item.key) ?? item;
+  const entryItems = useMemo(
+    () => shownItems && expandGroups(shownItems),
+    [shownItems],
+  );
+
+  const [itemExpansions, setItemExpansions] = useState(noItemExpansions);
+  const registerExpansion = useCallback(
+    (key: string, itemExpansion: UnorderedListItemExpansion) => {
+      setItemExpansions((current) => new Map(current).set(key, itemExpansion));
+
+      return () =>
+        setItemExpansions((current) => {
+          if (current.get(key) !== itemExpansion) {
+            return current;
+          }
+
+          const next = new Map(current);
+          next.delete(key);
+          return next;
+        });
+    },
+    [],
+  );
+
+  const elementTree = useMemo(() => {
+    if (items || !isInteractive) {
+      return undefined;
     }
 
-    if (Array.isArray(marker)) {
-      return {
-        marker: marker[depth] ?? marker.at(-1) ?? defaultMarker,
-      };
+    const collapsedKeys = new Set<string>();
+    const entries = describeEntries(
+      expandGroupEntries(Children.toArray(children)),
+      ancestorPath,
+      collapsedKeys,
+    );
+
+    return { entries, collapsedKeys };
+  }, [items, isInteractive, children, depth, parentPath]);
+
+  const rows = useMemo(
+    () =>
+      elementTree
+        ? flattenItems(
+            elementTree.entries,
+            (item) =>
+              itemExpansions.get(item.key)?.expanded ??
+              !elementTree.collapsedKeys.has(item.key),
+          )
+        : (isInteractive ||
+              isVirtualized ||
+              pageSize !== undefined ||
+              maxHeight !== undefined) &&
+            shownItems
+          ? flattenItems(
+              shownItems,
+              (item) =>
+                !collapsible ||
+                filterResult !== undefined ||
+                expansion.expandedKeys.has(item.key),
+            )
+          : [],
+    [
+      elementTree,
+      itemExpansions,
+      isInteractive,
+      isVirtualized,
+      pageSize,
+      maxHeight,
+      shownItems,
+      collapsible,
+      filterResult,
+      expansion.expandedKeys,
+    ],
+  );
+  const rowIndexes = useMemo(
+    () =>
+      new Map(
+        isVirtualized ? rows.map((row, index) => [row.item.key, index]) : [],
+      ),
+    [isVirtualized, rows],
+  );
+  const rootEntries = useMemo(() => {
+    const indexes = new Map<string, number>();
+    const weights: number[] = [];
+    const rowCounts: number[] = [];
+
+    for (const row of rows) {
+      if (row.depth === 0) {
+        weights.push(0);
+        rowCounts.push(0);
+      }
+
+      indexes.set(row.item.key, weights.length - 1);
+      weights[weights.length - 1] += row.item.group ? 0 : 1;
+      rowCounts[rowCounts.length - 1] += 1;
     }
 
+    return { indexes, weights, rowCounts };
+  }, [rows]);
+
+  const { focusedKey, attemptedKey, focus } = useListNavigation({
+    rows,
+    isActive: isInteractive,
+    isTyping: filter.isEditing,
+    defaultFocusedKey,
+    typeAheadTimeout,
+    isReservedInput: (input, key) =>
+      (multiple && resolveSelectionAction(input, key) !== undefined) ||
+      (filterable && resolveFilterAction(input, key, false) !== undefined) ||
+      (sortBy !== undefined && resolveSortAction(input, key) !== undefined) ||
+      (pageSize !== undefined &&
+        !isVirtualized &&
+        resolvePageAction(input, key) !== undefined),
+    onFocusChange: (item) => onFocusChange?.(getSourceItem(item)),
+    onSelect: (item) => {
+      const itemExpansion = itemExpansions.get(item.key);
+
+      if (collapsible && hasChildren(item)) {
+        expansion.apply("toggle", item.key);
+      } else if (itemExpansion) {
+        itemExpansion.apply("toggle");
+      } else {
+        onSelect?.(getSourceItem(item));
+      }
+    },
+  });
+
+  useInput(
+    (input, key) => {
+      const action = resolveExpansionAction(input, key);
+
+      if (action === undefined) {
+        return;
+      }
+
+      if (elementTree) {
+        if (focusedKey !== undefined) {
+          itemExpansions.get(focusedKey)?.apply(action);
+        }
+      } else {
+        expansion.apply(action, focusedKey);
+      }
+    },
+    {
+      isActive:
+        isInteractive &&
+        (collapsible || elementTree !== undefined) &&
+        !filter.isEditing,
+    },
+  );
+
+  useInput(
+    (input, key) => {
+      if (resolveSortAction(input, key) !== undefined) {
+        sort.cycle();
+      }
+    },
+    { isActive: isInteractive && sortBy !== undefined && !filter.isEditing },
+  );
+
+  const listWindow = useListWindow({
+    rowCount: rows.length,
+    height: height ?? stdout.rows ?? rows.length,
+    focusedIndex:
+      focusedKey === undefined ? -1 : (rowIndexes.get(focusedKey) ?? -1),
+  });
+
+  const childEntries = items
+    ? undefined
+    : expandGroupEntries(Children.toArray(children));
+  const focusedIndex =
+    isInteractive && focusedKey !== undefined
+      ? (rootEntries.indexes.get(focusedKey) ?? -1)
+      : -1;
+  const entryCount = entryItems?.length ?? childEntries?.length ?? 0;
+  const pageWeights =
+    pageSize === undefined
+      ? Array.from({ length: entryCount }, () => 1)
+      : entryItems
+        ? rootEntries.weights
+        : (childEntries ?? []).map((entry) => countEntryItems(entry));
+  const pagination = useListPagination({
+    weights: pageWeights,
+    pageSize: isVirtualized ? undefined : pageSize,
+    page,
+    defaultPage,
+    onPageChange,
+    focusedIndex,
+    isActive: !filter.isEditing,
+    // The focus moves onto a page turned with `n`, `p` or the `ref`, so that
+    // Enter never selects an item that is not shown.
+    onPageTurn: ({ start, end }) => {
+      if (!isInteractive || (focusedIndex >= start && focusedIndex < end)) {
+        return;
+      }
+
+      const row = rows.find((row) => {
+        const index = rootEntries.indexes.get(row.item.key) ?? -1;
+
+        return index >= start && index < end && isSelectableItem(row.item);
+      });
+
+      if (row) {
+        focus(row.item.key);
+      }
+    },
+  });
+  const { range } = pagination;
+  const rowCounts =
+    entryItems || elementTree
+      ? rootEntries.rowCounts
+      : (childEntries ?? []).map((entry) => countEntryItems(entry, true));
+  const { viewport, handle } = useListViewport({
+    itemCount: range.end - range.start,
+    rowCounts: rowCounts.slice(range.start, range.end),
+    maxHeight: isVirtualized ? undefined : maxHeight,
+    focusedIndex: focusedIndex < range.start ? -1 : focusedIndex - range.start,
+  });
+
+  useImperativeHandle(ref, () => ({ ...handle, ...pagination.handle }));
+
+  const selection = useListSelection({
+    items: listItems ?? noItems,
+    focusedKey,
+    isActive: multiple && !filter.isEditing,
+    selectedKeys,
+    defaultSelectedKeys,
+    onSelectionChange,
+  });
+
+  const interactionContext = useMemo(
+    () =>
+      isInteractive || collapsible || filterResult !== undefined
+        ? {
+            focusedKey,
+            attemptedKey,
+            multiple,
+            selectedKeys: selection,
+            collapsible,
+            expandedKeys: filterResult
+              ? filteredExpandedKeys
+              : expansion.expandedKeys,
+            matches: filterResult?.matches ?? noMatches,
+            sourceItems: filterResult?.sources ?? noSourceItems,
+            registerExpansion:
+              isInteractive && !items ? registerExpansion : undefined,
+          }
+        : parentInteraction,
+    [
+      isInteractive,
+      collapsible,
+      focusedKey,
+      attemptedKey,
+      multiple,
+      selection,
+      filterResult,
+      filteredExpandedKeys,
+      expansion.expandedKeys,
+      items,
+      registerExpansion,
+      parentInteraction,
+    ],
+  );
+
+  const getPosition = (index: number, siblingCount: number) => ({
+    index,
+    isFirst: index === 0,
+    isLast: index === siblingCount - 1,
+    siblingCount,
+    path: [...ancestorPath, index],
+  });
+
+  const getItemContext = (
+    index: number,
+    siblingCount: number,
+    item: UnorderedListItemData | undefined,
+  ) => {
+    const position = getPosition(index, siblingCount);
+
     return {
-      marker: defaultMarker,
+      ...position,
+      marker: resolveMarker(markerConfig, { depth, ...position, item }),
+    };
+  };
+
+  const getItemState = (
+    item: UnorderedListItemData,
+    position: ReturnType<typeof getPosition>,
+    itemDepth: number,
+  ): UnorderedListItemState => ({
+    depth: itemDepth,
+    ...position,
+    focused: item.key === interactionContext.focusedKey,
+    selected: interactionContext.multiple
+      ? getCheckedState(
+          interactionContext.sourceItems.get(item.key) ?? item,
+          interactionContext.selectedKeys,
+        )
+      : false,
+    expanded:
+      interactionContext.collapsible && hasChildren(item)
+        ? interactionContext.expandedKeys.has(item.key)
+        : undefined,
+    matches: interactionContext.matches.get(item.key),
+    disabled: item.disabled === true,
+  });
+
+  const renderDataItem = (
+    item: UnorderedListItemData,
+    state: UnorderedListItemState,
+    withChildren: boolean,
+  ) => (
+    <UnorderedListItem
+      key={item.key}
+      focused={state.focused}
+      selected={interactionContext.multiple ? state.selected : undefined}
+      expanded={state.expanded}
+      status={item.status}
+      highlight={renderItem ? undefined : state.matches}
+      disabled={item.disabled}
+      selectable={item.selectable}
+      disabledReason={
+        item.key === interactionContext.attemptedKey
+          ? item.disabledReason
+          : undefined
+      }
+    >
+      {renderItem ? (
+        renderItem(interactionContext.sourceItems.get(item.key) ?? item, state)
+      ) : (
+        <Text {...(state.focused ? styles.focusedItem : undefined)}>
+          {item.label}
+        </Text>
+      )}
+      {withChildren && hasChildren(item) ? (
+        <UnorderedList
+          items={item.children}
+          renderItem={renderItem}
+          marker={marker}
+        />
+      ) : null}
+    </UnorderedListItem>
+  );
+
+  const statusSummary =
+    (resolvedConfig?.statusSummary as
+      typeof defaultStatusSummary | undefined) ?? defaultStatusSummary;
+  const summaryLine = summary ? (
+    <Text {...styles.statusSummary}>
+      {statusSummary(
+        countStatuses(
+          items
+            ? getItemStatuses(items)
+            : (childEntries ?? []).flatMap(getEntryStatuses),
+        ),
+      )}
+    </Text>
+  ) : null;
+
+  const filterPrompt =
+    (resolvedConfig?.filterPrompt as string | undefined) ?? defaultFilterPrompt;
+  const filterEmpty =
+    (resolvedConfig?.filterEmpty as typeof defaultFilterEmpty | undefined) ??
+    defaultFilterEmpty;
+  const queryLine =
+    filterable && (filter.isEditing || filter.query !== "") ? (
+      <Text {...styles.filterInput}>
+        {filterPrompt}
+        {filter.query}
+        {filter.isEditing ? <Text inverse> </Text> : null}
+      </Text>
+    ) : null;
+  const emptyText =
+    filterResult && filterResult.items.length === 0 ? (
+      <Text {...styles.filterEmpty}>{filterEmpty(filter.query)}</Text>
+    ) : null;
+
+  if (isVirtualized) {
+    const gap = (styles.listItem as BoxProps | undefined)?.gap ?? 1;
+    const rowCache = new Map<
+      string,
+      {
+        state: UnorderedListItemState;
+        marker: ReactNode;
+        stateMarker: string | undefined;
+      }
+    >();
+    const describeRow = (row: FlatListItem) => {
+      const cached = rowCache.get(row.item.key);
+      if (cached) {
+        return cached;
+      }
+
+      const position = {
+        index: row.index,
+        isFirst: row.index === 0,
+        isLast: row.index === row.siblingCount - 1,
+        siblingCount: row.siblingCount,
+        path: [...ancestorPath, ...row.path],
+      };
+      const state = getItemState(row.item, position, depth + row.depth);
+      const described = {
+        state,
+        marker: resolveMarker(markerConfig, {
+          depth: depth + row.depth,
+          ...position,
+          item: row.item,
+        }),
+        stateMarker:
+          resolveStateMarker(
+            resolvedConfig,
+            interactionContext.multiple && row.item.selectable !== false
+              ? state.selected
+              : undefined,
+            state.expanded,
+          ) ?? resolveStatusMarker(resolvedConfig, row.item.status)?.marker,
+      };
+
+      rowCache.set(row.item.key, described);
+      return described;
+    };
+    const getAncestors = (row: FlatListItem) => {
+      const ancestors: FlatListItem[] = [];
+      let parentKey = row.parentKey;
+
+      while (parentKey !== undefined) {
+        const parent = rows[rowIndexes.get(parentKey) ?? -1];
+        if (!parent) {
+          break;
+        }
+
+        ancestors.unshift(parent);
+        parentKey = parent.parentKey;
+      }
+
+      return ancestors;
     };
-  }, [config, depth]);
+    const visibleRows = rows
+      .slice(listWindow.start, listWindow.end)
+      .map((row) => ({ row, ancestors: getAncestors(row) }));
+    const markerWidths: number[] = [];
+
+    for (const { row, ancestors } of visibleRows) {
+      for (const entry of row.item.group ? ancestors : [...ancestors, row]) {
+        const { marker: rowMarker, stateMarker } = describeRow(entry);
+
+        markerWidths[entry.depth] = Math.max(
+          markerWidths[entry.depth] ?? 0,
+          measureMarker(stateMarker ?? rowMarker),
+        );
+      }
+    }
+
+    const connectorWidth = (isLast: boolean) =>
+      measureMarker(resolveTreeConnector(resolvedConfig, isLast));
+
+    const virtualBody = emptyText ?? (
+      <Box {...styles.list}>
+        {visibleRows.map(({ row, ancestors }) => {
+          const { state, marker: rowMarker } = describeRow(row);
+
+          return (
+            <UnorderedListContext.Provider
+              key={row.item.key}
+              value={{
+                ...listContext,
+                depth: listContext.depth + row.depth,
+              }}
+            >
+              <UnorderedListItemContext.Provider
+                value={{
+                  marker: rowMarker,
+                  index: state.index,
+                  isFirst: state.isFirst,
+                  isLast: state.isLast,
+                  siblingCount: state.siblingCount,
+                  path: state.path,
+                  markerWidth:
+                    resolvedVariant === "tree"
+                      ? undefined
+                      : markerWidths[row.depth],
+                }}
+              >
+                <Box
+                  paddingLeft={
+                    resolvedVariant === "tree"
+                      ? 0
+                      : ancestors.reduce(
+                          (indent, ancestor) =>
+                            indent + (markerWidths[ancestor.depth] ?? 0) + gap,
+                          0,
+                        )
+                  }
+                >
+                  {resolvedVariant === "tree"
+                    ? ancestors.map((ancestor, level) => {
+                        const { stateMarker } = describeRow(ancestor);
+                        const isLast = row.ancestorsLast[level] ?? true;
+
+                        return (
+                          <Box
+                            key={ancestor.item.key}
+                            flexShrink={0}
+                            width={
+                              connectorWidth(isLast) +
+                              gap +
+                              (stateMarker === undefined
+                                ? 0
+                                : measureMarker(stateMarker) + gap)
+                            }
+                          >
+                            {isLast ? null : <Box {...styles.treeLine} />}
+                          </Box>
+                        );
+                      })
+                    : null}
+                  <Box flexDirection="column" flexGrow={1}>
+                    {row.item.group ? (
+                      <UnorderedListGroup title={row.item.label} />
+                    ) : (
+                      renderDataItem(row.item, state, false)
+                    )}
+                  </Box>
+                </Box>
+              </UnorderedListItemContext.Provider>
+            </UnorderedListContext.Provider>
+          );
+        })}
+      </Box>
+    );
+
+    return (
+      <UnorderedListContext.Provider value={listContext}>
+        <UnorderedListInteractionContext.Provider value={interactionContext}>
+          <UnorderedListAnimationContext.Provider value={animationContext}>
+            {queryLine || summaryLine ? (
+              <Box flexDirection="column">
+                {queryLine}
+                {virtualBody}
+                {summaryLine}
+              </Box>
+            ) : (
+              virtualBody
+            )}
+          </UnorderedListAnimationContext.Provider>
+        </UnorderedListInteractionContext.Provider>
+      </UnorderedListContext.Provider>
+    );
+  }
+
+  const entryGroups = entryItems
+    ? entryItems.map((item) => item.group === true)
+    : (childEntries ?? []).map(isGroupEntry);
+  let itemCount = 0;
+  const itemIndexes = entryGroups.map((isGroup) =>
+    isGroup ? itemCount : itemCount++,
+  );
+  const entries = entryItems
+    ? entryItems.map((item, entryIndex) =>
+        item.group ? (
+          <UnorderedListGroup key={item.key} title={item.label} />
+        ) : (
+          renderDataItem(
+            item,
+            getItemState(
+              item,
+              getPosition(itemIndexes[entryIndex] ?? 0, itemCount),
+              depth,
+            ),
+            true,
+          )
+        ),
+      )
+    : (childEntries ?? []);
+  const itemContexts = entries.map((_entry, entryIndex) =>
+    entryGroups[entryIndex]
+      ? undefined
+      : getItemContext(
+          itemIndexes[entryIndex] ?? 0,
+          itemCount,
+          entryItems?.[entryIndex],
+        ),
+  );
+  const markerWidth =
+    resolvedVariant === "tree"
+      ? undefined
+      : Math.max(
+          0,
+          ...entries.map((entry, index) =>
+            measureMarker(
+              getMarkerOverride(entry, resolvedConfig) ??
+                itemContexts[index]?.marker,
+            ),
+          ),
+        );
+
+  const visibleEntries = entries
+    .slice(range.start, range.end)
+    .slice(viewport.start, viewport.end)
+    .map((entry, offset) => {
+      const index = range.start + viewport.start + offset;
+
+      const itemContext = itemContexts[index];
+
+      if (!itemContext) {
+        return entry;
+      }
+
+      return (
+        <UnorderedListItemContext.Provider
+          key={isValidElement(entry) ? entry.key : index}
+          value={{ ...itemContext, markerWidth }}
+        >
+          {entry}
+        </UnorderedListItemContext.Provider>
+      );
+    });
+  const scrollIndicators = {
+    ...defaultScrollIndicators,
+    ...(resolvedConfig?.scrollIndicators as
+      Partial<typeof defaultScrollIndicators> | undefined),
+  };
+
+  const pageFooter =
+    (resolvedConfig?.pageFooter as typeof defaultPageFooter | undefined) ??
+    defaultPageFooter;
+  const isPaginated = pageSize !== undefined && pagination.pageCount > 1;
+  const body =
+    emptyText ??
+    (maxHeight === undefined ? (
+      <Box {...styles.list}>{visibleEntries}</Box>
+    ) : (
+      <Box
+        flexDirection="column"
+        height={
+          viewport.hiddenAbove + viewport.hiddenBelow > 0
+            ? maxHeight
+            : undefined
+        }
+        overflowY="hidden"
+      >
+        {viewport.hiddenAbove > 0 ? (
+          <Box flexShrink={0}>
+            <Text {...styles.scrollIndicator}>
+              {formatScrollIndicator(
+                scrollIndicators.above,
+                viewport.hiddenAbove,
+              )}
+            </Text>
+          </Box>
+        ) : null}
+        <Box overflowY="hidden" {...styles.list}>
+          {visibleEntries}
+        </Box>
+        {viewport.hiddenBelow > 0 ? (
+          <Box flexShrink={0}>
+            <Text {...styles.scrollIndicator}>
+              {formatScrollIndicator(
+                scrollIndicators.below,
+                viewport.hiddenBelow,
+              )}
+            </Text>
+          </Box>
+        ) : null}
+      </Box>
+    ));
 
   return (
     <UnorderedListContext.Provider value={listContext}>
-      <UnorderedListItemContext.Provider value={listItemContext}>
-        <Box {...styles.list}>{children}</Box>
-      </UnorderedListItemContext.Provider>
+      <UnorderedListInteractionContext.Provider value={interactionContext}>
+        <UnorderedListAnimationContext.Provider value={animationContext}>
+          {queryLine || summaryLine || isPaginated ? (
+            <Box flexDirection="column">
+              {queryLine}
+              {body}
+              {summaryLine}
+              {isPaginated ? (
+                <Text {...styles.pageFooter}>
+                  {pageFooter(pagination.page, pagination.pageCount)}
+                </Text>
+              ) : null}
+            </Box>
+          ) : (
+            body
+          )}
+        </UnorderedListAnimationContext.Provider>
+      </UnorderedListInteractionContext.Provider>
     </UnorderedListContext.Provider>
   );
 }
@@ -189,3 +1802,14 @@ export function UnorderedList({ children }: UnorderedListProps): JSX.Element {
  * @see {@link UnorderedListItem}
  */
 UnorderedList.Item = UnorderedListItem;
+
+/**
+ * Attached Group component for convenient access via UnorderedList.Group.
+ *
+ * @remarks
+ * Gathers items under a header without nesting them:
+ * `<UnorderedList><UnorderedList.Group title="...">...</UnorderedList.Group></UnorderedList>`
+ *
+ * @see {@link UnorderedListGroup}
+ */
+UnorderedList.Group = UnorderedListGroup;
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview UnorderedListGroup component implementation.
+ *
+ * @module components/UnorderedListGroup
+ *
+ * @description
+ * This module provides the UnorderedListGroup component, which gathers the
+ * items of a list under a section header, e.g. "Dependencies" and "Dev
+ * dependencies". A group is not an item: its header has no marker, and its
+ * items belong to the list holding the group, at the same depth as the
+ * items around it.
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList>
+ *   <UnorderedList.Group title="Dependencies">
+ *     <UnorderedList.Item>
+ *       <Text>react</Text>
+ *     </UnorderedList.Item>
+ *   </UnorderedList.Group>
+ *   <UnorderedList.Group title="Dev dependencies">
+ *     <UnorderedList.Item>
+ *       <Text>typescript</Text>
+ *     </UnorderedList.Item>
+ *   </UnorderedList.Group>
+ * </UnorderedList>
+ * ```
+ */
+
+import { Box, Text } from "tinky";
+import { useContext, type ReactNode, JSX } from "react";
+import { useComponentTheme } from "tinky-theme";
+import { unorderedListTheme } from "../themes/unordered-list-theme.js";
+import { UnorderedListContext } from "../contexts/unordered-list-context.js";
+
+/**
+ * Props for the UnorderedListGroup component.
+ *
+ * @interface UnorderedListGroupProps
+ *
+ * @property {ReactNode} title - Content of the header of the group.
+ * @property {ReactNode} children - The items of the group.
+ */
+export interface UnorderedListGroupProps {
+  /**
+   * Content of the header of the group, styled with the theme's
+   * `groupHeader` style.
+   */
+  readonly title: ReactNode;
+
+  /**
+   * The items of the group: UnorderedList.Item components, or other groups.
+   */
+  readonly children?: ReactNode;
+}
+
+/**
+ * UnorderedListGroup component gathering list items under a header.
+ *
+ * @param {UnorderedListGroupProps} props - Component props
+ * @param {ReactNode} props.title - Content of the header
+ * @param {ReactNode} props.children - Items of the group
+ *
+ * @returns {JSX.Element} The header of the group, followed by its children
+ *
+ * An UnorderedList renders the header of each of its groups in place of the
+ * group, followed by the items of the group as its own items: they take
+ * part in the positions, marker alignment, counts, pagination and scrolling
+ * of the list, while the header takes a row but no marker and no position.
+ * Groups do not nest the list, so their items keep the depth, and the
+ * markers, of the items around them.
+ *
+ * The header is styled with the theme's `groupHeader` style, called with
+ * the depth of the list.
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList.Group title="Dependencies">
+ *   <UnorderedList.Item>
+ *     <Text>react</Text>
+ *   </UnorderedList.Item>
+ * </UnorderedList.Group>
+ * ```
+ *
+ * @see {@link UnorderedListGroupProps}
+ * @see {@link UnorderedList}
+ */
+export function UnorderedListGroup({
+  title,
+  children,
+}: UnorderedListGroupProps): JSX.Element {
+  const { depth } = useContext(UnorderedListContext);
+  const props = { depth: Math.max(depth - 1, 0), title };
+  const { styles } = useComponentTheme(
+    "UnorderedList",
+    unorderedListTheme,
+    props,
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Text {...styles.groupHeader}>{title}</Text>
+      {children}
+    </Box>
+  );
+}
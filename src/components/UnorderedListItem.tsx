@@ -14,6 +14,11 @@
  * - Theme-based styling integration
  * - Flexible content rendering (any ReactNode)
  * - Consistent layout with marker and content separation
+ * - Optional collapsing of nested lists with expand/collapse markers
+ * - Status markers and spinners for progress checklists
+ * - Wrapping, truncation and line limits for long text
+ * - Highlighting of the characters matching the query of a filtered list
+ * - Dimmed disabled items, with the reason they are disabled
  *
  * @example
  * Basic usage:
@@ -42,11 +47,49 @@
  * ```
  */
 
-import { Box, Text } from "tinky";
-import { JSX, useContext, type ReactNode } from "react";
+import { Box, Text, useSizeObserver, type TextProps } from "tinky";
+import {
+  Children,
+  cloneElement,
+  isValidElement,
+  JSX,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactElement,
+  type ReactNode,
+} from "react";
 import { useComponentTheme } from "tinky-theme";
 import { unorderedListTheme } from "../themes/unordered-list-theme.js";
+import { UnorderedListContext } from "../contexts/unordered-list-context.js";
 import { UnorderedListItemContext } from "../contexts/unordered-list-item-context.js";
+import { UnorderedListInteractionContext } from "../contexts/unordered-list-interaction-context.js";
+import { useUnorderedListItem } from "../hooks/use-unordered-list-item.js";
+import { type UnorderedListStyleState } from "../types/unordered-list-style-state.js";
+import { type UnorderedListStatus } from "../types/unordered-list-status.js";
+import { type UnorderedListWrap } from "../types/unordered-list-wrap.js";
+import {
+  measureMarker,
+  resolveSpinner,
+  resolveStateMarker,
+  resolveStatusMarker,
+  resolveTreeConnector,
+} from "../utils/list-marker.js";
+import {
+  formatHiddenLines,
+  layoutText,
+  locateLines,
+  type TextLayoutOptions,
+} from "../utils/list-text.js";
+import { splitHighlights } from "../utils/list-filter.js";
+import { expandGroups } from "../utils/list-tree.js";
+import { UnorderedList, type UnorderedListProps } from "./UnorderedList.js";
+import { AnimatedMarker } from "./AnimatedMarker.js";
+import {
+  UnorderedListGroup,
+  type UnorderedListGroupProps,
+} from "./UnorderedListGroup.js";
 
 /**
  * Props for the UnorderedListItem component.
@@ -56,6 +99,34 @@ import { UnorderedListItemContext } from "../contexts/unordered-list-item-contex
  * @property {ReactNode} children - The content to render within the list item.
  *   Can be any valid ReactNode including text, elements, or nested components.
  *   The content is rendered to the right of the marker character.
+ * @property {boolean} focused - Whether the item has the focus cursor of an
+ *   interactive list. Focused items render their marker with the `focusedItem`
+ *   theme style.
+ * @property {boolean | "indeterminate"} selected - Checked state of the item in a
+ *   multi-select list. When set, the marker is replaced by the matching checkbox
+ *   glyph from the theme's `checkboxMarkers`.
+ * @property {boolean} expanded - Controlled expanded state of an item that
+ *   contains a nested list. Collapsed items hide their nested lists.
+ * @property {boolean} defaultExpanded - Initial expanded state of an item that
+ *   contains a nested list, when `expanded` is not controlled.
+ * @property {Function} onExpandedChange - Called with the new expanded state
+ *   when the keyboard of an interactive list expands or collapses the item.
+ * @property {ReactNode} marker - Marker of this item, overriding the one resolved
+ *   by the parent list from the theme. Either text or an element.
+ * @property {UnorderedListStatus} status - Progress of the item in a checklist.
+ *   When set, the marker is replaced by the glyph and color of the status from
+ *   the theme's `statusMarkers`, or by a spinner while `"running"`.
+ * @property {UnorderedListWrap} wrap - How long text is wrapped or truncated.
+ * @property {number} maxLines - Maximum number of text lines of the item.
+ * @property {number} hangingIndent - Extra indentation of continuation lines.
+ * @property {readonly number[]} highlight - Indexes of the characters of the text
+ *   to highlight.
+ * @property {boolean} disabled - Whether the item is disabled. Disabled items
+ *   render their marker and text with the `disabledItem` theme style.
+ * @property {boolean} selectable - Whether the item can be chosen. Items that
+ *   cannot be chosen ignore `selected`.
+ * @property {ReactNode} disabledReason - Why the item is disabled, shown next to
+ *   its content.
  *
  * @example
  * ```tsx
@@ -73,27 +144,465 @@ import { UnorderedListItemContext } from "../contexts/unordered-list-item-contex
  */
 export interface UnorderedListItemProps {
   readonly children: ReactNode;
+
+  /**
+   * Whether the item has the focus cursor of an interactive list.
+   * Set automatically for the items of an interactive UnorderedList, which
+   * are focused by key, or by path for items written as elements.
+   */
+  readonly focused?: boolean;
+
+  /**
+   * Checked state of the item in a multi-select list. When set, the marker
+   * is swapped for a checkbox glyph; `"indeterminate"` is used for parents
+   * whose children are only partially selected.
+   */
+  readonly selected?: boolean | "indeterminate";
+
+  /**
+   * Whether the nested lists of the item are shown. Setting this (or
+   * `defaultExpanded`) on an item containing a nested UnorderedList makes it
+   * collapsible: its marker is replaced by the theme's `expandMarkers` glyph
+   * and, while collapsed, its nested lists are hidden. An item without nested
+   * lists still shows the glyph when `expanded` is set, which is how the rows
+   * of a virtualized list reflect the state of their hidden children.
+   */
+  readonly expanded?: boolean;
+
+  /**
+   * Initial expanded state of a collapsible item when `expanded` is not set.
+   */
+  readonly defaultExpanded?: boolean;
+
+  /**
+   * Called with the new expanded state when the item is expanded or
+   * collapsed from the keyboard of an interactive list. Required to follow
+   * these changes when `expanded` is controlled.
+   */
+  readonly onExpandedChange?: (expanded: boolean) => void;
+
+  /**
+   * Marker of this item, overriding the marker resolved by the parent list
+   * (e.g. `"⚠"` for a single warning, or a colored `<Text>` element). Checkbox
+   * and expand glyphs still take
+   * precedence. Unlike list markers, it is also shown after the connector of
+   * the tree variant.
+   */
+  readonly marker?: ReactNode;
+
+  /**
+   * Progress of the item in a checklist. The marker is swapped for the
+   * glyph of the status, in its color, from the theme's `statusMarkers`
+   * (e.g. a green `✔` for `"success"`); `"running"` items show the theme's
+   * animated `spinner` instead. Checkbox and expand glyphs take precedence,
+   * and the status takes precedence over `marker`.
+   */
+  readonly status?: UnorderedListStatus;
+
+  /**
+   * How text wider than the content column is laid out, overriding the
+   * `wrap` of the parent list and the theme.
+   */
+  readonly wrap?: UnorderedListWrap;
+
+  /**
+   * Maximum number of text lines of the item, overriding the `maxLines` of
+   * the parent list and the theme.
+   */
+  readonly maxLines?: number;
+
+  /**
+   * Extra indentation of continuation lines, overriding the `hangingIndent`
+   * of the parent list and the theme.
+   */
+  readonly hangingIndent?: number;
+
+  /**
+   * Indexes of the characters of the item's text to highlight with the
+   * theme's `filterMatch` style, such as the matches of the query of a
+   * filtered list. They refer to the first plain text child of the item
+   * (a string or a Text holding only text) and follow it through wrapping
+   * and truncation.
+   */
+  readonly highlight?: readonly number[];
+
+  /**
+   * Whether the item is disabled, e.g. an unavailable option of a menu. Its
+   * marker and text are rendered with the theme's `disabledItem` style, and
+   * data-driven items of an interactive UnorderedList with `disabled` set
+   * are skipped by the focus cursor and cannot be checked.
+   */
+  readonly disabled?: boolean;
+
+  /**
+   * Set to `false` for items that are shown but cannot be chosen, such as
+   * section headings. They show no checkbox, ignoring `selected`, and keep
+   * their usual style; data-driven items of an interactive UnorderedList
+   * with `selectable: false` are skipped by the focus cursor. Defaults to
+   * `true`.
+   */
+  readonly selectable?: boolean;
+
+  /**
+   * Why a disabled item is disabled, shown next to its content with the
+   * theme's `disabledReason` style while `disabled` is set. In interactive
+   * lists, it is shown only when the user tries to focus the item.
+   */
+  readonly disabledReason?: ReactNode;
+}
+
+/**
+ * Tells whether a child node is a nested UnorderedList.
+ *
+ * @param {ReactNode} node - A child of the item
+ * @returns {boolean} `true` for UnorderedList elements
+ */
+const isNestedList = (
+  node: ReactNode,
+): node is ReactElement<UnorderedListProps> =>
+  isValidElement(node) && node.type === UnorderedList;
+
+/**
+ * Counts the element children of a list, the items of its groups included.
+ *
+ * @param {ReactNode} children - The children of a list or of a group
+ * @returns {number} Number of elements, each group counting its own elements
+ */
+const countElements = (children: ReactNode): number =>
+  Children.toArray(children).reduce<number>(
+    (count, child) =>
+      isValidElement<UnorderedListGroupProps>(child)
+        ? count +
+          (child.type === UnorderedListGroup
+            ? countElements(child.props.children)
+            : 1)
+        : count,
+    0,
+  );
+
+/**
+ * Counts the items rendered by a nested list element.
+ *
+ * @param {ReactElement<UnorderedListProps>} list - A nested UnorderedList element
+ * @returns {number} Number of data items, or of element children, the
+ *   items of groups in place of the groups
+ */
+const countListItems = (list: ReactElement<UnorderedListProps>): number =>
+  list.props.items
+    ? expandGroups(list.props.items).filter((item) => item.group !== true)
+        .length
+    : countElements(list.props.children);
+
+/**
+ * Tells whether a marker is plain text, or frames of plain text.
+ *
+ * @param {ReactNode} marker - A resolved marker
+ * @returns {boolean} `true` for strings, numbers and AnimatedMarker elements
+ *
+ * Text markers are wrapped in a Text styled with the theme's `marker` style,
+ * while elements are rendered as is so they can bring their own colors and
+ * layout.
+ */
+const isTextMarker = (marker: ReactNode): boolean =>
+  typeof marker === "string" ||
+  typeof marker === "number" ||
+  (isValidElement(marker) && marker.type === AnimatedMarker);
+
+/**
+ * Reads the plain text of a content child.
+ *
+ * @param {ReactNode} node - A child of the item
+ * @returns {string | undefined} The text of strings, numbers and Text elements
+ *   holding only strings and numbers; `undefined` for any other child
+ */
+const getPlainText = (node: ReactNode): string | undefined => {
+  if (typeof node === "string" || typeof node === "number") {
+    return String(node);
+  }
+
+  if (!isValidElement<TextProps>(node) || node.type !== Text) {
+    return undefined;
+  }
+
+  const parts = Children.toArray(node.props.children);
+
+  return parts.every(
+    (part) => typeof part === "string" || typeof part === "number",
+  )
+    ? parts.join("")
+    : undefined;
+};
+
+/**
+ * Applies a style to a Text element.
+ *
+ * @param {ReactNode} node - A child of the item, or its marker
+ * @param {TextProps} style - The style to apply
+ * @returns {ReactNode} Text elements with the style under their own props,
+ *   any other node as is
+ */
+const withTextStyle = (node: ReactNode, style: TextProps): ReactNode =>
+  isValidElement<TextProps>(node) && node.type === Text
+    ? cloneElement(node, { ...style, ...node.props })
+    : node;
+
+/**
+ * Applies a style to the text children of an item.
+ *
+ * @param {readonly ReactNode[]} nodes - Children of the item
+ * @param {TextProps} style - The style to apply
+ * @returns {ReactNode[]} The children, with strings wrapped in a Text with the
+ *   style and Text elements styled; boxes and nested lists are kept as is
+ */
+const styleText = (
+  nodes: readonly ReactNode[],
+  style: TextProps,
+): ReactNode[] =>
+  nodes.map((node, index) =>
+    typeof node === "string" || typeof node === "number" ? (
+      <Text key={`text-${index}`} {...style}>
+        {node}
+      </Text>
+    ) : (
+      withTextStyle(node, style)
+    ),
+  );
+
+/**
+ * Highlighting applied to the first plain text child of an item.
+ */
+interface TextHighlight {
+  readonly indexes: readonly number[];
+  readonly style: TextProps;
 }
 
+/**
+ * Replaces the text of a plain text child, highlighting some of its characters.
+ *
+ * @param {ReactNode} node - A string or a Text holding only text
+ * @param {number} index - Position of the node among the children of the item
+ * @param {string} text - The new text of the node
+ * @param {Iterable<number>} indexes - Indexes of the characters of `text` to highlight
+ * @param {TextProps | undefined} style - Style of the highlighted characters
+ * @returns {ReactNode} A Text element holding the text
+ */
+const withText = (
+  node: ReactNode,
+  index: number,
+  text: string,
+  indexes: Iterable<number>,
+  style: TextProps | undefined,
+): ReactNode => {
+  const runs = style
+    ? splitHighlights(text, indexes).map((segment, runIndex) =>
+        segment.highlighted ? (
+          <Text key={runIndex} {...style}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        ),
+      )
+    : text;
+
+  return isValidElement(node) ? (
+    cloneElement(node, undefined, runs)
+  ) : (
+    <Text key={`text-${index}`}>{runs}</Text>
+  );
+};
+
+/**
+ * Highlights characters of the first plain text child of an item.
+ *
+ * @param {readonly ReactNode[]} nodes - Children of the item
+ * @param {TextHighlight} highlight - Characters to highlight and their style
+ * @returns {ReactNode[]} The children, with the first plain text child split
+ *   into highlighted and plain runs
+ */
+const highlightContent = (
+  nodes: readonly ReactNode[],
+  { indexes, style }: TextHighlight,
+): ReactNode[] => {
+  const textIndex = nodes.findIndex((node) => getPlainText(node) !== undefined);
+
+  return nodes.map((node, index) => {
+    const text = index === textIndex ? getPlainText(node) : undefined;
+
+    return text === undefined
+      ? node
+      : withText(node, index, text, indexes, style);
+  });
+};
+
+/**
+ * Lays out the text children of an item for the width of its content column.
+ *
+ * @param {ReactNode[]} nodes - Children of the item
+ * @param {number} width - Width of the content column
+ * @param {TextLayoutOptions} options - Wrap mode and hanging indent
+ * @param {number | undefined} maxLines - Maximum number of text lines
+ * @param {TextProps} moreLinesStyle - Style of the hidden lines indicator
+ * @param {TextHighlight | undefined} highlight - Characters of the first text
+ *   child to highlight, if any
+ * @returns {ReactNode[]} The children with their text laid out
+ *
+ * Text children share the line budget in order; children that aren't plain
+ * text, such as boxes and nested lists, are kept as they are. When lines are
+ * left out, the indicator is inserted before the first nested list.
+ */
+const layoutContent = (
+  nodes: readonly ReactNode[],
+  width: number,
+  options: TextLayoutOptions,
+  maxLines: number | undefined,
+  moreLinesStyle: TextProps,
+  highlight: TextHighlight | undefined,
+): ReactNode[] => {
+  let remainingLines = maxLines ?? Infinity;
+  let hiddenLines = 0;
+  let pendingHighlight = highlight;
+  const laidOut: ReactNode[] = [];
+
+  nodes.forEach((node, index) => {
+    const text = getPlainText(node);
+
+    if (text === undefined) {
+      laidOut.push(node);
+      return;
+    }
+
+    const lines = layoutText(text, width, options);
+    const shownLines = lines.slice(0, Math.max(remainingLines, 0));
+    const textHighlight = pendingHighlight;
+
+    remainingLines -= shownLines.length;
+    hiddenLines += lines.length - shownLines.length;
+    pendingHighlight = undefined;
+
+    if (shownLines.length > 0) {
+      const highlighted = new Set(textHighlight?.indexes);
+
+      laidOut.push(
+        withText(
+          node,
+          index,
+          shownLines.join("\n"),
+          textHighlight
+            ? locateLines(text, shownLines).flatMap((source, laidOutIndex) =>
+                highlighted.has(source) ? [laidOutIndex] : [],
+              )
+            : [],
+          textHighlight?.style,
+        ),
+      );
+    }
+  });
+
+  if (hiddenLines > 0) {
+    const nestedListIndex = laidOut.findIndex(isNestedList);
+
+    laidOut.splice(
+      nestedListIndex === -1 ? laidOut.length : nestedListIndex,
+      0,
+      <Text key="more-lines" {...moreLinesStyle}>
+        {formatHiddenLines(hiddenLines)}
+      </Text>,
+    );
+  }
+
+  return laidOut;
+};
+
 /**
  * UnorderedListItem component for rendering individual list items.
  *
  * @param {UnorderedListItemProps} props - Component props
  * @param {ReactNode} props.children - Content to render within the item
+ * @param {boolean} props.focused - Whether the item is focused
+ * @param {boolean | "indeterminate"} props.selected - Checked state in a multi-select list
+ * @param {boolean} props.expanded - Controlled expanded state of a collapsible item
+ * @param {boolean} props.defaultExpanded - Initial expanded state of a collapsible item
+ * @param {Function} props.onExpandedChange - Expanded state change callback
+ * @param {ReactNode} props.marker - Marker overriding the one of the parent list
+ * @param {UnorderedListStatus} props.status - Progress of the item in a checklist
+ * @param {UnorderedListWrap} props.wrap - Wrap or truncation mode of long text
+ * @param {number} props.maxLines - Maximum number of text lines
+ * @param {number} props.hangingIndent - Extra indentation of continuation lines
+ * @param {readonly number[]} props.highlight - Indexes of the characters of the text to highlight
+ * @param {boolean} props.disabled - Whether the item is disabled
+ * @param {boolean} props.selectable - Whether the item can be chosen
+ * @param {ReactNode} props.disabledReason - Why the item is disabled
  *
  * @returns {JSX.Element} The rendered list item component
  *
  * This component renders an individual item within an UnorderedList. It:
- * - Consumes marker configuration from UnorderedListItemContext
+ * - Consumes marker configuration and its position from UnorderedListItemContext
  * - Applies theme-based styling via tinky-theme
  * - Renders a marker character followed by the item content
  * - Uses Box and Text components from tinky for layout
  *
  * The component layout consists of:
- * 1. A marker Text element (the bullet character)
+ * 1. A marker Box holding the marker: text and animated markers are
+ *    wrapped in a Text styled with `marker` (or `focusedItem`), element
+ *    markers such as colored icons are rendered as is
  * 2. A content Box containing the children
  *
  * Both elements are wrapped in a flex container with appropriate spacing.
+ * The marker Box never shrinks, so the layout measures the full width of
+ * wide or multi-segment markers and wrapped content stays aligned next to
+ * them instead of squeezing the marker. It is at least as wide as the widest
+ * marker of the list, with the marker aligned according to the theme's
+ * `markerAlign` option, so the contents of all items line up.
+ *
+ * The theme's style functions are called with an {@link UnorderedListStyleState}
+ * describing the item: its position (`depth`, `index`, `isFirst`, `isLast`,
+ * `siblingCount`, `path`) and its state (`focused`, `selected`, `expanded`,
+ * `status`), so a theme can e.g. stripe odd and even items or dim deeper
+ * levels.
+ *
+ * An item with a `status` shows the glyph of its status in the color of the
+ * status, both taken from the theme's `statusMarkers`, instead of its marker.
+ * A `"running"` item cycles through the frames of the theme's `spinner`
+ * instead, unless the theme sets `spinner` to `false`. Spinners and other
+ * animated markers follow the clock of the root list.
+ *
+ * An item whose children include a nested UnorderedList becomes collapsible
+ * once `expanded` or `defaultExpanded` is set. A collapsed item hides its
+ * nested lists and, unless the theme's `showChildCount` is disabled, shows
+ * the number of hidden items next to its content, styled with `childCount`.
+ * Setting `expanded` alone shows the expand glyph without nested lists.
+ * In an interactive list, → expands the focused collapsible item, ← collapses
+ * it and Enter toggles it instead of selecting it: the item registers its
+ * expanded state with the list through UnorderedListInteractionContext.
+ *
+ * Long text is wrapped below the content column by default. `wrap` can
+ * truncate it instead, with an ellipsis at the end, in the middle or at the
+ * start of each line, `hangingIndent` indents continuation lines further and
+ * `maxLines` caps the number of lines, replacing the rest with a
+ * `…(+N more lines)` indicator styled with `moreLines`. These options apply
+ * to the plain text of the item (strings and Text elements holding only
+ * text), are inherited from the parent list and default to the theme
+ * configuration. The content column then fills the row, and its measured
+ * width is used to lay out the text.
+ *
+ * `highlight` styles characters of the first plain text child with the
+ * theme's `filterMatch` style, which is how filtered lists show the matches
+ * of their query. The highlighted characters are mapped through the layout
+ * of the text, so they stay highlighted once wrapped or truncated.
+ *
+ * A `disabled` item adds the theme's `disabledItem` style to its marker
+ * (text markers and Text elements) and to its text children (strings and
+ * Text elements), and shows its `disabledReason`, if any, after its
+ * content with the `disabledReason` style. An item with `selectable={false}`
+ * ignores `selected`, so it shows its own marker in a multi-select list.
+ * Nested lists keep their own state.
+ *
+ * In the `"tree"` variant the marker is replaced by a `├─` or `└─` connector
+ * depending on whether the item is the last of its list, and every item but
+ * the last draws a `treeLine` down its full height, which connects it to its
+ * next sibling across nested lists. Checkbox, expand and status glyphs, as
+ * well as an explicit `marker`, are then rendered after the connector.
  *
  * @example
  * Basic usage:
@@ -109,19 +618,210 @@ export interface UnorderedListItemProps {
  */
 export function UnorderedListItem({
   children,
+  focused,
+  selected,
+  expanded,
+  defaultExpanded,
+  onExpandedChange,
+  marker,
+  status,
+  wrap,
+  maxLines,
+  hangingIndent,
+  highlight,
+  disabled = false,
+  selectable = true,
+  disabledReason,
 }: UnorderedListItemProps): JSX.Element {
-  const { marker } = useContext(UnorderedListItemContext);
-  const props = { children };
-  const { styles } = useComponentTheme(
+  const list = useContext(UnorderedListContext);
+  const { variant } = list;
+  const position = useUnorderedListItem();
+  const { focusedKey, attemptedKey, registerExpansion } = useContext(
+    UnorderedListInteractionContext,
+  );
+  const itemKey = position.path.join(".");
+  const isFocused = focused ?? focusedKey === itemKey;
+  // Items that read their focus from an interactive list show why they are
+  // disabled only once the user tries to focus them, as data items do.
+  const showsDisabledReason =
+    disabled &&
+    disabledReason !== undefined &&
+    disabledReason !== null &&
+    (focused !== undefined ||
+      registerExpansion === undefined ||
+      attemptedKey === itemKey);
+  const checked = selectable ? selected : undefined;
+  const [uncontrolledExpanded, setUncontrolledExpanded] =
+    useState(defaultExpanded);
+  const nestedLists = Children.toArray(children).filter(isNestedList);
+  const isExpanded =
+    nestedLists.length > 0 || expanded !== undefined
+      ? (expanded ?? uncontrolledExpanded)
+      : undefined;
+  const isCollapsible = nestedLists.length > 0 && isExpanded !== undefined;
+  const latest = useRef({ isExpanded, onExpandedChange });
+  latest.current = { isExpanded, onExpandedChange };
+
+  useEffect(() => {
+    if (!registerExpansion || !isCollapsible) {
+      return undefined;
+    }
+
+    return registerExpansion(itemKey, {
+      expanded: isExpanded === true,
+      apply: (action) => {
+        const current = latest.current.isExpanded;
+        const next = action === "toggle" ? !current : action === "expand";
+
+        if (next !== current) {
+          setUncontrolledExpanded(next);
+          latest.current.onExpandedChange?.(next);
+        }
+      },
+    });
+  }, [registerExpansion, itemKey, isCollapsible, isExpanded]);
+  const styleState: UnorderedListStyleState = {
+    depth: position.depth,
+    index: position.index,
+    isFirst: position.isFirst,
+    isLast: position.isLast,
+    siblingCount: position.siblingCount,
+    path: position.path,
+    focused: isFocused,
+    selected: checked,
+    expanded: isExpanded,
+    status,
+    disabled,
+  };
+  const props = { ...styleState, children };
+  const { styles, config } = useComponentTheme(
     "UnorderedList",
     unorderedListTheme,
     props,
   );
 
+  const resolvedConfig = typeof config === "function" ? config(props) : config;
+  const statusMarker = resolveStatusMarker(resolvedConfig, status);
+  const spinner =
+    status === "running" ? resolveSpinner(resolvedConfig) : undefined;
+  const stateMarker =
+    resolveStateMarker(resolvedConfig, checked, isExpanded) ??
+    (statusMarker ? (
+      spinner ? (
+        <Text color={statusMarker.color}>
+          <AnimatedMarker frames={spinner.frames} interval={spinner.interval} />
+        </Text>
+      ) : (
+        <Text color={statusMarker.color}>{statusMarker.marker}</Text>
+      )
+    ) : undefined) ??
+    marker;
+  const itemMarker = stateMarker ?? position.marker;
+  const { markerWidth } = useContext(UnorderedListItemContext);
+  // The layout of tinky measures some symbols, like the default status
+  // glyphs, wider than it writes them: markers of a known width get a fixed
+  // one, so that their text still starts one gap after them.
+  const itemMarkerWidth = measureMarker(itemMarker);
+  const markerStyle = {
+    ...(isFocused ? styles.focusedItem : styles.marker),
+    ...(disabled ? styles.disabledItem : undefined),
+  };
+  const textLayout: TextLayoutOptions = {
+    wrap:
+      wrap ??
+      list.wrap ??
+      (resolvedConfig?.wrap as UnorderedListWrap | undefined) ??
+      "wrap",
+    hangingIndent:
+      hangingIndent ??
+      list.hangingIndent ??
+      (resolvedConfig?.hangingIndent as number | undefined) ??
+      0,
+  };
+  const lineLimit =
+    maxLines ??
+    list.maxLines ??
+    (resolvedConfig?.maxLines as number | undefined);
+  const hasTextLayout =
+    textLayout.wrap !== "wrap" ||
+    (textLayout.hangingIndent ?? 0) > 0 ||
+    lineLimit !== undefined;
+  const [contentRef, contentWidth] = useSizeObserver({
+    isActive: hasTextLayout,
+  });
+  const visibleChildren =
+    isExpanded === false
+      ? Children.toArray(children).filter((child) => !isNestedList(child))
+      : children;
+  const textHighlight =
+    highlight && highlight.length > 0
+      ? { indexes: highlight, style: styles.filterMatch }
+      : undefined;
+  const content =
+    hasTextLayout && contentWidth > 0
+      ? layoutContent(
+          Children.toArray(visibleChildren),
+          contentWidth,
+          textLayout,
+          lineLimit,
+          styles.moreLines,
+          textHighlight,
+        )
+      : textHighlight
+        ? highlightContent(Children.toArray(visibleChildren), textHighlight)
+        : undefined;
+  const hiddenCount =
+    isExpanded === false && resolvedConfig?.showChildCount !== false
+      ? nestedLists.reduce((count, list) => count + countListItems(list), 0)
+      : 0;
+
   return (
     <Box {...styles.listItem}>
-      <Text {...styles.marker}>{marker}</Text>
-      <Box {...styles.content}>{children}</Box>
+      {variant === "tree" ? (
+        <Box flexDirection="column" flexShrink={0}>
+          <Text {...markerStyle}>
+            {resolveTreeConnector(resolvedConfig, position.isLast)}
+          </Text>
+          {position.isLast ? null : <Box {...styles.treeLine} />}
+        </Box>
+      ) : null}
+      {variant !== "tree" || stateMarker !== undefined ? (
+        <Box
+          flexShrink={0}
+          {...(itemMarkerWidth > 0
+            ? { width: Math.max(markerWidth ?? 0, itemMarkerWidth) }
+            : { minWidth: markerWidth })}
+          justifyContent={
+            resolvedConfig?.markerAlign === "right" ? "flex-end" : "flex-start"
+          }
+        >
+          {isTextMarker(itemMarker) ? (
+            <Text {...markerStyle}>{itemMarker}</Text>
+          ) : disabled ? (
+            withTextStyle(itemMarker, styles.disabledItem)
+          ) : (
+            itemMarker
+          )}
+        </Box>
+      ) : null}
+      <Box
+        ref={contentRef}
+        flexGrow={hasTextLayout ? 1 : undefined}
+        {...styles.content}
+      >
+        {disabled
+          ? styleText(
+              content ?? Children.toArray(visibleChildren),
+              styles.disabledItem,
+            )
+          : (content ?? visibleChildren)}
+      </Box>
+      {hiddenCount > 0 ? (
+        <Text {...styles.childCount}>({hiddenCount})</Text>
+      ) : null}
+      {showsDisabledReason ? (
+        <Text {...styles.disabledReason}>{disabledReason}</Text>
+      ) : null}
     </Box>
   );
 }
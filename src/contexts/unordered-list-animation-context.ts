@@ -0,0 +1,64 @@
+/**
+ * @fileoverview React Context for sharing the animation clock of a list.
+ *
+ * @module contexts/UnorderedListAnimationContext
+ *
+ * @description
+ * This module provides the UnorderedListAnimationContext, through which a
+ * root UnorderedList shares a single animation clock with every animated
+ * marker of its tree, nested lists included. Markers subscribe to the clock
+ * while they are mounted, so the clock only runs while something animates
+ * and all markers advance in the same render.
+ *
+ * @example
+ * Animating a custom component with the clock of its list:
+ * ```tsx
+ * import { useContext, useSyncExternalStore } from "react";
+ * import { UnorderedListAnimationContext } from "tinky-unordered-list";
+ *
+ * function Blink() {
+ *   const { clock } = useContext(UnorderedListAnimationContext);
+ *   const frame = useSyncExternalStore(
+ *     (onChange) => clock?.subscribe(500, onChange) ?? (() => undefined),
+ *     () => clock?.getFrame(500) ?? 0,
+ *   );
+ *   return <Text>{frame % 2 === 0 ? "●" : " "}</Text>;
+ * }
+ * ```
+ *
+ * @see {@link UnorderedListAnimationContextProps}
+ * @see {@link UnorderedList}
+ */
+
+import { createContext } from "react";
+import { type AnimationClock } from "../utils/list-animation.js";
+
+/**
+ * Props interface for the UnorderedListAnimationContext.
+ *
+ * @interface UnorderedListAnimationContextProps
+ *
+ * @property {AnimationClock | undefined} clock - Clock of the root list, or
+ *   `undefined` outside of a list.
+ *
+ * @see {@link UnorderedListAnimationContext}
+ */
+export interface UnorderedListAnimationContextProps {
+  readonly clock: AnimationClock | undefined;
+}
+
+/**
+ * React Context for sharing the animation clock of a list.
+ *
+ * @type {React.Context<UnorderedListAnimationContextProps>}
+ *
+ * Default value:
+ * - clock: `undefined` (no list above; animated markers use a clock of their own)
+ *
+ * @see {@link UnorderedListAnimationContextProps}
+ * @see {@link https://react.dev/reference/react/createContext React Context}
+ */
+export const UnorderedListAnimationContext: React.Context<UnorderedListAnimationContextProps> =
+  createContext<UnorderedListAnimationContextProps>({
+    clock: undefined,
+  });
@@ -53,6 +53,8 @@
  */
 
 import { createContext } from "react";
+import { type UnorderedListVariant } from "../types/unordered-list-variant.js";
+import { type UnorderedListWrap } from "../types/unordered-list-wrap.js";
 
 /**
  * Props interface for the UnorderedListContext.
@@ -64,6 +66,19 @@ import { createContext } from "react";
  *   - Each nested list increments depth by 1
  *   - Depth is used to determine the appropriate marker character
  *
+ * @property {UnorderedListVariant} [variant] - The rendering variant of the current list.
+ *   Nested lists without an explicit `variant` prop inherit it from here.
+ *   Treated as `"default"` when omitted.
+ *
+ * @property {UnorderedListWrap} [wrap] - How the items of the current list lay out
+ *   long text, when set on the list or one of its ancestors.
+ * @property {number} [maxLines] - Maximum number of text lines of each item, when
+ *   set on the list or one of its ancestors.
+ * @property {number} [hangingIndent] - Extra indentation of the continuation lines
+ *   of each item, when set on the list or one of its ancestors.
+ *
+ *   Items fall back to the theme configuration for the options left unset.
+ *
  * Depth progression example:
  * ```
  * Root list (depth 0)
@@ -84,13 +99,13 @@ import { createContext } from "react";
  * @example
  * ```typescript
  * // Root level
- * const rootContext: UnorderedListContextProps = { depth: 0 };
+ * const rootContext: UnorderedListContextProps = { depth: 0, variant: "default" };
  *
  * // First nesting level
- * const nestedContext: UnorderedListContextProps = { depth: 1 };
+ * const nestedContext: UnorderedListContextProps = { depth: 1, variant: "default" };
  *
- * // Second nesting level
- * const deeplyNestedContext: UnorderedListContextProps = { depth: 2 };
+ * // Second nesting level of a tree
+ * const treeContext: UnorderedListContextProps = { depth: 2, variant: "tree" };
  * ```
  *
  * @see {@link UnorderedListContext}
@@ -98,6 +113,10 @@ import { createContext } from "react";
  */
 export interface UnorderedListContextProps {
   depth: number;
+  variant?: UnorderedListVariant;
+  wrap?: UnorderedListWrap;
+  maxLines?: number;
+  hangingIndent?: number;
 }
 
 /**
@@ -116,6 +135,7 @@ export interface UnorderedListContextProps {
  *
  * Default value:
  * - depth: `0` (root level)
+ * - variant: `"default"`
  *
  * Usage pattern:
  * - UnorderedList component wraps children with Provider
@@ -143,7 +163,7 @@ export interface UnorderedListContextProps {
  *   const nextDepth = depth + 1;
  *
  *   return (
- *     <UnorderedListContext.Provider value={{ depth: nextDepth }}>
+ *     <UnorderedListContext.Provider value={{ depth: nextDepth, variant: "default" }}>
  *       {children}
  *     </UnorderedListContext.Provider>
  *   );
@@ -157,4 +177,5 @@ export interface UnorderedListContextProps {
 export const UnorderedListContext: React.Context<UnorderedListContextProps> =
   createContext<UnorderedListContextProps>({
     depth: 0,
+    variant: "default",
   });
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview React Context for sharing interactive state across nested lists.
+ *
+ * @module contexts/UnorderedListInteractionContext
+ *
+ * @description
+ * This module provides the UnorderedListInteractionContext, through which an
+ * interactive or collapsible root UnorderedList shares its state with the
+ * nested lists it renders from data. Nested lists never handle input
+ * themselves; they only read this context to know how to display their items.
+ * Collapsible UnorderedList.Item elements of an interactive list register
+ * their expanded state through it, so that the list can expand and collapse
+ * them from the keyboard.
+ *
+ * @example
+ * Reading the focused key in a custom component:
+ * ```tsx
+ * import { useContext } from "react";
+ * import { UnorderedListInteractionContext } from "tinky-unordered-list";
+ *
+ * function FocusedKey() {
+ *   const { focusedKey } = useContext(UnorderedListInteractionContext);
+ *   return <Text>Focused: {focusedKey ?? "none"}</Text>;
+ * }
+ * ```
+ *
+ * @see {@link UnorderedListInteractionContextProps}
+ * @see {@link UnorderedList}
+ */
+
+import { createContext } from "react";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import { type UnorderedListItemExpansion } from "../types/unordered-list-item-expansion.js";
+
+/**
+ * Props interface for the UnorderedListInteractionContext.
+ *
+ * @interface UnorderedListInteractionContextProps
+ *
+ * @property {string | undefined} focusedKey - Key of the data item that currently
+ *   has the focus cursor, or `undefined` outside of an interactive list.
+ * @property {string | undefined} attemptedKey - Key of the disabled data item the
+ *   user just tried to focus, which shows its `disabledReason`, if any.
+ * @property {boolean} multiple - Whether the interactive list is in multi-select mode,
+ *   in which items render checkbox markers.
+ * @property {ReadonlySet<string>} selectedKeys - Keys of the selected items of a
+ *   multi-select list. Empty outside of multi-select mode.
+ * @property {boolean} collapsible - Whether items with children can be collapsed.
+ * @property {ReadonlySet<string>} expandedKeys - Keys of the expanded items of a
+ *   collapsible list. Empty outside of collapsible lists.
+ * @property {ReadonlyMap<string, readonly number[]>} matches - Indexes of the
+ *   characters of the label of each item matching the query of a filtered
+ *   list, by key. Empty while the list is not filtered.
+ * @property {ReadonlyMap<string, UnorderedListItemData>} sourceItems - Original
+ *   item of every item whose children are hidden by the filter, by key, from
+ *   which the state of their checkbox is derived. Empty while the list is not
+ *   filtered.
+ * @property {Function} [registerExpansion] - Registers the expanded
+ *   state of a collapsible UnorderedList.Item by the key of its path, and
+ *   returns a function unregistering it. Only set by interactive lists
+ *   written with UnorderedList.Item elements.
+ *
+ * @see {@link UnorderedListInteractionContext}
+ */
+export interface UnorderedListInteractionContextProps {
+  readonly focusedKey: string | undefined;
+  readonly attemptedKey: string | undefined;
+  readonly multiple: boolean;
+  readonly selectedKeys: ReadonlySet<string>;
+  readonly collapsible: boolean;
+  readonly expandedKeys: ReadonlySet<string>;
+  readonly matches: ReadonlyMap<string, readonly number[]>;
+  readonly sourceItems: ReadonlyMap<string, UnorderedListItemData>;
+  readonly registerExpansion?: (
+    key: string,
+    expansion: UnorderedListItemExpansion,
+  ) => () => void;
+}
+
+/**
+ * React Context for sharing interactive state across nested lists.
+ *
+ * @type {React.Context<UnorderedListInteractionContextProps>}
+ *
+ * Default value:
+ * - focusedKey: `undefined` (no interactive list above)
+ * - attemptedKey: `undefined`
+ * - multiple: `false`
+ * - selectedKeys: empty set
+ * - collapsible: `false`
+ * - expandedKeys: empty set
+ * - matches: empty map
+ * - sourceItems: empty map
+ *
+ * @see {@link UnorderedListInteractionContextProps}
+ * @see {@link https://react.dev/reference/react/createContext React Context}
+ */
+export const UnorderedListInteractionContext: React.Context<UnorderedListInteractionContextProps> =
+  createContext<UnorderedListInteractionContextProps>({
+    focusedKey: undefined,
+    attemptedKey: undefined,
+    multiple: false,
+    selectedKeys: new Set(),
+    collapsible: false,
+    expandedKeys: new Set(),
+    matches: new Map(),
+    sourceItems: new Map(),
+  });
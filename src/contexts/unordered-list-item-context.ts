@@ -5,14 +5,16 @@
  *
  * @description
  * This module provides the UnorderedListItemContext and its associated props interface
- * for communicating marker configuration (the bullet character) from parent
- * UnorderedList components to their child UnorderedListItem components.
+ * for communicating marker configuration (the bullet character) and the
+ * position of each item among its siblings from parent UnorderedList
+ * components to their child UnorderedListItem components.
  *
  * The context enables:
  * - Dynamic marker selection based on nesting depth
  * - Theme-based marker configuration
  * - Consistent marker display across all items in a list
  * - Different markers at different nesting levels (via array configuration)
+ * - Position-aware rendering, such as the connectors of the tree variant
  *
  * Unlike UnorderedListContext which tracks depth, this context provides the
  * actual marker character to display. The marker is determined by the parent
@@ -34,7 +36,7 @@
  * @see {@link defaultMarker}
  */
 
-import { createContext } from "react";
+import { createContext, type ReactNode } from "react";
 import { defaultMarker } from "../themes/unordered-list-theme.js";
 
 /**
@@ -42,7 +44,7 @@ import { defaultMarker } from "../themes/unordered-list-theme.js";
  *
  * @interface UnorderedListItemContextProps
  *
- * @property {string} marker - The marker character (bullet) to display before the list item content.
+ * @property {ReactNode} marker - The marker (bullet) to display before the list item content.
  *   This is typically a single character like:
  *   - "•" (bullet point)
  *   - "◦" (white bullet)
@@ -51,28 +53,61 @@ import { defaultMarker } from "../themes/unordered-list-theme.js";
  *   - "*" (asterisk)
  *   - "-" (hyphen)
  *
+ *   It may also be an element, such as a colored icon or a spinner.
+ *
  *   The marker is determined by the parent UnorderedList component based on:
  *   - The current nesting depth
- *   - The theme configuration (single marker or array of markers)
+ *   - The theme configuration (single marker, array of markers or resolver)
  *   - Fallback to defaultMarker if not configured
+ * @property {number} [index] - Position of the item among the children of its list,
+ *   starting at `0`.
+ * @property {boolean} [isFirst] - Whether the item is the first child of its list.
+ * @property {boolean} [isLast] - Whether the item is the last child of its list.
+ * @property {number} [siblingCount] - Number of children of the item's list,
+ *   including the item itself.
+ * @property {readonly number[]} [path] - Indices leading from the root list to the
+ *   item: the index of each ancestor item, followed by the item's own index.
+ * @property {number} [markerWidth] - Width, in columns, of the widest marker of the
+ *   item's list. Narrower markers are padded to it so that the content of all
+ *   items lines up.
+ *
+ *   The position fields are always set by UnorderedList. Use
+ *   {@link useUnorderedListItem} to read them with defaults applied.
  *
  * @example
  * ```typescript
- * // Default marker (line figure)
- * const defaultContext: UnorderedListItemContextProps = { marker: "─" };
- *
- * // Bullet point marker
- * const bulletContext: UnorderedListItemContextProps = { marker: "•" };
- *
- * // Custom marker
- * const customContext: UnorderedListItemContextProps = { marker: "*" };
+ * // First of three root items, default marker (line figure)
+ * const firstContext: UnorderedListItemContextProps = {
+ *   marker: "─",
+ *   index: 0,
+ *   isFirst: true,
+ *   isLast: false,
+ *   siblingCount: 3,
+ *   path: [0],
+ * };
+ *
+ * // Last of two items nested in the third root item
+ * const nestedContext: UnorderedListItemContextProps = {
+ *   marker: "•",
+ *   index: 1,
+ *   isFirst: false,
+ *   isLast: true,
+ *   siblingCount: 2,
+ *   path: [2, 1],
+ * };
  * ```
  *
  * @see {@link defaultMarker}
  * @see {@link UnorderedListThemeConfig}
  */
 export interface UnorderedListItemContextProps {
-  readonly marker: string;
+  readonly marker: ReactNode;
+  readonly index?: number;
+  readonly isFirst?: boolean;
+  readonly isLast?: boolean;
+  readonly siblingCount?: number;
+  readonly path?: readonly number[];
+  readonly markerWidth?: number;
 }
 
 /**
@@ -81,15 +116,23 @@ export interface UnorderedListItemContextProps {
  * @type {React.Context<UnorderedListItemContextProps>}
  *
  * The UnorderedListItemContext provides the marker character (bullet) to all
- * child UnorderedListItem components within an UnorderedList hierarchy. This enables:
+ * child UnorderedListItem components within an UnorderedList hierarchy. The
+ * list wraps each of its children in its own Provider, so every item also
+ * learns its position among its siblings and the path of its ancestors.
+ * This enables:
  *
  * 1. **Consistent markers**: All items in a list use the same marker character
  * 2. **Dynamic marker selection**: Markers can change based on nesting depth
  * 3. **Theme integration**: Marker selection respects the active theme configuration
  * 4. **Array-based markers**: Different markers at different nesting levels
+ * 5. **Position-aware rendering**: Tree connectors, striping and numbering
  *
  * Default value:
  * - marker: defaultMarker (figures.line, typically "─")
+ * - index: `0`
+ * - isFirst, isLast: `true` (an item outside of a list is its own only sibling)
+ * - siblingCount: `1`
+ * - path: `[]` (no list above)
  *
  * Usage pattern:
  * - Parent UnorderedList determines the appropriate marker
@@ -112,7 +155,7 @@ export interface UnorderedListItemContextProps {
  * @example
  * Providing context in a custom component:
  * ```tsx
- * function CustomMarkerList({ marker, children }) {
+ * function CustomMarkerItem({ marker, children }) {
  *   return (
  *     <UnorderedListItemContext.Provider value={{ marker }}>
  *       {children}
@@ -128,4 +171,9 @@ export interface UnorderedListItemContextProps {
 export const UnorderedListItemContext: React.Context<UnorderedListItemContextProps> =
   createContext<UnorderedListItemContextProps>({
     marker: defaultMarker,
+    index: 0,
+    isFirst: true,
+    isLast: true,
+    siblingCount: 1,
+    path: [],
   });
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Frames of animated markers.
+ *
+ * @module hooks/useAnimationFrame
+ *
+ * @description
+ * This module provides the hook with which animated markers follow the
+ * animation clock of their list, shared through
+ * UnorderedListAnimationContext. Outside of a list, a marker runs a clock of
+ * its own.
+ *
+ * @see {@link createAnimationClock}
+ */
+
+import { useCallback, useContext, useState, useSyncExternalStore } from "react";
+import { UnorderedListAnimationContext } from "../contexts/unordered-list-animation-context.js";
+import { createAnimationClock } from "../utils/list-animation.js";
+
+/**
+ * Counts the frames of an animation.
+ *
+ * @param {number} interval - Milliseconds between two frames
+ * @returns {number} The number of frames elapsed, to be taken modulo the
+ *   number of frames of the animation
+ *
+ * The component subscribes to the clock while it is mounted, which starts
+ * the clock, and re-renders on every frame.
+ */
+export function useAnimationFrame(interval: number): number {
+  const { clock } = useContext(UnorderedListAnimationContext);
+  const [ownClock] = useState(createAnimationClock);
+  const activeClock = clock ?? ownClock;
+  const subscribe = useCallback(
+    (onChange: () => void) => activeClock.subscribe(interval, onChange),
+    [activeClock, interval],
+  );
+  const getFrame = () => activeClock.getFrame(interval);
+
+  return useSyncExternalStore(subscribe, getFrame, getFrame);
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Expand/collapse state for collapsible unordered lists.
+ *
+ * @module hooks/useListExpansion
+ *
+ * @description
+ * This module provides the hook used by a collapsible, data-driven
+ * UnorderedList to keep track of its expanded items, either internally
+ * (uncontrolled) or through the `expandedKeys` / `onExpandedChange` props
+ * (controlled).
+ *
+ * Keyboard input is mapped to expansion actions by the list itself, because
+ * the focused item depends on which items are expanded.
+ *
+ * @see {@link applyExpansionAction}
+ * @see {@link resolveExpansionAction}
+ */
+
+import { useMemo, useState } from "react";
+import {
+  applyExpansionAction,
+  collectParentKeys,
+  type ExpansionAction,
+} from "../utils/list-expansion.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Options for the useListExpansion hook.
+ *
+ * @interface UseListExpansionOptions
+ *
+ * @property {readonly UnorderedListItemData[]} items - The list tree
+ * @property {readonly string[]} [expandedKeys] - Controlled expanded items
+ * @property {readonly string[]} [defaultExpandedKeys] - Initially expanded items;
+ *   defaults to all items with children, including those added later
+ * @property {Function} [onExpandedChange] - Called with the new expanded keys
+ */
+export interface UseListExpansionOptions {
+  readonly items: readonly UnorderedListItemData[];
+  readonly expandedKeys?: readonly string[];
+  readonly defaultExpandedKeys?: readonly string[];
+  readonly onExpandedChange?: (expandedKeys: string[]) => void;
+}
+
+/**
+ * Result of the useListExpansion hook.
+ *
+ * @interface ListExpansion
+ *
+ * @property {ReadonlySet<string>} expandedKeys - The currently expanded items
+ * @property {Function} apply - Expands, collapses or toggles an item by key
+ */
+export interface ListExpansion {
+  readonly expandedKeys: ReadonlySet<string>;
+  readonly apply: (action: ExpansionAction, key: string | undefined) => void;
+}
+
+/**
+ * Tracks the expanded items of a collapsible list.
+ *
+ * @param {UseListExpansionOptions} options - Hook options
+ * @returns {ListExpansion} The expanded items and a function to change them
+ */
+export function useListExpansion({
+  items,
+  expandedKeys,
+  defaultExpandedKeys,
+  onExpandedChange,
+}: UseListExpansionOptions): ListExpansion {
+  // Without default keys, the collapsed items are kept instead, so that
+  // parents that arrive with later items start expanded as well.
+  const [uncontrolledKeys, setUncontrolledKeys] = useState(
+    () => defaultExpandedKeys ?? [],
+  );
+  const tracksCollapsed = defaultExpandedKeys === undefined;
+  const parentKeys = useMemo(() => collectParentKeys(items), [items]);
+  const expanded = useMemo(() => {
+    if (expandedKeys !== undefined) {
+      return new Set(expandedKeys);
+    }
+
+    if (!tracksCollapsed) {
+      return new Set(uncontrolledKeys);
+    }
+
+    const collapsed = new Set(uncontrolledKeys);
+
+    return new Set(parentKeys.filter((key) => !collapsed.has(key)));
+  }, [expandedKeys, uncontrolledKeys, tracksCollapsed, parentKeys]);
+
+  return {
+    expandedKeys: expanded,
+    apply: (action, key) => {
+      const nextKeys = applyExpansionAction(items, expanded, action, key);
+
+      if (nextKeys === undefined) {
+        return;
+      }
+
+      if (expandedKeys === undefined) {
+        const nextExpanded = new Set(nextKeys);
+
+        setUncontrolledKeys(
+          tracksCollapsed
+            ? parentKeys.filter((key) => !nextExpanded.has(key))
+            : nextKeys,
+        );
+      }
+      onExpandedChange?.(nextKeys);
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Filter query of unordered lists.
+ *
+ * @module hooks/useListFilter
+ *
+ * @description
+ * This module provides the hook used by an UnorderedList to filter its data
+ * tree by a query. The query is controlled through `query` or kept
+ * internally, and is typed into the inline query input of a filterable
+ * list, which `/` opens.
+ *
+ * @see {@link filterItems}
+ * @see {@link resolveFilterAction}
+ */
+
+import { useInput } from "tinky";
+import { useMemo, useRef, useState } from "react";
+import {
+  filterItems,
+  resolveFilterAction,
+  type ListFilterResult,
+} from "../utils/list-filter.js";
+import { type UnorderedListFilterMode } from "../types/unordered-list-filter-mode.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Options for the useListFilter hook.
+ *
+ * @interface UseListFilterOptions
+ *
+ * @property {readonly UnorderedListItemData[]} items - The list tree
+ * @property {boolean} isActive - Whether keyboard input should be handled
+ * @property {UnorderedListFilterMode} mode - How the query is matched
+ * @property {string} [query] - Controlled query
+ * @property {string} [defaultQuery] - Initial uncontrolled query
+ * @property {Function} [onQueryChange] - Called with the new query
+ */
+export interface UseListFilterOptions {
+  readonly items: readonly UnorderedListItemData[];
+  readonly isActive: boolean;
+  readonly mode: UnorderedListFilterMode;
+  readonly query?: string;
+  readonly defaultQuery?: string;
+  readonly onQueryChange?: (query: string) => void;
+}
+
+/**
+ * Query and filtered tree returned by useListFilter.
+ *
+ * @interface ListFilter
+ *
+ * @property {string} query - The current query
+ * @property {boolean} isEditing - Whether the query input is open
+ * @property {ListFilterResult | undefined} result - The filtered tree, or
+ *   `undefined` while the query is empty
+ */
+export interface ListFilter {
+  readonly query: string;
+  readonly isEditing: boolean;
+  readonly result: ListFilterResult | undefined;
+}
+
+/**
+ * Tracks the filter query of a list and handles the keys of its query input.
+ *
+ * @param {UseListFilterOptions} options - Hook options
+ * @returns {ListFilter} The query, the state of its input and the filtered tree
+ *
+ * Keys are read against the latest query and input state rather than those
+ * of the last render, so that characters typed in quick succession, before
+ * the list renders again, are all kept.
+ */
+export function useListFilter({
+  items,
+  isActive,
+  mode,
+  query,
+  defaultQuery = "",
+  onQueryChange,
+}: UseListFilterOptions): ListFilter {
+  const [uncontrolledQuery, setUncontrolledQuery] = useState(defaultQuery);
+  const [isEditing, setIsEditing] = useState(false);
+  const currentQuery = query ?? uncontrolledQuery;
+  const latest = useRef({ query: currentQuery, isEditing });
+  latest.current = { query: currentQuery, isEditing };
+  const result = useMemo(
+    () =>
+      currentQuery === "" ? undefined : filterItems(items, currentQuery, mode),
+    [items, currentQuery, mode],
+  );
+
+  const changeQuery = (nextQuery: string) => {
+    if (nextQuery === latest.current.query) {
+      return;
+    }
+
+    latest.current = { ...latest.current, query: nextQuery };
+    if (query === undefined) {
+      setUncontrolledQuery(nextQuery);
+    }
+    onQueryChange?.(nextQuery);
+  };
+  const changeEditing = (nextIsEditing: boolean) => {
+    latest.current = { ...latest.current, isEditing: nextIsEditing };
+    setIsEditing(nextIsEditing);
+  };
+
+  useInput(
+    (input, key) => {
+      const { query: typedQuery, isEditing: isTyping } = latest.current;
+
+      switch (resolveFilterAction(input, key, isTyping)) {
+        case "open":
+          changeEditing(true);
+          break;
+        case "type":
+          changeQuery(typedQuery + input);
+          break;
+        case "delete":
+          changeQuery(Array.from(typedQuery).slice(0, -1).join(""));
+          break;
+        case "confirm":
+          changeEditing(false);
+          break;
+        case "cancel":
+          changeEditing(false);
+          changeQuery("");
+          break;
+      }
+    },
+    { isActive },
+  );
+
+  return {
+    query: currentQuery,
+    isEditing: isActive && isEditing,
+    result,
+  };
+}
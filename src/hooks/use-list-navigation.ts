@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Keyboard focus tracking for interactive unordered lists.
+ *
+ * @module hooks/useListNavigation
+ *
+ * @description
+ * This module provides the hook used by an interactive UnorderedList to track
+ * the focused item of its flattened data tree and to react to navigation keys.
+ * Only the root list of an interactive hierarchy calls this hook with
+ * `isActive: true`; nested lists read the resulting focus from
+ * UnorderedListInteractionContext.
+ *
+ * Printable characters jump to the next item starting with them, the
+ * characters typed in quick succession forming a longer prefix.
+ *
+ * Items that cannot be chosen (`disabled` or `selectable: false`) never
+ * receive focus: movements and type-ahead skip them.
+ *
+ * @see {@link resolveNavigationAction}
+ * @see {@link moveFocus}
+ * @see {@link findTypeAheadMatch}
+ */
+
+import { type Key, useInput } from "tinky";
+import { useMemo, useRef, useState } from "react";
+import { isSelectableItem, type FlatListItem } from "../utils/list-tree.js";
+import {
+  moveFocus,
+  resolveNavigationAction,
+} from "../utils/list-navigation.js";
+import {
+  appendTypeAhead,
+  defaultTypeAheadTimeout,
+  findTypeAheadMatch,
+  isTypeAheadActive,
+  resolveTypeAheadInput,
+  type TypeAheadBuffer,
+} from "../utils/list-type-ahead.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Options for the useListNavigation hook.
+ *
+ * @interface UseListNavigationOptions
+ *
+ * @property {readonly FlatListItem[]} rows - Flattened rows of the list, in document
+ *   order; those that cannot be chosen are skipped
+ * @property {boolean} isActive - Whether keyboard input should be handled
+ * @property {boolean} [isTyping] - Whether printable input goes to a text input, such
+ *   as the query input of a filterable list, in which case only ↑ and ↓ move
+ *   the focus
+ * @property {string} [defaultFocusedKey] - Key focused on mount; defaults to the first row
+ * @property {number} [typeAheadTimeout] - Time, in milliseconds, after which typed
+ *   characters start a new type-ahead prefix
+ * @property {Function} [isReservedInput] - Tells whether a keypress is handled by
+ *   another feature of the list, in which case it is never type-ahead input
+ * @property {Function} [onFocusChange] - Called with the item that received focus
+ * @property {Function} [onSelect] - Called with the focused item when Enter is pressed
+ */
+export interface UseListNavigationOptions {
+  readonly rows: readonly FlatListItem[];
+  readonly isActive: boolean;
+  readonly isTyping?: boolean;
+  readonly defaultFocusedKey?: string;
+  readonly typeAheadTimeout?: number;
+  readonly isReservedInput?: (input: string, key: Key) => boolean;
+  readonly onFocusChange?: (item: UnorderedListItemData) => void;
+  readonly onSelect?: (item: UnorderedListItemData) => void;
+}
+
+/**
+ * Focus returned by useListNavigation.
+ *
+ * @interface ListNavigation
+ *
+ * @property {string | undefined} focusedKey - Key of the focused item, or
+ *   `undefined` for a list without focusable items
+ * @property {string | undefined} attemptedKey - Key of the disabled item that
+ *   the last keypress tried to focus, if any
+ * @property {Function} focus - Moves the focus to an item by key
+ */
+export interface ListNavigation {
+  readonly focusedKey: string | undefined;
+  readonly attemptedKey: string | undefined;
+  readonly focus: (key: string) => void;
+}
+
+/**
+ * Tracks the focused row of an interactive list and handles navigation keys.
+ *
+ * @param {UseListNavigationOptions} options - Hook options
+ * @returns {ListNavigation} The focused item and the disabled item the user
+ *   tried to focus
+ *
+ * When the focused item disappears from `rows` (for example because the data
+ * changed), the focus falls back to the first focusable row.
+ *
+ * Moving up or down next to a disabled item counts as an attempt to focus
+ * it, even though the focus skips it, until the next keypress, so that the
+ * list can tell why it is disabled.
+ *
+ * Keys move the focus from the latest focused row rather than the one of the
+ * last render, so that keys pressed in quick succession, before the list
+ * renders again, all count.
+ */
+export function useListNavigation({
+  rows,
+  isActive,
+  isTyping = false,
+  defaultFocusedKey,
+  typeAheadTimeout = defaultTypeAheadTimeout,
+  isReservedInput,
+  onFocusChange,
+  onSelect,
+}: UseListNavigationOptions): ListNavigation {
+  const [focusedKey, setFocusedKey] = useState(defaultFocusedKey);
+  const [attemptedKey, setAttemptedKey] = useState<string>();
+  const focusableRows = useMemo(
+    () => rows.filter((row) => isSelectableItem(row.item)),
+    [rows],
+  );
+  const keys = useMemo(
+    () => focusableRows.map((row) => row.item.key),
+    [focusableRows],
+  );
+  const currentKey =
+    focusedKey !== undefined && keys.includes(focusedKey)
+      ? focusedKey
+      : keys[0];
+  const latestKey = useRef(currentKey);
+  const typeAhead = useRef<TypeAheadBuffer | undefined>(undefined);
+  latestKey.current = currentKey;
+
+  const focus = (nextKey: string | undefined) => {
+    if (nextKey === undefined || nextKey === latestKey.current) {
+      return;
+    }
+
+    latestKey.current = nextKey;
+    setFocusedKey(nextKey);
+    const row = focusableRows.find((row) => row.item.key === nextKey);
+    if (row) {
+      onFocusChange?.(row.item);
+    }
+  };
+
+  useInput(
+    (input, key) => {
+      const now = Date.now();
+      setAttemptedKey(undefined);
+      const typed =
+        isTyping || isReservedInput?.(input, key)
+          ? undefined
+          : resolveTypeAheadInput(
+              input,
+              key,
+              isTypeAheadActive(typeAhead.current, now, typeAheadTimeout),
+            );
+
+      if (typed !== undefined) {
+        typeAhead.current = appendTypeAhead(
+          typeAhead.current,
+          typed,
+          now,
+          typeAheadTimeout,
+        );
+        const index = findTypeAheadMatch(
+          focusableRows.map((row) => row.item.label),
+          latestKey.current === undefined
+            ? -1
+            : keys.indexOf(latestKey.current),
+          typeAhead.current.text,
+        );
+        focus(index === undefined ? undefined : keys[index]);
+        return;
+      }
+
+      const action = resolveNavigationAction(input, key);
+
+      if (
+        action === undefined ||
+        (isTyping && !key.upArrow && !key.downArrow)
+      ) {
+        return;
+      }
+
+      typeAhead.current = undefined;
+
+      if (action === "select") {
+        const row = focusableRows.find(
+          (row) => row.item.key === latestKey.current,
+        );
+        if (row) {
+          onSelect?.(row.item);
+        }
+        return;
+      }
+
+      if (action === "previous" || action === "next") {
+        const index = rows.findIndex(
+          (row) => row.item.key === latestKey.current,
+        );
+        const neighbor = rows[index + (action === "next" ? 1 : -1)];
+
+        if (neighbor?.item.disabled) {
+          setAttemptedKey(neighbor.item.key);
+        }
+      }
+
+      focus(moveFocus(keys, latestKey.current, action));
+    },
+    { isActive },
+  );
+
+  return { focusedKey: currentKey, attemptedKey, focus };
+}
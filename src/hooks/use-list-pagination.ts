@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Current page of unordered lists with a page size.
+ *
+ * @module hooks/useListPagination
+ *
+ * @description
+ * This module provides the hook used by an UnorderedList with a `pageSize`
+ * to split its items into pages and track the page shown. The page is
+ * controlled through `page` or kept internally, changes with the `n` and `p`
+ * keys and through the methods returned for the list's `ref`, and follows
+ * the focus of an interactive list.
+ *
+ * @see {@link paginate}
+ * @see {@link resolvePageAction}
+ */
+
+import { useInput, useStdin } from "tinky";
+import { useEffect, useMemo, useState } from "react";
+import {
+  findPage,
+  paginate,
+  resolvePageAction,
+} from "../utils/list-pagination.js";
+import { type ListWindow } from "../utils/list-window.js";
+import { type UnorderedListHandle } from "../types/unordered-list-handle.js";
+
+/**
+ * Options for the useListPagination hook.
+ *
+ * @interface UseListPaginationOptions
+ *
+ * @property {readonly number[]} weights - Number of items shown by each root item
+ * @property {number | undefined} pageSize - Maximum number of items of a page, or
+ *   `undefined` to show every item
+ * @property {number} [page] - Controlled page, numbered from `1`
+ * @property {number} [defaultPage] - Initial uncontrolled page, numbered from `1`
+ * @property {Function} [onPageChange] - Called with the newly requested page
+ * @property {number} focusedIndex - Index of the root item holding the focus, or `-1`
+ * @property {boolean} [isActive] - Whether the `n` and `p` keys should be handled,
+ *   e.g. not while they are typed into a text input. Defaults to `true`
+ * @property {Function} [onPageTurn] - Called with the range of root items of
+ *   each page requested, e.g. to move the focus onto it
+ */
+export interface UseListPaginationOptions {
+  readonly weights: readonly number[];
+  readonly pageSize: number | undefined;
+  readonly page?: number;
+  readonly defaultPage?: number;
+  readonly onPageChange?: (page: number) => void;
+  readonly focusedIndex: number;
+  readonly isActive?: boolean;
+  readonly onPageTurn?: (range: ListWindow) => void;
+}
+
+/**
+ * Current page and page methods returned by useListPagination.
+ *
+ * @interface ListPagination
+ *
+ * @property {number} page - The page shown, numbered from `1`
+ * @property {number} pageCount - Number of pages
+ * @property {ListWindow} range - Range of root items of the page shown
+ * @property {Pick<UnorderedListHandle, "goToPage" | "nextPage" | "previousPage">} handle -
+ *   Methods changing the page
+ */
+export interface ListPagination {
+  readonly page: number;
+  readonly pageCount: number;
+  readonly range: ListWindow;
+  readonly handle: Pick<
+    UnorderedListHandle,
+    "goToPage" | "nextPage" | "previousPage"
+  >;
+}
+
+/**
+ * Splits a list into pages and tracks the page shown.
+ *
+ * @param {UseListPaginationOptions} options - Hook options
+ * @returns {ListPagination} The page shown and the page methods
+ *
+ * Pages outside of `1..pageCount` are clamped. When the focus moves to an
+ * item of another page, that page is requested; `onPageTurn` lets the list
+ * move the focus the other way, when the page is turned. `n` and `p` are only
+ * handled when the terminal supports raw mode, so that piped output still
+ * renders.
+ */
+export function useListPagination({
+  weights,
+  pageSize,
+  page,
+  defaultPage = 1,
+  onPageChange,
+  focusedIndex,
+  isActive = true,
+  onPageTurn,
+}: UseListPaginationOptions): ListPagination {
+  const { isRawModeSupported } = useStdin();
+  const [uncontrolledPage, setUncontrolledPage] = useState(defaultPage);
+  const pages = useMemo(
+    () => paginate(weights, pageSize ?? Number.POSITIVE_INFINITY),
+    [weights, pageSize],
+  );
+  const pageCount = pages.length;
+  const currentPage = Math.min(
+    Math.max(Math.trunc(page ?? uncontrolledPage), 1),
+    pageCount,
+  );
+
+  const goToPage = (nextPage: number) => {
+    const clampedPage = Math.min(Math.max(Math.trunc(nextPage), 1), pageCount);
+
+    if (clampedPage === currentPage) {
+      return;
+    }
+
+    if (page === undefined) {
+      setUncontrolledPage(clampedPage);
+    }
+    onPageChange?.(clampedPage);
+    onPageTurn?.(pages[clampedPage - 1] ?? { start: 0, end: 0 });
+  };
+  const handle: ListPagination["handle"] = {
+    goToPage,
+    nextPage: () => goToPage(currentPage + 1),
+    previousPage: () => goToPage(currentPage - 1),
+  };
+
+  useEffect(() => {
+    const focusedPage = findPage(pages, focusedIndex);
+
+    if (focusedPage !== -1) {
+      goToPage(focusedPage + 1);
+    }
+  }, [focusedIndex]);
+
+  useInput(
+    (input, key) => {
+      const action = resolvePageAction(input, key);
+
+      if (action === "next") {
+        handle.nextPage();
+      } else if (action === "previous") {
+        handle.previousPage();
+      }
+    },
+    {
+      isActive:
+        isActive &&
+        isRawModeSupported &&
+        pageSize !== undefined &&
+        pageCount > 1,
+    },
+  );
+
+  return {
+    page: currentPage,
+    pageCount,
+    range: pages[currentPage - 1] ?? { start: 0, end: 0 },
+    handle,
+  };
+}
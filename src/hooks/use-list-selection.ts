@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Multi-selection state for interactive unordered lists.
+ *
+ * @module hooks/useListSelection
+ *
+ * @description
+ * This module provides the hook used by a multi-select UnorderedList to keep
+ * track of its selected keys, either internally (uncontrolled) or through the
+ * `selectedKeys` / `onSelectionChange` props (controlled), and to react to the
+ * selection keys.
+ *
+ * @see {@link applySelectionAction}
+ * @see {@link resolveSelectionAction}
+ */
+
+import { useInput } from "tinky";
+import { useMemo, useState } from "react";
+import {
+  applySelectionAction,
+  resolveSelectionAction,
+} from "../utils/list-selection.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Options for the useListSelection hook.
+ *
+ * @interface UseListSelectionOptions
+ *
+ * @property {readonly UnorderedListItemData[]} items - The list tree
+ * @property {string | undefined} focusedKey - Key toggled by the Space key
+ * @property {boolean} isActive - Whether keyboard input should be handled
+ * @property {readonly string[]} [selectedKeys] - Controlled selection
+ * @property {readonly string[]} [defaultSelectedKeys] - Initial uncontrolled selection
+ * @property {Function} [onSelectionChange] - Called with the new selection
+ */
+export interface UseListSelectionOptions {
+  readonly items: readonly UnorderedListItemData[];
+  readonly focusedKey: string | undefined;
+  readonly isActive: boolean;
+  readonly selectedKeys?: readonly string[];
+  readonly defaultSelectedKeys?: readonly string[];
+  readonly onSelectionChange?: (selectedKeys: string[]) => void;
+}
+
+/**
+ * Tracks the selection of a multi-select list and handles selection keys.
+ *
+ * @param {UseListSelectionOptions} options - Hook options
+ * @returns {ReadonlySet<string>} The currently selected keys
+ */
+export function useListSelection({
+  items,
+  focusedKey,
+  isActive,
+  selectedKeys,
+  defaultSelectedKeys = [],
+  onSelectionChange,
+}: UseListSelectionOptions): ReadonlySet<string> {
+  const [uncontrolledKeys, setUncontrolledKeys] = useState(defaultSelectedKeys);
+  const currentKeys = selectedKeys ?? uncontrolledKeys;
+  const selected = useMemo(() => new Set(currentKeys), [currentKeys]);
+
+  useInput(
+    (input, key) => {
+      const action = resolveSelectionAction(input, key);
+
+      if (action === undefined) {
+        return;
+      }
+
+      const nextKeys = applySelectionAction(
+        items,
+        selected,
+        action,
+        focusedKey,
+      );
+
+      if (selectedKeys === undefined) {
+        setUncontrolledKeys(nextKeys);
+      }
+      onSelectionChange?.(nextKeys);
+    },
+    { isActive },
+  );
+
+  return selected;
+}
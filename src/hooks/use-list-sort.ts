@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Sort order and groups of data-driven unordered lists.
+ *
+ * @module hooks/useListSort
+ *
+ * @description
+ * This module provides the hook used by a data-driven UnorderedList to sort
+ * its data tree and gather its items into groups, following the `sortBy` and
+ * `groupBy` props. The sort direction starts at the one of `sortBy` and is
+ * kept internally, so that an interactive list can cycle it.
+ *
+ * Keyboard input is mapped to sort actions by the list itself, because it
+ * is ignored while the query input of a filterable list is open.
+ *
+ * @see {@link sortItems}
+ * @see {@link groupItems}
+ * @see {@link resolveSortAction}
+ */
+
+import { useMemo, useRef, useState } from "react";
+import {
+  cycleSortDirection,
+  groupItems,
+  sortItems,
+} from "../utils/list-sort.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import {
+  type UnorderedListSort,
+  type UnorderedListSortDirection,
+  type UnorderedListSortKey,
+} from "../types/unordered-list-sort.js";
+
+/**
+ * Options for the useListSort hook.
+ *
+ * @interface UseListSortOptions
+ *
+ * @property {readonly UnorderedListItemData[]} items - The list tree
+ * @property {UnorderedListSort | UnorderedListSortKey} [sortBy] - How items are
+ *   sorted; items keep the order of the data without it
+ * @property {Function} [groupBy] - Returns the title of the group of an item
+ * @property {Function} [onSortChange] - Called with the new sort direction
+ */
+export interface UseListSortOptions {
+  readonly items: readonly UnorderedListItemData[];
+  readonly sortBy?: UnorderedListSort | UnorderedListSortKey;
+  readonly groupBy?: (item: UnorderedListItemData) => string | undefined;
+  readonly onSortChange?: (
+    direction: UnorderedListSortDirection | undefined,
+  ) => void;
+}
+
+/**
+ * Arranged tree returned by useListSort.
+ *
+ * @interface ListSort
+ *
+ * @property {readonly UnorderedListItemData[]} items - The sorted and grouped tree
+ * @property {UnorderedListSortDirection | undefined} direction - The current
+ *   direction, `undefined` while items keep the order of the data
+ * @property {Function} cycle - Moves to the next sort direction
+ */
+export interface ListSort {
+  readonly items: readonly UnorderedListItemData[];
+  readonly direction: UnorderedListSortDirection | undefined;
+  readonly cycle: () => void;
+}
+
+/**
+ * Sorts and groups the data tree of a list.
+ *
+ * @param {UseListSortOptions} options - Hook options
+ * @returns {ListSort} The arranged tree, the sort direction and a function
+ *   cycling it
+ *
+ * The tree is sorted before it is grouped, so groups come in the order of
+ * their first item. Directions cycled in quick succession, before the list
+ * renders again, all count.
+ */
+export function useListSort({
+  items,
+  sortBy,
+  groupBy,
+  onSortChange,
+}: UseListSortOptions): ListSort {
+  const sort = typeof sortBy === "object" ? sortBy : { key: sortBy };
+  const [direction, setDirection] = useState<
+    UnorderedListSortDirection | undefined
+  >(sort.direction ?? "asc");
+  const latest = useRef(direction);
+  latest.current = direction;
+  // The memo is keyed on the fields of `sortBy` rather than on the object,
+  // so that an object written inline does not sort the tree on every render.
+  const locale =
+    typeof sort.locale === "object" ? sort.locale.join() : sort.locale;
+  const sorted = useMemo(
+    () =>
+      sortBy === undefined || direction === undefined
+        ? items
+        : sortItems(items, { ...sort, direction }),
+    [
+      items,
+      sortBy === undefined,
+      sort.key,
+      sort.compare,
+      sort.numeric,
+      locale,
+      direction,
+    ],
+  );
+  const grouped = useMemo(
+    () => (groupBy ? groupItems(sorted, groupBy) : sorted),
+    [sorted, groupBy],
+  );
+
+  return {
+    items: grouped,
+    direction: sortBy === undefined ? undefined : direction,
+    cycle: () => {
+      const nextDirection = cycleSortDirection(latest.current);
+
+      latest.current = nextDirection;
+      setDirection(nextDirection);
+      onSortChange?.(nextDirection);
+    },
+  };
+}
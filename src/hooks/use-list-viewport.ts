@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Scroll position of unordered lists with a maximum height.
+ *
+ * @module hooks/useListViewport
+ *
+ * @description
+ * This module provides the hook used by an UnorderedList with a `maxHeight`
+ * to track which of its items are shown. It scrolls on PageUp/PageDown,
+ * through the methods returned for the list's `ref`, and to reveal the item
+ * holding the focus of an interactive list whenever the focus moves.
+ *
+ * @see {@link getViewport}
+ * @see {@link resolveScrollAction}
+ */
+
+import { useInput, useStdin } from "tinky";
+import { useState } from "react";
+import {
+  getViewport,
+  resolveScrollAction,
+  scrollViewportTo,
+  type ListViewport,
+} from "../utils/list-viewport.js";
+import { type UnorderedListHandle } from "../types/unordered-list-handle.js";
+
+/**
+ * Options for the useListViewport hook.
+ *
+ * @interface UseListViewportOptions
+ *
+ * @property {number} itemCount - Total number of items
+ * @property {readonly number[]} [rowCounts] - Rows taken by each item, its
+ *   nested items included; one row per item without it
+ * @property {number | undefined} maxHeight - Number of rows available, or `undefined`
+ *   to show every item
+ * @property {number} focusedIndex - Index of the item holding the focus, or `-1`
+ */
+export interface UseListViewportOptions {
+  readonly itemCount: number;
+  readonly rowCounts?: readonly number[];
+  readonly maxHeight: number | undefined;
+  readonly focusedIndex: number;
+}
+
+/**
+ * Visible items and scroll methods returned by useListViewport.
+ *
+ * @interface ListViewportState
+ *
+ * @property {ListViewport} viewport - The visible items
+ * @property {Pick<UnorderedListHandle, "scrollTo" | "scrollBy" | "pageUp" | "pageDown">} handle -
+ *   Methods scrolling the list
+ */
+export interface ListViewportState {
+  readonly viewport: ListViewport;
+  readonly handle: Pick<
+    UnorderedListHandle,
+    "scrollTo" | "scrollBy" | "pageUp" | "pageDown"
+  >;
+}
+
+/**
+ * Tracks the scroll position of a list with a maximum height.
+ *
+ * @param {UseListViewportOptions} options - Hook options
+ * @returns {ListViewportState} The visible items and the scroll methods
+ *
+ * The focused item is only revealed when the focus moves, so paging away
+ * from it does not scroll back. PageUp/PageDown are only handled when the
+ * terminal supports raw mode, so that piped output still renders.
+ */
+export function useListViewport({
+  itemCount,
+  rowCounts,
+  maxHeight,
+  focusedIndex,
+}: UseListViewportOptions): ListViewportState {
+  const { isRawModeSupported } = useStdin();
+  const [start, setStart] = useState(0);
+  const [revealedIndex, setRevealedIndex] = useState(-1);
+  const height = maxHeight ?? Number.POSITIVE_INFINITY;
+  let viewport = getViewport(start, height, itemCount, rowCounts);
+
+  if (focusedIndex !== revealedIndex) {
+    viewport = scrollViewportTo(
+      start,
+      focusedIndex,
+      height,
+      itemCount,
+      rowCounts,
+    );
+    setRevealedIndex(focusedIndex);
+    setStart(viewport.start);
+  }
+
+  const scrollTo = (index: number) => {
+    setStart(getViewport(index, height, itemCount, rowCounts).start);
+  };
+  const scrollBy = (count: number) => {
+    scrollTo(viewport.start + count);
+  };
+  const pageSize = Math.max(viewport.end - viewport.start, 1);
+  const handle: ListViewportState["handle"] = {
+    scrollTo,
+    scrollBy,
+    pageUp: () => scrollBy(-pageSize),
+    pageDown: () => scrollBy(pageSize),
+  };
+
+  useInput(
+    (input, key) => {
+      const action = resolveScrollAction(input, key);
+
+      if (action !== undefined) {
+        handle[action]();
+      }
+    },
+    {
+      isActive:
+        isRawModeSupported && viewport.hiddenAbove + viewport.hiddenBelow > 0,
+    },
+  );
+
+  return { viewport, handle };
+}
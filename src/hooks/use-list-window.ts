@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Visible window of virtualized unordered lists.
+ *
+ * @module hooks/useListWindow
+ *
+ * @description
+ * This module provides the hook used by a virtualized UnorderedList to keep
+ * track of the rows it mounts. The window stays in place while the focused
+ * row is visible and scrolls just enough to reveal it otherwise.
+ *
+ * @see {@link scrollToRow}
+ */
+
+import { useState } from "react";
+import { scrollToRow, type ListWindow } from "../utils/list-window.js";
+
+/**
+ * Options for the useListWindow hook.
+ *
+ * @interface UseListWindowOptions
+ *
+ * @property {number} rowCount - Total number of rows
+ * @property {number} height - Number of visible rows
+ * @property {number} focusedIndex - Index of the row to keep in view, or `-1`
+ */
+export interface UseListWindowOptions {
+  readonly rowCount: number;
+  readonly height: number;
+  readonly focusedIndex: number;
+}
+
+/**
+ * Tracks the visible window of a virtualized list.
+ *
+ * @param {UseListWindowOptions} options - Hook options
+ * @returns {ListWindow} The range of rows to mount
+ */
+export function useListWindow({
+  rowCount,
+  height,
+  focusedIndex,
+}: UseListWindowOptions): ListWindow {
+  const [start, setStart] = useState(0);
+  const listWindow = scrollToRow(start, focusedIndex, height, rowCount);
+
+  if (listWindow.start !== start) {
+    setStart(listWindow.start);
+  }
+
+  return listWindow;
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Hook exposing the position of the current list item.
+ *
+ * @module hooks/useUnorderedListItem
+ *
+ * @description
+ * This module provides the public useUnorderedListItem hook, which custom
+ * item content can call to find out where it is rendered: the marker of its
+ * list, its nesting depth, its index among its siblings and the indices of
+ * its ancestors. It reads UnorderedListContext and UnorderedListItemContext
+ * and fills in defaults for values a custom provider may have left out.
+ *
+ * @example
+ * ```tsx
+ * import { useUnorderedListItem } from "tinky-unordered-list";
+ *
+ * function Numbered({ children }) {
+ *   const { path } = useUnorderedListItem();
+ *   return <Text>{path.map((index) => index + 1).join(".")}. {children}</Text>;
+ * }
+ *
+ * <UnorderedList>
+ *   <UnorderedList.Item>
+ *     <Numbered>First</Numbered>
+ *   </UnorderedList.Item>
+ * </UnorderedList>
+ * ```
+ *
+ * @see {@link UnorderedListItemContext}
+ * @see {@link UnorderedListContext}
+ */
+
+import { useContext, type ReactNode } from "react";
+import { UnorderedListContext } from "../contexts/unordered-list-context.js";
+import { UnorderedListItemContext } from "../contexts/unordered-list-item-context.js";
+
+/**
+ * Position of a list item in its hierarchy.
+ *
+ * @interface UnorderedListItemPosition
+ *
+ * @property {ReactNode} marker - The marker of the item
+ * @property {number} depth - Nesting depth of the item's list (root is `0`)
+ * @property {number} index - Position among its siblings, starting at `0`
+ * @property {boolean} isFirst - Whether the item is the first of its list
+ * @property {boolean} isLast - Whether the item is the last of its list
+ * @property {number} siblingCount - Number of children of the item's list
+ * @property {readonly number[]} path - Indices of the ancestor items from the
+ *   root list down, followed by the item's own index
+ */
+export interface UnorderedListItemPosition {
+  readonly marker: ReactNode;
+  readonly depth: number;
+  readonly index: number;
+  readonly isFirst: boolean;
+  readonly isLast: boolean;
+  readonly siblingCount: number;
+  readonly path: readonly number[];
+}
+
+/**
+ * Returns the position of the list item rendering the calling component.
+ *
+ * @returns {UnorderedListItemPosition} Position of the enclosing list item
+ *
+ * Outside of a list, the caller is treated as the only item of a root list.
+ */
+export function useUnorderedListItem(): UnorderedListItemPosition {
+  const { depth } = useContext(UnorderedListContext);
+  const {
+    marker,
+    index = 0,
+    isFirst = index === 0,
+    isLast = true,
+    siblingCount = index + 1,
+    path = [],
+  } = useContext(UnorderedListItemContext);
+
+  return {
+    marker,
+    depth: Math.max(depth - 1, 0),
+    index,
+    isFirst,
+    isLast,
+    siblingCount,
+    path: path.length > 0 ? path : [index],
+  };
+}
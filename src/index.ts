@@ -54,6 +54,209 @@ export {
   type UnorderedListItemProps,
 } from "./components/UnorderedListItem.js";
 
+/**
+ * UnorderedListGroup component gathering list items under a header.
+ *
+ * @remarks
+ * Usually accessed via {@link UnorderedList.Group} rather than imported directly.
+ */
+export {
+  UnorderedListGroup,
+  type UnorderedListGroupProps,
+} from "./components/UnorderedListGroup.js";
+
+/**
+ * Component rendering a Markdown bullet list with UnorderedList.
+ */
+export {
+  MarkdownUnorderedList,
+  type MarkdownUnorderedListProps,
+} from "./components/MarkdownUnorderedList.js";
+
+/**
+ * Component cycling through the frames of an animated marker.
+ *
+ * @remarks
+ * Follows the animation clock of the enclosing list, like the animated
+ * markers of the theme and the spinners of running items.
+ */
+export {
+  AnimatedMarker,
+  type AnimatedMarkerProps,
+} from "./components/AnimatedMarker.js";
+
+/**
+ * Data model for data-driven lists rendered via the `items` prop.
+ *
+ * @remarks
+ * Each node carries a key, a label and optional children, which are
+ * rendered as nested lists.
+ */
+export { type UnorderedListItemData } from "./types/unordered-list-item-data.js";
+
+/**
+ * Data model of lists parsed from Markdown and their inline content.
+ */
+export { type MarkdownListItemData } from "./types/markdown-list-item-data.js";
+export { type MarkdownInline } from "./types/markdown-inline.js";
+
+/**
+ * Render state passed to the `renderItem` callback of data-driven lists.
+ */
+export { type UnorderedListItemState } from "./types/unordered-list-item-state.js";
+
+/**
+ * Expanded state registered by collapsible items with their interactive list.
+ */
+export { type UnorderedListItemExpansion } from "./types/unordered-list-item-expansion.js";
+
+/**
+ * State passed to the style functions of the UnorderedList theme.
+ */
+export { type UnorderedListStyleState } from "./types/unordered-list-style-state.js";
+
+/**
+ * Marker configuration types, including per-item marker resolvers.
+ */
+export {
+  /** Marker configuration: single marker, per-level markers or resolver. */
+  type UnorderedListMarker,
+  /** Function computing the marker of each item. */
+  type UnorderedListMarkerResolver,
+  /** Information passed to a marker resolver. */
+  type UnorderedListMarkerContext,
+  /** Frame-based marker driven by the animation clock of the list. */
+  type UnorderedListAnimatedMarker,
+} from "./types/unordered-list-marker.js";
+
+/**
+ * Rendering variants accepted by the `variant` prop of UnorderedList.
+ */
+export { type UnorderedListVariant } from "./types/unordered-list-variant.js";
+
+/**
+ * Wrap and truncation modes accepted by the `wrap` prop of lists and items.
+ */
+export { type UnorderedListWrap } from "./types/unordered-list-wrap.js";
+
+/**
+ * Matching modes accepted by the `filterMode` prop of UnorderedList.
+ */
+export { type UnorderedListFilterMode } from "./types/unordered-list-filter-mode.js";
+
+/**
+ * Sort options accepted by the `sortBy` prop of UnorderedList.
+ */
+export {
+  type UnorderedListSort,
+  type UnorderedListSortDirection,
+  type UnorderedListSortKey,
+} from "./types/unordered-list-sort.js";
+
+/**
+ * Statuses of checklist items, the entries of the theme's status map and
+ * the status counts of a list.
+ */
+export {
+  type UnorderedListStatus,
+  type UnorderedListStatusMarker,
+  type UnorderedListStatusCounts,
+} from "./types/unordered-list-status.js";
+
+/**
+ * Methods exposed through the `ref` prop of UnorderedList to scroll lists
+ * with a `maxHeight`.
+ */
+export { type UnorderedListHandle } from "./types/unordered-list-handle.js";
+
+/**
+ * Static renderer producing the text of a list without mounting a tinky app.
+ *
+ * @remarks
+ * Shares marker resolution and text layout with UnorderedList, for plain
+ * output such as logs or piped commands.
+ */
+export {
+  /** Renders a data tree as an unordered list string. */
+  renderUnorderedListToString,
+  /** Options of renderUnorderedListToString. */
+  type RenderUnorderedListToStringOptions,
+} from "./utils/render-to-string.js";
+
+/**
+ * Parser turning a Markdown bullet list into list data.
+ *
+ * @remarks
+ * The parsed items can be passed to the `items` prop of UnorderedList, e.g.
+ * to navigate a Markdown list interactively.
+ */
+export {
+  /** Parses a Markdown bullet list into list data. */
+  parseMarkdownList,
+  /** Error thrown for malformed Markdown lists. */
+  MarkdownListParseError,
+} from "./utils/markdown-list.js";
+
+/**
+ * Serializers exporting list trees to Markdown, HTML and JSON reports.
+ */
+export {
+  /** Serializes a list tree as a GitHub-flavored Markdown list. */
+  unorderedListToMarkdown,
+  /** Serializes a list tree as semantic HTML. */
+  unorderedListToHtml,
+  /** Serializes a list tree as a versioned JSON document. */
+  unorderedListToJson,
+  /** Options of the list serializers. */
+  type ListExportOptions,
+} from "./utils/list-export.js";
+
+/**
+ * Status counts of checklists, e.g. for a custom summary outside of the list.
+ */
+export {
+  /** Counts items by status. */
+  countStatuses,
+  /** Lists the statuses of a data tree, descendants included. */
+  getItemStatuses,
+} from "./utils/list-status.js";
+
+/**
+ * Matching and highlighting of filter queries, e.g. to filter a tree before
+ * passing it to a list or to highlight matches in custom item renderers.
+ */
+export {
+  /** Matches a query against a text. */
+  matchText,
+  /** Prunes a tree down to the matching items and their ancestors. */
+  filterItems,
+  /** Splits text into highlighted and plain runs. */
+  splitHighlights,
+  /** Result of filterItems. */
+  type ListFilterResult,
+  /** A run of text returned by splitHighlights. */
+  type HighlightSegment,
+} from "./utils/list-filter.js";
+
+/**
+ * Sorting and grouping of data trees, e.g. to arrange a tree before
+ * exporting it the way a list shows it.
+ */
+export {
+  /** Sorts a tree, level by level. */
+  sortItems,
+  /** Gathers the items of a tree into groups, level by level. */
+  groupItems,
+} from "./utils/list-sort.js";
+
+/**
+ * JSON schema of lists exported by unorderedListToJson.
+ */
+export {
+  type UnorderedListJson,
+  type UnorderedListJsonItem,
+} from "./types/unordered-list-json.js";
+
 /**
  * React Context and props interface for managing list depth state.
  *
@@ -73,7 +276,8 @@ export {
  *
  * @remarks
  * The context provides marker configuration (bullet character) to
- * individual list items based on the current nesting depth.
+ * individual list items based on the current nesting depth, along with
+ * their position among their siblings.
  */
 export {
   /** React Context for providing marker configuration to list items. */
@@ -82,6 +286,58 @@ export {
   type UnorderedListItemContextProps,
 } from "./contexts/unordered-list-item-context.js";
 
+/**
+ * Hook reading the position of the enclosing list item.
+ *
+ * @remarks
+ * Returns the item's marker, depth, index, first/last flags, sibling count
+ * and the index path of its ancestors, with defaults applied.
+ */
+export {
+  /** Hook returning the position of the enclosing list item. */
+  useUnorderedListItem,
+  /** Position of a list item in its hierarchy. */
+  type UnorderedListItemPosition,
+} from "./hooks/use-unordered-list-item.js";
+
+/**
+ * React Context and props interface for interactive list state.
+ *
+ * @remarks
+ * An interactive root list shares its focus cursor with the nested lists
+ * it renders from data through this context.
+ */
+export {
+  /** React Context for sharing interactive state across nested lists. */
+  UnorderedListInteractionContext,
+  /** Props interface for UnorderedListInteractionContext. */
+  type UnorderedListInteractionContextProps,
+} from "./contexts/unordered-list-interaction-context.js";
+
+/**
+ * React Context and props interface for the shared animation clock.
+ *
+ * @remarks
+ * The root list provides a single clock to every animated marker it renders,
+ * nested lists included, so that they advance together on one timer.
+ */
+export {
+  /** React Context providing the animation clock of the root list. */
+  UnorderedListAnimationContext,
+  /** Props interface for UnorderedListAnimationContext. */
+  type UnorderedListAnimationContextProps,
+} from "./contexts/unordered-list-animation-context.js";
+
+/**
+ * Animation clock shared by the animated markers of a list.
+ */
+export {
+  /** Creates a clock that ticks only while animations are subscribed. */
+  createAnimationClock,
+  /** Clock driving frame-based markers. */
+  type AnimationClock,
+} from "./utils/list-animation.js";
+
 /**
  * Theme configuration exports for customizing list appearance.
  *
@@ -92,6 +348,26 @@ export {
 export {
   /** Default marker character (line figure). */
   defaultMarker,
+  /** Default checkbox glyphs of multi-select lists. */
+  defaultCheckboxMarkers,
+  /** Default expand/collapse glyphs of collapsible lists. */
+  defaultExpandMarkers,
+  /** Default box-drawing connectors of the tree variant. */
+  defaultTreeConnectors,
+  /** Default arrows of the indicators of items scrolled out of view. */
+  defaultScrollIndicators,
+  /** Default footer of paginated lists. */
+  defaultPageFooter,
+  /** Default glyphs and colors of the statuses of checklist items. */
+  defaultStatusMarkers,
+  /** Default spinner of running checklist items. */
+  defaultSpinner,
+  /** Default summary line of checklists. */
+  defaultStatusSummary,
+  /** Default prompt of the query input of filterable lists. */
+  defaultFilterPrompt,
+  /** Default empty state of filtered lists. */
+  defaultFilterEmpty,
   /** Default theme configuration for UnorderedList components. */
   unorderedListTheme,
   /** Type definition for the UnorderedList theme. */
@@ -15,9 +15,12 @@
  *
  * The module exports:
  * 1. `defaultMarker` - The default marker character
- * 2. `UnorderedListThemeConfig` - Configuration interface for custom markers
- * 3. `unorderedListTheme` - Complete theme with styles and config
- * 4. `UnorderedListTheme` - Type definition of the theme
+ * 2. `defaultCheckboxMarkers` - The default checkbox glyphs of multi-select lists
+ * 3. `defaultExpandMarkers` - The default glyphs of collapsible items
+ * 4. `defaultTreeConnectors` - The default connectors of the tree variant
+ * 5. `UnorderedListThemeConfig` - Configuration interface for custom markers
+ * 6. `unorderedListTheme` - Complete theme with styles and config
+ * 7. `UnorderedListTheme` - Type definition of the theme
  *
  * @example
  * Using the default theme:
@@ -57,7 +60,19 @@
 
 import { type BoxProps, type TextProps } from "tinky";
 import figures from "figures";
+import { type ReactNode } from "react";
 import { type ComponentTheme } from "tinky-theme";
+import { type UnorderedListStyleState } from "../types/unordered-list-style-state.js";
+import {
+  type UnorderedListAnimatedMarker,
+  type UnorderedListMarker,
+} from "../types/unordered-list-marker.js";
+import { type UnorderedListWrap } from "../types/unordered-list-wrap.js";
+import {
+  type UnorderedListStatus,
+  type UnorderedListStatusCounts,
+  type UnorderedListStatusMarker,
+} from "../types/unordered-list-status.js";
 
 /**
  * Default marker character for unordered list items.
@@ -99,12 +114,297 @@ import { type ComponentTheme } from "tinky-theme";
  */
 export const defaultMarker = figures.line;
 
+/**
+ * Default checkbox glyphs used as markers in multi-select lists.
+ *
+ * In multi-select mode the regular marker of each item is swapped for one of
+ * these glyphs depending on the item's checked state:
+ * - `checked` - `figures.checkboxOn` (☒)
+ * - `unchecked` - `figures.checkboxOff` (☐)
+ * - `indeterminate` - `"⊟"` (squared minus), for partially selected parents
+ *
+ * @example
+ * ```typescript
+ * import { defaultCheckboxMarkers } from "tinky-unordered-list";
+ *
+ * console.log(defaultCheckboxMarkers.checked); // Output: "☒"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultCheckboxMarkers = {
+  checked: figures.checkboxOn,
+  unchecked: figures.checkboxOff,
+  indeterminate: "⊟",
+};
+
+/**
+ * Default glyphs used as markers of collapsible items.
+ *
+ * Items that contain a nested list and can be expanded or collapsed show one
+ * of these glyphs instead of their regular marker:
+ * - `expanded` - `figures.triangleDownSmall` (▾)
+ * - `collapsed` - `figures.triangleRightSmall` (▸)
+ *
+ * @example
+ * ```typescript
+ * import { defaultExpandMarkers } from "tinky-unordered-list";
+ *
+ * console.log(defaultExpandMarkers.collapsed); // Output: "▸"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultExpandMarkers = {
+  expanded: figures.triangleDownSmall,
+  collapsed: figures.triangleRightSmall,
+};
+
+/**
+ * Default box-drawing connectors of the `"tree"` list variant.
+ *
+ * In the tree variant the regular marker of each item is replaced by a
+ * connector that depends on the item's position among its siblings:
+ * - `branch` - `"├─"`, for every item but the last
+ * - `last` - `"└─"`, for the last item
+ *
+ * The vertical bar continuing a branch past multi-line items and nested
+ * lists is drawn by the `treeLine` style.
+ *
+ * @example
+ * ```typescript
+ * import { defaultTreeConnectors } from "tinky-unordered-list";
+ *
+ * console.log(defaultTreeConnectors.last); // Output: "└─"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultTreeConnectors = {
+  branch: "├─",
+  last: "└─",
+};
+
+/**
+ * Default arrows of the indicators of items scrolled out of view.
+ *
+ * Lists with a `maxHeight` that do not fit show how many items are hidden
+ * above and below the visible ones, prefixed with one of these arrows:
+ * - `above` - `figures.arrowUp` (↑), e.g. `↑ 3 more`
+ * - `below` - `figures.arrowDown` (↓), e.g. `↓ 12 more`
+ *
+ * The indicators are styled with the `scrollIndicator` style.
+ *
+ * @example
+ * ```typescript
+ * import { defaultScrollIndicators } from "tinky-unordered-list";
+ *
+ * console.log(defaultScrollIndicators.below); // Output: "↓"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultScrollIndicators = {
+  above: figures.arrowUp,
+  below: figures.arrowDown,
+};
+
+/**
+ * Default footer of paginated lists.
+ *
+ * Lists with a `pageSize` that span several pages show this footer below
+ * the page, styled with the `pageFooter` style.
+ *
+ * @param {number} page - The page shown, numbered from `1`
+ * @param {number} pageCount - Number of pages
+ * @returns {string} The footer text, e.g. `Page 2/7 · n/p to navigate`
+ *
+ * @example
+ * ```typescript
+ * import { defaultPageFooter } from "tinky-unordered-list";
+ *
+ * console.log(defaultPageFooter(2, 7)); // Output: "Page 2/7 · n/p to navigate"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultPageFooter = (page: number, pageCount: number): string =>
+  `Page ${page}/${pageCount} · n/p to navigate`;
+
+/**
+ * Default glyphs and colors of the statuses of checklist items.
+ *
+ * Items with a `status` show the glyph of their status instead of their
+ * regular marker, in the color of the status:
+ * - `pending` - `figures.circle` (◯), gray
+ * - `running` - `figures.play` (▶), cyan, replaced by the `spinner` frames
+ *   unless the spinner is disabled
+ * - `success` - `figures.tick` (✔), green
+ * - `warning` - `figures.warning` (⚠), yellow
+ * - `error` - `figures.cross` (✘), red
+ * - `skipped` - `figures.arrowDown` (↓), gray
+ *
+ * @example
+ * ```typescript
+ * import { defaultStatusMarkers } from "tinky-unordered-list";
+ *
+ * console.log(defaultStatusMarkers.error); // Output: { marker: "✘", color: "red" }
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultStatusMarkers: Readonly<
+  Record<UnorderedListStatus, UnorderedListStatusMarker>
+> = {
+  pending: { marker: figures.circle, color: "gray" },
+  running: { marker: figures.play, color: "cyan" },
+  success: { marker: figures.tick, color: "green" },
+  warning: { marker: figures.warning, color: "yellow" },
+  error: { marker: figures.cross, color: "red" },
+  skipped: { marker: figures.arrowDown, color: "gray" },
+};
+
+/**
+ * Default spinner of running checklist items.
+ *
+ * Items with the `running` status cycle through these frames, one every
+ * `interval` milliseconds, in the color of the `running` status. Like
+ * animated markers, spinners follow the animation clock of their list:
+ * - `frames` - The braille dots spinner (`⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏`)
+ * - `interval` - `80`
+ *
+ * Frames are expected to have the same width.
+ *
+ * @example
+ * ```typescript
+ * import { defaultSpinner } from "tinky-unordered-list";
+ *
+ * console.log(defaultSpinner.frames[0]); // Output: "⠋"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultSpinner: UnorderedListAnimatedMarker = {
+  frames: ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"],
+  interval: 80,
+};
+
+/**
+ * Default summary line of checklists.
+ *
+ * Lists with `summary` set show this line below their items, styled with the
+ * `statusSummary` style. Items count as done once they succeeded, succeeded
+ * with warnings or were skipped, and as failed with the `error` status.
+ *
+ * @param {UnorderedListStatusCounts} counts - Number of items of each status
+ * @returns {string} The summary text, e.g. `3/5 done, 1 failed`
+ *
+ * @example
+ * ```typescript
+ * import { defaultStatusSummary } from "tinky-unordered-list";
+ *
+ * defaultStatusSummary({ success: 2, warning: 1, error: 1, pending: 1, total: 5, ... });
+ * // Returns: "3/5 done, 1 failed"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultStatusSummary = (
+  counts: UnorderedListStatusCounts,
+): string => {
+  const done = counts.success + counts.warning + counts.skipped;
+
+  return counts.error > 0
+    ? `${done}/${counts.total} done, ${counts.error} failed`
+    : `${done}/${counts.total} done`;
+};
+
+/**
+ * Default prompt of the query input of filterable lists.
+ *
+ * Filterable lists show the query being typed after this prompt, above their
+ * items, styled with the `filterInput` style: `/` followed by the query, like
+ * the search of `less` or `vim`.
+ *
+ * @example
+ * ```typescript
+ * import { defaultFilterPrompt } from "tinky-unordered-list";
+ *
+ * console.log(defaultFilterPrompt); // Output: "/"
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultFilterPrompt = "/";
+
+/**
+ * Default text of filtered lists without matches.
+ *
+ * Lists whose filter query matches no item show this text in place of their
+ * items, styled with the `filterEmpty` style.
+ *
+ * @param {string} query - The filter query
+ * @returns {string} The text shown, e.g. `No matches for "src"`
+ *
+ * @example
+ * ```typescript
+ * import { defaultFilterEmpty } from "tinky-unordered-list";
+ *
+ * console.log(defaultFilterEmpty("src")); // Output: 'No matches for "src"'
+ * ```
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+export const defaultFilterEmpty = (query: string): string =>
+  `No matches for "${query}"`;
+
 /**
  * Configuration interface for UnorderedList theme markers.
  *
  * @interface UnorderedListThemeConfig
  *
- * @property {string | string[]} marker - The marker configuration for list items.
+ * @property {UnorderedListMarker} marker - The marker configuration for list items.
+ * @property {Partial<typeof defaultCheckboxMarkers>} [checkboxMarkers] - Checkbox glyphs
+ *   used instead of `marker` in multi-select lists. Missing glyphs fall back to
+ *   {@link defaultCheckboxMarkers}.
+ * @property {Partial<typeof defaultExpandMarkers>} [expandMarkers] - Glyphs used instead
+ *   of `marker` for collapsible items. Missing glyphs fall back to
+ *   {@link defaultExpandMarkers}.
+ * @property {boolean} [showChildCount] - Whether collapsed items show a badge with
+ *   the number of their hidden children.
+ * @property {Partial<typeof defaultTreeConnectors>} [treeConnectors] - Connectors used
+ *   instead of `marker` by the `"tree"` list variant. Missing connectors fall
+ *   back to {@link defaultTreeConnectors}.
+ * @property {"left" | "right"} [markerAlign] - Alignment of markers narrower than
+ *   the widest marker of their list. Markers are padded to a common width so
+ *   the content of all items starts in the same column. Defaults to `"left"`.
+ * @property {UnorderedListWrap} [wrap] - How item text wider than the content
+ *   column is laid out: wrapped (`"wrap"`, the default) or truncated with an
+ *   ellipsis at its end, middle or start.
+ * @property {number} [maxLines] - Maximum number of text lines of each item. Extra
+ *   lines are replaced by a `…(+N more lines)` indicator. Unlimited by default.
+ * @property {number} [hangingIndent] - Extra indentation of the continuation lines of
+ *   item text, relative to the content column. Defaults to `0`.
+ * @property {Partial<typeof defaultScrollIndicators>} [scrollIndicators] - Arrows of the
+ *   indicators of items scrolled out of view in lists with a `maxHeight`.
+ *   Missing arrows fall back to {@link defaultScrollIndicators}.
+ * @property {Function} [pageFooter] - Renders the footer of lists with a `pageSize`
+ *   from the page shown and the number of pages. Defaults to
+ *   {@link defaultPageFooter}.
+ * @property {Partial<Record<UnorderedListStatus, Partial<UnorderedListStatusMarker>>>} [statusMarkers] -
+ *   Glyphs and colors used instead of `marker` for items with a `status`.
+ *   Missing entries and fields fall back to {@link defaultStatusMarkers}.
+ * @property {Partial<typeof defaultSpinner> | false} [spinner] - Frames and interval
+ *   of the marker of running items. Missing fields fall back to
+ *   {@link defaultSpinner}; `false` shows the static `running` glyph instead.
+ * @property {Function} [statusSummary] - Renders the summary line of lists with
+ *   `summary` set from the number of items of each status. Defaults to
+ *   {@link defaultStatusSummary}.
+ * @property {string} [filterPrompt] - Prompt shown before the query of filterable
+ *   lists. Defaults to {@link defaultFilterPrompt}.
+ * @property {Function} [filterEmpty] - Renders the text shown in place of the items
+ *   of a filtered list without matches from the query. Defaults to
+ *   {@link defaultFilterEmpty}.
  *
  * Marker configuration options:
  *
@@ -113,6 +413,19 @@ export const defaultMarker = figures.line;
  * - Example: `{ marker: "•" }` uses bullet points at all levels
  * - Example: `{ marker: "-" }` uses hyphens at all levels
  *
+ * **Marker element (ReactElement)**:
+ * - All list items render the same element, e.g. `<Text color="yellow">⚠</Text>`
+ * - Elements may contain several segments (icon + count) or animate
+ * - Arrays and resolvers may return elements as well
+ *
+ * **Animated marker ({ frames, interval })**:
+ * - All list items cycle through the same frames, one every `interval`
+ *   milliseconds, e.g. `{ frames: ["◐", "◓", "◑", "◒"], interval: 120 }`
+ * - Frames are styled like text markers and measured by their widest frame
+ * - All animated markers of a list share the clock of the root list, which
+ *   only runs while one of them is mounted
+ * - Arrays and resolvers may return animated markers as well
+ *
  * **Array of markers (string[])**:
  * - Different markers for different nesting levels
  * - The depth index determines which marker to use
@@ -124,6 +437,15 @@ export const defaultMarker = figures.line;
  * - Depth 2: `markers[2]`
  * - Depth N (where N >= length): `markers[length - 1]`
  *
+ * **Marker resolver (function)**:
+ * - Called for every item with an {@link UnorderedListMarkerContext}: the
+ *   item's depth, index, first/last flags, sibling count, index path and,
+ *   for data-driven lists, the data item
+ * - Returns the marker of that item; `null` or `undefined` fall back to
+ *   {@link defaultMarker}
+ * - Example: `{ marker: ({ index }) => (index % 2 ? "◦" : "•") }` alternates
+ *   markers
+ *
  * Common marker characters:
  * - `"•"` - Bullet point (●)
  * - `"◦"` - White bullet (○)
@@ -186,7 +508,24 @@ export const defaultMarker = figures.line;
  * @see {@link UnorderedList}
  */
 export interface UnorderedListThemeConfig extends Record<string, unknown> {
-  marker: string | string[];
+  marker: UnorderedListMarker;
+  checkboxMarkers?: Partial<typeof defaultCheckboxMarkers>;
+  expandMarkers?: Partial<typeof defaultExpandMarkers>;
+  showChildCount?: boolean;
+  treeConnectors?: Partial<typeof defaultTreeConnectors>;
+  markerAlign?: "left" | "right";
+  wrap?: UnorderedListWrap;
+  maxLines?: number;
+  hangingIndent?: number;
+  scrollIndicators?: Partial<typeof defaultScrollIndicators>;
+  pageFooter?: (page: number, pageCount: number) => ReactNode;
+  statusMarkers?: Partial<
+    Record<UnorderedListStatus, Partial<UnorderedListStatusMarker>>
+  >;
+  spinner?: Partial<typeof defaultSpinner> | false;
+  statusSummary?: (counts: UnorderedListStatusCounts) => ReactNode;
+  filterPrompt?: string;
+  filterEmpty?: (query: string) => ReactNode;
 }
 
 /**
@@ -206,6 +545,39 @@ export interface UnorderedListThemeConfig extends Record<string, unknown> {
  * - `styles.listItem()` - BoxProps for individual list items
  * - `styles.marker()` - TextProps for the marker text
  * - `styles.content()` - BoxProps for the item content
+ * - `styles.focusedItem()` - TextProps for the focused item of an interactive list
+ * - `styles.childCount()` - TextProps for the child count badge of collapsed items
+ * - `styles.treeLine()` - BoxProps for the vertical connector of the tree variant
+ * - `styles.moreLines()` - TextProps for the indicator of lines hidden by `maxLines`
+ * - `styles.scrollIndicator()` - TextProps for the indicators of items scrolled out of view
+ * - `styles.pageFooter()` - TextProps for the footer of paginated lists
+ * - `styles.inlineCode()` - TextProps for the code spans of lists rendered from Markdown
+ * - `styles.link()` - TextProps for the links of lists rendered from Markdown
+ * - `styles.emphasis()` - TextProps for the emphasis of lists rendered from Markdown
+ * - `styles.strong()` - TextProps for the strong emphasis of lists rendered from Markdown
+ * - `styles.strikethrough()` - TextProps for the struck text of lists rendered from Markdown
+ * - `styles.statusSummary()` - TextProps for the summary line of checklists
+ * - `styles.filterInput()` - TextProps for the query input of filterable lists
+ * - `styles.filterMatch()` - TextProps for the characters matching the filter query
+ * - `styles.filterEmpty()` - TextProps for the text of filtered lists without matches
+ * - `styles.disabledItem()` - TextProps for the marker and text of disabled items
+ * - `styles.disabledReason()` - TextProps for the reason shown next to disabled items
+ * - `styles.groupHeader()` - TextProps for the headers of groups
+ *
+ * The default style functions ignore their argument, but every style function
+ * is called with an {@link UnorderedListStyleState}. The `list`,
+ * `scrollIndicator`, `pageFooter`, `statusSummary`, `filterInput`,
+ * `filterEmpty` and `groupHeader` slots receive the depth of the list; the slots resolved by a
+ * list item (`listItem`, `marker`, `content`, `focusedItem`, `childCount`,
+ * `treeLine`, `moreLines`, `filterMatch`, `disabledItem` and
+ * `disabledReason`) receive
+ * the item's position (`depth`, `index`, `isFirst`, `isLast`,
+ * `siblingCount`, `path`) and state (`focused`, `selected`, `expanded`,
+ * `status`, `disabled`), so
+ * a theme can style first, last, odd or even items, deeper levels or
+ * focused items differently. The `inlineCode`, `link`, `emphasis`, `strong`
+ * and `strikethrough` slots receive the position of the item holding the
+ * Markdown text.
  *
  * Configuration:
  * - `config()` - Returns UnorderedListThemeConfig with marker settings
@@ -237,6 +609,29 @@ export interface UnorderedListThemeConfig extends Record<string, unknown> {
  * </ThemeProvider>
  * ```
  *
+ * @example
+ * Striping odd and even items and dimming deeper levels:
+ * ```tsx
+ * import { extendTheme } from "tinky-theme";
+ * import type { UnorderedListStyleState } from "tinky-unordered-list";
+ *
+ * const stripedTheme = extendTheme(defaultTheme, {
+ *   components: {
+ *     UnorderedList: {
+ *       styles: {
+ *         content: ({ index = 0 }: UnorderedListStyleState) => ({
+ *           flexDirection: "column",
+ *           backgroundColor: index % 2 === 1 ? "gray" : undefined,
+ *         }),
+ *         marker: ({ depth = 0 }: UnorderedListStyleState) => ({
+ *           dimColor: depth > 0,
+ *         }),
+ *       },
+ *     },
+ *   },
+ * });
+ * ```
+ *
  * @see {@link UnorderedListTheme}
  * @see {@link UnorderedListThemeConfig}
  * @see {@link defaultMarker}
@@ -352,6 +747,397 @@ export const unorderedListTheme = {
     content: (): BoxProps => ({
       flexDirection: "column",
     }),
+
+    /**
+     * Style function for the focused item of an interactive list.
+     *
+     * @returns {TextProps} Props for rendering the focused item's marker and label
+     *
+     * Replaces the `marker` style on the focused item and is applied to the
+     * default label text of data-driven items, so the focus cursor stands out
+     * from the dimmed markers of the other items.
+     *
+     * Applied styles:
+     * - `color: "blue"` - Highlights the focused item
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const focusedStyles = unorderedListTheme.styles.focusedItem();
+     * // Returns: { color: "blue" }
+     * ```
+     */
+    focusedItem: (): TextProps => ({
+      color: "blue",
+    }),
+
+    /**
+     * Style function for the child count badge of collapsed items.
+     *
+     * @returns {TextProps} Props for rendering the badge, e.g. `(3)`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Keeps the badge in the background like the markers
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const badgeStyles = unorderedListTheme.styles.childCount();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    childCount: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the vertical connector of the tree variant.
+     *
+     * @returns {BoxProps} Props for rendering the continuation bar
+     *
+     * In the `"tree"` variant, every item but the last draws a vertical bar
+     * below its connector, down to its next sibling, so nested lists and
+     * multi-line content stay attached to the tree. The bar is the left
+     * border of a box growing to the height of the item.
+     *
+     * Applied styles:
+     * - `flexGrow: 1` - Fills the item height below the connector
+     * - `borderStyle: "single"` with only the left border - Draws `│`
+     * - `borderDimColor: true` - Matches the dimmed markers
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const lineStyles = unorderedListTheme.styles.treeLine();
+     * // Returns: { flexGrow: 1, borderStyle: "single", borderTop: false, ... }
+     * ```
+     */
+    treeLine: (): BoxProps => ({
+      flexGrow: 1,
+      borderStyle: "single",
+      borderTop: false,
+      borderRight: false,
+      borderBottom: false,
+      borderDimColor: true,
+    }),
+
+    /**
+     * Style function for the indicator of lines hidden by `maxLines`.
+     *
+     * @returns {TextProps} Props for rendering the indicator, e.g. `…(+3 more lines)`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the indicator apart from the item text
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const indicatorStyles = unorderedListTheme.styles.moreLines();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    moreLines: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the indicators of items scrolled out of view.
+     *
+     * @returns {TextProps} Props for rendering the indicators, e.g. `↓ 12 more`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the indicators apart from the items
+     *
+     * Like `list`, it receives the depth of the list rather than the state
+     * of an item.
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const indicatorStyles = unorderedListTheme.styles.scrollIndicator();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    scrollIndicator: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the footer of paginated lists.
+     *
+     * @returns {TextProps} Props for rendering the footer, e.g. `Page 2/7 · n/p to navigate`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the footer apart from the items
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const footerStyles = unorderedListTheme.styles.pageFooter();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    pageFooter: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the code spans of lists rendered from Markdown.
+     *
+     * @returns {TextProps} Props for rendering code, e.g. `` `npm test` ``
+     *
+     * Applied styles:
+     * - `color: "yellow"` - Sets code apart from the item text
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const codeStyles = unorderedListTheme.styles.inlineCode();
+     * // Returns: { color: "yellow" }
+     * ```
+     */
+    inlineCode: (): TextProps => ({
+      color: "yellow",
+    }),
+
+    /**
+     * Style function for the links of lists rendered from Markdown.
+     *
+     * @returns {TextProps} Props for rendering the text of links
+     *
+     * Applied styles:
+     * - `color: "blue"` - Marks the text as a link
+     * - `underline: true` - Marks the text as a link on monochrome terminals
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const linkStyles = unorderedListTheme.styles.link();
+     * // Returns: { color: "blue", underline: true }
+     * ```
+     */
+    link: (): TextProps => ({
+      color: "blue",
+      underline: true,
+    }),
+
+    /**
+     * Style function for the emphasis of lists rendered from Markdown.
+     *
+     * @returns {TextProps} Props for rendering `*emphasis*`
+     *
+     * Applied styles:
+     * - `italic: true` - Renders the text in italics
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const emphasisStyles = unorderedListTheme.styles.emphasis();
+     * // Returns: { italic: true }
+     * ```
+     */
+    emphasis: (): TextProps => ({
+      italic: true,
+    }),
+
+    /**
+     * Style function for the strong emphasis of lists rendered from Markdown.
+     *
+     * @returns {TextProps} Props for rendering `**strong**` emphasis
+     *
+     * Applied styles:
+     * - `bold: true` - Renders the text in bold
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const strongStyles = unorderedListTheme.styles.strong();
+     * // Returns: { bold: true }
+     * ```
+     */
+    strong: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for the struck text of lists rendered from Markdown.
+     *
+     * @returns {TextProps} Props for rendering `~~strikethrough~~`
+     *
+     * Applied styles:
+     * - `strikethrough: true` - Strikes the text through
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const strikethroughStyles = unorderedListTheme.styles.strikethrough();
+     * // Returns: { strikethrough: true }
+     * ```
+     */
+    strikethrough: (): TextProps => ({
+      strikethrough: true,
+    }),
+
+    /**
+     * Style function for the summary line of checklists.
+     *
+     * @returns {TextProps} Props for rendering the summary, e.g. `3/5 done, 1 failed`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the summary apart from the items
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const summaryStyles = unorderedListTheme.styles.statusSummary();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    statusSummary: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the query input of filterable lists.
+     *
+     * @returns {TextProps} Props for rendering the prompt and the query, e.g. `/src`
+     *
+     * Applied styles:
+     * - `bold: true` - Sets the query apart from the items
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const inputStyles = unorderedListTheme.styles.filterInput();
+     * // Returns: { bold: true }
+     * ```
+     */
+    filterInput: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for the characters of items matching the filter query.
+     *
+     * @returns {TextProps} Props for rendering the matching characters
+     *
+     * Applied to the matching characters of the plain text of items, on top
+     * of the style of the text, e.g. `focusedItem` for the focused item.
+     *
+     * Applied styles:
+     * - `color: "yellow"` - Highlights the matches
+     * - `bold: true` - Highlights the matches on monochrome terminals
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const matchStyles = unorderedListTheme.styles.filterMatch();
+     * // Returns: { color: "yellow", bold: true }
+     * ```
+     */
+    filterMatch: (): TextProps => ({
+      color: "yellow",
+      bold: true,
+    }),
+
+    /**
+     * Style function for the text of filtered lists without matches.
+     *
+     * @returns {TextProps} Props for rendering the text, e.g. `No matches for "src"`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the text apart from items
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const emptyStyles = unorderedListTheme.styles.filterEmpty();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    filterEmpty: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for disabled items.
+     *
+     * @returns {TextProps} Props for rendering the marker and the plain text
+     *   of disabled items
+     *
+     * Applied on top of the `marker` style and of the style of the text.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Shows that the item cannot be focused or chosen
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const disabledStyles = unorderedListTheme.styles.disabledItem();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    disabledItem: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the reason shown next to disabled items.
+     *
+     * @returns {TextProps} Props for rendering the reason, e.g. `Requires admin rights`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Keeps the reason as discreet as the item
+     * - `italic: true` - Sets the reason apart from the text of the item
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const reasonStyles = unorderedListTheme.styles.disabledReason();
+     * // Returns: { dimColor: true, italic: true }
+     * ```
+     */
+    disabledReason: (): TextProps => ({
+      dimColor: true,
+      italic: true,
+    }),
+
+    /**
+     * Style function for the headers of groups.
+     *
+     * @returns {TextProps} Props for rendering the title of a group, e.g. `Dependencies`
+     *
+     * Applied styles:
+     * - `bold: true` - Sets the header apart from the items of the group
+     *
+     * @example
+     * ```typescript
+     * import { unorderedListTheme } from "tinky-unordered-list";
+     *
+     * const headerStyles = unorderedListTheme.styles.groupHeader();
+     * // Returns: { bold: true }
+     * ```
+     */
+    groupHeader: (): TextProps => ({
+      bold: true,
+    }),
   },
 
   /**
@@ -364,13 +1150,27 @@ export const unorderedListTheme = {
    *
    * Default configuration:
    * - `marker: figures.line` - Uses the line figure as the default marker
+   * - `checkboxMarkers` - Uses {@link defaultCheckboxMarkers} in multi-select lists
+   * - `expandMarkers` - Uses {@link defaultExpandMarkers} for collapsible items
+   * - `showChildCount: true` - Shows the child count badge on collapsed items
+   * - `treeConnectors` - Uses {@link defaultTreeConnectors} in the tree variant
+   * - `markerAlign: "left"` - Pads narrow markers on their right
+   * - `wrap: "wrap"` - Wraps long item text below the content column
+   * - `hangingIndent: 0` - Aligns continuation lines with the first line
+   * - `scrollIndicators` - Uses {@link defaultScrollIndicators} in lists with a `maxHeight`
+   * - `pageFooter` - Uses {@link defaultPageFooter} in lists with a `pageSize`
+   * - `statusMarkers` - Uses {@link defaultStatusMarkers} for items with a `status`
+   * - `spinner` - Uses {@link defaultSpinner} for running items
+   * - `statusSummary` - Uses {@link defaultStatusSummary} in lists with `summary` set
+   * - `filterPrompt` - Uses {@link defaultFilterPrompt} in filterable lists
+   * - `filterEmpty` - Uses {@link defaultFilterEmpty} in filtered lists without matches
    *
    * @example
    * ```typescript
    * import { unorderedListTheme } from "tinky-unordered-list";
    *
    * const config = unorderedListTheme.config();
-   * // Returns: { marker: "─" }
+   * // Returns: { marker: "─", checkboxMarkers: { checked: "☒", ... } }
    * ```
    *
    * @example
@@ -392,8 +1192,22 @@ export const unorderedListTheme = {
    */
   config: (): UnorderedListThemeConfig => ({
     marker: figures.line,
+    checkboxMarkers: defaultCheckboxMarkers,
+    expandMarkers: defaultExpandMarkers,
+    showChildCount: true,
+    treeConnectors: defaultTreeConnectors,
+    markerAlign: "left",
+    wrap: "wrap",
+    hangingIndent: 0,
+    scrollIndicators: defaultScrollIndicators,
+    pageFooter: defaultPageFooter,
+    statusMarkers: defaultStatusMarkers,
+    spinner: defaultSpinner,
+    statusSummary: defaultStatusSummary,
+    filterPrompt: defaultFilterPrompt,
+    filterEmpty: defaultFilterEmpty,
   }),
-} satisfies ComponentTheme;
+} satisfies ComponentTheme<UnorderedListStyleState>;
 
 /**
  * Type definition for the UnorderedList theme.
@@ -411,6 +1225,24 @@ export const unorderedListTheme = {
  *     listItem: () => BoxProps;
  *     marker: () => TextProps;
  *     content: () => BoxProps;
+ *     focusedItem: () => TextProps;
+ *     childCount: () => TextProps;
+ *     treeLine: () => BoxProps;
+ *     moreLines: () => TextProps;
+ *     scrollIndicator: () => TextProps;
+ *     pageFooter: () => TextProps;
+ *     inlineCode: () => TextProps;
+ *     link: () => TextProps;
+ *     emphasis: () => TextProps;
+ *     strong: () => TextProps;
+ *     strikethrough: () => TextProps;
+ *     statusSummary: () => TextProps;
+ *     filterInput: () => TextProps;
+ *     filterMatch: () => TextProps;
+ *     filterEmpty: () => TextProps;
+ *     disabledItem: () => TextProps;
+ *     disabledReason: () => TextProps;
+ *     groupHeader: () => TextProps;
  *   };
  *   config: () => UnorderedListThemeConfig;
  * }
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Inline content of Markdown list items.
+ *
+ * @module types/MarkdownInline
+ *
+ * @description
+ * This module defines the inline nodes produced when the text of a Markdown
+ * list item is parsed: plain text, code spans, emphasis, strong emphasis,
+ * strikethrough and links. Nodes that hold formatted text nest their
+ * children, e.g. emphasis inside a link.
+ *
+ * @see {@link MarkdownListItemData}
+ */
+
+/**
+ * A node of the inline content of a Markdown list item.
+ *
+ * - `"text"` - Plain text
+ * - `"code"` - A code span, e.g. `` `npm install` ``
+ * - `"emphasis"` - Text between `*` or `_`
+ * - `"strong"` - Text between `**` or `__`
+ * - `"strikethrough"` - Text between `~~`
+ * - `"link"` - An inline link `[text](url)` or an autolink `<url>`
+ *
+ * @example
+ * ```typescript
+ * const content: MarkdownInline[] = [
+ *   { type: "text", value: "Run " },
+ *   { type: "code", value: "npm test" },
+ *   { type: "strong", children: [{ type: "text", value: "first" }] },
+ * ];
+ * ```
+ */
+export type MarkdownInline =
+  | { readonly type: "text" | "code"; readonly value: string }
+  | {
+      readonly type: "emphasis" | "strong" | "strikethrough";
+      readonly children: readonly MarkdownInline[];
+    }
+  | {
+      readonly type: "link";
+      readonly url: string;
+      readonly children: readonly MarkdownInline[];
+    };
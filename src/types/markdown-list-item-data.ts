@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Data model of lists parsed from Markdown.
+ *
+ * @module types/MarkdownListItemData
+ *
+ * @description
+ * This module defines the items produced by parsing a Markdown bullet list.
+ * They extend the data model of data-driven lists, so a parsed list can be
+ * passed to the `items` prop of UnorderedList as is, and carry the inline
+ * formatting and task state of each item.
+ *
+ * @see {@link UnorderedListItemData}
+ * @see {@link MarkdownUnorderedList}
+ */
+
+import { type MarkdownInline } from "./markdown-inline.js";
+import { type UnorderedListItemData } from "./unordered-list-item-data.js";
+
+/**
+ * A single item of a list parsed from Markdown.
+ *
+ * @interface MarkdownListItemData
+ * @extends UnorderedListItemData
+ *
+ * @property {string} key - Index path of the item, e.g. `"0.2"` for the third
+ *   child of the first item
+ * @property {string} label - Text of the item without its Markdown formatting
+ * @property {readonly MarkdownInline[]} content - Inline content of the item
+ * @property {boolean} [checked] - State of a task list item (`- [x]`);
+ *   `undefined` for plain items
+ * @property {readonly MarkdownListItemData[]} [children] - Items of the list
+ *   nested below the item
+ *
+ * @example
+ * ```typescript
+ * // - [x] Ship **v2**
+ * const item: MarkdownListItemData = {
+ *   key: "0",
+ *   label: "Ship v2",
+ *   checked: true,
+ *   content: [
+ *     { type: "text", value: "Ship " },
+ *     { type: "strong", children: [{ type: "text", value: "v2" }] },
+ *   ],
+ * };
+ * ```
+ */
+export interface MarkdownListItemData extends UnorderedListItemData {
+  readonly content: readonly MarkdownInline[];
+  readonly checked?: boolean;
+  readonly children?: readonly MarkdownListItemData[];
+}
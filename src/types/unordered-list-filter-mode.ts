@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Matching modes of filtered lists.
+ *
+ * @module types/UnorderedListFilterMode
+ *
+ * @description
+ * This module defines the values accepted by the `filterMode` prop of
+ * UnorderedList, which selects how the filter query is matched against the
+ * text of each item.
+ *
+ * @see {@link UnorderedList}
+ */
+
+/**
+ * How the filter query is matched against the text of an item.
+ *
+ * Both modes ignore case:
+ * - `"substring"` - The text contains the query as is
+ * - `"fuzzy"` - The text contains the characters of the query in order,
+ *   possibly with other characters in between; spaces in the query are
+ *   ignored
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList interactive filterable filterMode="fuzzy" items={files} />
+ * // "ulst" matches "UnorderedList.tsx"
+ * ```
+ */
+export type UnorderedListFilterMode = "substring" | "fuzzy";
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Imperative handle of scrollable unordered lists.
+ *
+ * @module types/UnorderedListHandle
+ *
+ * @description
+ * This module defines the object exposed through the `ref` prop of
+ * UnorderedList, which scrolls a list with a `maxHeight` and turns the pages
+ * of a list with a `pageSize` from code.
+ *
+ * @see {@link UnorderedList}
+ */
+
+/**
+ * Methods scrolling an UnorderedList with a `maxHeight` and turning the
+ * pages of an UnorderedList with a `pageSize`.
+ *
+ * All methods keep the list within its items: scrolling or paging past the
+ * first or last item stops there. They have no effect on lists that fit.
+ *
+ * @interface UnorderedListHandle
+ *
+ * @property {Function} scrollTo - Makes an item the first visible item
+ * @property {Function} scrollBy - Scrolls by a number of items, negative to scroll up
+ * @property {Function} pageUp - Scrolls up by one page, like PageUp
+ * @property {Function} pageDown - Scrolls down by one page, like PageDown
+ * @property {Function} goToPage - Shows a page, numbered from `1`
+ * @property {Function} nextPage - Shows the next page, like `n`
+ * @property {Function} previousPage - Shows the previous page, like `p`
+ *
+ * @example
+ * ```tsx
+ * const listRef = useRef<UnorderedListHandle>(null);
+ *
+ * <UnorderedList ref={listRef} maxHeight={10}>
+ *   {entries}
+ * </UnorderedList>;
+ *
+ * listRef.current?.scrollTo(entries.length - 1);
+ * ```
+ */
+export interface UnorderedListHandle {
+  readonly scrollTo: (index: number) => void;
+  readonly scrollBy: (count: number) => void;
+  readonly pageUp: () => void;
+  readonly pageDown: () => void;
+  readonly goToPage: (page: number) => void;
+  readonly nextPage: () => void;
+  readonly previousPage: () => void;
+}
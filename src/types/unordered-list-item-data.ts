@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Data model for data-driven unordered lists.
+ *
+ * @module types/UnorderedListItemData
+ *
+ * @description
+ * This module defines the tree-shaped data model accepted by the `items` prop
+ * of the UnorderedList component. Each node describes a single list item and
+ * may carry its own children, which are rendered as a nested UnorderedList
+ * one level deeper than the parent.
+ *
+ * @example
+ * ```typescript
+ * import type { UnorderedListItemData } from "tinky-unordered-list";
+ *
+ * const items: UnorderedListItemData[] = [
+ *   { key: "src", label: "src", children: [{ key: "index", label: "index.ts" }] },
+ *   { key: "readme", label: "README.md" },
+ * ];
+ * ```
+ *
+ * @see {@link UnorderedList}
+ */
+
+import { type UnorderedListStatus } from "./unordered-list-status.js";
+
+/**
+ * A single node in a data-driven unordered list tree.
+ *
+ * @interface UnorderedListItemData
+ *
+ * @property {string} key - Stable identifier of the item, unique within the whole tree.
+ *   Used as the React key when rendering the item and to track the focused item
+ *   of an interactive list.
+ * @property {string} label - Plain-text label of the item. Rendered as-is when no
+ *   `renderItem` callback is provided to the UnorderedList.
+ * @property {readonly UnorderedListItemData[]} [children] - Optional child items,
+ *   rendered as a nested list below the item's own content.
+ * @property {UnorderedListStatus} [status] - Progress of the item in a checklist.
+ *   Replaces its marker with the glyph and color of the status.
+ * @property {string} [searchText] - Text matched by the filter of the list instead
+ *   of `label`, e.g. to match a file by its full path while only showing its
+ *   name.
+ * @property {boolean} [disabled] - Shows the item dimmed and keeps it from being
+ *   focused or chosen, e.g. for an unavailable option.
+ * @property {boolean} [selectable] - Set to `false` to keep the item from being
+ *   focused or chosen without dimming it, e.g. for a section heading.
+ * @property {string} [disabledReason] - Why the item is disabled, shown next to
+ *   it when the user tries to focus it.
+ * @property {boolean} [group] - Turns the item into a group: its `label` is
+ *   rendered as a section header and its `children` are items of the same
+ *   list, at the depth of the group, e.g. to split dependencies by kind.
+ *
+ * @example
+ * ```typescript
+ * const item: UnorderedListItemData = {
+ *   key: "frontend",
+ *   label: "Frontend",
+ *   children: [
+ *     { key: "react", label: "React" },
+ *     { key: "vue", label: "Vue" },
+ *   ],
+ * };
+ * ```
+ */
+export interface UnorderedListItemData {
+  readonly key: string;
+  readonly label: string;
+  readonly children?: readonly UnorderedListItemData[];
+  readonly status?: UnorderedListStatus;
+  readonly searchText?: string;
+  readonly disabled?: boolean;
+  readonly selectable?: boolean;
+  readonly disabledReason?: string;
+  readonly group?: boolean;
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Expanded state of a hand-written list item.
+ *
+ * @module types/UnorderedListItemExpansion
+ *
+ * @description
+ * This module defines what a collapsible UnorderedList.Item registers with
+ * the interactive list holding it, so that the list can expand and collapse
+ * it from the keyboard while the item keeps its own state.
+ *
+ * @see {@link UnorderedListInteractionContext}
+ * @see {@link UnorderedListItem}
+ */
+
+import { type ExpansionAction } from "../utils/list-expansion.js";
+
+/**
+ * Expanded state of a collapsible UnorderedList.Item.
+ *
+ * @interface UnorderedListItemExpansion
+ *
+ * @property {boolean} expanded - Whether the item shows its nested lists
+ * @property {Function} apply - Expands, collapses or toggles the item
+ */
+export interface UnorderedListItemExpansion {
+  readonly expanded: boolean;
+  readonly apply: (action: ExpansionAction) => void;
+}
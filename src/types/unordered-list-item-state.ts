@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Render state of a data-driven list item.
+ *
+ * @module types/UnorderedListItemState
+ *
+ * @description
+ * This module defines the state object passed to the `renderItem` callback of
+ * a data-driven UnorderedList, so custom item content can reflect where the
+ * item sits in the tree and whether it is focused, selected or expanded.
+ *
+ * @see {@link UnorderedListItemData}
+ * @see {@link UnorderedList}
+ */
+
+/**
+ * State of a data item at the time it is rendered.
+ *
+ * @interface UnorderedListItemState
+ *
+ * @property {number} depth - Nesting depth of the list containing the item (root is `0`)
+ * @property {number} index - Position of the item among its siblings, starting at `0`
+ * @property {boolean} isFirst - Whether the item is the first of its list
+ * @property {boolean} isLast - Whether the item is the last of its list
+ * @property {number} siblingCount - Number of items in the item's list
+ * @property {readonly number[]} path - Indices of the ancestor items from the root
+ *   list down, followed by the item's own index
+ * @property {boolean} focused - Whether the item has the focus cursor of an interactive list
+ * @property {boolean | "indeterminate"} selected - Checked state of the item in a
+ *   multi-select list; `"indeterminate"` for partially selected parents and
+ *   always `false` outside of multi-select mode
+ * @property {boolean | undefined} expanded - Whether the children of the item are
+ *   shown in a collapsible list; `undefined` for leaves and outside of
+ *   collapsible lists
+ * @property {readonly number[]} [matches] - Indexes of the characters of the label
+ *   matching the query of a filtered list, for highlighting; empty when the
+ *   item only matches through its `searchText`, and `undefined` when it does
+ *   not match or the list is not filtered
+ * @property {boolean} disabled - Whether the item is disabled
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList
+ *   interactive
+ *   items={items}
+ *   renderItem={(item, { focused }) => (
+ *     <Text bold={focused}>{item.label}</Text>
+ *   )}
+ * />
+ * ```
+ */
+export interface UnorderedListItemState {
+  readonly depth: number;
+  readonly index: number;
+  readonly isFirst: boolean;
+  readonly isLast: boolean;
+  readonly siblingCount: number;
+  readonly path: readonly number[];
+  readonly focused: boolean;
+  readonly selected: boolean | "indeterminate";
+  readonly expanded: boolean | undefined;
+  readonly matches?: readonly number[];
+  readonly disabled: boolean;
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview JSON schema of exported lists.
+ *
+ * @module types/UnorderedListJson
+ *
+ * @description
+ * This module defines the document produced by `unorderedListToJson`. The
+ * schema is versioned and its properties are always written in the same
+ * order, so exported reports can be diffed and parsed by other tools.
+ *
+ * @see {@link unorderedListToJson}
+ */
+
+import { type MarkdownInline } from "./markdown-inline.js";
+import { type UnorderedListStatus } from "./unordered-list-status.js";
+
+/**
+ * An item of an exported list.
+ *
+ * @interface UnorderedListJsonItem
+ *
+ * @property {string} key - Key of the item
+ * @property {string} label - Plain-text label of the item
+ * @property {number} depth - Nesting depth of the item (root is `0`); the
+ *   items of a group share the depth of the group
+ * @property {true} [group] - Set on groups, whose `children` are the items
+ *   gathered under their header; absent for items
+ * @property {boolean | "indeterminate"} [checked] - Check state of task items;
+ *   absent for plain items
+ * @property {UnorderedListStatus} [status] - Status of checklist items; absent
+ *   for items without status
+ * @property {readonly MarkdownInline[]} [content] - Inline formatting of items
+ *   parsed from Markdown
+ * @property {readonly UnorderedListJsonItem[]} children - Nested items, empty
+ *   for leaves
+ */
+export interface UnorderedListJsonItem {
+  readonly key: string;
+  readonly label: string;
+  readonly depth: number;
+  readonly group?: true;
+  readonly checked?: boolean | "indeterminate";
+  readonly status?: UnorderedListStatus;
+  readonly content?: readonly MarkdownInline[];
+  readonly children: readonly UnorderedListJsonItem[];
+}
+
+/**
+ * An exported list.
+ *
+ * @interface UnorderedListJson
+ *
+ * @property {1} version - Version of the schema
+ * @property {readonly UnorderedListJsonItem[]} items - Root items of the list
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "items": [
+ *     { "key": "a", "label": "A", "depth": 0, "checked": true, "children": [] }
+ *   ]
+ * }
+ * ```
+ */
+export interface UnorderedListJson {
+  readonly version: 1;
+  readonly items: readonly UnorderedListJsonItem[];
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Marker configuration types of unordered lists.
+ *
+ * @module types/UnorderedListMarker
+ *
+ * @description
+ * This module defines the forms accepted by the `marker` option of the
+ * UnorderedList theme configuration: a single marker, one marker per nesting
+ * level, or a resolver function computing the marker of each item. Markers
+ * may be plain strings, elements such as colored icons, or frame-based
+ * animations such as spinners.
+ *
+ * @see {@link UnorderedListThemeConfig}
+ */
+
+import { type ReactElement, type ReactNode } from "react";
+import { type UnorderedListItemData } from "./unordered-list-item-data.js";
+
+/**
+ * Information about the item whose marker is being resolved.
+ *
+ * @interface UnorderedListMarkerContext
+ *
+ * @property {number} depth - Nesting depth of the item's list (root is `0`)
+ * @property {number} index - Position of the item among its siblings
+ * @property {boolean} isFirst - Whether the item is the first of its list
+ * @property {boolean} isLast - Whether the item is the last of its list
+ * @property {number} siblingCount - Number of items in the item's list
+ * @property {readonly number[]} path - Indices of the ancestor items followed by
+ *   the item's own index
+ * @property {UnorderedListItemData} [item] - The data item, for lists rendered
+ *   from `items`; `undefined` for hand-written items
+ */
+export interface UnorderedListMarkerContext {
+  readonly depth: number;
+  readonly index: number;
+  readonly isFirst: boolean;
+  readonly isLast: boolean;
+  readonly siblingCount: number;
+  readonly path: readonly number[];
+  readonly item?: UnorderedListItemData;
+}
+
+/**
+ * Frame-based marker, animated by the clock of the list.
+ *
+ * @interface UnorderedListAnimatedMarker
+ *
+ * @property {readonly string[]} frames - Frames of the marker, shown in order.
+ *   Frames are expected to have the same width.
+ * @property {number} interval - Milliseconds between two frames
+ *
+ * @example
+ * ```typescript
+ * const marker: UnorderedListAnimatedMarker = {
+ *   frames: ["◐", "◓", "◑", "◒"],
+ *   interval: 120,
+ * };
+ * ```
+ */
+export interface UnorderedListAnimatedMarker {
+  readonly frames: readonly string[];
+  readonly interval: number;
+}
+
+/**
+ * Computes the marker of a single item.
+ *
+ * Returning `undefined` or `null` falls back to the default marker. The
+ * marker may be an {@link UnorderedListAnimatedMarker}.
+ *
+ * @example
+ * ```typescript
+ * // Alternate markers, and flag items whose label ends with "!"
+ * const marker: UnorderedListMarkerResolver = ({ index, item }) =>
+ *   item?.label.endsWith("!") ? "!" : index % 2 === 0 ? "•" : "◦";
+ * ```
+ */
+export type UnorderedListMarkerResolver = (
+  context: UnorderedListMarkerContext,
+) => ReactNode | UnorderedListAnimatedMarker;
+
+/**
+ * Marker configuration of an unordered list.
+ *
+ * - `string` - The same marker for every item
+ * - `ReactElement` - The same element for every item, e.g. a colored icon
+ * - {@link UnorderedListAnimatedMarker} - The same animation for every item,
+ *   e.g. `{ frames: ["◐", "◓", "◑", "◒"], interval: 120 }`
+ * - `ReactNode[]` - One marker per nesting level; the last one is reused for
+ *   deeper levels. Levels may be animated.
+ * - {@link UnorderedListMarkerResolver} - A marker computed for each item
+ */
+export type UnorderedListMarker =
+  | string
+  | ReactElement
+  | UnorderedListAnimatedMarker
+  | readonly (ReactNode | UnorderedListAnimatedMarker)[]
+  | UnorderedListMarkerResolver;
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Sort options of data-driven unordered lists.
+ *
+ * @module types/UnorderedListSort
+ *
+ * @description
+ * This module defines the values accepted by the `sortBy` prop of
+ * UnorderedList, which orders the items of every level of a data tree.
+ *
+ * @see {@link UnorderedList}
+ */
+
+import { type UnorderedListItemData } from "./unordered-list-item-data.js";
+
+/**
+ * Direction in which items are sorted: ascending (`"asc"`) or descending
+ * (`"desc"`).
+ */
+export type UnorderedListSortDirection = "asc" | "desc";
+
+/**
+ * What items are sorted by: their `label`, their `key`, or the value a
+ * function reads from them. Numbers are compared as numbers and strings
+ * with the collation of the list; items without a value come last.
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList items={files} sortBy={(item) => sizes.get(item.key)} />
+ * ```
+ */
+export type UnorderedListSortKey =
+  | "label"
+  | "key"
+  | ((item: UnorderedListItemData) => string | number | undefined);
+
+/**
+ * How the items of a data-driven list are sorted.
+ *
+ * @interface UnorderedListSort
+ *
+ * @property {UnorderedListSortKey} [key="label"] - What items are sorted by
+ * @property {UnorderedListSortDirection} [direction="asc"] - Direction of the sort
+ * @property {Function} [compare] - Compares two items, like the callback of
+ *   `Array.prototype.sort`, instead of `key`; `direction` still applies
+ * @property {boolean} [numeric=false] - Sorts the digits of strings by their
+ *   numeric value, so that `"file2"` comes before `"file10"`
+ * @property {string | readonly string[]} [locale] - Locale of the collation of
+ *   strings; defaults to the locale of the runtime
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList
+ *   items={files}
+ *   sortBy={{ key: "label", direction: "desc", numeric: true }}
+ * />
+ * ```
+ */
+export interface UnorderedListSort {
+  readonly key?: UnorderedListSortKey;
+  readonly direction?: UnorderedListSortDirection;
+  readonly compare?: (
+    a: UnorderedListItemData,
+    b: UnorderedListItemData,
+  ) => number;
+  readonly numeric?: boolean;
+  readonly locale?: string | readonly string[];
+}
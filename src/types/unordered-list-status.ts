@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Statuses of checklist items.
+ *
+ * @module types/UnorderedListStatus
+ *
+ * @description
+ * This module defines the values accepted by the `status` prop of
+ * UnorderedListItem and the `status` field of data items, which turn a list
+ * into a progress checklist, the entries of the theme's status map, and the
+ * status counts shown in the summary of a list.
+ *
+ * @see {@link UnorderedListItem}
+ */
+
+/**
+ * Progress of a checklist item.
+ *
+ * - `"pending"` - Not started yet
+ * - `"running"` - In progress, shown with an animated spinner
+ * - `"success"` - Done
+ * - `"warning"` - Done with warnings
+ * - `"error"` - Failed
+ * - `"skipped"` - Not run
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList.Item status="running">
+ *   <Text>Installing dependencies</Text>
+ * </UnorderedList.Item>
+ * ```
+ */
+export type UnorderedListStatus =
+  "pending" | "running" | "success" | "warning" | "error" | "skipped";
+
+/**
+ * Marker and color of a status in the theme's `statusMarkers` map.
+ *
+ * @interface UnorderedListStatusMarker
+ *
+ * @property {string} marker - Glyph replacing the marker of the item
+ * @property {string} [color] - Color of the glyph, any color accepted by Text
+ *
+ * @example
+ * ```typescript
+ * const error: UnorderedListStatusMarker = { marker: "✘", color: "red" };
+ * ```
+ */
+export interface UnorderedListStatusMarker {
+  readonly marker: string;
+  readonly color?: string;
+}
+
+/**
+ * Number of items of a checklist by status, and in total.
+ *
+ * @example
+ * ```typescript
+ * const counts: UnorderedListStatusCounts = {
+ *   pending: 1, running: 0, success: 3, warning: 0, error: 1, skipped: 0, total: 5,
+ * };
+ * ```
+ */
+export type UnorderedListStatusCounts = Readonly<
+  Record<UnorderedListStatus | "total", number>
+>;
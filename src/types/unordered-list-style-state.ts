@@ -0,0 +1,75 @@
+/**
+ * @fileoverview State passed to the style functions of the UnorderedList theme.
+ *
+ * @module types/UnorderedListStyleState
+ *
+ * @description
+ * This module defines the state object with which UnorderedList and
+ * UnorderedListItem call the style functions of `unorderedListTheme`, so a
+ * single theme can vary colors, gaps or indentation by nesting depth,
+ * position and interactive state.
+ *
+ * @see {@link unorderedListTheme}
+ */
+
+import { type UnorderedListStatus } from "./unordered-list-status.js";
+
+/**
+ * State of the list or item whose styles are being resolved.
+ *
+ * @interface UnorderedListStyleState
+ *
+ * @property {number} depth - Nesting depth of the list (root is `0`). For item
+ *   slots, the depth of the list containing the item.
+ * @property {number} index - Position of the item among its siblings
+ * @property {boolean} isFirst - Whether the item is the first of its list
+ * @property {boolean} isLast - Whether the item is the last of its list
+ * @property {number} siblingCount - Number of items in the item's list
+ * @property {readonly number[]} path - Indices of the ancestor items followed by
+ *   the item's own index
+ * @property {boolean} focused - Whether the item has the focus cursor
+ * @property {boolean | "indeterminate"} selected - Checked state of the item in a
+ *   multi-select list; `undefined` outside of multi-select mode
+ * @property {boolean} expanded - Expanded state of a collapsible item;
+ *   `undefined` for items that cannot be collapsed
+ * @property {UnorderedListStatus} status - Progress of a checklist item;
+ *   `undefined` for items without status
+ * @property {boolean} disabled - Whether the item is disabled
+ *
+ * The `list` slot only receives `depth`; every other slot is resolved by an
+ * item and receives all fields. The fields are optional at the type level so
+ * that style functions annotated with this type can be passed to
+ * `extendTheme`, whose style functions accept any props.
+ *
+ * @example
+ * ```tsx
+ * import { extendTheme, defaultTheme } from "tinky-theme";
+ * import type { UnorderedListStyleState } from "tinky-unordered-list";
+ *
+ * const theme = extendTheme(defaultTheme, {
+ *   components: {
+ *     UnorderedList: {
+ *       styles: {
+ *         marker: ({ depth = 0, focused }: UnorderedListStyleState) => ({
+ *           color: focused ? "blue" : undefined,
+ *           dimColor: depth > 0,
+ *         }),
+ *       },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface UnorderedListStyleState {
+  readonly depth?: number;
+  readonly index?: number;
+  readonly isFirst?: boolean;
+  readonly isLast?: boolean;
+  readonly siblingCount?: number;
+  readonly path?: readonly number[];
+  readonly focused?: boolean;
+  readonly selected?: boolean | "indeterminate";
+  readonly expanded?: boolean;
+  readonly status?: UnorderedListStatus;
+  readonly disabled?: boolean;
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Rendering variants of unordered lists.
+ *
+ * @module types/UnorderedListVariant
+ *
+ * @description
+ * This module defines the values accepted by the `variant` prop of
+ * UnorderedList, which selects how items are attached to their list.
+ *
+ * @see {@link UnorderedList}
+ */
+
+/**
+ * Rendering variant of an UnorderedList.
+ *
+ * - `"default"` - Every item is prefixed with the theme marker and nested
+ *   lists are indented below their parent item
+ * - `"tree"` - Items are connected with box-drawing lines (`├─`, `└─`, `│`),
+ *   like the output of `tree` or `npm ls`
+ *
+ * Nested lists inherit the variant of their parent list.
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList variant="tree" items={files} />
+ * // ├─ src
+ * // │  └─ index.ts
+ * // └─ package.json
+ * ```
+ */
+export type UnorderedListVariant = "default" | "tree";
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Overflow modes of list item text.
+ *
+ * @module types/UnorderedListWrap
+ *
+ * @description
+ * This module defines the values accepted by the `wrap` prop of UnorderedList
+ * and UnorderedListItem, which selects how item text wider than the content
+ * column is laid out.
+ *
+ * @see {@link UnorderedList}
+ * @see {@link UnorderedListItem}
+ */
+
+/**
+ * How item text wider than the content column is laid out.
+ *
+ * - `"wrap"` - Words wrap onto the next lines, below the content column
+ * - `"truncate-end"` - Each line is cut at its end with an ellipsis
+ * - `"truncate-middle"` - Each line is cut in its middle with an ellipsis
+ * - `"truncate-start"` - Each line is cut at its start with an ellipsis
+ *
+ * @example
+ * ```tsx
+ * <UnorderedList wrap="truncate-middle" items={files} />
+ * // ─ src/compon…dList.tsx
+ * ```
+ */
+export type UnorderedListWrap =
+  "wrap" | "truncate-end" | "truncate-middle" | "truncate-start";
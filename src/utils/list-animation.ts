@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Shared clock of animated markers.
+ *
+ * @module utils/ListAnimation
+ *
+ * @description
+ * This module provides the clock with which a root UnorderedList drives
+ * every animated marker it renders, such as the spinners of running items.
+ * Instead of one timer per marker, the clock runs a single timer, set to the
+ * next time the frame of one of its intervals changes, and notifies the
+ * markers whose frame changed in the same callback, so React renders all of
+ * them at once. The timer only runs while markers are subscribed, and only
+ * uses `setTimeout` and `clearTimeout`, so fake timers control it entirely.
+ */
+
+/**
+ * Clock shared by the animated markers of a list.
+ *
+ * @interface AnimationClock
+ *
+ * @property {Function} subscribe - Calls a listener every time the frame of an
+ *   interval changes, until the returned function is called
+ * @property {Function} getFrame - Returns the number of frames of an interval
+ *   elapsed since the clock started
+ */
+export interface AnimationClock {
+  readonly subscribe: (interval: number, listener: () => void) => () => void;
+  readonly getFrame: (interval: number) => number;
+}
+
+/**
+ * Turns an interval into a whole number of milliseconds of at least `1`.
+ *
+ * @param {number} interval - Interval of an animated marker
+ * @returns {number} The interval used by the clock
+ */
+const normalizeInterval = (interval: number): number =>
+  Number.isFinite(interval) ? Math.max(Math.round(interval), 1) : 1;
+
+/**
+ * Creates the animation clock of a list.
+ *
+ * @returns {AnimationClock} A paused clock, started by its first subscriber
+ *
+ * Frames are counted from the time elapsed while the clock runs, so markers
+ * sharing an interval show the same frame whenever they were mounted. The
+ * clock pauses when its last subscriber leaves and resumes where it stopped.
+ *
+ * @example
+ * ```typescript
+ * const clock = createAnimationClock();
+ * const unsubscribe = clock.subscribe(80, () => {
+ *   console.log(clock.getFrame(80)); // 1, 2, 3, ...
+ * });
+ * ```
+ */
+export function createAnimationClock(): AnimationClock {
+  const subscriptions = new Set<{
+    readonly interval: number;
+    readonly listener: () => void;
+  }>();
+  let elapsed = 0;
+  let delay = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = (): void => {
+    const previous = elapsed;
+
+    elapsed += delay;
+    timer = undefined;
+
+    for (const { interval, listener } of [...subscriptions]) {
+      if (Math.floor(elapsed / interval) !== Math.floor(previous / interval)) {
+        listener();
+      }
+    }
+
+    schedule();
+  };
+
+  const schedule = (): void => {
+    const nextDelay = Math.min(
+      ...[...subscriptions].map(
+        ({ interval }) => interval - (elapsed % interval),
+      ),
+    );
+
+    if (timer !== undefined && nextDelay === delay) {
+      return;
+    }
+
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    if (Number.isFinite(nextDelay)) {
+      delay = nextDelay;
+      timer = setTimeout(tick, delay);
+    }
+  };
+
+  return {
+    subscribe: (interval, listener) => {
+      const subscription = {
+        interval: normalizeInterval(interval),
+        listener,
+      };
+
+      subscriptions.add(subscription);
+      schedule();
+
+      return () => {
+        subscriptions.delete(subscription);
+        schedule();
+      };
+    },
+    getFrame: (interval) => Math.floor(elapsed / normalizeInterval(interval)),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Expand/collapse helpers for collapsible unordered lists.
+ *
+ * @module utils/ListExpansion
+ *
+ * @description
+ * This module maps keyboard input to expand/collapse actions and computes the
+ * resulting set of expanded items of a collapsible, data-driven list.
+ *
+ * Supported keys:
+ * - `→` - Expand the focused item
+ * - `←` - Collapse the focused item
+ * - `Enter` - Toggle the focused item (handled through the list's select action)
+ */
+
+import { type Key } from "tinky";
+import { findItem, hasChildren } from "./list-tree.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * An expand/collapse action.
+ */
+export type ExpansionAction = "expand" | "collapse" | "toggle";
+
+/**
+ * Resolves the expansion action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {ExpansionAction | undefined} The matching action, if any
+ */
+export function resolveExpansionAction(
+  _input: string,
+  key: Key,
+): ExpansionAction | undefined {
+  if (key.rightArrow) {
+    return "expand";
+  }
+
+  if (key.leftArrow) {
+    return "collapse";
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects the keys of all items that have children.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @returns {string[]} Keys of all parent items, in document order
+ */
+export function collectParentKeys(
+  items: readonly UnorderedListItemData[],
+): string[] {
+  return items.flatMap((item) =>
+    hasChildren(item)
+      ? [item.key, ...collectParentKeys(item.children ?? [])]
+      : [],
+  );
+}
+
+/**
+ * Applies an expansion action to the set of expanded items.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ReadonlySet<string>} expandedKeys - The currently expanded items
+ * @param {ExpansionAction} action - The action to apply
+ * @param {string | undefined} key - Key of the item to expand or collapse
+ * @returns {string[] | undefined} The new expanded keys, or `undefined` when
+ *   the action does not change anything (unknown key, leaf item, or item
+ *   already in the requested state)
+ *
+ * @example
+ * ```typescript
+ * applyExpansionAction(items, new Set(), "expand", "src"); // ["src"]
+ * applyExpansionAction(items, new Set(["src"]), "expand", "src"); // undefined
+ * ```
+ */
+export function applyExpansionAction(
+  items: readonly UnorderedListItemData[],
+  expandedKeys: ReadonlySet<string>,
+  action: ExpansionAction,
+  key: string | undefined,
+): string[] | undefined {
+  const item = key === undefined ? undefined : findItem(items, key);
+
+  if (!item || !hasChildren(item)) {
+    return undefined;
+  }
+
+  const isExpanded = expandedKeys.has(item.key);
+  const expand = action === "toggle" ? !isExpanded : action === "expand";
+
+  if (expand === isExpanded) {
+    return undefined;
+  }
+
+  return expand
+    ? [...expandedKeys, item.key]
+    : [...expandedKeys].filter((expandedKey) => expandedKey !== item.key);
+}
@@ -0,0 +1,417 @@
+/**
+ * @fileoverview Export of list trees to Markdown, HTML and JSON.
+ *
+ * @module utils/ListExport
+ *
+ * @description
+ * This module serializes the data model of UnorderedList into report
+ * formats: GitHub-flavored Markdown, semantic HTML and a versioned JSON
+ * document. All three keep the nesting of the items and their task state,
+ * read from the `checked` property of items parsed from Markdown or from the
+ * selection of a multi-select list. Items parsed from Markdown also keep
+ * their inline formatting. Groups are written as a header line followed by
+ * their items, at the level of the group, the way UnorderedList renders them.
+ *
+ * The Markdown output of lists without groups can be parsed back with
+ * `parseMarkdownList`, and the output of every format only depends on its
+ * input, so exported reports can be diffed.
+ */
+
+import { getCheckedState, type CheckedState } from "./list-selection.js";
+import { expandGroups } from "./list-tree.js";
+import { type MarkdownInline } from "../types/markdown-inline.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import {
+  type UnorderedListJson,
+  type UnorderedListJsonItem,
+} from "../types/unordered-list-json.js";
+
+/**
+ * Options of the list serializers.
+ *
+ * @interface ListExportOptions
+ *
+ * @property {readonly string[]} [selectedKeys] - Selection of a multi-select
+ *   list. When set, every item is exported as a task, checked according to
+ *   the selection like in the list; otherwise only items with a `checked`
+ *   property are tasks.
+ */
+export interface ListExportOptions {
+  readonly selectedKeys?: readonly string[];
+}
+
+/**
+ * An item that may carry the task state and inline content of Markdown items.
+ */
+interface ExportedItem extends UnorderedListItemData {
+  readonly checked?: boolean;
+  readonly content?: readonly MarkdownInline[];
+}
+
+/**
+ * Creates the function reading the check state of items.
+ *
+ * @param {ListExportOptions} options - Serializer options
+ * @returns {Function} Returns the state of an item, `undefined` for plain
+ *   items and groups
+ */
+const createCheckedReader = ({
+  selectedKeys,
+}: ListExportOptions): ((item: ExportedItem) => CheckedState | undefined) => {
+  if (selectedKeys === undefined) {
+    return (item) => (item.group ? undefined : item.checked);
+  }
+
+  const selection = new Set(selectedKeys);
+
+  return (item) => (item.group ? undefined : getCheckedState(item, selection));
+};
+
+/**
+ * Characters escaped in Markdown text.
+ */
+const markdownSpecialPattern = /[\\`*_[\]<>~]/g;
+
+/**
+ * Escapes text so that Markdown renders it as is.
+ *
+ * @param {string} text - Plain text
+ * @returns {string} The escaped text
+ */
+const escapeMarkdown = (text: string): string =>
+  text.replace(markdownSpecialPattern, "\\$&");
+
+/**
+ * Writes a code span, with a fence longer than the backticks it contains.
+ *
+ * @param {string} code - The code
+ * @returns {string} The code span
+ */
+const toCodeSpan = (code: string): string => {
+  const longestRun = Math.max(
+    0,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const isPadded =
+    code.startsWith("`") ||
+    code.endsWith("`") ||
+    (code.startsWith(" ") && code.endsWith(" ") && code.trim() !== "");
+
+  return isPadded ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+};
+
+/**
+ * Writes inline nodes as Markdown.
+ *
+ * @param {readonly MarkdownInline[]} nodes - Inline nodes
+ * @returns {string} The Markdown text
+ */
+const inlineToMarkdown = (nodes: readonly MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeMarkdown(node.value);
+        case "code":
+          return toCodeSpan(node.value);
+        case "emphasis":
+          return `*${inlineToMarkdown(node.children)}*`;
+        case "strong":
+          return `**${inlineToMarkdown(node.children)}**`;
+        case "strikethrough":
+          return `~~${inlineToMarkdown(node.children)}~~`;
+        case "link": {
+          const [child] = node.children;
+
+          if (
+            node.children.length === 1 &&
+            child?.type === "text" &&
+            child.value === node.url &&
+            /^(?:https?:\/\/|mailto:)[^\s<>]+$/.test(node.url)
+          ) {
+            return `<${node.url}>`;
+          }
+
+          const url = /[\s()<>]/.test(node.url)
+            ? `<${node.url.replace(/[<>]/g, encodeURIComponent)}>`
+            : node.url;
+
+          return `[${inlineToMarkdown(node.children)}](${url})`;
+        }
+      }
+    })
+    .join("");
+
+/**
+ * Writes the text of an item as Markdown.
+ *
+ * @param {ExportedItem} item - The item
+ * @returns {string[]} The lines of its formatted content, or of its escaped
+ *   label, without blank lines
+ *
+ * Lines starting with characters that would read as a bullet, an ordered
+ * list marker, a heading or a thematic break are escaped too.
+ */
+const itemToMarkdown = (item: ExportedItem): string[] =>
+  (item.content ? inlineToMarkdown(item.content) : escapeMarkdown(item.label))
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line, index) => index === 0 || line !== "")
+    .map((line) =>
+      line.replace(/^[-+=#]/, "\\$&").replace(/^(\d+)([.)])(?=\s|$)/, "$1\\$2"),
+    );
+
+/**
+ * Serializes a list tree as a GitHub-flavored Markdown bullet list.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ListExportOptions} [options] - Serializer options
+ * @returns {string} The Markdown list, one item per line
+ *
+ * Items are written with `-` bullets and nested lists are indented by two
+ * spaces per level. Task items start with `[x]` or `[ ]`; as Markdown has no
+ * partial state, indeterminate parents are written unchecked. Labels are
+ * escaped, items parsed from Markdown keep their inline formatting, and
+ * multi-line labels continue on indented lines. Groups are written as a
+ * strong line, between blank lines, followed by their items at the same
+ * indentation.
+ *
+ * @example
+ * ```typescript
+ * unorderedListToMarkdown(files, { selectedKeys: ["a"] });
+ * // - [ ] src
+ * //   - [x] a.ts
+ * //   - [ ] b.ts
+ * ```
+ */
+export function unorderedListToMarkdown(
+  items: readonly UnorderedListItemData[],
+  options: ListExportOptions = {},
+): string {
+  const readChecked = createCheckedReader(options);
+
+  const write = (siblings: readonly ExportedItem[], indent: string): string[] =>
+    (expandGroups(siblings) as ExportedItem[]).flatMap((item) => {
+      if (item.group) {
+        return ["", `${indent}**${escapeMarkdown(item.label)}**`, ""];
+      }
+
+      const checked = readChecked(item);
+      const task =
+        checked === undefined ? "" : checked === true ? "[x] " : "[ ] ";
+      const [firstLine = "", ...lines] = itemToMarkdown(item);
+
+      return [
+        `${indent}- ${task}${firstLine}`.trimEnd(),
+        ...lines.map((line) => `${indent}  ${line}`),
+        ...(item.children ? write(item.children, `${indent}  `) : []),
+      ];
+    });
+
+  // Groups open and close with blank lines, which are kept once and only
+  // between other lines.
+  return write(items, "")
+    .filter(
+      (line, index, lines) =>
+        line !== "" ||
+        (index > 0 && index < lines.length - 1 && lines[index - 1] !== ""),
+    )
+    .join("\n");
+}
+
+/**
+ * Escapes text for HTML content and attribute values.
+ *
+ * @param {string} text - Plain text
+ * @returns {string} The escaped text
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+
+/**
+ * Writes inline nodes as HTML.
+ *
+ * @param {readonly MarkdownInline[]} nodes - Inline nodes
+ * @returns {string} The HTML text
+ */
+const inlineToHtml = (nodes: readonly MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.value);
+        case "code":
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case "emphasis":
+          return `<em>${inlineToHtml(node.children)}</em>`;
+        case "strong":
+          return `<strong>${inlineToHtml(node.children)}</strong>`;
+        case "strikethrough":
+          return `<del>${inlineToHtml(node.children)}</del>`;
+        case "link":
+          return `<a href="${escapeHtml(node.url)}">${inlineToHtml(node.children)}</a>`;
+      }
+    })
+    .join("");
+
+/**
+ * Serializes a list tree as semantic HTML.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ListExportOptions} [options] - Serializer options
+ * @returns {string} A `<ul>` element, indented by two spaces per level
+ *
+ * Every item becomes an `<li>` holding its key in `data-key` and nested
+ * lists become nested `<ul>` elements. Task items follow the markup of
+ * GitHub: the `task-list-item` class and a disabled checkbox, marked with
+ * `aria-checked="mixed"` when indeterminate, in lists with the
+ * `contains-task-list` class. Labels are escaped, with `<br>` between their
+ * lines, and items parsed from Markdown keep their inline formatting as
+ * `<em>`, `<strong>`, `<del>`, `<code>` and `<a>` elements. A group closes
+ * the list of the items before it and writes its title in a
+ * `<p class="list-group">` holding its key in `data-key`, followed by a new
+ * list of its items, at the same level.
+ *
+ * @example
+ * ```typescript
+ * unorderedListToHtml([{ key: "a", label: "A", children: [{ key: "b", label: "B" }] }]);
+ * // <ul>
+ * //   <li data-key="a">A
+ * //     <ul>
+ * //       <li data-key="b">B</li>
+ * //     </ul>
+ * //   </li>
+ * // </ul>
+ * ```
+ */
+export function unorderedListToHtml(
+  items: readonly UnorderedListItemData[],
+  options: ListExportOptions = {},
+): string {
+  const readChecked = createCheckedReader(options);
+
+  const writeList = (
+    siblings: readonly ExportedItem[],
+    indent: string,
+  ): string[] => {
+    const states = siblings.map(readChecked);
+    const listClass = states.some((state) => state !== undefined)
+      ? ' class="contains-task-list"'
+      : "";
+
+    return [
+      `${indent}<ul${listClass}>`,
+      ...siblings.flatMap((item, index) => {
+        const checked = states[index];
+        const text = item.content
+          ? inlineToHtml(item.content)
+          : item.label
+              .split("\n")
+              .filter((line) => line.trim() !== "")
+              .map(escapeHtml)
+              .join("<br>");
+        const checkbox =
+          checked === undefined
+            ? ""
+            : `<input type="checkbox" class="task-list-item-checkbox" disabled${
+                checked === true ? " checked" : ""
+              }${checked === "indeterminate" ? ' aria-checked="mixed"' : ""}> `;
+        const open = `${indent}  <li${
+          checked === undefined ? "" : ' class="task-list-item"'
+        } data-key="${escapeHtml(item.key)}">${checkbox}${text}`;
+
+        return item.children && item.children.length > 0
+          ? [open, ...write(item.children, `${indent}    `), `${indent}  </li>`]
+          : [`${open}</li>`];
+      }),
+      `${indent}</ul>`,
+    ];
+  };
+
+  const write = (
+    siblings: readonly ExportedItem[],
+    indent: string,
+  ): string[] => {
+    const lines: string[] = [];
+    let run: ExportedItem[] = [];
+
+    for (const item of expandGroups(siblings) as ExportedItem[]) {
+      if (!item.group) {
+        run.push(item);
+        continue;
+      }
+
+      if (run.length > 0) {
+        lines.push(...writeList(run, indent));
+        run = [];
+      }
+
+      lines.push(
+        `${indent}<p class="list-group" data-key="${escapeHtml(item.key)}"><strong>${escapeHtml(item.label)}</strong></p>`,
+      );
+    }
+
+    return run.length > 0 || lines.length === 0
+      ? [...lines, ...writeList(run, indent)]
+      : lines;
+  };
+
+  return write(items, "").join("\n");
+}
+
+/**
+ * Serializes a list tree as a JSON document.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ListExportOptions} [options] - Serializer options
+ * @returns {string} An {@link UnorderedListJson} document, indented by two spaces
+ *
+ * Each item holds its `key`, `label`, `depth`, `group` flag (groups only),
+ * `checked` state (tasks only), `status` (checklist items only), inline
+ * `content` (items parsed from Markdown only) and `children`, always in this
+ * order. The items of a group are at the depth of the group, as they are
+ * rendered at the depth of the list.
+ *
+ * @example
+ * ```typescript
+ * JSON.parse(unorderedListToJson(items)).items[0].depth; // 0
+ * ```
+ */
+export function unorderedListToJson(
+  items: readonly UnorderedListItemData[],
+  options: ListExportOptions = {},
+): string {
+  const readChecked = createCheckedReader(options);
+
+  const toJsonItem = (
+    item: ExportedItem,
+    depth: number,
+  ): UnorderedListJsonItem => {
+    const checked = readChecked(item);
+
+    return {
+      key: item.key,
+      label: item.label,
+      depth,
+      ...(item.group ? { group: true as const } : {}),
+      ...(checked === undefined ? {} : { checked }),
+      ...(item.status ? { status: item.status } : {}),
+      ...(item.content ? { content: item.content } : {}),
+      children: (item.children ?? []).map((child) =>
+        toJsonItem(child, item.group ? depth : depth + 1),
+      ),
+    };
+  };
+  const document: UnorderedListJson = {
+    version: 1,
+    items: items.map((item) => toJsonItem(item, 0)),
+  };
+
+  return JSON.stringify(document, null, 2);
+}
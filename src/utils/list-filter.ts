@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Filtering of unordered lists by a query.
+ *
+ * @module utils/ListFilter
+ *
+ * @description
+ * This module matches a query against the text of items, prunes a list tree
+ * down to the matching items and their ancestors, splits text into the
+ * segments highlighted as matches, and maps keyboard input to the actions of
+ * the query input of a filterable list. The helpers are pure so that the
+ * filtering rules can be exercised without mounting a tinky application.
+ *
+ * Supported keys of the query input:
+ * - `/` - Open the query input
+ * - Printable characters - Append to the query while the input is open
+ * - `Backspace` / `Delete` - Remove the last character of the query
+ * - `Enter` - Close the input, keeping the query
+ * - `Escape` - Close the input and clear the query
+ */
+
+import { type Key } from "tinky";
+import { type UnorderedListFilterMode } from "../types/unordered-list-filter-mode.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * An action of the query input triggered by keyboard input.
+ */
+export type FilterAction = "open" | "type" | "delete" | "confirm" | "cancel";
+
+/**
+ * Result of filtering a list tree.
+ *
+ * @interface ListFilterResult
+ *
+ * @property {readonly UnorderedListItemData[]} items - The matching items and their
+ *   ancestors, with the children that neither match nor lead to a match left out
+ * @property {ReadonlyMap<string, readonly number[]>} matches - Indexes of the
+ *   characters of the label of each matching item that match the query, by
+ *   key; empty for items that only match through their `searchText`
+ * @property {ReadonlyMap<string, UnorderedListItemData>} sources - Original item
+ *   of every item whose children were left out, by key
+ */
+export interface ListFilterResult {
+  readonly items: readonly UnorderedListItemData[];
+  readonly matches: ReadonlyMap<string, readonly number[]>;
+  readonly sources: ReadonlyMap<string, UnorderedListItemData>;
+}
+
+/**
+ * A run of text that is either highlighted or not.
+ *
+ * @interface HighlightSegment
+ *
+ * @property {string} text - The text of the run
+ * @property {boolean} highlighted - Whether the run matches the query
+ */
+export interface HighlightSegment {
+  readonly text: string;
+  readonly highlighted: boolean;
+}
+
+/**
+ * Folds a character for case-insensitive comparison.
+ *
+ * @param {string} char - A single UTF-16 code unit
+ * @returns {string} Its lowercase form, or the character itself when
+ *   lowercasing would change its length
+ */
+const foldCase = (char: string): string => {
+  const lower = char.toLowerCase();
+
+  return lower.length === 1 ? lower : char;
+};
+
+/**
+ * Matches a query against a text.
+ *
+ * @param {string} text - The text of an item
+ * @param {string} query - The filter query
+ * @param {UnorderedListFilterMode} [mode="substring"] - How the query is matched
+ * @returns {number[] | undefined} Indexes of the characters of `text` matching
+ *   the query, or `undefined` when the text does not match
+ *
+ * Case is ignored. The substring mode matches the first occurrence of the
+ * query; the fuzzy mode matches each character of the query, spaces aside,
+ * at its first occurrence after the previous one. An empty query matches
+ * any text, with no characters to highlight.
+ *
+ * @example
+ * ```typescript
+ * matchText("README.md", "read"); // [0, 1, 2, 3]
+ * matchText("UnorderedList.tsx", "ulst", "fuzzy"); // [0, 9, 11, 12]
+ * matchText("index.ts", "list"); // undefined
+ * ```
+ */
+export function matchText(
+  text: string,
+  query: string,
+  mode: UnorderedListFilterMode = "substring",
+): number[] | undefined {
+  const haystack = Array.from({ length: text.length }, (_, index) =>
+    foldCase(text.charAt(index)),
+  ).join("");
+  const needle = Array.from({ length: query.length }, (_, index) =>
+    foldCase(query.charAt(index)),
+  ).join("");
+
+  if (mode === "substring") {
+    const start = haystack.indexOf(needle);
+
+    return start === -1
+      ? undefined
+      : Array.from({ length: needle.length }, (_, offset) => start + offset);
+  }
+
+  const indexes: number[] = [];
+  let cursor = 0;
+
+  for (const char of needle.replace(/\s/g, "")) {
+    const index = haystack.indexOf(char, cursor);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    indexes.push(
+      ...Array.from({ length: char.length }, (_, offset) => index + offset),
+    );
+    cursor = index + char.length;
+  }
+
+  return indexes;
+}
+
+/**
+ * Prunes a list tree down to the items matching a query and their ancestors.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {string} query - The filter query
+ * @param {UnorderedListFilterMode} [mode="substring"] - How the query is matched
+ * @returns {ListFilterResult} The pruned tree and the matches of its items
+ *
+ * Items are matched by their `searchText`, or their `label` without one.
+ * An item is kept when it matches or when one of its descendants does, so
+ * matching nested items keep their parents, at their original depth. Groups
+ * don't match by themselves: they are only kept with their matching items. Items
+ * keep their identity unless some of their children were left out; those
+ * are copied and their original is listed in `sources`.
+ *
+ * @example
+ * ```typescript
+ * filterItems(
+ *   [{ key: "src", label: "src", children: [{ key: "a", label: "list.ts" }, { key: "b", label: "index.ts" }] }],
+ *   "list",
+ * ).items;
+ * // [{ key: "src", label: "src", children: [{ key: "a", label: "list.ts" }] }]
+ * ```
+ */
+export function filterItems(
+  items: readonly UnorderedListItemData[],
+  query: string,
+  mode: UnorderedListFilterMode = "substring",
+): ListFilterResult {
+  const matches = new Map<string, readonly number[]>();
+  const sources = new Map<string, UnorderedListItemData>();
+
+  const filter = (
+    siblings: readonly UnorderedListItemData[],
+  ): UnorderedListItemData[] =>
+    siblings.flatMap((item) => {
+      const children = item.children ? filter(item.children) : [];
+      const isMatch =
+        item.group !== true &&
+        matchText(item.searchText ?? item.label, query, mode) !== undefined;
+
+      if (isMatch) {
+        matches.set(item.key, matchText(item.label, query, mode) ?? []);
+      }
+
+      if (!isMatch && children.length === 0) {
+        return [];
+      }
+
+      if (children.length === (item.children?.length ?? 0)) {
+        return [item];
+      }
+
+      sources.set(item.key, item);
+
+      return [{ ...item, children }];
+    });
+
+  return { items: filter(items), matches, sources };
+}
+
+/**
+ * Splits text into highlighted and plain runs.
+ *
+ * @param {string} text - The text to split
+ * @param {Iterable<number>} indexes - Indexes of the characters to highlight
+ * @returns {HighlightSegment[]} Consecutive runs of text, alternating between
+ *   highlighted and plain ones
+ *
+ * @example
+ * ```typescript
+ * splitHighlights("list.ts", [0, 1]);
+ * // [{ text: "li", highlighted: true }, { text: "st.ts", highlighted: false }]
+ * ```
+ */
+export function splitHighlights(
+  text: string,
+  indexes: Iterable<number>,
+): HighlightSegment[] {
+  const highlighted = new Set(indexes);
+  const segments: HighlightSegment[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    const isHighlighted = highlighted.has(index);
+    const last = segments.at(-1);
+
+    if (last?.highlighted === isHighlighted) {
+      segments[segments.length - 1] = {
+        text: last.text + text.charAt(index),
+        highlighted: isHighlighted,
+      };
+    } else {
+      segments.push({ text: text.charAt(index), highlighted: isHighlighted });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Resolves the action of the query input for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @param {boolean} isEditing - Whether the query input is open
+ * @returns {FilterAction | undefined} The matching action, if any
+ *
+ * While the input is closed, only `/` opens it and Escape clears the query.
+ * While it is open, every printable character is typed into the query.
+ */
+export function resolveFilterAction(
+  input: string,
+  key: Key,
+  isEditing: boolean,
+): FilterAction | undefined {
+  if (key.escape) {
+    return "cancel";
+  }
+
+  if (!isEditing) {
+    return input === "/" && !key.ctrl && !key.meta ? "open" : undefined;
+  }
+
+  if (key.return) {
+    return "confirm";
+  }
+
+  if (key.backspace || key.delete) {
+    return "delete";
+  }
+
+  if (
+    input === "" ||
+    key.ctrl ||
+    key.meta ||
+    key.tab ||
+    key.upArrow ||
+    key.downArrow ||
+    key.leftArrow ||
+    key.rightArrow ||
+    key.pageUp ||
+    key.pageDown ||
+    key.home ||
+    key.end
+  ) {
+    return undefined;
+  }
+
+  return "type";
+}
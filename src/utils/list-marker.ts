@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Marker resolution for unordered lists.
+ *
+ * @module utils/ListMarker
+ *
+ * @description
+ * This module turns the `marker` option of the theme configuration into the
+ * marker of a single item. It is shared by every renderer of the list so that
+ * string, animated, per-level and function markers behave the same
+ * everywhere. It also measures markers, so that a list can pad them to a
+ * common width, reads their text for string output, and picks the glyphs
+ * that replace markers: checkboxes, expand glyphs, status glyphs and
+ * spinners, and the connectors of the tree variant.
+ */
+
+import { Children, createElement, isValidElement, type ReactNode } from "react";
+import stringWidth from "string-width";
+import {
+  AnimatedMarker,
+  type AnimatedMarkerProps,
+} from "../components/AnimatedMarker.js";
+import {
+  defaultCheckboxMarkers,
+  defaultExpandMarkers,
+  defaultMarker,
+  defaultSpinner,
+  defaultStatusMarkers,
+  defaultTreeConnectors,
+} from "../themes/unordered-list-theme.js";
+import {
+  type UnorderedListAnimatedMarker,
+  type UnorderedListMarkerContext,
+} from "../types/unordered-list-marker.js";
+import {
+  type UnorderedListStatus,
+  type UnorderedListStatusMarker,
+} from "../types/unordered-list-status.js";
+
+/**
+ * Tells whether a marker is a frame-based animation.
+ *
+ * @param {unknown} marker - A marker from the configuration
+ * @returns {boolean} `true` for objects with `frames` and an `interval`
+ */
+const isAnimatedMarker = (
+  marker: unknown,
+): marker is UnorderedListAnimatedMarker =>
+  typeof marker === "object" &&
+  marker !== null &&
+  !isValidElement(marker) &&
+  Array.isArray((marker as Partial<UnorderedListAnimatedMarker>).frames) &&
+  typeof (marker as Partial<UnorderedListAnimatedMarker>).interval === "number";
+
+/**
+ * Turns a marker from the configuration into a node.
+ *
+ * @param {unknown} marker - A marker picked from the configuration
+ * @returns {ReactNode} An AnimatedMarker element for animations, the marker
+ *   itself otherwise
+ */
+const toMarkerNode = (marker: unknown): ReactNode =>
+  isAnimatedMarker(marker)
+    ? createElement(AnimatedMarker, {
+        frames: marker.frames,
+        interval: marker.interval,
+      })
+    : (marker as ReactNode);
+
+/**
+ * Resolves the marker of an item from a marker configuration.
+ *
+ * @param {unknown} marker - The `marker` option of the resolved theme configuration
+ * @param {UnorderedListMarkerContext} context - The item whose marker is resolved
+ * @returns {ReactNode} The marker to display
+ *
+ * Resolution rules:
+ * - A string or an element is used as is
+ * - An animation (`{ frames, interval }`) becomes an {@link AnimatedMarker}
+ *   element, wherever it appears
+ * - An array is indexed by depth, reusing its last element for deeper levels
+ * - A function is called with the context; `null` and `undefined` results
+ *   fall back to {@link defaultMarker}
+ * - Anything else (including an empty array) falls back to {@link defaultMarker}
+ *
+ * @example
+ * ```typescript
+ * resolveMarker(["•", "◦"], { depth: 3, index: 0, ... }); // "◦"
+ * resolveMarker(({ index }) => `${index + 1}.`, { depth: 0, index: 1, ... }); // "2."
+ * ```
+ */
+export function resolveMarker(
+  marker: unknown,
+  context: UnorderedListMarkerContext,
+): ReactNode {
+  if (
+    typeof marker === "string" ||
+    isValidElement(marker) ||
+    isAnimatedMarker(marker)
+  ) {
+    return toMarkerNode(marker);
+  }
+
+  if (Array.isArray(marker)) {
+    return toMarkerNode(
+      (marker[context.depth] as unknown) ?? marker.at(-1) ?? defaultMarker,
+    );
+  }
+
+  if (typeof marker === "function") {
+    return toMarkerNode(
+      (marker as (context: UnorderedListMarkerContext) => unknown)(context) ??
+        defaultMarker,
+    );
+  }
+
+  return defaultMarker;
+}
+
+/**
+ * Props of marker elements that affect their width.
+ */
+interface MarkerElementProps {
+  readonly children?: ReactNode;
+  readonly gap?: unknown;
+  readonly flexDirection?: unknown;
+}
+
+/**
+ * Measures the width of a marker in terminal columns.
+ *
+ * @param {ReactNode} marker - A resolved marker
+ * @returns {number} The number of columns the marker occupies
+ *
+ * Text is measured with string-width, like the layout of tinky does, so
+ * wide CJK glyphs and emoji count as two columns and ANSI escapes as none.
+ * Elements are measured from the text they contain, plus the `gap` of
+ * row boxes between their children, and animated markers as their widest
+ * frame. Other components whose output isn't known until they render
+ * measure as `0`; their marker still grows to fit them, but they don't
+ * widen the markers of their siblings.
+ *
+ * @example
+ * ```typescript
+ * measureMarker("•"); // 1
+ * measureMarker("🚀"); // 2
+ * measureMarker(<Text color="red">✗ 12</Text>); // 4
+ * ```
+ */
+export function measureMarker(marker: ReactNode): number {
+  if (typeof marker === "string" || typeof marker === "number") {
+    return stringWidth(String(marker));
+  }
+
+  if (Array.isArray(marker)) {
+    return marker.reduce<number>(
+      (width, child: ReactNode) => width + measureMarker(child),
+      0,
+    );
+  }
+
+  if (!isValidElement<MarkerElementProps>(marker)) {
+    return 0;
+  }
+
+  if (marker.type === AnimatedMarker) {
+    const { frames } = marker.props as AnimatedMarkerProps;
+
+    return Math.max(0, ...frames.map((frame) => stringWidth(frame)));
+  }
+
+  const { children, gap, flexDirection } = marker.props;
+  const widths = Children.toArray(children).map(measureMarker);
+
+  if (flexDirection === "column") {
+    return Math.max(0, ...widths);
+  }
+
+  const gaps =
+    typeof gap === "number" ? gap * Math.max(widths.length - 1, 0) : 0;
+
+  return widths.reduce((total, width) => total + width, gaps);
+}
+
+/**
+ * Reads the text of a marker, for output that cannot render elements.
+ *
+ * @param {ReactNode} marker - A resolved marker
+ * @returns {string} The text the marker displays
+ *
+ * Elements are read like {@link measureMarker} measures them: from the text
+ * they contain, with the `gap` of row boxes as spaces between their
+ * children. Column boxes only contribute their first child, animated
+ * markers their first frame, and other components whose output isn't known
+ * until they render read as an empty string.
+ *
+ * @example
+ * ```typescript
+ * getMarkerText(<Text color="red">✗ 12</Text>); // "✗ 12"
+ * getMarkerText(<Box gap={1}><Text>⚠</Text><Text>3</Text></Box>); // "⚠ 3"
+ * ```
+ */
+export function getMarkerText(marker: ReactNode): string {
+  if (typeof marker === "string" || typeof marker === "number") {
+    return String(marker);
+  }
+
+  if (Array.isArray(marker)) {
+    return marker.map((child: ReactNode) => getMarkerText(child)).join("");
+  }
+
+  if (!isValidElement<MarkerElementProps>(marker)) {
+    return "";
+  }
+
+  if (marker.type === AnimatedMarker) {
+    return (marker.props as AnimatedMarkerProps).frames[0] ?? "";
+  }
+
+  const { children, gap, flexDirection } = marker.props;
+  const texts = Children.toArray(children).map(getMarkerText);
+
+  if (flexDirection === "column") {
+    return texts[0] ?? "";
+  }
+
+  return texts.join(" ".repeat(typeof gap === "number" ? gap : 0));
+}
+
+/**
+ * Picks the glyph reflecting the checked or expanded state of an item.
+ *
+ * @param {Record<string, unknown> | undefined} config - Resolved theme configuration
+ * @param {boolean | "indeterminate" | undefined} selected - Checked state, if any
+ * @param {boolean | undefined} expanded - Expanded state of a collapsible item, if any
+ * @returns {string | undefined} The state glyph, or `undefined` for stateless items
+ *
+ * Checkbox glyphs take precedence over expand glyphs.
+ */
+export function resolveStateMarker(
+  config: Record<string, unknown> | undefined,
+  selected: boolean | "indeterminate" | undefined,
+  expanded: boolean | undefined,
+): string | undefined {
+  if (selected !== undefined) {
+    const checkboxMarkers = {
+      ...defaultCheckboxMarkers,
+      ...(config?.checkboxMarkers as
+        Partial<typeof defaultCheckboxMarkers> | undefined),
+    };
+
+    if (selected === "indeterminate") {
+      return checkboxMarkers.indeterminate;
+    }
+
+    return selected ? checkboxMarkers.checked : checkboxMarkers.unchecked;
+  }
+
+  if (expanded !== undefined) {
+    const expandMarkers = {
+      ...defaultExpandMarkers,
+      ...(config?.expandMarkers as
+        Partial<typeof defaultExpandMarkers> | undefined),
+    };
+
+    return expanded ? expandMarkers.expanded : expandMarkers.collapsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks the spinner of running items.
+ *
+ * @param {Record<string, unknown> | undefined} config - Resolved theme configuration
+ * @returns {UnorderedListAnimatedMarker | undefined} The frames and interval of the
+ *   spinner, or `undefined` when the theme disables it or gives it no frames
+ *
+ * Missing fields fall back to {@link defaultSpinner}.
+ */
+export function resolveSpinner(
+  config: Record<string, unknown> | undefined,
+): UnorderedListAnimatedMarker | undefined {
+  if (config?.spinner === false) {
+    return undefined;
+  }
+
+  const spinner = {
+    ...defaultSpinner,
+    ...(config?.spinner as Partial<typeof defaultSpinner> | undefined),
+  };
+
+  return spinner.frames.length > 0 ? spinner : undefined;
+}
+
+/**
+ * Picks the glyph and color reflecting the status of a checklist item.
+ *
+ * @param {Record<string, unknown> | undefined} config - Resolved theme configuration
+ * @param {UnorderedListStatus | undefined} status - Status of the item, if any
+ * @returns {UnorderedListStatusMarker | undefined} The status glyph and color,
+ *   or `undefined` for items without status
+ *
+ * Entries and fields missing from the theme's `statusMarkers` fall back to
+ * {@link defaultStatusMarkers}. While the spinner is enabled, the glyph of
+ * running items is the first frame of the spinner, which is what they are
+ * measured and printed with outside of an animated list.
+ *
+ * @example
+ * ```typescript
+ * resolveStatusMarker({ statusMarkers: { error: { marker: "!" } } }, "error");
+ * // { marker: "!", color: "red" }
+ * ```
+ */
+export function resolveStatusMarker(
+  config: Record<string, unknown> | undefined,
+  status: UnorderedListStatus | undefined,
+): UnorderedListStatusMarker | undefined {
+  if (status === undefined) {
+    return undefined;
+  }
+
+  const statusMarkers = config?.statusMarkers as
+    | Partial<Record<UnorderedListStatus, Partial<UnorderedListStatusMarker>>>
+    | undefined;
+  const statusMarker = {
+    ...defaultStatusMarkers[status],
+    ...statusMarkers?.[status],
+  };
+  const spinner = status === "running" ? resolveSpinner(config) : undefined;
+
+  return spinner
+    ? { ...statusMarker, marker: spinner.frames[0] ?? statusMarker.marker }
+    : statusMarker;
+}
+
+/**
+ * Picks the tree connector of an item.
+ *
+ * @param {Record<string, unknown> | undefined} config - Resolved theme configuration
+ * @param {boolean} isLast - Whether the item is the last of its list
+ * @returns {string} The connector glyph
+ */
+export function resolveTreeConnector(
+  config: Record<string, unknown> | undefined,
+  isLast: boolean,
+): string {
+  const treeConnectors = {
+    ...defaultTreeConnectors,
+    ...(config?.treeConnectors as
+      Partial<typeof defaultTreeConnectors> | undefined),
+  };
+
+  return isLast ? treeConnectors.last : treeConnectors.branch;
+}
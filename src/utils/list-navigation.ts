@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Keyboard navigation helpers for interactive unordered lists.
+ *
+ * @module utils/ListNavigation
+ *
+ * @description
+ * This module maps raw terminal input to navigation actions and computes the
+ * next focused item for a flattened list. The helpers are pure so that the
+ * navigation rules can be exercised without mounting a tinky application.
+ *
+ * Supported keys:
+ * - `↑` / `k` - Focus the previous item
+ * - `↓` / `j` - Focus the next item
+ * - `Home` / `End` - Focus the first / last item
+ * - `Enter` - Select the focused item
+ */
+
+import { type Key } from "tinky";
+
+/**
+ * A navigation action triggered by keyboard input.
+ */
+export type NavigationAction =
+  "previous" | "next" | "first" | "last" | "select";
+
+/**
+ * Resolves the navigation action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {NavigationAction | undefined} The matching action, if any
+ */
+export function resolveNavigationAction(
+  input: string,
+  key: Key,
+): NavigationAction | undefined {
+  if (key.upArrow || input === "k") {
+    return "previous";
+  }
+
+  if (key.downArrow || input === "j") {
+    return "next";
+  }
+
+  if (key.home) {
+    return "first";
+  }
+
+  if (key.end) {
+    return "last";
+  }
+
+  if (key.return) {
+    return "select";
+  }
+
+  return undefined;
+}
+
+/**
+ * Computes the focused key after a movement action.
+ *
+ * @param {readonly string[]} keys - Keys of the focusable items in document order
+ * @param {string | undefined} focusedKey - The currently focused key
+ * @param {NavigationAction} action - The movement to apply
+ * @returns {string | undefined} The newly focused key
+ *
+ * Movement stops at the first and last item instead of wrapping around.
+ * An unknown or missing focused key is treated as "before the first item".
+ *
+ * @example
+ * ```typescript
+ * moveFocus(["a", "b", "c"], "b", "next"); // "c"
+ * moveFocus(["a", "b", "c"], "c", "next"); // "c"
+ * moveFocus(["a", "b", "c"], "b", "first"); // "a"
+ * ```
+ */
+export function moveFocus(
+  keys: readonly string[],
+  focusedKey: string | undefined,
+  action: NavigationAction,
+): string | undefined {
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  const index = focusedKey === undefined ? -1 : keys.indexOf(focusedKey);
+
+  switch (action) {
+    case "previous":
+      return keys[Math.max(index - 1, 0)];
+    case "next":
+      return keys[Math.min(index + 1, keys.length - 1)];
+    case "first":
+      return keys[0];
+    case "last":
+      return keys.at(-1);
+    default:
+      return focusedKey;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Pagination helpers for unordered lists with a page size.
+ *
+ * @module utils/ListPagination
+ *
+ * @description
+ * This module splits the items of an UnorderedList with a `pageSize` into
+ * pages and maps keyboard input to page changes. Items are never split from
+ * their nested lists: every root item is weighted by the number of items it
+ * shows, itself and its visible descendants included, and pages are filled
+ * with whole root items.
+ *
+ * Supported keys:
+ * - `n` - Go to the next page
+ * - `p` - Go to the previous page
+ */
+
+import { type Key } from "tinky";
+import { type ListWindow } from "./list-window.js";
+
+/**
+ * A page change action.
+ */
+export type PageAction = "next" | "previous";
+
+/**
+ * Resolves the page action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {PageAction | undefined} The matching action, if any
+ */
+export function resolvePageAction(
+  input: string,
+  key: Key,
+): PageAction | undefined {
+  if (key.ctrl || key.meta) {
+    return undefined;
+  }
+
+  if (input === "n") {
+    return "next";
+  }
+
+  if (input === "p") {
+    return "previous";
+  }
+
+  return undefined;
+}
+
+/**
+ * Splits weighted root items into pages.
+ *
+ * @param {readonly number[]} weights - Number of items shown by each root item,
+ *   its visible descendants included
+ * @param {number} pageSize - Maximum number of items of a page
+ * @returns {ListWindow[]} Range of root items of every page; a list without
+ *   items has a single empty page
+ *
+ * Pages are filled in order with as many root items as fit. A root item
+ * heavier than `pageSize` gets a page of its own. Entries weighing nothing,
+ * like the headers of groups, start the page of the item following them
+ * rather than end the previous one.
+ *
+ * @example
+ * ```typescript
+ * paginate([1, 3, 1, 1], 4);
+ * // [{ start: 0, end: 2 }, { start: 2, end: 4 }]
+ * ```
+ */
+export function paginate(
+  weights: readonly number[],
+  pageSize: number,
+): ListWindow[] {
+  const pages: ListWindow[] = [];
+  let start = 0;
+  let size = 0;
+  let leading: number | undefined;
+
+  weights.forEach((weight, index) => {
+    if (weight === 0) {
+      leading ??= index;
+      return;
+    }
+
+    const end = leading ?? index;
+
+    if (end > start && size + weight > pageSize) {
+      pages.push({ start, end });
+      start = end;
+      size = 0;
+    }
+
+    size += weight;
+    leading = undefined;
+  });
+
+  pages.push({ start, end: weights.length });
+
+  return pages;
+}
+
+/**
+ * Finds the page showing a root item.
+ *
+ * @param {readonly ListWindow[]} pages - Pages returned by {@link paginate}
+ * @param {number} index - Index of the root item
+ * @returns {number} Index of the page, or `-1` when no page shows the item
+ */
+export function findPage(pages: readonly ListWindow[], index: number): number {
+  return pages.findIndex((page) => index >= page.start && index < page.end);
+}
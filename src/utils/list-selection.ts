@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Multi-selection helpers for data-driven unordered lists.
+ *
+ * @module utils/ListSelection
+ *
+ * @description
+ * This module implements the selection model of multi-select lists. The
+ * selection is a set of item keys; the checked state of a parent item is
+ * derived from its descendants so that nested lists behave as tri-state
+ * checkbox trees:
+ *
+ * - A leaf is checked when its key is selected
+ * - A parent is checked when all of its children are checked
+ * - A parent is indeterminate when only some of its descendants are checked
+ *
+ * Supported keys:
+ * - `Space` - Toggle the focused item (and all of its descendants)
+ * - `Ctrl+A` - Select all items
+ * - `Ctrl+N` - Select no items
+ */
+
+import { type Key } from "tinky";
+import { findItem, isSelectableItem } from "./list-tree.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Checked state of an item in a multi-select list.
+ *
+ * `"indeterminate"` is only used for parents whose descendants are partially selected.
+ */
+export type CheckedState = boolean | "indeterminate";
+
+/**
+ * A selection action triggered by keyboard input.
+ */
+export type SelectionAction = "toggle" | "all" | "none";
+
+/**
+ * Resolves the selection action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {SelectionAction | undefined} The matching action, if any
+ */
+export function resolveSelectionAction(
+  input: string,
+  key: Key,
+): SelectionAction | undefined {
+  if (input === " " && !key.ctrl && !key.meta) {
+    return "toggle";
+  }
+
+  if (key.ctrl && input === "a") {
+    return "all";
+  }
+
+  if (key.ctrl && input === "n") {
+    return "none";
+  }
+
+  return undefined;
+}
+
+/**
+ * Derives the checked state of an item from a selection.
+ *
+ * @param {UnorderedListItemData} item - The item to inspect
+ * @param {ReadonlySet<string>} selectedKeys - The current selection
+ * @returns {CheckedState} `true`, `false` or `"indeterminate"`
+ *
+ * @example
+ * ```typescript
+ * const item = { key: "a", label: "A", children: [{ key: "b", label: "B" }, { key: "c", label: "C" }] };
+ * getCheckedState(item, new Set(["b"])); // "indeterminate"
+ * getCheckedState(item, new Set(["b", "c"])); // true
+ * ```
+ */
+export function getCheckedState(
+  item: UnorderedListItemData,
+  selectedKeys: ReadonlySet<string>,
+): CheckedState {
+  if (!item.children || item.children.length === 0) {
+    return selectedKeys.has(item.key);
+  }
+
+  const states = item.children.map((child) =>
+    getCheckedState(child, selectedKeys),
+  );
+
+  if (states.every((state) => state === true)) {
+    return true;
+  }
+
+  if (states.every((state) => state === false)) {
+    return false;
+  }
+
+  return "indeterminate";
+}
+
+/**
+ * Normalizes a selection so that it lists exactly the checked items.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ReadonlySet<string>} selectedKeys - The selection to normalize
+ * @returns {string[]} Keys of all checked items, in document order
+ *
+ * Parents are included when all of their children are checked and dropped
+ * otherwise, regardless of whether their own key was part of the input.
+ * Groups are never included, as they aren't items, but their items are.
+ */
+export function normalizeSelection(
+  items: readonly UnorderedListItemData[],
+  selectedKeys: ReadonlySet<string>,
+): string[] {
+  return items.flatMap((item) => [
+    ...(item.group !== true && getCheckedState(item, selectedKeys) === true
+      ? [item.key]
+      : []),
+    ...(item.children ? normalizeSelection(item.children, selectedKeys) : []),
+  ]);
+}
+
+/**
+ * Lists the leaves of a subtree, whose states make up the state of their
+ * ancestors.
+ *
+ * @param {UnorderedListItemData} item - Root of the subtree
+ * @returns {UnorderedListItemData[]} The leaves, in document order
+ */
+const collectLeaves = (item: UnorderedListItemData): UnorderedListItemData[] =>
+  item.children && item.children.length > 0
+    ? item.children.flatMap(collectLeaves)
+    : [item];
+
+/**
+ * Applies a selection action to a selection.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {ReadonlySet<string>} selectedKeys - The current selection
+ * @param {SelectionAction} action - The action to apply
+ * @param {string} [focusedKey] - The item toggled by the `"toggle"` action
+ * @returns {string[]} The normalized selection after the action
+ *
+ * Toggling an item that is not fully checked checks it together with all of
+ * its descendants; toggling a checked item unchecks the whole subtree.
+ *
+ * Items that cannot be chosen ({@link isSelectableItem}) keep their state:
+ * they are left out of the subtrees and of the whole list checked or
+ * unchecked by an action, and cannot be toggled themselves.
+ *
+ * @example
+ * ```typescript
+ * applySelectionAction(items, new Set(), "toggle", "parent");
+ * // ["parent", "child-1", "child-2"]
+ * ```
+ */
+export function applySelectionAction(
+  items: readonly UnorderedListItemData[],
+  selectedKeys: ReadonlySet<string>,
+  action: SelectionAction,
+  focusedKey?: string,
+): string[] {
+  const item =
+    focusedKey === undefined ? undefined : findItem(items, focusedKey);
+  const leaves = (
+    action === "toggle"
+      ? item && isSelectableItem(item)
+        ? collectLeaves(item)
+        : []
+      : items.flatMap(collectLeaves)
+  )
+    .filter(isSelectableItem)
+    .map((leaf) => leaf.key);
+  const check =
+    action === "all" ||
+    (action === "toggle" && leaves.some((key) => !selectedKeys.has(key)));
+  const next = new Set(selectedKeys);
+
+  for (const key of leaves) {
+    if (check) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+  }
+
+  return normalizeSelection(items, next);
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Sorting and grouping of data-driven unordered lists.
+ *
+ * @module utils/ListSort
+ *
+ * @description
+ * This module orders the items of a list tree, gathers them into groups, and
+ * maps keyboard input to the cycling of the sort order of an interactive
+ * list. Both transformations apply to every level of the tree, and the
+ * helpers are pure so that the ordering rules can be exercised without
+ * mounting a tinky application.
+ *
+ * Supported keys:
+ * - `s` - Cycle the sort order: ascending, descending, then the order of the data
+ */
+
+import { type Key } from "tinky";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import {
+  type UnorderedListSort,
+  type UnorderedListSortDirection,
+} from "../types/unordered-list-sort.js";
+
+/**
+ * A sort action triggered by keyboard input.
+ */
+export type SortAction = "cycle";
+
+/**
+ * Resolves the sort action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {SortAction | undefined} The matching action, if any
+ */
+export function resolveSortAction(
+  input: string,
+  key: Key,
+): SortAction | undefined {
+  return input === "s" && !key.ctrl && !key.meta ? "cycle" : undefined;
+}
+
+/**
+ * Picks the sort direction following another one.
+ *
+ * @param {UnorderedListSortDirection | undefined} direction - The current
+ *   direction, `undefined` while the items keep the order of the data
+ * @returns {UnorderedListSortDirection | undefined} `"desc"` after `"asc"`,
+ *   `undefined` after `"desc"` and `"asc"` after `undefined`
+ */
+export function cycleSortDirection(
+  direction: UnorderedListSortDirection | undefined,
+): UnorderedListSortDirection | undefined {
+  switch (direction) {
+    case "asc":
+      return "desc";
+    case "desc":
+      return undefined;
+    default:
+      return "asc";
+  }
+}
+
+/**
+ * Sorts a list tree, level by level.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {UnorderedListSort} sort - How items are sorted
+ * @returns {UnorderedListItemData[]} The sorted tree; items with children are
+ *   copied with their children sorted
+ *
+ * The sort is stable: items comparing equal keep the order of the data,
+ * whatever the direction. Items sorted by a `key` that gives them no value
+ * come last, whatever the direction. Strings are compared with an
+ * `Intl.Collator` for `locale`, so accents and case are ordered the way
+ * readers of that locale expect them to be.
+ *
+ * @example
+ * ```typescript
+ * sortItems(
+ *   [{ key: "b", label: "file10" }, { key: "a", label: "file2" }],
+ *   { numeric: true },
+ * ).map((item) => item.label);
+ * // ["file2", "file10"]
+ * ```
+ */
+export function sortItems(
+  items: readonly UnorderedListItemData[],
+  sort: UnorderedListSort,
+): UnorderedListItemData[] {
+  const { key = "label", direction = "asc", compare, numeric, locale } = sort;
+  const sign = direction === "desc" ? -1 : 1;
+  const collator = new Intl.Collator(
+    typeof locale === "string" || locale === undefined ? locale : [...locale],
+    { numeric },
+  );
+  const read = (item: UnorderedListItemData) =>
+    typeof key === "function" ? key(item) : item[key];
+  const compareItems = (
+    a: UnorderedListItemData,
+    b: UnorderedListItemData,
+  ): number => {
+    if (compare) {
+      return sign * compare(a, b);
+    }
+
+    const valueA = read(a);
+    const valueB = read(b);
+
+    if (valueA === undefined || valueB === undefined) {
+      return Number(valueA === undefined) - Number(valueB === undefined);
+    }
+
+    return (
+      sign *
+      (typeof valueA === "number" && typeof valueB === "number"
+        ? valueA - valueB
+        : collator.compare(String(valueA), String(valueB)))
+    );
+  };
+  const sortLevel = (
+    siblings: readonly UnorderedListItemData[],
+  ): UnorderedListItemData[] =>
+    siblings
+      .map((item) =>
+        item.children ? { ...item, children: sortLevel(item.children) } : item,
+      )
+      .sort(compareItems);
+
+  return sortLevel(items);
+}
+
+/**
+ * Gathers the items of a list tree into groups, level by level.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {Function} groupBy - Returns the title of the group of an item, or
+ *   `undefined` to leave it out of groups
+ * @returns {UnorderedListItemData[]} The tree with the items of each level
+ *   gathered into groups; items with children are copied with their
+ *   children grouped
+ *
+ * Each group takes the place of its first item and holds the items sharing
+ * its title, in their order, so grouping sorted items also sorts the groups
+ * by their first item. Groups are keyed `group:<title>`, prefixed with
+ * `<parent key>/` below the root. Groups of the data are left as they are,
+ * and their items are grouped among themselves.
+ *
+ * @example
+ * ```typescript
+ * groupItems(
+ *   [{ key: "react", label: "react" }, { key: "ts", label: "typescript" }],
+ *   (item) => (item.key === "ts" ? "Dev dependencies" : "Dependencies"),
+ * );
+ * // [
+ * //   { key: "group:Dependencies", label: "Dependencies", group: true, children: [{ key: "react", ... }] },
+ * //   { key: "group:Dev dependencies", label: "Dev dependencies", group: true, children: [{ key: "ts", ... }] },
+ * // ]
+ * ```
+ */
+export function groupItems(
+  items: readonly UnorderedListItemData[],
+  groupBy: (item: UnorderedListItemData) => string | undefined,
+): UnorderedListItemData[] {
+  const groupLevel = (
+    siblings: readonly UnorderedListItemData[],
+    prefix: string,
+  ): UnorderedListItemData[] => {
+    const entries: UnorderedListItemData[] = [];
+    const groups = new Map<string, UnorderedListItemData[]>();
+
+    for (const item of siblings) {
+      const grouped = item.children
+        ? { ...item, children: groupLevel(item.children, `${item.key}/`) }
+        : item;
+      const title = item.group === true ? undefined : groupBy(item);
+
+      if (title === undefined) {
+        entries.push(grouped);
+        continue;
+      }
+
+      let members = groups.get(title);
+      if (!members) {
+        members = [];
+        groups.set(title, members);
+        entries.push({
+          key: `${prefix}group:${title}`,
+          label: title,
+          group: true,
+          children: members,
+        });
+      }
+
+      members.push(grouped);
+    }
+
+    return entries;
+  };
+
+  return groupLevel(items, "");
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Status counts of checklists.
+ *
+ * @module utils/ListStatus
+ *
+ * @description
+ * This module counts the statuses of the items of a checklist, from which
+ * UnorderedList renders its summary line (e.g. `3/5 done, 1 failed`).
+ */
+
+import {
+  type UnorderedListStatus,
+  type UnorderedListStatusCounts,
+} from "../types/unordered-list-status.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * Counts items by status.
+ *
+ * @param {Iterable<UnorderedListStatus | undefined>} statuses - Statuses of the
+ *   items of a list; items without status are not counted
+ * @returns {UnorderedListStatusCounts} The number of items of each status and
+ *   the number of items with a status
+ *
+ * @example
+ * ```typescript
+ * countStatuses(["success", "error", undefined]).total; // 2
+ * ```
+ */
+export function countStatuses(
+  statuses: Iterable<UnorderedListStatus | undefined>,
+): UnorderedListStatusCounts {
+  const counts: Record<UnorderedListStatus | "total", number> = {
+    pending: 0,
+    running: 0,
+    success: 0,
+    warning: 0,
+    error: 0,
+    skipped: 0,
+    total: 0,
+  };
+
+  for (const status of statuses) {
+    if (status !== undefined) {
+      counts[status]++;
+      counts.total++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Lists the statuses of a data tree, descendants included.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @returns {(UnorderedListStatus | undefined)[]} The status of every item,
+ *   in document order
+ *
+ * @example
+ * ```typescript
+ * countStatuses(getItemStatuses(steps));
+ * ```
+ */
+export function getItemStatuses(
+  items: readonly UnorderedListItemData[],
+): (UnorderedListStatus | undefined)[] {
+  return items.flatMap((item) => [
+    item.status,
+    ...getItemStatuses(item.children ?? []),
+  ]);
+}
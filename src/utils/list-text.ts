@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Text layout of list item content.
+ *
+ * @module utils/ListText
+ *
+ * @description
+ * This module lays out the text of an item for a given column width: word
+ * wrapping with a hanging indent, truncation with an ellipsis at the end, in
+ * the middle or at the start of each line, and the indicator shown in place
+ * of the lines hidden by `maxLines`. Widths are measured with string-width,
+ * so wide glyphs count as two columns.
+ */
+
+import stringWidth from "string-width";
+import { type UnorderedListWrap } from "../types/unordered-list-wrap.js";
+
+/**
+ * Options of {@link layoutText}.
+ *
+ * @interface TextLayoutOptions
+ *
+ * @property {UnorderedListWrap} wrap - Whether to wrap or truncate long lines
+ * @property {number} [hangingIndent] - Extra indentation of every line but the first
+ */
+export interface TextLayoutOptions {
+  readonly wrap: UnorderedListWrap;
+  readonly hangingIndent?: number;
+}
+
+/**
+ * Character marking truncated text.
+ */
+const ellipsis = "…";
+
+const segmenter = new Intl.Segmenter();
+
+/**
+ * Splits text into user-perceived characters, keeping emoji sequences whole.
+ *
+ * @param {string} text - The text to split
+ * @returns {string[]} The graphemes of the text
+ */
+const toGraphemes = (text: string): string[] =>
+  Array.from(segmenter.segment(text), ({ segment }) => segment);
+
+/**
+ * Takes the longest run of graphemes fitting in a width.
+ *
+ * @param {string[]} graphemes - The graphemes to take from
+ * @param {number} width - Available columns
+ * @returns {string} The taken text
+ */
+const takeWidth = (graphemes: readonly string[], width: number): string => {
+  let result = "";
+  let used = 0;
+
+  for (const grapheme of graphemes) {
+    used += stringWidth(grapheme);
+
+    if (used > width) {
+      break;
+    }
+    result += grapheme;
+  }
+
+  return result;
+};
+
+/**
+ * Shortens a single line to a width, replacing the cut text with an ellipsis.
+ *
+ * @param {string} text - A line of text
+ * @param {number} width - Available columns
+ * @param {"end" | "middle" | "start"} position - Where the text is cut
+ * @returns {string} The line, unchanged if it fits
+ *
+ * @example
+ * ```typescript
+ * truncateText("hello world", 8, "end"); // "hello w…"
+ * truncateText("hello world", 8, "middle"); // "hell…rld"
+ * truncateText("hello world", 8, "start"); // "…o world"
+ * ```
+ */
+export function truncateText(
+  text: string,
+  width: number,
+  position: "end" | "middle" | "start",
+): string {
+  if (stringWidth(text) <= width) {
+    return text;
+  }
+
+  if (width <= 0) {
+    return "";
+  }
+
+  const graphemes = toGraphemes(text);
+  const room = width - stringWidth(ellipsis);
+  const reversed = [...graphemes].reverse();
+  const takeEnd = (columns: number) =>
+    toGraphemes(takeWidth(reversed, columns)).reverse().join("");
+
+  if (position === "start") {
+    return ellipsis + takeEnd(room);
+  }
+
+  if (position === "middle") {
+    const head = Math.ceil(room / 2);
+
+    return takeWidth(graphemes, head) + ellipsis + takeEnd(room - head);
+  }
+
+  return takeWidth(graphemes, room) + ellipsis;
+}
+
+/**
+ * Wraps text to a width, breaking between words when possible.
+ *
+ * @param {string} text - The text to wrap; newlines start new lines
+ * @param {number} width - Available columns
+ * @param {number} [hangingIndent=0] - Extra indentation of every line but the first
+ * @returns {string[]} The wrapped lines, including their indentation
+ *
+ * Words wider than a line are broken between characters. The hanging indent
+ * is capped so that every line keeps at least one column of text.
+ *
+ * @example
+ * ```typescript
+ * wrapText("the quick brown fox", 10, 2);
+ * // ["the quick", "  brown", "  fox"]
+ * ```
+ */
+export function wrapText(
+  text: string,
+  width: number,
+  hangingIndent = 0,
+): string[] {
+  const indent = Math.min(Math.max(hangingIndent, 0), Math.max(width - 1, 0));
+  const lines: string[] = [];
+  const lineWidth = () =>
+    Math.max(lines.length === 0 ? width : width - indent, 1);
+
+  for (const paragraph of text.split("\n")) {
+    let line: string | undefined;
+
+    for (const word of paragraph.split(" ")) {
+      const candidate = line === undefined ? word : `${line} ${word}`;
+
+      if (stringWidth(candidate) <= lineWidth()) {
+        line = candidate;
+        continue;
+      }
+
+      if (line !== undefined) {
+        lines.push(line);
+      }
+
+      let rest = toGraphemes(word);
+
+      while (stringWidth(rest.join("")) > lineWidth()) {
+        const head = toGraphemes(takeWidth(rest, lineWidth()));
+        const taken = head.length > 0 ? head.length : 1;
+
+        lines.push(rest.slice(0, taken).join(""));
+        rest = rest.slice(taken);
+      }
+      line = rest.join("");
+    }
+
+    lines.push(line ?? "");
+  }
+
+  return lines.map((line, index) =>
+    index === 0 ? line : " ".repeat(indent) + line,
+  );
+}
+
+/**
+ * Lays out the text of an item for the width of its content column.
+ *
+ * @param {string} text - The text to lay out
+ * @param {number} width - Width of the content column
+ * @param {TextLayoutOptions} options - Wrap mode and hanging indent
+ * @returns {string[]} The lines to display
+ *
+ * In the truncation modes every line of the text (as separated by newlines)
+ * is shortened on its own; the hanging indent then applies to all lines but
+ * the first as well.
+ */
+export function layoutText(
+  text: string,
+  width: number,
+  { wrap, hangingIndent = 0 }: TextLayoutOptions,
+): string[] {
+  if (wrap === "wrap") {
+    return wrapText(text, width, hangingIndent);
+  }
+
+  const position =
+    wrap === "truncate-start"
+      ? "start"
+      : wrap === "truncate-middle"
+        ? "middle"
+        : "end";
+  const indent = Math.min(Math.max(hangingIndent, 0), Math.max(width - 1, 0));
+
+  return text
+    .split("\n")
+    .map((line, index) =>
+      index === 0
+        ? truncateText(line, width, position)
+        : " ".repeat(indent) + truncateText(line, width - indent, position),
+    );
+}
+
+/**
+ * Maps the characters of laid out lines back to the text they come from.
+ *
+ * @param {string} text - The text that was laid out
+ * @param {readonly string[]} lines - Lines returned by {@link layoutText} for the
+ *   text, possibly cut short by a line limit
+ * @returns {number[]} For every UTF-16 code unit of the lines joined with
+ *   newlines, its index in `text`, or `-1` for the newlines, the indentation
+ *   and the ellipses added by the layout
+ *
+ * This lets styles attached to ranges of the text, such as the matches of a
+ * filter, follow it through wrapping and truncation. Characters are matched
+ * in order, skipping the whitespace dropped at line breaks; the text after
+ * an ellipsis is the end of its line of text, which truncation preserves.
+ *
+ * @example
+ * ```typescript
+ * locateLines("hello world", ["hell…rld"]); // [0, 1, 2, 3, -1, 8, 9, 10]
+ * ```
+ */
+export function locateLines(text: string, lines: readonly string[]): number[] {
+  const indexes: number[] = [];
+  let cursor = 0;
+
+  lines.forEach((line, lineIndex) => {
+    if (lineIndex > 0) {
+      indexes.push(-1);
+    }
+
+    for (let index = 0; index < line.length; index++) {
+      const char = line.charAt(index);
+
+      if (char === ellipsis && text.charAt(cursor) !== ellipsis) {
+        const lineEnd = text.indexOf("\n", cursor);
+
+        indexes.push(-1);
+        cursor = Math.max(
+          cursor,
+          (lineEnd === -1 ? text.length : lineEnd) - (line.length - index - 1),
+        );
+        continue;
+      }
+
+      while (
+        cursor < text.length &&
+        text.charAt(cursor) !== char &&
+        /\s/.test(text.charAt(cursor))
+      ) {
+        cursor++;
+      }
+
+      if (text.charAt(cursor) === char) {
+        indexes.push(cursor);
+        cursor++;
+      } else {
+        indexes.push(-1);
+      }
+    }
+  });
+
+  return indexes;
+}
+
+/**
+ * Formats the indicator shown in place of the lines hidden by `maxLines`.
+ *
+ * @param {number} count - Number of hidden lines
+ * @returns {string} The indicator text
+ *
+ * @example
+ * ```typescript
+ * formatHiddenLines(3); // "…(+3 more lines)"
+ * ```
+ */
+export function formatHiddenLines(count: number): string {
+  return `${ellipsis}(+${count} more ${count === 1 ? "line" : "lines"})`;
+}
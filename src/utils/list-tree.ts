@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Tree helpers for data-driven unordered lists.
+ *
+ * @module utils/ListTree
+ *
+ * @description
+ * This module provides pure helpers for working with the
+ * {@link UnorderedListItemData} tree accepted by the `items` prop of
+ * UnorderedList. Interactive features (focus tracking, keyboard navigation)
+ * operate on a flattened, document-ordered view of the tree produced here.
+ */
+
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+
+/**
+ * A single row of a flattened list tree.
+ *
+ * @interface FlatListItem
+ *
+ * @property {UnorderedListItemData} item - The data item of the row
+ * @property {number} depth - Nesting depth of the row, relative to the root list
+ * @property {string | undefined} parentKey - Key of the parent item, if any
+ * @property {number} index - Position of the item among its siblings
+ * @property {number} siblingCount - Number of items sharing the row's parent
+ * @property {readonly number[]} path - Indices of the ancestor items followed by
+ *   the item's own index
+ * @property {readonly boolean[]} ancestorsLast - Whether each ancestor of the row,
+ *   from the root down, is the last item of its list
+ */
+export interface FlatListItem {
+  readonly item: UnorderedListItemData;
+  readonly depth: number;
+  readonly parentKey: string | undefined;
+  readonly index: number;
+  readonly siblingCount: number;
+  readonly path: readonly number[];
+  readonly ancestorsLast: readonly boolean[];
+}
+
+/**
+ * Lists the entries of a list, with the items of its groups.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The items of a list
+ * @returns {UnorderedListItemData[]} The items, each group followed by its own
+ *   entries, at the same level
+ *
+ * Groups are kept, as the header of their items, and their `children` are
+ * left as is: they are already listed after them. Nested groups are expanded
+ * as well.
+ *
+ * @example
+ * ```typescript
+ * expandGroups([
+ *   { key: "deps", label: "Dependencies", group: true, children: [{ key: "react", label: "react" }] },
+ *   { key: "readme", label: "README.md" },
+ * ]);
+ * // [{ key: "deps", ... }, { key: "react", ... }, { key: "readme", ... }]
+ * ```
+ */
+export function expandGroups(
+  items: readonly UnorderedListItemData[],
+): UnorderedListItemData[] {
+  return items.flatMap((item) =>
+    item.group === true ? [item, ...expandGroups(item.children ?? [])] : [item],
+  );
+}
+
+/**
+ * Flattens a list tree into document order (depth-first, parents before children).
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree to flatten
+ * @param {Function} [isExpanded] - Decides whether the children of an item are
+ *   visible. Children of collapsed items are left out. Defaults to expanding
+ *   every item.
+ * @returns {FlatListItem[]} The visible rows of the tree in rendering order
+ *
+ * Groups are flattened into a row for their header, followed by the rows of
+ * their items at the same depth. Headers don't count as items: the `index`,
+ * `siblingCount` and `path` of rows only count items, and a header shares
+ * the index of the item following it.
+ *
+ * @example
+ * ```typescript
+ * flattenItems([{ key: "a", label: "A", children: [{ key: "b", label: "B" }] }]);
+ * // [
+ * //   { item: { key: "a", ... }, depth: 0, parentKey: undefined, path: [0], ... },
+ * //   { item: { key: "b", ... }, depth: 1, parentKey: "a", path: [0, 0], ... },
+ * // ]
+ * ```
+ */
+export function flattenItems(
+  items: readonly UnorderedListItemData[],
+  isExpanded: (item: UnorderedListItemData) => boolean = () => true,
+): FlatListItem[] {
+  const rows: FlatListItem[] = [];
+  const flatten = (
+    siblings: readonly UnorderedListItemData[],
+    parent: FlatListItem | undefined,
+  ) => {
+    const entries = expandGroups(siblings);
+    const siblingCount = entries.filter((item) => item.group !== true).length;
+    let index = 0;
+
+    for (const item of entries) {
+      const row: FlatListItem = {
+        item,
+        depth: parent ? parent.depth + 1 : 0,
+        parentKey: parent?.item.key,
+        index,
+        siblingCount,
+        path: parent ? [...parent.path, index] : [index],
+        ancestorsLast: parent
+          ? [...parent.ancestorsLast, parent.index === parent.siblingCount - 1]
+          : [],
+      };
+
+      rows.push(row);
+
+      if (item.group === true) {
+        continue;
+      }
+
+      index += 1;
+
+      if (item.children && isExpanded(item)) {
+        flatten(item.children, row);
+      }
+    }
+  };
+
+  flatten(items, undefined);
+
+  return rows;
+}
+
+/**
+ * Tells whether an item has at least one child.
+ *
+ * @param {UnorderedListItemData} item - The item to inspect
+ * @returns {boolean} `true` for items with a non-empty `children` array
+ */
+export function hasChildren(item: UnorderedListItemData): boolean {
+  return item.children !== undefined && item.children.length > 0;
+}
+
+/**
+ * Collects the keys of an item and all of its descendants.
+ *
+ * @param {UnorderedListItemData} item - The root of the subtree
+ * @returns {string[]} Keys of the subtree in document order
+ */
+export function collectKeys(item: UnorderedListItemData): string[] {
+  return [item.key, ...(item.children ?? []).flatMap(collectKeys)];
+}
+
+/**
+ * Tells whether an item can be focused and chosen.
+ *
+ * @param {UnorderedListItemData} item - The item to inspect
+ * @returns {boolean} `false` for `disabled` items, items with
+ *   `selectable: false` and groups
+ *
+ * Only the item itself is concerned: the children of an item that cannot be
+ * chosen can still be.
+ */
+export function isSelectableItem(item: UnorderedListItemData): boolean {
+  return (
+    item.disabled !== true && item.selectable !== false && item.group !== true
+  );
+}
+
+/**
+ * Finds an item by key anywhere in the tree.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree
+ * @param {string} key - The key to look for
+ * @returns {UnorderedListItemData | undefined} The item, if found
+ */
+export function findItem(
+  items: readonly UnorderedListItemData[],
+  key: string,
+): UnorderedListItemData | undefined {
+  for (const item of items) {
+    if (item.key === key) {
+      return item;
+    }
+
+    const match = item.children ? findItem(item.children, key) : undefined;
+    if (match) {
+      return match;
+    }
+  }
+
+  return undefined;
+}
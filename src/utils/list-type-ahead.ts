@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Type-ahead navigation helpers for interactive unordered lists.
+ *
+ * @module utils/ListTypeAhead
+ *
+ * @description
+ * This module implements the "type to jump" behavior of keyboard-navigable
+ * lists: printable characters typed in quick succession are collected in a
+ * buffer, and the focus jumps to the next item whose label starts with it.
+ * The helpers are pure, taking the current time as an argument, so that the
+ * buffer timeout and the search rules can be exercised without mounting a
+ * tinky application or waiting for real time to pass.
+ *
+ * Rules:
+ * - A character typed after the timeout starts a new buffer
+ * - The search starts after the focused item for a new buffer and at the
+ *   focused item while the buffer grows, and wraps around to the top
+ * - A buffer repeating a single character (`"aaa"`) cycles through the items
+ *   starting with that character
+ * - Matching ignores case and the leading whitespace of labels
+ */
+
+import { type Key } from "tinky";
+import { resolveNavigationAction } from "./list-navigation.js";
+
+/**
+ * Default time, in milliseconds, after which typed characters start a new
+ * type-ahead buffer.
+ */
+export const defaultTypeAheadTimeout = 500;
+
+/**
+ * Characters typed in quick succession.
+ *
+ * @interface TypeAheadBuffer
+ *
+ * @property {string} text - The typed characters
+ * @property {number} time - When the last character was typed, in milliseconds
+ */
+export interface TypeAheadBuffer {
+  readonly text: string;
+  readonly time: number;
+}
+
+/**
+ * Tells whether a type-ahead buffer is still being typed.
+ *
+ * @param {TypeAheadBuffer | undefined} buffer - The current buffer, if any
+ * @param {number} now - The current time, in milliseconds
+ * @param {number} [timeout=defaultTypeAheadTimeout] - Buffer timeout, in milliseconds
+ * @returns {boolean} `true` when the last character was typed within the timeout
+ */
+export function isTypeAheadActive(
+  buffer: TypeAheadBuffer | undefined,
+  now: number,
+  timeout: number = defaultTypeAheadTimeout,
+): buffer is TypeAheadBuffer {
+  return buffer !== undefined && now - buffer.time <= timeout;
+}
+
+/**
+ * Resolves the characters a keypress adds to the type-ahead buffer.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @param {boolean} isTyping - Whether a type-ahead buffer is being typed
+ * @returns {string | undefined} The typed characters, or `undefined` when the
+ *   keypress isn't type-ahead input
+ *
+ * Keys with modifiers, special keys and control characters are never typed.
+ * The navigation keys `j` and `k`, like whitespace, only extend a buffer
+ * that is being typed, so that they keep moving the focus otherwise.
+ *
+ * @example
+ * ```typescript
+ * resolveTypeAheadInput("r", key, false); // "r"
+ * resolveTypeAheadInput("j", key, false); // undefined
+ * resolveTypeAheadInput("j", key, true); // "j"
+ * ```
+ */
+export function resolveTypeAheadInput(
+  input: string,
+  key: Key,
+  isTyping: boolean,
+): string | undefined {
+  if (
+    input === "" ||
+    key.ctrl ||
+    key.meta ||
+    key.tab ||
+    key.return ||
+    key.escape ||
+    key.backspace ||
+    key.delete ||
+    key.upArrow ||
+    key.downArrow ||
+    key.leftArrow ||
+    key.rightArrow ||
+    key.pageUp ||
+    key.pageDown ||
+    key.home ||
+    key.end ||
+    /\p{Cc}/u.test(input)
+  ) {
+    return undefined;
+  }
+
+  if (
+    !isTyping &&
+    (/^\s/.test(input) || resolveNavigationAction(input, key) !== undefined)
+  ) {
+    return undefined;
+  }
+
+  return input;
+}
+
+/**
+ * Adds typed characters to a type-ahead buffer.
+ *
+ * @param {TypeAheadBuffer | undefined} buffer - The current buffer, if any
+ * @param {string} input - The typed characters
+ * @param {number} now - The current time, in milliseconds
+ * @param {number} [timeout=defaultTypeAheadTimeout] - Buffer timeout, in milliseconds
+ * @returns {TypeAheadBuffer} The grown buffer, or a new one when the current
+ *   buffer timed out
+ *
+ * @example
+ * ```typescript
+ * appendTypeAhead({ text: "re", time: 1000 }, "a", 1200); // { text: "rea", time: 1200 }
+ * appendTypeAhead({ text: "re", time: 1000 }, "a", 2000); // { text: "a", time: 2000 }
+ * ```
+ */
+export function appendTypeAhead(
+  buffer: TypeAheadBuffer | undefined,
+  input: string,
+  now: number,
+  timeout: number = defaultTypeAheadTimeout,
+): TypeAheadBuffer {
+  return {
+    text: isTypeAheadActive(buffer, now, timeout) ? buffer.text + input : input,
+    time: now,
+  };
+}
+
+/**
+ * Finds the item a type-ahead buffer jumps to.
+ *
+ * @param {readonly string[]} labels - Labels of the focusable items in document order
+ * @param {number} focusedIndex - Index of the focused item, `-1` for none
+ * @param {string} text - The type-ahead buffer
+ * @returns {number | undefined} Index of the matching item, or `undefined`
+ *   when no label starts with the buffer
+ *
+ * A single character, or a character repeated, looks for the next item
+ * starting with it after the focused one, so that typing it again cycles
+ * through those items. Longer buffers look from the focused item on, so
+ * that it stays focused while it matches. The search wraps around.
+ *
+ * @example
+ * ```typescript
+ * findTypeAheadMatch(["src", "README.md", "package.json"], 0, "r"); // 1
+ * findTypeAheadMatch(["src", "README.md", "package.json"], 1, "s"); // 0
+ * findTypeAheadMatch(["src", "README.md", "package.json"], 2, "x"); // undefined
+ * ```
+ */
+export function findTypeAheadMatch(
+  labels: readonly string[],
+  focusedIndex: number,
+  text: string,
+): number | undefined {
+  const query = text.toLowerCase();
+  const [firstChar = ""] = Array.from(query);
+  const isRepeated = Array.from(query).every((char) => char === firstChar);
+  const prefix = isRepeated ? firstChar : query;
+  const start = isRepeated ? focusedIndex + 1 : Math.max(focusedIndex, 0);
+
+  if (prefix === "") {
+    return undefined;
+  }
+
+  for (let offset = 0; offset < labels.length; offset++) {
+    const index = (start + offset) % labels.length;
+
+    if (labels[index]?.trimStart().toLowerCase().startsWith(prefix)) {
+      return index;
+    }
+  }
+
+  return undefined;
+}
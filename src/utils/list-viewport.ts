@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Scrolling helpers for unordered lists with a maximum height.
+ *
+ * @module utils/ListViewport
+ *
+ * @description
+ * This module computes which items of an UnorderedList with a `maxHeight`
+ * are shown, leaving room for the "↑ N more" and "↓ N more" indicators of
+ * the items scrolled out of view, and maps keyboard input to scroll actions.
+ *
+ * Supported keys:
+ * - `PageUp` - Scroll up by one page
+ * - `PageDown` - Scroll down by one page
+ */
+
+import { type Key } from "tinky";
+import { type ListWindow } from "./list-window.js";
+
+/**
+ * A scroll action.
+ */
+export type ScrollAction = "pageUp" | "pageDown";
+
+/**
+ * Items shown by a list with a maximum height.
+ *
+ * @interface ListViewport
+ *
+ * @property {number} start - Index of the first visible item
+ * @property {number} end - Index after the last visible item
+ * @property {number} hiddenAbove - Number of rows scrolled out above
+ * @property {number} hiddenBelow - Number of rows scrolled out below
+ */
+export interface ListViewport extends ListWindow {
+  readonly hiddenAbove: number;
+  readonly hiddenBelow: number;
+}
+
+/**
+ * Resolves the scroll action for a keypress.
+ *
+ * @param {string} input - The character input received by `useInput`
+ * @param {Key} key - The parsed key flags received by `useInput`
+ * @returns {ScrollAction | undefined} The matching action, if any
+ */
+export function resolveScrollAction(
+  _input: string,
+  key: Key,
+): ScrollAction | undefined {
+  if (key.pageUp) {
+    return "pageUp";
+  }
+
+  if (key.pageDown) {
+    return "pageDown";
+  }
+
+  return undefined;
+}
+
+/**
+ * Sums the rows taken by a range of items.
+ *
+ * @param {readonly number[] | undefined} rowCounts - Rows of each item
+ * @param {number} from - Index of the first item
+ * @param {number} to - Index after the last item
+ * @returns {number} The rows of the items, `1` for items without a count
+ */
+const sumRows = (
+  rowCounts: readonly number[] | undefined,
+  from: number,
+  to: number,
+): number => {
+  let rows = 0;
+
+  for (let index = from; index < to; index++) {
+    rows += rowCounts?.[index] ?? 1;
+  }
+
+  return rows;
+};
+
+/**
+ * Computes the items shown from a requested first item.
+ *
+ * @param {number} start - Requested index of the first visible item
+ * @param {number} maxHeight - Number of rows available, indicators included
+ * @param {number} itemCount - Total number of items
+ * @param {readonly number[]} [rowCounts] - Rows taken by each item, e.g. an
+ *   item followed by its nested items; every item takes one row without it
+ * @returns {ListViewport} The visible items, with the rows hidden above and
+ *   below them
+ *
+ * Each indicator takes one of the rows, so a list scrolled to its middle
+ * has two rows less than `maxHeight` for its items, and one scrolled to its
+ * top or bottom one row less. Items are shown while their rows fit, and at
+ * least one item is always shown; the rows of an item that does not fit are
+ * clipped and counted as hidden below.
+ *
+ * @example
+ * ```typescript
+ * getViewport(0, 5, 3); // { start: 0, end: 3, hiddenAbove: 0, hiddenBelow: 0 }
+ * getViewport(0, 5, 20); // { start: 0, end: 4, hiddenAbove: 0, hiddenBelow: 16 }
+ * getViewport(8, 5, 20); // { start: 8, end: 11, hiddenAbove: 8, hiddenBelow: 9 }
+ * getViewport(30, 5, 20); // { start: 16, end: 20, hiddenAbove: 16, hiddenBelow: 0 }
+ * getViewport(0, 3, 3, [3, 1, 1]); // { start: 0, end: 1, hiddenAbove: 0, hiddenBelow: 3 }
+ * ```
+ */
+export function getViewport(
+  start: number,
+  maxHeight: number,
+  itemCount: number,
+  rowCounts?: readonly number[],
+): ListViewport {
+  const totalRows = sumRows(rowCounts, 0, itemCount);
+
+  if (totalRows <= maxHeight) {
+    return { start: 0, end: itemCount, hiddenAbove: 0, hiddenBelow: 0 };
+  }
+
+  const edgeSize = Math.max(maxHeight - 1, 1);
+  let first = Math.min(Math.max(start, 0), itemCount - 1);
+
+  if (first > 0 && sumRows(rowCounts, first, itemCount) <= edgeSize) {
+    let rows = 0;
+
+    first = itemCount;
+    while (first > 0 && rows + (rowCounts?.[first - 1] ?? 1) <= edgeSize) {
+      first -= 1;
+      rows += rowCounts?.[first] ?? 1;
+    }
+    first = Math.min(first, itemCount - 1);
+  }
+
+  const hiddenAbove = sumRows(rowCounts, 0, first);
+  const reachesEnd =
+    first > 0 && sumRows(rowCounts, first, itemCount) <= edgeSize;
+  const space = Math.max(
+    maxHeight - (first > 0 ? 1 : 0) - (reachesEnd ? 0 : 1),
+    1,
+  );
+  let end = first + 1;
+  let rows = rowCounts?.[first] ?? 1;
+
+  while (end < itemCount && rows + (rowCounts?.[end] ?? 1) <= space) {
+    rows += rowCounts?.[end] ?? 1;
+    end += 1;
+  }
+
+  return {
+    start: first,
+    end,
+    hiddenAbove,
+    hiddenBelow: totalRows - hiddenAbove - Math.min(rows, space),
+  };
+}
+
+/**
+ * Scrolls a viewport just enough to show an item.
+ *
+ * @param {number} start - Index of the first visible item
+ * @param {number} index - Index of the item to show, or `-1` for none
+ * @param {number} maxHeight - Number of rows available, indicators included
+ * @param {number} itemCount - Total number of items
+ * @param {readonly number[]} [rowCounts] - Rows taken by each item
+ * @returns {ListViewport} The viewport showing the item
+ *
+ * Items above the viewport become its first item, items below become its
+ * last one, and visible items keep the viewport in place.
+ */
+export function scrollViewportTo(
+  start: number,
+  index: number,
+  maxHeight: number,
+  itemCount: number,
+  rowCounts?: readonly number[],
+): ListViewport {
+  const viewport = getViewport(start, maxHeight, itemCount, rowCounts);
+
+  if (index < 0 || (index >= viewport.start && index < viewport.end)) {
+    return viewport;
+  }
+
+  if (index < viewport.start) {
+    return getViewport(index, maxHeight, itemCount, rowCounts);
+  }
+
+  let first = index;
+
+  while (
+    first > 0 &&
+    getViewport(first - 1, maxHeight, itemCount, rowCounts).end > index
+  ) {
+    first -= 1;
+  }
+
+  return getViewport(first, maxHeight, itemCount, rowCounts);
+}
+
+/**
+ * Formats the indicator of items scrolled out of view.
+ *
+ * @param {string} glyph - Arrow pointing at the hidden items
+ * @param {number} count - Number of hidden items
+ * @returns {string} The indicator text, e.g. `↑ 3 more`
+ */
+export function formatScrollIndicator(glyph: string, count: number): string {
+  return `${glyph} ${count} more`;
+}
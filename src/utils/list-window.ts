@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Windowing helpers for virtualized unordered lists.
+ *
+ * @module utils/ListWindow
+ *
+ * @description
+ * This module computes which rows of a flattened list tree are mounted by a
+ * virtualized UnorderedList: a window of consecutive rows that follows the
+ * focused row without jumping more than needed.
+ */
+
+/**
+ * Range of rows mounted by a virtualized list.
+ *
+ * @interface ListWindow
+ *
+ * @property {number} start - Index of the first visible row
+ * @property {number} end - Index after the last visible row
+ */
+export interface ListWindow {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Clamps the start of a window so that it stays within the rows.
+ *
+ * @param {number} start - Requested index of the first visible row
+ * @param {number} height - Number of visible rows
+ * @param {number} rowCount - Total number of rows
+ * @returns {ListWindow} The window
+ */
+export function clampWindow(
+  start: number,
+  height: number,
+  rowCount: number,
+): ListWindow {
+  const size = Math.max(Math.min(height, rowCount), 0);
+  const clampedStart = Math.min(Math.max(start, 0), rowCount - size);
+
+  return { start: clampedStart, end: clampedStart + size };
+}
+
+/**
+ * Scrolls a window just enough to show a row.
+ *
+ * @param {number} start - Index of the first visible row
+ * @param {number} index - Index of the row to show, or `-1` for none
+ * @param {number} height - Number of visible rows
+ * @param {number} rowCount - Total number of rows
+ * @returns {ListWindow} The window showing the row
+ *
+ * Rows above the window bring it up so that they become the first visible
+ * row, rows below bring it down so that they become the last one, and rows
+ * already visible keep the window in place.
+ *
+ * @example
+ * ```typescript
+ * scrollToRow(0, 12, 10, 100); // { start: 3, end: 13 }
+ * scrollToRow(3, 1, 10, 100); // { start: 1, end: 11 }
+ * scrollToRow(3, 5, 10, 100); // { start: 3, end: 13 }
+ * ```
+ */
+export function scrollToRow(
+  start: number,
+  index: number,
+  height: number,
+  rowCount: number,
+): ListWindow {
+  if (index < 0) {
+    return clampWindow(start, height, rowCount);
+  }
+
+  if (index < start) {
+    return clampWindow(index, height, rowCount);
+  }
+
+  if (index >= start + height) {
+    return clampWindow(index - height + 1, height, rowCount);
+  }
+
+  return clampWindow(start, height, rowCount);
+}
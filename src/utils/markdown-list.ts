@@ -0,0 +1,530 @@
+/**
+ * @fileoverview Parsing of Markdown bullet lists.
+ *
+ * @module utils/MarkdownList
+ *
+ * @description
+ * This module turns a Markdown bullet list into the data model of
+ * data-driven lists, so help texts and changelogs authored in Markdown can
+ * be rendered with UnorderedList. It supports `-`, `*` and `+` bullets,
+ * nesting by indentation, task list items (`[ ]` and `[x]`) and the inline
+ * code spans, emphasis, strong emphasis, strikethrough and links of item
+ * text.
+ *
+ * Indentation follows the CommonMark rules for list items: a nested item is
+ * indented to the column where the text of its parent starts (up to three
+ * spaces further), and an item continuing a list lines up with its bullet.
+ * Unlike CommonMark, indentation that doesn't line up with an open list is
+ * reported as a {@link MarkdownListParseError} instead of being absorbed by
+ * the closest list, so mistakes in a help text don't silently flatten it.
+ */
+
+import { type MarkdownInline } from "../types/markdown-inline.js";
+import { type MarkdownListItemData } from "../types/markdown-list-item-data.js";
+
+/**
+ * Error thrown when Markdown can't be parsed as a bullet list.
+ *
+ * @property {number} line - Line of the Markdown source the error occurred on,
+ *   starting at `1`
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseMarkdownList("- a\n - b");
+ * } catch (error) {
+ *   if (error instanceof MarkdownListParseError) {
+ *     console.error(error.message); // "Line 2: Item is indented 1 space, ..."
+ *   }
+ * }
+ * ```
+ */
+export class MarkdownListParseError extends Error {
+  readonly line: number;
+
+  /**
+   * @param {string} message - Description of the problem
+   * @param {number} line - Line of the problem, starting at `1`
+   */
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "MarkdownListParseError";
+    this.line = line;
+  }
+}
+
+/**
+ * An item while its list is being parsed.
+ */
+interface ParsedItem {
+  readonly line: number;
+  readonly indent: number;
+  readonly contentColumn: number;
+  readonly checked: boolean | undefined;
+  readonly text: string[];
+  readonly children: ParsedItem[];
+}
+
+/**
+ * A bullet followed by the text of the item.
+ */
+const bulletPattern = /^([-*+])(?:( +)(.*))?$/;
+
+/**
+ * The checkbox opening the text of a task list item.
+ */
+const taskPattern = /^\[([ xX])\](?: +(.*))?$/;
+
+/**
+ * An inline link, with an optional title.
+ */
+const linkPattern =
+  /^\[((?:\\.|[^\\\]])*)\]\(\s*(<[^>]*>|[^\s()]*)(?:\s+"[^"]*")?\s*\)/;
+
+/**
+ * An autolink to a web page or an email address.
+ */
+const autolinkPattern = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/;
+
+/**
+ * ASCII punctuation, which a backslash escapes.
+ */
+const punctuationPattern = /^[!-/:-@[-`{-~]$/;
+
+/**
+ * Inline node types of the delimiter runs, by delimiter.
+ */
+const delimiterTypes: Readonly<
+  Record<string, "emphasis" | "strong" | "strikethrough">
+> = {
+  "*": "emphasis",
+  _: "emphasis",
+  "**": "strong",
+  __: "strong",
+  "~~": "strikethrough",
+};
+
+const isSpace = (char: string | undefined): boolean =>
+  char === undefined || /\s/.test(char);
+
+const isWordChar = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Reads the run of a repeated character.
+ *
+ * @param {string} text - The text to read from
+ * @param {number} index - Start of the run
+ * @returns {string} The run, e.g. `"**"`
+ */
+const readRun = (text: string, index: number): string => {
+  let end = index;
+
+  while (text[end] === text[index]) {
+    end++;
+  }
+
+  return text.slice(index, end);
+};
+
+/**
+ * Finds the backticks closing a code span.
+ *
+ * @param {string} text - The text holding the code span
+ * @param {number} index - Start of the opening backticks
+ * @param {string} fence - The opening backticks
+ * @returns {number} Start of the closing backticks, or `-1` when the span is
+ *   never closed
+ */
+const findCodeSpanEnd = (
+  text: string,
+  index: number,
+  fence: string,
+): number => {
+  let search = index + fence.length;
+
+  for (;;) {
+    const found = text.indexOf("`", search);
+
+    if (found === -1) {
+      return -1;
+    }
+
+    const run = readRun(text, found);
+
+    if (run.length === fence.length) {
+      return found;
+    }
+    search = found + run.length;
+  }
+};
+
+/**
+ * Finds the delimiter run closing emphasis, strong emphasis or strikethrough.
+ *
+ * @param {string} text - The text holding the delimiters
+ * @param {string} delimiter - The opening delimiter run
+ * @param {number} from - Index after the opening delimiter run
+ * @returns {number} Start of the closing delimiter run, or `-1` when it is
+ *   never closed
+ *
+ * Code spans and escaped characters are skipped. Runs of a different length
+ * (e.g. `**` while looking for `*`) open and close nested nodes, and a run
+ * closing both a nested node and this one (`***` after `*a **b`) is split,
+ * its end closing this node.
+ */
+const findClosingDelimiter = (
+  text: string,
+  delimiter: string,
+  from: number,
+): number => {
+  // Lengths of the runs of nested nodes that are still open.
+  const nested: number[] = [];
+  let index = from;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === "\\") {
+      index += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const fence = readRun(text, index);
+      const end = findCodeSpanEnd(text, index, fence);
+
+      index = end === -1 ? index + fence.length : end + fence.length;
+      continue;
+    }
+
+    if (char === delimiter[0]) {
+      const run = readRun(text, index);
+      const canClose =
+        !isSpace(text[index - 1]) &&
+        (char !== "_" || !isWordChar(text[index + run.length]));
+      const canOpen =
+        !isSpace(text[index + run.length]) &&
+        (char !== "_" || !isWordChar(text[index - 1]));
+      const innermost = nested.at(-1);
+
+      if (canClose && run.length === (innermost ?? 0) + delimiter.length) {
+        return index + (innermost ?? 0);
+      }
+
+      if (canClose && run.length === innermost) {
+        nested.pop();
+      } else if (canOpen) {
+        nested.push(run.length);
+      }
+      index += run.length;
+      continue;
+    }
+
+    index++;
+  }
+
+  return -1;
+};
+
+/**
+ * Removes the space padding a code span from its backticks.
+ *
+ * @param {string} code - Text between the backticks
+ * @returns {string} The code
+ */
+const trimCodeSpan = (code: string): string =>
+  code.length > 2 && code.startsWith(" ") && code.endsWith(" ") && code.trim()
+    ? code.slice(1, -1)
+    : code;
+
+/**
+ * Parses the inline formatting of the text of a list item.
+ *
+ * @param {string} text - Text of the item, without its bullet
+ * @returns {MarkdownInline[]} The inline nodes of the text
+ *
+ * Supported syntax:
+ * - Code spans between runs of backticks of the same length
+ * - `*emphasis*`, `_emphasis_`, `**strong**`, `__strong__` and `~~strikethrough~~`,
+ *   nesting each other. Underscores inside words are kept as is, like in
+ *   `snake_case_names`
+ * - Inline links `[text](url "title")` and autolinks `<https://…>`
+ * - Backslash escapes of punctuation
+ *
+ * Delimiters that are never closed are kept as text.
+ *
+ * @example
+ * ```typescript
+ * parseMarkdownInline("Run `npm test` **first**");
+ * // [
+ * //   { type: "text", value: "Run " },
+ * //   { type: "code", value: "npm test" },
+ * //   { type: "text", value: " " },
+ * //   { type: "strong", children: [{ type: "text", value: "first" }] },
+ * // ]
+ * ```
+ */
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+  let index = 0;
+
+  const flush = () => {
+    if (buffer !== "") {
+      nodes.push({ type: "text", value: buffer });
+      buffer = "";
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === "\\" && punctuationPattern.test(text[index + 1] ?? "")) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const fence = readRun(text, index);
+      const end = findCodeSpanEnd(text, index, fence);
+
+      if (end === -1) {
+        buffer += fence;
+        index += fence.length;
+        continue;
+      }
+
+      flush();
+      nodes.push({
+        type: "code",
+        value: trimCodeSpan(text.slice(index + fence.length, end)),
+      });
+      index = end + fence.length;
+      continue;
+    }
+
+    const link = linkPattern.exec(rest) ?? autolinkPattern.exec(rest);
+
+    if (link) {
+      const [source, linkText, url = linkText] = link;
+
+      flush();
+      nodes.push({
+        type: "link",
+        url: url.replace(/^<(.*)>$/, "$1"),
+        children:
+          url === linkText
+            ? [{ type: "text", value: url }]
+            : parseMarkdownInline(linkText),
+      });
+      index += source.length;
+      continue;
+    }
+
+    if (char === "*" || char === "_" || char === "~") {
+      const run = readRun(text, index);
+      // A run of three opens emphasis around strong emphasis.
+      const delimiter = run.length === 3 && char !== "~" ? char : run;
+      const type = delimiterTypes[delimiter];
+      const isOpening =
+        type !== undefined &&
+        !isSpace(text[index + run.length]) &&
+        (char !== "_" || !isWordChar(text[index - 1]));
+      const end = isOpening
+        ? findClosingDelimiter(text, delimiter, index + delimiter.length)
+        : -1;
+
+      if (type === undefined || end === -1) {
+        buffer += run;
+        index += run.length;
+        continue;
+      }
+
+      flush();
+      nodes.push({
+        type,
+        children: parseMarkdownInline(
+          text.slice(index + delimiter.length, end),
+        ),
+      });
+      index = end + delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+
+  return nodes;
+}
+
+/**
+ * Reads the text of inline nodes without their formatting.
+ *
+ * @param {readonly MarkdownInline[]} nodes - Inline nodes
+ * @returns {string} The text the nodes display
+ */
+const getInlineText = (nodes: readonly MarkdownInline[]): string =>
+  nodes
+    .map((node) =>
+      "value" in node ? node.value : getInlineText(node.children),
+    )
+    .join("");
+
+/**
+ * Formats a number of spaces for error messages.
+ *
+ * @param {number} count - Number of spaces
+ * @returns {string} E.g. `"1 space"` or `"4 spaces"`
+ */
+const formatSpaces = (count: number): string =>
+  count === 1 ? "1 space" : `${count} spaces`;
+
+/**
+ * Converts a parsed item and its children to list data.
+ *
+ * @param {ParsedItem} item - The parsed item
+ * @param {string} key - Index path of the item
+ * @returns {MarkdownListItemData} The item data
+ */
+const toItemData = (item: ParsedItem, key: string): MarkdownListItemData => {
+  const content = parseMarkdownInline(item.text.join(" "));
+
+  return {
+    key,
+    label: getInlineText(content),
+    content,
+    ...(item.checked === undefined ? {} : { checked: item.checked }),
+    ...(item.children.length === 0
+      ? {}
+      : {
+          children: item.children.map((child, index) =>
+            toItemData(child, `${key}.${index}`),
+          ),
+        }),
+  };
+};
+
+/**
+ * Parses a Markdown bullet list.
+ *
+ * @param {string} markdown - The Markdown source, holding a single bullet list
+ * @returns {MarkdownListItemData[]} The items of the list, which can be passed
+ *   to the `items` prop of UnorderedList
+ * @throws {MarkdownListParseError} When a line is neither a list item nor the
+ *   continuation of one, or when indentation doesn't line up with an open list
+ *
+ * Each item is keyed by its index path (`"0"`, `"0.1"`, …). Blank lines are
+ * ignored, lines indented to the text of the last item continue its text,
+ * and a `[ ]` or `[x]` checkbox after the bullet sets the `checked` state of
+ * the item. Indentation must use spaces.
+ *
+ * @example
+ * ```typescript
+ * parseMarkdownList(["- [x] Build", "  - `tsc`", "- [ ] Release"].join("\n"));
+ * // [
+ * //   { key: "0", label: "Build", checked: true, content: [...], children: [
+ * //     { key: "0.0", label: "tsc", content: [{ type: "code", value: "tsc" }] },
+ * //   ] },
+ * //   { key: "1", label: "Release", checked: false, content: [...] },
+ * // ]
+ * ```
+ */
+export function parseMarkdownList(markdown: string): MarkdownListItemData[] {
+  const roots: ParsedItem[] = [];
+  // Items whose lists are still open, from the root list down.
+  const open: ParsedItem[] = [];
+
+  markdown.split(/\r?\n/).forEach((source, lineIndex) => {
+    const line = lineIndex + 1;
+
+    if (source.trim() === "") {
+      return;
+    }
+
+    const indentation = /^[ \t]*/.exec(source)?.[0] ?? "";
+
+    if (indentation.includes("\t")) {
+      throw new MarkdownListParseError(
+        "Indentation must use spaces, found a tab",
+        line,
+      );
+    }
+
+    const indent = indentation.length;
+    const bullet = bulletPattern.exec(source.slice(indent));
+    const last = open.at(-1);
+
+    if (!bullet) {
+      if (last === undefined) {
+        throw new MarkdownListParseError(
+          'Expected a list item starting with "-", "*" or "+"',
+          line,
+        );
+      }
+
+      if (indent < last.contentColumn) {
+        throw new MarkdownListParseError(
+          `Expected a list item, or text indented ${formatSpaces(last.contentColumn)} to continue the item on line ${last.line}, found ${formatSpaces(indent)}`,
+          line,
+        );
+      }
+
+      last.text.push(source.trim());
+      return;
+    }
+
+    const [, , spacing = "", rest = ""] = bullet;
+    const task = taskPattern.exec(rest);
+    const item: ParsedItem = {
+      line,
+      indent,
+      contentColumn:
+        indent + 1 + (spacing.length > 4 || rest === "" ? 1 : spacing.length),
+      checked: task ? task[1] !== " " : undefined,
+      text: [task ? (task[2] ?? "") : rest],
+      children: [],
+    };
+
+    if (last === undefined) {
+      roots.push(item);
+      open.push(item);
+      return;
+    }
+
+    if (indent >= last.contentColumn) {
+      if (indent > last.contentColumn + 3) {
+        throw new MarkdownListParseError(
+          `Item is indented ${formatSpaces(indent)}, nest it under the item on line ${last.line} with ${formatSpaces(last.contentColumn)}`,
+          line,
+        );
+      }
+
+      last.children.push(item);
+      open.push(item);
+      return;
+    }
+
+    const siblingIndex = open.findIndex((parsed) => parsed.indent === indent);
+
+    if (siblingIndex === -1) {
+      const expected = open.map((parsed) => parsed.indent).join(", ");
+
+      throw new MarkdownListParseError(
+        `Item is indented ${formatSpaces(indent)}, which lines up with no list; expected ${expected} or ${formatSpaces(last.contentColumn)}`,
+        line,
+      );
+    }
+
+    open.length = siblingIndex;
+    (open.at(-1)?.children ?? roots).push(item);
+    open.push(item);
+  });
+
+  return roots.map((item, index) => toItemData(item, String(index)));
+}
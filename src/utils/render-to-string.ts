@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Static string rendering of unordered lists.
+ *
+ * @module utils/RenderToString
+ *
+ * @description
+ * This module renders a data tree to a plain string, for output paths that
+ * cannot mount a tinky app (`--plain` flags, piped output, logs). It lays
+ * the list out the way UnorderedList does, using the same marker
+ * resolution, marker alignment, tree connectors and text layout helpers, so
+ * that both outputs never drift apart.
+ *
+ * @example
+ * ```typescript
+ * import { renderUnorderedListToString } from "tinky-unordered-list";
+ *
+ * console.log(
+ *   renderUnorderedListToString(
+ *     [{ key: "src", label: "src", children: [{ key: "a", label: "a.ts" }] }],
+ *     { config: { marker: ["•", "◦"] } },
+ *   ),
+ * );
+ * // • src
+ * //   ◦ a.ts
+ * ```
+ */
+
+import { applyTextStyles, type TextStyles } from "tinky";
+import stringWidth from "string-width";
+import {
+  unorderedListTheme,
+  type UnorderedListThemeConfig,
+} from "../themes/unordered-list-theme.js";
+import {
+  getMarkerText,
+  measureMarker,
+  resolveMarker,
+  resolveStatusMarker,
+  resolveTreeConnector,
+} from "./list-marker.js";
+import { formatHiddenLines, layoutText } from "./list-text.js";
+import { expandGroups } from "./list-tree.js";
+import { type UnorderedListItemData } from "../types/unordered-list-item-data.js";
+import { type UnorderedListStyleState } from "../types/unordered-list-style-state.js";
+import { type UnorderedListVariant } from "../types/unordered-list-variant.js";
+
+/**
+ * Options of {@link renderUnorderedListToString}.
+ *
+ * @interface RenderUnorderedListToStringOptions
+ *
+ * @property {Partial<UnorderedListThemeConfig>} [config] - Theme configuration,
+ *   merged over the defaults of {@link unorderedListTheme}
+ * @property {UnorderedListVariant} [variant] - Rendering variant (`"default"`)
+ * @property {number} [width] - Width of the output in columns; longer text is
+ *   wrapped or truncated according to `config.wrap`. Unlimited by default.
+ * @property {number} [indent] - Columns between the marker of an item and the
+ *   markers of its children. Defaults to aligning children with the text of
+ *   their parent, like UnorderedList.
+ * @property {number} [gap] - Columns between a marker and its text (`1`)
+ * @property {boolean} [ansi] - Styles markers, connectors and the hidden lines
+ *   indicator with ANSI escapes (`false`). Like the output of tinky, escapes
+ *   are only emitted when the terminal supports colors.
+ * @property {object} [styles] - Style functions used with `ansi`, defaulting to
+ *   the `marker`, `moreLines` and `groupHeader` styles of
+ *   {@link unorderedListTheme}
+ */
+export interface RenderUnorderedListToStringOptions {
+  readonly config?: Partial<UnorderedListThemeConfig>;
+  readonly variant?: UnorderedListVariant;
+  readonly width?: number;
+  readonly indent?: number;
+  readonly gap?: number;
+  readonly ansi?: boolean;
+  readonly styles?: {
+    readonly marker?: (state: UnorderedListStyleState) => TextStyles;
+    readonly moreLines?: (state: UnorderedListStyleState) => TextStyles;
+    readonly groupHeader?: (state: UnorderedListStyleState) => TextStyles;
+  };
+}
+
+/**
+ * Pads a marker to the width of the widest marker of its list.
+ *
+ * @param {string} marker - The marker text
+ * @param {number} width - Width of the widest marker
+ * @param {"left" | "right"} align - Side the marker is aligned to
+ * @returns {string} The padded marker
+ */
+const alignMarker = (
+  marker: string,
+  width: number,
+  align: "left" | "right",
+): string => {
+  const padding = " ".repeat(Math.max(width - stringWidth(marker), 0));
+
+  return align === "right" ? padding + marker : marker + padding;
+};
+
+/**
+ * Renders a data tree as an unordered list string.
+ *
+ * @param {readonly UnorderedListItemData[]} items - The list tree, as passed to
+ *   the `items` prop of UnorderedList
+ * @param {RenderUnorderedListToStringOptions} [options] - Rendering options
+ * @returns {string} The rendered lines, separated by newlines
+ *
+ * Every item is rendered like an UnorderedList.Item showing its label:
+ * - Markers are resolved from `config.marker` with the same depth and
+ *   position as in UnorderedList, and padded to the widest marker of their
+ *   list according to `config.markerAlign`
+ * - Items with a `status` show the glyph of `config.statusMarkers` instead,
+ *   in its color with `ansi`; running items show the first frame of the
+ *   spinner. With the `"tree"` variant, the glyph follows the connector.
+ * - Element markers are rendered as the text they contain
+ * - The `"tree"` variant draws `config.treeConnectors` and the vertical bars
+ *   continuing them
+ * - Labels are laid out in the columns left by `width` following
+ *   `config.wrap`, `config.hangingIndent` and `config.maxLines`
+ * - Groups are rendered as their label, without a marker, followed by their
+ *   items at the same depth
+ *
+ * @example
+ * ```typescript
+ * renderUnorderedListToString(files, { variant: "tree", width: 40 });
+ * // ├─ src
+ * // │  └─ index.ts
+ * // └─ package.json
+ * ```
+ */
+export function renderUnorderedListToString(
+  items: readonly UnorderedListItemData[],
+  options: RenderUnorderedListToStringOptions = {},
+): string {
+  const {
+    variant = "default",
+    width = Number.POSITIVE_INFINITY,
+    indent,
+    gap = 1,
+    ansi = false,
+  } = options;
+  const config: UnorderedListThemeConfig = {
+    ...unorderedListTheme.config(),
+    ...options.config,
+  };
+  const styles = {
+    marker: options.styles?.marker ?? unorderedListTheme.styles.marker,
+    moreLines: options.styles?.moreLines ?? unorderedListTheme.styles.moreLines,
+    groupHeader:
+      options.styles?.groupHeader ?? unorderedListTheme.styles.groupHeader,
+  };
+  const style = (
+    text: string,
+    styleFn: (state: UnorderedListStyleState) => TextStyles,
+    state: UnorderedListStyleState,
+  ) =>
+    ansi && text.trim() !== "" ? applyTextStyles(text, styleFn(state)) : text;
+  const lines: string[] = [];
+  const space = " ".repeat(gap);
+
+  const renderList = (
+    siblings: readonly UnorderedListItemData[],
+    depth: number,
+    parentPath: readonly number[],
+    prefix: string,
+    prefixWidth: number,
+  ) => {
+    const entries = expandGroups(siblings);
+    const listItems = entries.filter((item) => item.group !== true);
+    const states = listItems.map((_item, index): UnorderedListStyleState => ({
+      depth,
+      index,
+      isFirst: index === 0,
+      isLast: index === listItems.length - 1,
+      siblingCount: listItems.length,
+      path: [...parentPath, index],
+    }));
+    const statusMarkers = listItems.map((item) =>
+      resolveStatusMarker(config, item.status),
+    );
+    const markers = listItems.map(
+      (item, index) =>
+        statusMarkers[index]?.marker ??
+        getMarkerText(
+          resolveMarker(config.marker, {
+            depth,
+            index,
+            isFirst: index === 0,
+            isLast: index === listItems.length - 1,
+            siblingCount: listItems.length,
+            path: [...parentPath, index],
+            item,
+          }),
+        ),
+    );
+    const markerWidth = Math.max(0, ...markers.map(measureMarker));
+    let index = 0;
+
+    entries.forEach((item) => {
+      if (item.group === true) {
+        const headerLines = layoutText(
+          item.label,
+          Math.max(width - prefixWidth, 1),
+          { wrap: config.wrap ?? "wrap", hangingIndent: 0 },
+        );
+
+        for (const line of headerLines) {
+          lines.push(
+            `${prefix}${style(line, styles.groupHeader, { depth })}`.trimEnd(),
+          );
+        }
+        return;
+      }
+
+      const state = states[index] as UnorderedListStyleState;
+      const isLast = index === listItems.length - 1;
+      const statusMarker = statusMarkers[index];
+      const styledStatus = statusMarker
+        ? ansi && statusMarker.color
+          ? applyTextStyles(statusMarker.marker, { color: statusMarker.color })
+          : statusMarker.marker
+        : undefined;
+      const head =
+        variant === "tree"
+          ? resolveTreeConnector(config, isLast)
+          : alignMarker(
+              markers[index] ?? "",
+              markerWidth,
+              config.markerAlign ?? "left",
+            );
+      const headWidth =
+        stringWidth(head) +
+        (variant === "tree" && statusMarker
+          ? gap + stringWidth(statusMarker.marker)
+          : 0);
+      const bar = variant === "tree" && !isLast ? "│" : "";
+      const continuation =
+        style(bar, styles.marker, state) +
+        " ".repeat(Math.max(headWidth - stringWidth(bar), 0));
+      const firstLead =
+        styledStatus === undefined
+          ? style(head, styles.marker, state)
+          : variant === "tree"
+            ? `${style(head, styles.marker, state)}${space}${styledStatus}`
+            : alignMarker(
+                styledStatus,
+                markerWidth,
+                config.markerAlign ?? "left",
+              );
+      const contentWidth = Math.max(width - prefixWidth - headWidth - gap, 1);
+      const textLines = layoutText(item.label, contentWidth, {
+        wrap: config.wrap ?? "wrap",
+        hangingIndent: config.hangingIndent ?? 0,
+      });
+      const shownLines = textLines.slice(0, config.maxLines ?? Infinity);
+
+      if (shownLines.length < textLines.length) {
+        shownLines.push(
+          style(
+            formatHiddenLines(textLines.length - shownLines.length),
+            styles.moreLines,
+            state,
+          ),
+        );
+      }
+
+      shownLines.forEach((line, lineIndex) => {
+        const lead = lineIndex === 0 ? firstLead : continuation;
+
+        lines.push(`${prefix}${lead}${space}${line}`.trimEnd());
+      });
+
+      if (item.children && item.children.length > 0) {
+        const childIndent = indent ?? headWidth + gap;
+
+        renderList(
+          item.children,
+          depth + 1,
+          state.path ?? [],
+          prefix +
+            style(bar, styles.marker, state) +
+            " ".repeat(Math.max(childIndent - stringWidth(bar), 0)),
+          prefixWidth + childIndent,
+        );
+      }
+
+      index += 1;
+    });
+  };
+
+  renderList(items, 0, [], "", 0);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Stub terminal shared by the integration tests.
+ *
+ * @module tests/helpers/stub-terminal
+ *
+ * @description
+ * Renders a node with tinky into an in-memory terminal: the output stream
+ * records the frames written in debug mode, and the input stream is an
+ * event emitter posing as a TTY, so tests can press keys the way a user
+ * would and read the frames that follow.
+ */
+
+import { EventEmitter } from "node:events";
+import { stripVTControlCharacters } from "node:util";
+import { render } from "tinky";
+import { type ReactNode } from "react";
+
+/**
+ * Escape sequences of the keys used by the tests.
+ */
+export const keys = {
+  up: "\u001b[A",
+  down: "\u001b[B",
+  right: "\u001b[C",
+  left: "\u001b[D",
+  home: "\u001b[H",
+  end: "\u001b[F",
+  pageUp: "\u001b[5~",
+  pageDown: "\u001b[6~",
+  enter: "\r",
+  escape: "\u001b",
+  backspace: "\u007f",
+  space: " ",
+  ctrlA: "\u0001",
+} as const;
+
+/**
+ * Size of the stub terminal.
+ *
+ * @property {number} [columns=40] - Width of the terminal
+ * @property {number} [rows=24] - Height of the terminal
+ */
+export interface StubTerminalOptions {
+  readonly columns?: number;
+  readonly rows?: number;
+}
+
+/**
+ * Node rendered into a stub terminal.
+ *
+ * @property {readonly string[]} frames - Every frame written so far
+ * @property {Function} lastFrame - Trimmed lines of the latest frame, without
+ *   styles
+ * @property {Function} lastStyledFrame - Trimmed lines of the latest frame,
+ *   with the escapes of their styles; these are only written when the
+ *   terminal supports colors
+ * @property {Function} press - Writes keys to the input, one by one, and
+ *   waits for the frames they cause
+ * @property {Function} rerender - Replaces the rendered node
+ * @property {Function} unmount - Unmounts the node
+ */
+export interface StubTerminal {
+  readonly frames: readonly string[];
+  readonly lastFrame: () => string[];
+  readonly lastStyledFrame: () => string[];
+  readonly press: (...input: string[]) => Promise<void>;
+  readonly rerender: (node: ReactNode) => void;
+  readonly unmount: () => void;
+}
+
+/**
+ * Splits a frame into lines, without trailing whitespace.
+ */
+const toStyledLines = (frame: string): string[] =>
+  frame
+    .trimEnd()
+    .split("\n")
+    .map((line) => line.trimEnd());
+
+/**
+ * Splits a frame into lines, without trailing whitespace nor styles, so that
+ * frames compare the same whether the terminal supports colors or not.
+ */
+const toLines = (frame: string): string[] =>
+  toStyledLines(stripVTControlCharacters(frame));
+
+/**
+ * Lets React run the effects and renders it has scheduled. The scheduler of
+ * React uses `setImmediate`, which the fake timers of bun leave alone.
+ */
+export const flush = async (): Promise<void> => {
+  for (let turn = 0; turn < 3; turn++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+/**
+ * Renders a node into a stub terminal.
+ *
+ * @param {ReactNode} node - The node to render
+ * @param {StubTerminalOptions} [options] - Size of the terminal
+ * @returns {StubTerminal} The frames of the terminal and its controls
+ */
+export const renderList = (
+  node: ReactNode,
+  { columns = 40, rows = 24 }: StubTerminalOptions = {},
+): StubTerminal => {
+  const frames: string[] = [];
+  const stdout = {
+    columns,
+    rows,
+    write(data: string) {
+      const frame = data
+        .replaceAll("\u001b[?25l", "")
+        .replaceAll("\u001b[?25h", "");
+      if (frame) {
+        frames.push(frame);
+      }
+      return true;
+    },
+    on() {
+      return this;
+    },
+    off() {
+      return this;
+    },
+  };
+  const stdin = Object.assign(new EventEmitter(), {
+    isTTY: true,
+    setRawMode() {
+      return this;
+    },
+  });
+  const instance = render(node, {
+    stdout: stdout as never,
+    stdin: stdin as never,
+    debug: true,
+    patchConsole: false,
+    exitOnCtrlC: false,
+  });
+
+  return {
+    frames,
+    lastFrame: () => toLines(frames.at(-1) ?? ""),
+    lastStyledFrame: () => toStyledLines(frames.at(-1) ?? ""),
+    press: async (...input) => {
+      await flush();
+      for (const data of input) {
+        stdin.emit("data", data);
+        await flush();
+      }
+    },
+    rerender: instance.rerender,
+    unmount: instance.unmount,
+  };
+};
+
+/**
+ * Renders a node into a stub terminal and returns the trimmed lines of its
+ * first frame.
+ *
+ * @param {ReactNode} node - The node to render
+ * @param {StubTerminalOptions} [options] - Size of the terminal
+ * @returns {string[]} The lines of the first frame
+ */
+export const renderLines = (
+  node: ReactNode,
+  options?: StubTerminalOptions,
+): string[] => {
+  const terminal = renderList(node, options);
+  terminal.unmount();
+
+  return toLines(terminal.frames[0] ?? "");
+};
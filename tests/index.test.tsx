@@ -14,13 +14,78 @@ import {
   // Components
   UnorderedList,
   UnorderedListItem,
+  UnorderedListGroup,
+  type UnorderedListGroupProps,
+  MarkdownUnorderedList,
+  type MarkdownUnorderedListProps,
+  AnimatedMarker,
   // Contexts
   UnorderedListContext,
   UnorderedListItemContext,
+  UnorderedListInteractionContext,
+  UnorderedListAnimationContext,
   type UnorderedListContextProps,
+  type UnorderedListAnimationContextProps,
   type UnorderedListItemContextProps,
+  // Hooks
+  useUnorderedListItem,
+  type UnorderedListItemPosition,
+  // Types
+  type UnorderedListStyleState,
+  type UnorderedListMarker,
+  type UnorderedListMarkerResolver,
+  type UnorderedListAnimatedMarker,
+  type UnorderedListWrap,
+  type UnorderedListHandle,
+  type UnorderedListItemExpansion,
+  type UnorderedListStatus,
+  type UnorderedListStatusMarker,
+  type UnorderedListStatusCounts,
+  type UnorderedListFilterMode,
+  // Animation
+  createAnimationClock,
+  type AnimationClock,
+  // Statuses
+  countStatuses,
+  getItemStatuses,
+  // Filtering
+  matchText,
+  filterItems,
+  splitHighlights,
+  type ListFilterResult,
+  type HighlightSegment,
+  // Sorting
+  sortItems,
+  groupItems,
+  type UnorderedListSort,
+  type UnorderedListSortDirection,
+  type UnorderedListSortKey,
+  // Markdown
+  parseMarkdownList,
+  MarkdownListParseError,
+  type MarkdownListItemData,
+  type MarkdownInline,
+  // Export
+  unorderedListToMarkdown,
+  unorderedListToHtml,
+  unorderedListToJson,
+  type ListExportOptions,
+  type UnorderedListJson,
+  // Renderers
+  renderUnorderedListToString,
+  type RenderUnorderedListToStringOptions,
   // Themes
   defaultMarker,
+  defaultCheckboxMarkers,
+  defaultExpandMarkers,
+  defaultTreeConnectors,
+  defaultScrollIndicators,
+  defaultPageFooter,
+  defaultStatusMarkers,
+  defaultSpinner,
+  defaultStatusSummary,
+  defaultFilterPrompt,
+  defaultFilterEmpty,
   unorderedListTheme,
   type UnorderedListThemeConfig,
 } from "../src/index.js";
@@ -40,6 +105,18 @@ describe("Package Exports", () => {
     it("should have UnorderedList.Item pointing to UnorderedListItem", () => {
       expect(UnorderedList.Item).toBe(UnorderedListItem);
     });
+
+    it("should have UnorderedList.Group pointing to UnorderedListGroup", () => {
+      const props: UnorderedListGroupProps = { title: "Dependencies" };
+
+      expect(UnorderedList.Group).toBe(UnorderedListGroup);
+      expect(props.title).toBe("Dependencies");
+    });
+
+    it("should export AnimatedMarker", () => {
+      expect(AnimatedMarker).toBeDefined();
+      expect(typeof AnimatedMarker).toBe("function");
+    });
   });
 
   describe("contexts", () => {
@@ -55,6 +132,18 @@ describe("Package Exports", () => {
       expect(UnorderedListItemContext).toHaveProperty("Consumer");
     });
 
+    it("should export UnorderedListInteractionContext", () => {
+      expect(UnorderedListInteractionContext).toBeDefined();
+      expect(UnorderedListInteractionContext).toHaveProperty("Provider");
+      expect(UnorderedListInteractionContext).toHaveProperty("Consumer");
+    });
+
+    it("should export UnorderedListAnimationContext", () => {
+      expect(UnorderedListAnimationContext).toBeDefined();
+      expect(UnorderedListAnimationContext).toHaveProperty("Provider");
+      expect(UnorderedListAnimationContext).toHaveProperty("Consumer");
+    });
+
     it("should have correct default values for UnorderedListContext", () => {
       const defaultValue: UnorderedListContextProps = { depth: 0 };
       expect(defaultValue.depth).toBe(0);
@@ -76,6 +165,25 @@ describe("Package Exports", () => {
     });
   });
 
+  describe("hooks", () => {
+    it("should export useUnorderedListItem", () => {
+      expect(typeof useUnorderedListItem).toBe("function");
+    });
+
+    it("should export UnorderedListItemPosition type", () => {
+      const position: UnorderedListItemPosition = {
+        marker: "•",
+        depth: 1,
+        index: 0,
+        isFirst: true,
+        isLast: false,
+        siblingCount: 2,
+        path: [3, 0],
+      };
+      expect(position.path).toEqual([3, 0]);
+    });
+  });
+
   describe("type exports", () => {
     it("should export UnorderedListContextProps type", () => {
       // Type-level test - ensure the type can be used
@@ -89,6 +197,79 @@ describe("Package Exports", () => {
       expect(props.marker).toBe("•");
     });
 
+    it("should export UnorderedListStyleState type", () => {
+      // Type-level test - ensure the style state type can be used
+      const state: UnorderedListStyleState = {
+        depth: 1,
+        index: 0,
+        focused: true,
+        selected: "indeterminate",
+      };
+      expect(state.selected).toBe("indeterminate");
+    });
+
+    it("should export marker types", () => {
+      // Type-level test - ensure resolvers are valid marker configurations
+      const resolver: UnorderedListMarkerResolver = ({ depth, index }) =>
+        depth === 0 && index === 0 ? "★" : "•";
+      const marker: UnorderedListMarker = resolver;
+      const config: UnorderedListThemeConfig = { marker };
+      expect(typeof config.marker).toBe("function");
+    });
+
+    it("should export UnorderedListAnimatedMarker type", () => {
+      // Type-level test - ensure animations are valid marker configurations
+      const spinner: UnorderedListAnimatedMarker = {
+        frames: ["◐", "◓", "◑", "◒"],
+        interval: 120,
+      };
+      const config: UnorderedListThemeConfig = { marker: ["•", spinner] };
+      expect(Array.isArray(config.marker)).toBe(true);
+    });
+
+    it("should export UnorderedListWrap type", () => {
+      // Type-level test - ensure the wrap modes can be used
+      const modes: UnorderedListWrap[] = [
+        "wrap",
+        "truncate-end",
+        "truncate-middle",
+        "truncate-start",
+      ];
+      expect(modes).toHaveLength(4);
+    });
+
+    it("should export UnorderedListHandle type", () => {
+      // Type-level test - ensure the handle can be implemented
+      const handle: UnorderedListHandle = {
+        scrollTo: () => undefined,
+        scrollBy: () => undefined,
+        pageUp: () => undefined,
+        pageDown: () => undefined,
+        goToPage: () => undefined,
+        nextPage: () => undefined,
+        previousPage: () => undefined,
+      };
+      expect(typeof handle.scrollTo).toBe("function");
+    });
+
+    it("should export UnorderedListItemExpansion type", () => {
+      // Type-level test - ensure the registered expansion can be implemented
+      const expansion: UnorderedListItemExpansion = {
+        expanded: false,
+        apply: () => undefined,
+      };
+      expect(expansion.expanded).toBe(false);
+    });
+
+    it("should export status types", () => {
+      // Type-level test - ensure the status types can be used together
+      const status: UnorderedListStatus = "running";
+      const marker: UnorderedListStatusMarker = { marker: "…" };
+      const counts: UnorderedListStatusCounts = countStatuses([status]);
+      expect(marker.marker).toBe("…");
+      expect(counts.running).toBe(1);
+    });
+
     it("should export UnorderedListTheme type", () => {
       // Type-level test - ensure the theme type matches the exported type
       const theme: typeof unorderedListTheme = unorderedListTheme;
@@ -102,12 +283,152 @@ describe("Package Exports", () => {
     });
   });
 
+  describe("markdown exports", () => {
+    it("should export MarkdownUnorderedList", () => {
+      const props: MarkdownUnorderedListProps = { markdown: "- a" };
+
+      expect(typeof MarkdownUnorderedList).toBe("function");
+      expect(props.markdown).toBe("- a");
+    });
+
+    it("should export parseMarkdownList and its types", () => {
+      const items: MarkdownListItemData[] = parseMarkdownList("- `a`");
+      const content: readonly MarkdownInline[] = items[0]?.content ?? [];
+
+      expect(content).toEqual([{ type: "code", value: "a" }]);
+    });
+
+    it("should export MarkdownListParseError", () => {
+      expect(() => parseMarkdownList("text")).toThrow(MarkdownListParseError);
+    });
+  });
+
+  describe("serializer exports", () => {
+    it("should export the Markdown, HTML and JSON serializers", () => {
+      const items = [{ key: "a", label: "A" }];
+      const options: ListExportOptions = { selectedKeys: ["a"] };
+      const json: UnorderedListJson = JSON.parse(
+        unorderedListToJson(items, options),
+      );
+
+      expect(unorderedListToMarkdown(items, options)).toBe("- [x] A");
+      expect(unorderedListToHtml(items)).toContain('<li data-key="a">A</li>');
+      expect(json.items[0]?.checked).toBe(true);
+    });
+  });
+
+  describe("animation exports", () => {
+    it("should export createAnimationClock", () => {
+      const clock: AnimationClock = createAnimationClock();
+      const context: UnorderedListAnimationContextProps = { clock };
+
+      expect(context.clock?.getFrame(80)).toBe(0);
+    });
+  });
+
+  describe("status exports", () => {
+    it("should export countStatuses and getItemStatuses", () => {
+      const items = [
+        { key: "a", label: "A", status: "success" as const },
+        { key: "b", label: "B", status: "error" as const },
+      ];
+
+      expect(defaultStatusSummary(countStatuses(getItemStatuses(items)))).toBe(
+        "1/2 done, 1 failed",
+      );
+    });
+  });
+
+  describe("filtering exports", () => {
+    it("should export matchText, filterItems and splitHighlights", () => {
+      const mode: UnorderedListFilterMode = "fuzzy";
+      const result: ListFilterResult = filterItems(
+        [{ key: "a", label: "list.ts" }],
+        "lt",
+        mode,
+      );
+      const segments: HighlightSegment[] = splitHighlights(
+        "list.ts",
+        result.matches.get("a") ?? [],
+      );
+
+      expect(matchText("list.ts", "st")).toEqual([2, 3]);
+      expect(segments[0]).toEqual({ text: "l", highlighted: true });
+    });
+  });
+
+  describe("sorting exports", () => {
+    it("should export sortItems and groupItems", () => {
+      const direction: UnorderedListSortDirection = "desc";
+      const key: UnorderedListSortKey = "label";
+      const sort: UnorderedListSort = { key, direction, numeric: true };
+      const sorted = sortItems(
+        [
+          { key: "a", label: "file2" },
+          { key: "b", label: "file10" },
+        ],
+        sort,
+      );
+
+      expect(sorted.map((item) => item.key)).toEqual(["b", "a"]);
+      expect(groupItems(sorted, () => "Files")[0]?.group).toBe(true);
+    });
+  });
+
+  describe("renderer exports", () => {
+    it("should export renderUnorderedListToString", () => {
+      const options: RenderUnorderedListToStringOptions = {
+        config: { marker: "•" },
+      };
+
+      expect(
+        renderUnorderedListToString([{ key: "a", label: "A" }], options),
+      ).toBe("• A");
+    });
+  });
+
   describe("theme exports", () => {
     it("should export defaultMarker", () => {
       expect(defaultMarker).toBeDefined();
       expect(typeof defaultMarker).toBe("string");
     });
 
+    it("should export defaultCheckboxMarkers", () => {
+      expect(defaultCheckboxMarkers).toHaveProperty("checked");
+      expect(defaultCheckboxMarkers).toHaveProperty("unchecked");
+      expect(defaultCheckboxMarkers).toHaveProperty("indeterminate");
+    });
+
+    it("should export defaultExpandMarkers", () => {
+      expect(defaultExpandMarkers).toHaveProperty("expanded");
+      expect(defaultExpandMarkers).toHaveProperty("collapsed");
+    });
+
+    it("should export defaultTreeConnectors", () => {
+      expect(defaultTreeConnectors).toHaveProperty("branch");
+      expect(defaultTreeConnectors).toHaveProperty("last");
+    });
+
+    it("should export defaultScrollIndicators", () => {
+      expect(defaultScrollIndicators).toHaveProperty("above");
+      expect(defaultScrollIndicators).toHaveProperty("below");
+    });
+
+    it("should export defaultPageFooter", () => {
+      expect(typeof defaultPageFooter).toBe("function");
+    });
+
+    it("should export the status defaults", () => {
+      expect(defaultStatusMarkers).toHaveProperty("running");
+      expect(defaultSpinner.frames.length).toBeGreaterThan(0);
+      expect(typeof defaultStatusSummary).toBe("function");
+    });
+
+    it("should export the filter defaults", () => {
+      expect(defaultFilterPrompt).toBe("/");
+      expect(typeof defaultFilterEmpty).toBe("function");
+    });
+
     it("should export unorderedListTheme", () => {
       expect(unorderedListTheme).toBeDefined();
       expect(typeof unorderedListTheme).toBe("object");
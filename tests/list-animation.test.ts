@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Test suite for the animation clock.
+ *
+ * @module tests/utils/list-animation
+ *
+ * @description
+ * Tests for createAnimationClock under fake timers: frame counting, shared
+ * timers, pausing and resuming.
+ */
+
+import { describe, it, expect, jest, afterEach, beforeEach } from "bun:test";
+import { createAnimationClock } from "../src/utils/list-animation.js";
+
+describe("createAnimationClock", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should not run a timer before its first subscriber", () => {
+    createAnimationClock();
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should count the frames of an interval", () => {
+    const clock = createAnimationClock();
+    const frames: number[] = [];
+
+    clock.subscribe(80, () => frames.push(clock.getFrame(80)));
+    jest.advanceTimersByTime(250);
+
+    expect(frames).toEqual([1, 2, 3]);
+    expect(clock.getFrame(80)).toBe(3);
+  });
+
+  it("should drive every subscriber with a single timer", () => {
+    const clock = createAnimationClock();
+    const fast: number[] = [];
+    const slow: number[] = [];
+
+    clock.subscribe(80, () => fast.push(clock.getFrame(80)));
+    clock.subscribe(80, () => fast.push(clock.getFrame(80)));
+    clock.subscribe(120, () => slow.push(clock.getFrame(120)));
+    jest.advanceTimersByTime(240);
+
+    expect(jest.getTimerCount()).toBe(1);
+    expect(fast).toEqual([1, 1, 2, 2, 3, 3]);
+    expect(slow).toEqual([1, 2]);
+  });
+
+  it("should only wake up when the frame of an interval changes", () => {
+    const clock = createAnimationClock();
+
+    clock.subscribe(80, () => undefined);
+    clock.subscribe(81, () => undefined);
+
+    jest.advanceTimersToNextTimer();
+    expect([clock.getFrame(80), clock.getFrame(81)]).toEqual([1, 0]);
+
+    jest.advanceTimersToNextTimer();
+    expect([clock.getFrame(80), clock.getFrame(81)]).toEqual([1, 1]);
+
+    jest.advanceTimersToNextTimer();
+    expect([clock.getFrame(80), clock.getFrame(81)]).toEqual([2, 1]);
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  it("should pause without subscribers and resume where it stopped", () => {
+    const clock = createAnimationClock();
+    const unsubscribe = clock.subscribe(100, () => undefined);
+
+    jest.advanceTimersByTime(200);
+    unsubscribe();
+    expect(jest.getTimerCount()).toBe(0);
+
+    jest.advanceTimersByTime(1000);
+    expect(clock.getFrame(100)).toBe(2);
+
+    clock.subscribe(100, () => undefined);
+    jest.advanceTimersByTime(100);
+    expect(clock.getFrame(100)).toBe(3);
+  });
+
+  it("should stop notifying listeners that unsubscribed", () => {
+    const clock = createAnimationClock();
+    let calls = 0;
+    const unsubscribe = clock.subscribe(50, () => {
+      calls++;
+    });
+
+    clock.subscribe(50, () => undefined);
+    jest.advanceTimersByTime(100);
+    unsubscribe();
+    jest.advanceTimersByTime(100);
+
+    expect(calls).toBe(2);
+  });
+
+  it("should round intervals to whole milliseconds", () => {
+    const clock = createAnimationClock();
+
+    clock.subscribe(79.6, () => undefined);
+    jest.advanceTimersByTime(160);
+
+    expect(clock.getFrame(80)).toBe(2);
+    expect(clock.getFrame(0)).toBe(160);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Test suite for the list-expansion utilities.
+ *
+ * @module tests/utils/list-expansion
+ *
+ * @description
+ * Tests for the expand/collapse model of collapsible lists, including
+ * keyboard mapping and expanded-key computation.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  applyExpansionAction,
+  collectParentKeys,
+  resolveExpansionAction,
+} from "../src/utils/list-expansion.js";
+import { type UnorderedListItemData } from "../src/index.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+const items: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      { key: "index", label: "index.ts" },
+      {
+        key: "utils",
+        label: "utils",
+        children: [{ key: "tree", label: "list-tree.ts" }],
+      },
+      { key: "empty", label: "empty", children: [] },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+];
+
+describe("list-expansion", () => {
+  describe("resolveExpansionAction", () => {
+    it("should expand with the right arrow", () => {
+      expect(resolveExpansionAction("", { ...noKey, rightArrow: true })).toBe(
+        "expand",
+      );
+    });
+
+    it("should collapse with the left arrow", () => {
+      expect(resolveExpansionAction("", { ...noKey, leftArrow: true })).toBe(
+        "collapse",
+      );
+    });
+
+    it("should ignore other keys", () => {
+      expect(resolveExpansionAction("l", noKey)).toBeUndefined();
+      expect(
+        resolveExpansionAction("", { ...noKey, return: true }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("collectParentKeys", () => {
+    it("should list items with children in document order", () => {
+      expect(collectParentKeys(items)).toEqual(["src", "utils"]);
+    });
+
+    it("should return an empty array for flat lists", () => {
+      expect(collectParentKeys([{ key: "a", label: "A" }])).toEqual([]);
+    });
+  });
+
+  describe("applyExpansionAction", () => {
+    it("should expand a collapsed item", () => {
+      expect(applyExpansionAction(items, new Set(), "expand", "src")).toEqual([
+        "src",
+      ]);
+    });
+
+    it("should collapse an expanded item", () => {
+      expect(
+        applyExpansionAction(
+          items,
+          new Set(["src", "utils"]),
+          "collapse",
+          "utils",
+        ),
+      ).toEqual(["src"]);
+    });
+
+    it("should toggle an item", () => {
+      expect(
+        applyExpansionAction(items, new Set(["src"]), "toggle", "src"),
+      ).toEqual([]);
+      expect(applyExpansionAction(items, new Set(), "toggle", "src")).toEqual([
+        "src",
+      ]);
+    });
+
+    it("should return undefined when nothing changes", () => {
+      expect(
+        applyExpansionAction(items, new Set(["src"]), "expand", "src"),
+      ).toBeUndefined();
+      expect(
+        applyExpansionAction(items, new Set(), "collapse", "src"),
+      ).toBeUndefined();
+    });
+
+    it("should ignore leaves, empty parents and unknown keys", () => {
+      expect(
+        applyExpansionAction(items, new Set(), "expand", "readme"),
+      ).toBeUndefined();
+      expect(
+        applyExpansionAction(items, new Set(), "expand", "empty"),
+      ).toBeUndefined();
+      expect(
+        applyExpansionAction(items, new Set(), "expand", "missing"),
+      ).toBeUndefined();
+      expect(
+        applyExpansionAction(items, new Set(), "expand", undefined),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Test suite for the list-export utilities.
+ *
+ * @module tests/utils/list-export
+ *
+ * @description
+ * Tests for the Markdown, HTML and JSON serializers: nesting, task state,
+ * escaping, stability of the output and round trips through the Markdown
+ * parser.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  unorderedListToHtml,
+  unorderedListToJson,
+  unorderedListToMarkdown,
+} from "../src/utils/list-export.js";
+import { parseMarkdownList } from "../src/utils/markdown-list.js";
+import { type UnorderedListItemData } from "../src/types/unordered-list-item-data.js";
+import { type UnorderedListJson } from "../src/types/unordered-list-json.js";
+
+const items: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      { key: "index", label: "index.ts" },
+      { key: "list", label: "List.tsx" },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+];
+
+const grouped: UnorderedListItemData[] = [
+  {
+    key: "deps",
+    label: "Dependencies",
+    group: true,
+    children: [
+      {
+        key: "react",
+        label: "react",
+        children: [
+          {
+            key: "types",
+            label: "Types",
+            group: true,
+            children: [{ key: "csstype", label: "csstype" }],
+          },
+        ],
+      },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+];
+
+const markdown = [
+  "- [x] Run `npm test` *first*",
+  "- [ ] Update **the changelog**",
+  "  - See [the guide](https://example.com/guide)",
+  "  - Ask on <https://chat.example.com>",
+  "- ~~Old~~ plan",
+].join("\n");
+
+describe("unorderedListToMarkdown", () => {
+  it("should write nested bullets indented by two spaces", () => {
+    expect(unorderedListToMarkdown(items)).toBe(
+      ["- src", "  - index.ts", "  - List.tsx", "- README.md"].join("\n"),
+    );
+  });
+
+  it("should write the task state of a selection", () => {
+    expect(unorderedListToMarkdown(items, { selectedKeys: ["index"] })).toBe(
+      [
+        "- [ ] src",
+        "  - [x] index.ts",
+        "  - [ ] List.tsx",
+        "- [ ] README.md",
+      ].join("\n"),
+    );
+  });
+
+  it("should write groups as headers above their items", () => {
+    expect(unorderedListToMarkdown(grouped)).toBe(
+      [
+        "**Dependencies**",
+        "",
+        "- react",
+        "",
+        "  **Types**",
+        "",
+        "  - csstype",
+        "- README.md",
+      ].join("\n"),
+    );
+  });
+
+  it("should never write groups as tasks", () => {
+    expect(
+      unorderedListToMarkdown(grouped, { selectedKeys: ["csstype"] }),
+    ).toStartWith("**Dependencies**\n\n- [x] react");
+  });
+
+  it("should write items parsed from Markdown as they were authored", () => {
+    expect(unorderedListToMarkdown(parseMarkdownList(markdown))).toBe(markdown);
+  });
+
+  it("should escape labels that would read as Markdown", () => {
+    const output = unorderedListToMarkdown([
+      { key: "a", label: "- *not* `code` [x]" },
+      { key: "b", label: "1. # <b>" },
+    ]);
+
+    expect(output).toBe(
+      ["- \\- \\*not\\* \\`code\\` \\[x\\]", "- 1\\. # \\<b\\>"].join("\n"),
+    );
+  });
+
+  it("should continue multi-line labels on indented lines", () => {
+    expect(unorderedListToMarkdown([{ key: "a", label: "one\n\n# two" }])).toBe(
+      "- one\n  \\# two",
+    );
+  });
+
+  it("should produce Markdown that parses back to the same tree", () => {
+    const tree: UnorderedListItemData[] = [
+      {
+        key: "a",
+        label: "- [x] <tag> *stars* _under_ `tick` ~~s~~ \\",
+        children: [{ key: "b", label: "2) second" }],
+      },
+      { key: "c", label: "+ plus" },
+    ];
+    const parsed = parseMarkdownList(
+      unorderedListToMarkdown(tree, { selectedKeys: ["b"] }),
+    );
+
+    expect(parsed[0]?.label).toBe(tree[0]?.label);
+    expect(parsed[0]?.checked).toBe(true);
+    expect(parsed[0]?.children?.[0]?.label).toBe("2) second");
+    expect(parsed[0]?.children?.[0]?.checked).toBe(true);
+    expect(parsed[1]?.label).toBe("+ plus");
+    expect(parsed[1]?.checked).toBe(false);
+  });
+
+  it("should round-trip the inline content of Markdown items", () => {
+    const parsed = parseMarkdownList(markdown);
+    const reparsed = parseMarkdownList(unorderedListToMarkdown(parsed));
+
+    expect(reparsed).toEqual(parsed);
+  });
+
+  it("should write code spans containing backticks", () => {
+    const parsed = parseMarkdownList("- ``a `b` c`` and `` `d` ``");
+
+    expect(parseMarkdownList(unorderedListToMarkdown(parsed))).toEqual(parsed);
+  });
+});
+
+describe("unorderedListToHtml", () => {
+  it("should write nested lists", () => {
+    expect(unorderedListToHtml(items)).toBe(
+      [
+        "<ul>",
+        '  <li data-key="src">src',
+        "    <ul>",
+        '      <li data-key="index">index.ts</li>',
+        '      <li data-key="list">List.tsx</li>',
+        "    </ul>",
+        "  </li>",
+        '  <li data-key="readme">README.md</li>',
+        "</ul>",
+      ].join("\n"),
+    );
+  });
+
+  it("should write groups as headers between lists", () => {
+    expect(unorderedListToHtml(grouped)).toBe(
+      [
+        '<p class="list-group" data-key="deps"><strong>Dependencies</strong></p>',
+        "<ul>",
+        '  <li data-key="react">react',
+        '    <p class="list-group" data-key="types"><strong>Types</strong></p>',
+        "    <ul>",
+        '      <li data-key="csstype">csstype</li>',
+        "    </ul>",
+        "  </li>",
+        '  <li data-key="readme">README.md</li>',
+        "</ul>",
+      ].join("\n"),
+    );
+  });
+
+  it("should write task items with the markup of GitHub", () => {
+    const output = unorderedListToHtml(items, { selectedKeys: ["index"] });
+
+    expect(output).toContain(
+      '<ul class="contains-task-list">\n  <li class="task-list-item" data-key="src"><input type="checkbox" class="task-list-item-checkbox" disabled aria-checked="mixed"> src',
+    );
+    expect(output).toContain(
+      '<li class="task-list-item" data-key="index"><input type="checkbox" class="task-list-item-checkbox" disabled checked> index.ts</li>',
+    );
+    expect(output).toContain(
+      '<li class="task-list-item" data-key="list"><input type="checkbox" class="task-list-item-checkbox" disabled> List.tsx</li>',
+    );
+  });
+
+  it("should write inline formatting as semantic elements", () => {
+    const output = unorderedListToHtml(parseMarkdownList(markdown));
+
+    expect(output).toContain("Run <code>npm test</code> <em>first</em></li>");
+    expect(output).toContain("Update <strong>the changelog</strong>");
+    expect(output).toContain(
+      'See <a href="https://example.com/guide">the guide</a></li>',
+    );
+    expect(output).toContain("<del>Old</del> plan</li>");
+  });
+
+  it("should escape labels and keys", () => {
+    const output = unorderedListToHtml([
+      { key: 'a"b', label: "<script>&'\n\nline" },
+    ]);
+
+    expect(output).toContain(
+      '<li data-key="a&quot;b">&lt;script&gt;&amp;&#39;<br>line</li>',
+    );
+  });
+});
+
+describe("unorderedListToJson", () => {
+  it("should write a versioned document with the depth of every item", () => {
+    const document = JSON.parse(
+      unorderedListToJson(items),
+    ) as UnorderedListJson;
+
+    expect(document.version).toBe(1);
+    expect(document.items[0]).toEqual({
+      key: "src",
+      label: "src",
+      depth: 0,
+      children: [
+        { key: "index", label: "index.ts", depth: 1, children: [] },
+        { key: "list", label: "List.tsx", depth: 1, children: [] },
+      ],
+    });
+  });
+
+  it("should write groups with their items at their depth", () => {
+    const document = JSON.parse(
+      unorderedListToJson(grouped, { selectedKeys: ["csstype"] }),
+    ) as UnorderedListJson;
+
+    expect(document.items[0]).toEqual({
+      key: "deps",
+      label: "Dependencies",
+      depth: 0,
+      group: true,
+      children: [
+        {
+          key: "react",
+          label: "react",
+          depth: 0,
+          checked: true,
+          children: [
+            {
+              key: "types",
+              label: "Types",
+              depth: 1,
+              group: true,
+              children: [
+                {
+                  key: "csstype",
+                  label: "csstype",
+                  depth: 1,
+                  checked: true,
+                  children: [],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should write the check state of tasks", () => {
+    const document = JSON.parse(
+      unorderedListToJson(items, { selectedKeys: ["index"] }),
+    ) as UnorderedListJson;
+
+    expect(document.items.map((item) => item.checked)).toEqual([
+      "indeterminate",
+      false,
+    ]);
+  });
+
+  it("should write the status of checklist items", () => {
+    const document = JSON.parse(
+      unorderedListToJson([
+        { key: "build", label: "Build", status: "success" },
+        { key: "test", label: "Test", status: "running" },
+        { key: "deploy", label: "Deploy" },
+      ]),
+    ) as UnorderedListJson;
+
+    expect(document.items.map((item) => item.status)).toEqual([
+      "success",
+      "running",
+      undefined,
+    ]);
+    expect(Object.keys(document.items[0] ?? {})).toEqual([
+      "key",
+      "label",
+      "depth",
+      "status",
+      "children",
+    ]);
+  });
+
+  it("should keep the content of Markdown items", () => {
+    const document = JSON.parse(
+      unorderedListToJson(parseMarkdownList("- [x] `a`")),
+    ) as UnorderedListJson;
+
+    expect(document.items[0]).toEqual({
+      key: "0",
+      label: "a",
+      depth: 0,
+      checked: true,
+      content: [{ type: "code", value: "a" }],
+      children: [],
+    });
+  });
+
+  it("should write properties in a stable order", () => {
+    const output = unorderedListToJson([
+      { children: [], label: "A", key: "a" } as UnorderedListItemData,
+    ]);
+
+    expect(output).toBe(
+      [
+        "{",
+        '  "version": 1,',
+        '  "items": [',
+        "    {",
+        '      "key": "a",',
+        '      "label": "A",',
+        '      "depth": 0,',
+        '      "children": []',
+        "    }",
+        "  ]",
+        "}",
+      ].join("\n"),
+    );
+    expect(unorderedListToJson(items)).toBe(unorderedListToJson(items));
+  });
+});
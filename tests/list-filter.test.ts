@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Test suite for the list-filter utilities.
+ *
+ * @module tests/utils/list-filter
+ *
+ * @description
+ * Tests for matching queries against item text, pruning list trees to the
+ * matching items and their ancestors, splitting highlighted text and mapping
+ * keyboard input to the actions of the query input.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  filterItems,
+  matchText,
+  resolveFilterAction,
+  splitHighlights,
+} from "../src/utils/list-filter.js";
+import { type UnorderedListItemData } from "../src/types/unordered-list-item-data.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+const files: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      {
+        key: "components",
+        label: "components",
+        children: [
+          { key: "list", label: "UnorderedList.tsx" },
+          { key: "item", label: "UnorderedListItem.tsx" },
+        ],
+      },
+      { key: "index", label: "index.ts" },
+    ],
+  },
+  { key: "readme", label: "README.md", searchText: "docs" },
+];
+
+describe("list-filter", () => {
+  describe("matchText", () => {
+    it("should match the first occurrence of a substring", () => {
+      expect(matchText("list of lists", "list")).toEqual([0, 1, 2, 3]);
+    });
+
+    it("should ignore case", () => {
+      expect(matchText("README.md", "read")).toEqual([0, 1, 2, 3]);
+    });
+
+    it("should match characters in order in fuzzy mode", () => {
+      expect(matchText("UnorderedList.tsx", "ulst", "fuzzy")).toEqual([
+        0, 9, 11, 12,
+      ]);
+      expect(matchText("UnorderedList.tsx", "u l", "fuzzy")).toEqual([0, 9]);
+    });
+
+    it("should not match out of order characters in fuzzy mode", () => {
+      expect(matchText("list", "tl", "fuzzy")).toBeUndefined();
+    });
+
+    it("should return undefined without a match", () => {
+      expect(matchText("index.ts", "list")).toBeUndefined();
+    });
+
+    it("should match any text with an empty query", () => {
+      expect(matchText("index.ts", "")).toEqual([]);
+    });
+  });
+
+  describe("filterItems", () => {
+    it("should keep matching items with their ancestors", () => {
+      const result = filterItems(files, "item");
+
+      expect(result.items).toEqual([
+        {
+          key: "src",
+          label: "src",
+          children: [
+            {
+              key: "components",
+              label: "components",
+              children: [{ key: "item", label: "UnorderedListItem.tsx" }],
+            },
+          ],
+        },
+      ]);
+      expect([...result.matches.keys()]).toEqual(["item"]);
+    });
+
+    it("should only keep groups with their matching items", () => {
+      const packages: UnorderedListItemData[] = [
+        {
+          key: "deps",
+          label: "Dependencies",
+          group: true,
+          children: [{ key: "react", label: "react" }],
+        },
+      ];
+
+      expect(filterItems(packages, "dep").items).toEqual([]);
+      expect(filterItems(packages, "react").items).toEqual(packages);
+    });
+
+    it("should list the originals of copied items", () => {
+      const result = filterItems(files, "item");
+
+      expect(result.sources.get("src")).toBe(files[0]);
+      expect(result.sources.get("components")).toBe(files[0]?.children?.[0]);
+      expect(result.sources.has("item")).toBe(false);
+    });
+
+    it("should keep the identity of items with all their children", () => {
+      const result = filterItems(files, "list");
+
+      expect(result.items[0]?.children?.[0]).toBe(files[0]?.children?.[0]);
+      expect([...result.sources.keys()]).toEqual(["src"]);
+    });
+
+    it("should match items by their search text", () => {
+      const result = filterItems(files, "docs");
+
+      expect(result.items).toEqual([files[1]]);
+      expect(result.matches.get("readme")).toEqual([]);
+    });
+
+    it("should highlight the label of items matched by it", () => {
+      expect(filterItems(files, "index").matches.get("index")).toEqual([
+        0, 1, 2, 3, 4,
+      ]);
+    });
+
+    it("should return no items without matches", () => {
+      expect(filterItems(files, "zzz").items).toEqual([]);
+    });
+  });
+
+  describe("splitHighlights", () => {
+    it("should split text into highlighted and plain runs", () => {
+      expect(splitHighlights("list.ts", [0, 1, 5])).toEqual([
+        { text: "li", highlighted: true },
+        { text: "st.", highlighted: false },
+        { text: "t", highlighted: true },
+        { text: "s", highlighted: false },
+      ]);
+    });
+
+    it("should return a single plain run without indexes", () => {
+      expect(splitHighlights("list", [])).toEqual([
+        { text: "list", highlighted: false },
+      ]);
+    });
+  });
+
+  describe("resolveFilterAction", () => {
+    it("should open the input with a slash", () => {
+      expect(resolveFilterAction("/", noKey, false)).toBe("open");
+      expect(
+        resolveFilterAction("/", { ...noKey, ctrl: true }, false),
+      ).toBeUndefined();
+    });
+
+    it("should ignore other input while closed", () => {
+      expect(resolveFilterAction("a", noKey, false)).toBeUndefined();
+      expect(
+        resolveFilterAction("", { ...noKey, return: true }, false),
+      ).toBeUndefined();
+    });
+
+    it("should type printable characters while open", () => {
+      expect(resolveFilterAction("a", noKey, true)).toBe("type");
+      expect(resolveFilterAction("/", noKey, true)).toBe("type");
+    });
+
+    it("should map Backspace and Delete to delete", () => {
+      expect(resolveFilterAction("", { ...noKey, backspace: true }, true)).toBe(
+        "delete",
+      );
+      expect(resolveFilterAction("", { ...noKey, delete: true }, true)).toBe(
+        "delete",
+      );
+    });
+
+    it("should map Enter to confirm", () => {
+      expect(resolveFilterAction("", { ...noKey, return: true }, true)).toBe(
+        "confirm",
+      );
+    });
+
+    it("should map Escape to cancel, open or not", () => {
+      expect(resolveFilterAction("", { ...noKey, escape: true }, true)).toBe(
+        "cancel",
+      );
+      expect(resolveFilterAction("", { ...noKey, escape: true }, false)).toBe(
+        "cancel",
+      );
+    });
+
+    it("should leave navigation keys to the list while open", () => {
+      expect(
+        resolveFilterAction("", { ...noKey, downArrow: true }, true),
+      ).toBeUndefined();
+      expect(
+        resolveFilterAction("", { ...noKey, tab: true }, true),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Test suite for the list-marker utilities.
+ *
+ * @module tests/utils/list-marker
+ *
+ * @description
+ * Tests for marker resolution: single markers, per-level marker arrays and
+ * marker resolver functions, for marker width measurement, and for the
+ * status glyphs and spinner of checklist items.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createElement, isValidElement } from "react";
+import { Box, Text } from "tinky";
+import {
+  getMarkerText,
+  measureMarker,
+  resolveMarker,
+  resolveSpinner,
+  resolveStatusMarker,
+} from "../src/utils/list-marker.js";
+import { AnimatedMarker } from "../src/components/AnimatedMarker.js";
+import {
+  defaultMarker,
+  defaultSpinner,
+  defaultStatusMarkers,
+  type UnorderedListMarkerContext,
+  type UnorderedListMarkerResolver,
+} from "../src/index.js";
+
+const context: UnorderedListMarkerContext = {
+  depth: 0,
+  index: 0,
+  isFirst: true,
+  isLast: false,
+  siblingCount: 2,
+  path: [0],
+};
+
+describe("resolveMarker", () => {
+  it("should return string markers as is", () => {
+    expect(resolveMarker("•", context)).toBe("•");
+    expect(resolveMarker("•", { ...context, depth: 3 })).toBe("•");
+  });
+
+  it("should return element markers as is", () => {
+    const marker = createElement(Text, { color: "yellow" }, "⚠");
+
+    expect(resolveMarker(marker, context)).toBe(marker);
+    expect(resolveMarker(marker, { ...context, depth: 2 })).toBe(marker);
+  });
+
+  it("should accept elements in marker arrays", () => {
+    const nested = createElement(Text, { color: "green" }, "✓");
+
+    expect(resolveMarker(["•", nested], context)).toBe("•");
+    expect(resolveMarker(["•", nested], { ...context, depth: 4 })).toBe(nested);
+  });
+
+  it("should index marker arrays by depth", () => {
+    expect(resolveMarker(["•", "◦", "-"], context)).toBe("•");
+    expect(resolveMarker(["•", "◦", "-"], { ...context, depth: 1 })).toBe("◦");
+  });
+
+  it("should reuse the last array marker for deeper levels", () => {
+    expect(resolveMarker(["•", "◦"], { ...context, depth: 5 })).toBe("◦");
+  });
+
+  it("should fall back to the default marker for empty arrays", () => {
+    expect(resolveMarker([], context)).toBe(defaultMarker);
+  });
+
+  it("should call resolvers with the item context", () => {
+    const item = { key: "a", label: "A" };
+    let received: UnorderedListMarkerContext | undefined;
+    const resolver: UnorderedListMarkerResolver = (markerContext) => {
+      received = markerContext;
+      return markerContext.path.map((index) => index + 1).join(".");
+    };
+
+    const marker = resolveMarker(resolver, {
+      ...context,
+      depth: 1,
+      index: 1,
+      path: [2, 1],
+      item,
+    });
+
+    expect(marker).toBe("3.2");
+    expect(received?.depth).toBe(1);
+    expect(received?.item).toBe(item);
+  });
+
+  it("should support alternating markers", () => {
+    const resolver: UnorderedListMarkerResolver = ({ index }) =>
+      index % 2 === 0 ? "•" : "◦";
+
+    expect(resolveMarker(resolver, context)).toBe("•");
+    expect(resolveMarker(resolver, { ...context, index: 1 })).toBe("◦");
+  });
+
+  it("should fall back to the default marker when a resolver returns nothing", () => {
+    expect(resolveMarker(() => undefined, context)).toBe(defaultMarker);
+    expect(resolveMarker(() => null, context)).toBe(defaultMarker);
+  });
+
+  it("should keep empty strings returned by resolvers", () => {
+    expect(resolveMarker(() => "", context)).toBe("");
+  });
+
+  it("should fall back to the default marker for invalid configurations", () => {
+    expect(resolveMarker(undefined, context)).toBe(defaultMarker);
+    expect(resolveMarker(42, context)).toBe(defaultMarker);
+  });
+});
+
+describe("resolveMarker with animated markers", () => {
+  const spinner = { frames: ["◐", "◓", "◑", "◒"], interval: 120 };
+
+  it("should turn animations into AnimatedMarker elements", () => {
+    const marker = resolveMarker(spinner, context);
+
+    expect(isValidElement(marker) && marker.type === AnimatedMarker).toBe(true);
+    expect(
+      isValidElement<{ frames: string[]; interval: number }>(marker) &&
+        marker.props,
+    ).toEqual(spinner);
+  });
+
+  it("should animate the levels and resolver results that are animations", () => {
+    const fromArray = resolveMarker(["•", spinner], { ...context, depth: 1 });
+    const fromResolver = resolveMarker(() => spinner, context);
+
+    expect(isValidElement(fromArray) && fromArray.type).toBe(AnimatedMarker);
+    expect(isValidElement(fromResolver) && fromResolver.type).toBe(
+      AnimatedMarker,
+    );
+    expect(resolveMarker(["•", spinner], context)).toBe("•");
+  });
+
+  it("should measure and read animated markers by their frames", () => {
+    const marker = createElement(AnimatedMarker, {
+      frames: ["-", "🚀"],
+      interval: 80,
+    });
+
+    expect(measureMarker(marker)).toBe(2);
+    expect(getMarkerText(marker)).toBe("-");
+  });
+
+  it("should measure the default status glyphs as wide as tinky lays them out", () => {
+    expect(
+      Object.values(defaultStatusMarkers).map(({ marker }) =>
+        measureMarker(marker),
+      ),
+    ).toEqual([1, 1, 1, 1, 1, 1]);
+    expect(measureMarker(defaultSpinner.frames[0])).toBe(1);
+  });
+});
+
+describe("measureMarker", () => {
+  it("should measure text markers in columns", () => {
+    expect(measureMarker("•")).toBe(1);
+    expect(measureMarker("[x]")).toBe(3);
+    expect(measureMarker(42)).toBe(2);
+  });
+
+  it("should count wide glyphs as two columns", () => {
+    expect(measureMarker("中")).toBe(2);
+    expect(measureMarker("🚀")).toBe(2);
+  });
+
+  it("should ignore ANSI escape sequences", () => {
+    expect(measureMarker("\u001B[31m•\u001B[39m")).toBe(1);
+  });
+
+  it("should measure elements from their text", () => {
+    const marker = createElement(Text, { color: "red" }, "✗ ", "12");
+
+    expect(measureMarker(marker)).toBe(4);
+  });
+
+  it("should add the gap between the children of row boxes", () => {
+    const marker = createElement(
+      Box,
+      { gap: 1 },
+      createElement(Text, null, "✗"),
+      createElement(Text, null, "12"),
+    );
+
+    expect(measureMarker(marker)).toBe(4);
+  });
+
+  it("should use the widest child of column boxes", () => {
+    const marker = createElement(
+      Box,
+      { flexDirection: "column" },
+      createElement(Text, null, "•"),
+      createElement(Text, null, "123"),
+    );
+
+    expect(measureMarker(marker)).toBe(3);
+  });
+
+  it("should measure empty markers and unknown components as zero", () => {
+    const Spinner = () => null;
+
+    expect(measureMarker(null)).toBe(0);
+    expect(measureMarker("")).toBe(0);
+    expect(measureMarker(createElement(Spinner))).toBe(0);
+  });
+});
+
+describe("getMarkerText", () => {
+  it("should return text markers as is", () => {
+    expect(getMarkerText("•")).toBe("•");
+    expect(getMarkerText(42)).toBe("42");
+  });
+
+  it("should read elements from their text", () => {
+    const marker = createElement(Text, { color: "red" }, "✗ ", "12");
+
+    expect(getMarkerText(marker)).toBe("✗ 12");
+  });
+
+  it("should separate the children of row boxes by their gap", () => {
+    const marker = createElement(
+      Box,
+      { gap: 1 },
+      createElement(Text, null, "⚠"),
+      createElement(Text, null, "3"),
+    );
+
+    expect(getMarkerText(marker)).toBe("⚠ 3");
+  });
+
+  it("should read the first child of column boxes", () => {
+    const marker = createElement(
+      Box,
+      { flexDirection: "column" },
+      createElement(Text, null, "•"),
+      createElement(Text, null, "123"),
+    );
+
+    expect(getMarkerText(marker)).toBe("•");
+  });
+
+  it("should read empty markers and unknown components as empty strings", () => {
+    const Spinner = () => null;
+
+    expect(getMarkerText(null)).toBe("");
+    expect(getMarkerText(createElement(Spinner))).toBe("");
+  });
+});
+
+describe("resolveStatusMarker", () => {
+  it("should ignore items without status", () => {
+    expect(resolveStatusMarker(undefined, undefined)).toBeUndefined();
+  });
+
+  it("should fall back to the default glyphs and colors", () => {
+    expect(resolveStatusMarker(undefined, "warning")).toEqual(
+      defaultStatusMarkers.warning,
+    );
+  });
+
+  it("should merge the status markers of the theme over the defaults", () => {
+    expect(
+      resolveStatusMarker(
+        { statusMarkers: { error: { marker: "!" } } },
+        "error",
+      ),
+    ).toEqual({ marker: "!", color: "red" });
+  });
+
+  it("should show the first spinner frame for running items", () => {
+    expect(resolveStatusMarker(undefined, "running")).toEqual({
+      marker: "⠋",
+      color: "cyan",
+    });
+    expect(
+      resolveStatusMarker({ spinner: { frames: ["-", "+"] } }, "running")
+        ?.marker,
+    ).toBe("-");
+  });
+
+  it("should show the running glyph when the spinner is disabled", () => {
+    expect(resolveStatusMarker({ spinner: false }, "running")?.marker).toBe(
+      defaultStatusMarkers.running.marker,
+    );
+  });
+});
+
+describe("resolveSpinner", () => {
+  it("should fall back to the default spinner", () => {
+    expect(resolveSpinner(undefined)).toEqual(defaultSpinner);
+    expect(resolveSpinner({ spinner: { interval: 120 } })).toEqual({
+      frames: defaultSpinner.frames,
+      interval: 120,
+    });
+  });
+
+  it("should be disabled by false or an empty list of frames", () => {
+    expect(resolveSpinner({ spinner: false })).toBeUndefined();
+    expect(resolveSpinner({ spinner: { frames: [] } })).toBeUndefined();
+  });
+});
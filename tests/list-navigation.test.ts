@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Test suite for the list-navigation utilities.
+ *
+ * @module tests/utils/list-navigation
+ *
+ * @description
+ * Tests for mapping keyboard input to navigation actions and for moving
+ * the focus cursor across a flattened list.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  moveFocus,
+  resolveNavigationAction,
+} from "../src/utils/list-navigation.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+describe("list-navigation", () => {
+  describe("resolveNavigationAction", () => {
+    it("should map arrow keys to previous and next", () => {
+      expect(resolveNavigationAction("", { ...noKey, upArrow: true })).toBe(
+        "previous",
+      );
+      expect(resolveNavigationAction("", { ...noKey, downArrow: true })).toBe(
+        "next",
+      );
+    });
+
+    it("should map vim keys to previous and next", () => {
+      expect(resolveNavigationAction("k", noKey)).toBe("previous");
+      expect(resolveNavigationAction("j", noKey)).toBe("next");
+    });
+
+    it("should map Home and End to first and last", () => {
+      expect(resolveNavigationAction("", { ...noKey, home: true })).toBe(
+        "first",
+      );
+      expect(resolveNavigationAction("", { ...noKey, end: true })).toBe("last");
+    });
+
+    it("should map Enter to select", () => {
+      expect(resolveNavigationAction("", { ...noKey, return: true })).toBe(
+        "select",
+      );
+    });
+
+    it("should ignore unrelated input", () => {
+      expect(resolveNavigationAction("x", noKey)).toBeUndefined();
+      expect(
+        resolveNavigationAction("", { ...noKey, leftArrow: true }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("moveFocus", () => {
+    const keys = ["a", "b", "c"];
+
+    it("should move to the next and previous key", () => {
+      expect(moveFocus(keys, "a", "next")).toBe("b");
+      expect(moveFocus(keys, "b", "previous")).toBe("a");
+    });
+
+    it("should stop at the boundaries", () => {
+      expect(moveFocus(keys, "c", "next")).toBe("c");
+      expect(moveFocus(keys, "a", "previous")).toBe("a");
+    });
+
+    it("should jump to the first and last key", () => {
+      expect(moveFocus(keys, "b", "first")).toBe("a");
+      expect(moveFocus(keys, "b", "last")).toBe("c");
+    });
+
+    it("should start from the first key when nothing is focused", () => {
+      expect(moveFocus(keys, undefined, "next")).toBe("a");
+      expect(moveFocus(keys, "missing", "next")).toBe("a");
+    });
+
+    it("should keep the focus for select", () => {
+      expect(moveFocus(keys, "b", "select")).toBe("b");
+    });
+
+    it("should return undefined for an empty list", () => {
+      expect(moveFocus([], undefined, "next")).toBeUndefined();
+    });
+  });
+});
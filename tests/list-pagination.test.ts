@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Test suite for the list-pagination utilities.
+ *
+ * @module tests/utils/list-pagination
+ *
+ * @description
+ * Tests for the pages of lists with a page size: splitting weighted root
+ * items into pages, finding the page of an item and the page keys.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  findPage,
+  paginate,
+  resolvePageAction,
+} from "../src/utils/list-pagination.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+describe("paginate", () => {
+  it("should split flat items into pages of the page size", () => {
+    expect(paginate([1, 1, 1, 1, 1], 2)).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+      { start: 4, end: 5 },
+    ]);
+  });
+
+  it("should count nested items towards the page size", () => {
+    expect(paginate([1, 3, 1, 1], 4)).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+    ]);
+  });
+
+  it("should give heavy items a page of their own", () => {
+    expect(paginate([1, 6, 1], 4)).toEqual([
+      { start: 0, end: 1 },
+      { start: 1, end: 2 },
+      { start: 2, end: 3 },
+    ]);
+  });
+
+  it("should keep everything on one page without a limit", () => {
+    expect(paginate([1, 1, 1], Number.POSITIVE_INFINITY)).toEqual([
+      { start: 0, end: 3 },
+    ]);
+  });
+
+  it("should keep entries weighing nothing with the next item", () => {
+    expect(paginate([0, 1, 1, 0, 1], 2)).toEqual([
+      { start: 0, end: 3 },
+      { start: 3, end: 5 },
+    ]);
+  });
+
+  it("should have a single empty page without items", () => {
+    expect(paginate([], 5)).toEqual([{ start: 0, end: 0 }]);
+  });
+});
+
+describe("findPage", () => {
+  const pages = paginate([1, 1, 1, 1, 1], 2);
+
+  it("should find the page showing an item", () => {
+    expect(findPage(pages, 0)).toBe(0);
+    expect(findPage(pages, 3)).toBe(1);
+    expect(findPage(pages, 4)).toBe(2);
+  });
+
+  it("should return -1 for items outside of the pages", () => {
+    expect(findPage(pages, -1)).toBe(-1);
+    expect(findPage(pages, 5)).toBe(-1);
+  });
+});
+
+describe("resolvePageAction", () => {
+  it("should map n and p", () => {
+    expect(resolvePageAction("n", noKey)).toBe("next");
+    expect(resolvePageAction("p", noKey)).toBe("previous");
+  });
+
+  it("should ignore modified and other keys", () => {
+    expect(resolvePageAction("n", { ...noKey, ctrl: true })).toBeUndefined();
+    expect(resolvePageAction("j", noKey)).toBeUndefined();
+  });
+});
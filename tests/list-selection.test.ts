@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Test suite for the list-selection utilities.
+ *
+ * @module tests/utils/list-selection
+ *
+ * @description
+ * Tests for the tri-state selection model of multi-select lists, including
+ * keyboard mapping, parent/child propagation and normalization.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  applySelectionAction,
+  getCheckedState,
+  normalizeSelection,
+  resolveSelectionAction,
+} from "../src/utils/list-selection.js";
+import { type UnorderedListItemData } from "../src/index.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+const items: UnorderedListItemData[] = [
+  {
+    key: "deps",
+    label: "Dependencies",
+    children: [
+      { key: "react", label: "react" },
+      {
+        key: "tinky",
+        label: "tinky",
+        children: [
+          { key: "tinky-theme", label: "tinky-theme" },
+          { key: "tinky-test", label: "tinky-test" },
+        ],
+      },
+    ],
+  },
+  { key: "typescript", label: "typescript" },
+];
+
+describe("list-selection", () => {
+  describe("resolveSelectionAction", () => {
+    it("should map Space to toggle", () => {
+      expect(resolveSelectionAction(" ", noKey)).toBe("toggle");
+    });
+
+    it("should map Ctrl+A and Ctrl+N to all and none", () => {
+      expect(resolveSelectionAction("a", { ...noKey, ctrl: true })).toBe("all");
+      expect(resolveSelectionAction("n", { ...noKey, ctrl: true })).toBe(
+        "none",
+      );
+    });
+
+    it("should ignore plain letters", () => {
+      expect(resolveSelectionAction("a", noKey)).toBeUndefined();
+      expect(resolveSelectionAction("n", noKey)).toBeUndefined();
+    });
+  });
+
+  describe("getCheckedState", () => {
+    it("should use the selection for leaves", () => {
+      expect(getCheckedState(items[1], new Set(["typescript"]))).toBe(true);
+      expect(getCheckedState(items[1], new Set())).toBe(false);
+    });
+
+    it("should derive parents from their descendants", () => {
+      expect(getCheckedState(items[0], new Set(["react"]))).toBe(
+        "indeterminate",
+      );
+      expect(getCheckedState(items[0], new Set(["tinky-theme"]))).toBe(
+        "indeterminate",
+      );
+      expect(
+        getCheckedState(
+          items[0],
+          new Set(["react", "tinky-theme", "tinky-test"]),
+        ),
+      ).toBe(true);
+    });
+
+    it("should ignore a parent key without selected children", () => {
+      expect(getCheckedState(items[0], new Set(["deps"]))).toBe(false);
+    });
+  });
+
+  describe("normalizeSelection", () => {
+    it("should add fully selected parents in document order", () => {
+      expect(
+        normalizeSelection(items, new Set(["tinky-test", "tinky-theme"])),
+      ).toEqual(["tinky", "tinky-theme", "tinky-test"]);
+    });
+
+    it("should drop partially selected parents", () => {
+      expect(
+        normalizeSelection(items, new Set(["tinky", "tinky-test"])),
+      ).toEqual(["tinky-test"]);
+    });
+
+    it("should leave groups out", () => {
+      expect(
+        normalizeSelection(
+          [
+            {
+              key: "deps",
+              label: "Dependencies",
+              group: true,
+              children: [{ key: "react", label: "react" }],
+            },
+          ],
+          new Set(["react"]),
+        ),
+      ).toEqual(["react"]);
+    });
+  });
+
+  describe("applySelectionAction", () => {
+    it("should check a parent together with its descendants", () => {
+      expect(applySelectionAction(items, new Set(), "toggle", "tinky")).toEqual(
+        ["tinky", "tinky-theme", "tinky-test"],
+      );
+    });
+
+    it("should uncheck a fully checked subtree", () => {
+      const selected = new Set(["tinky", "tinky-theme", "tinky-test"]);
+      expect(applySelectionAction(items, selected, "toggle", "tinky")).toEqual(
+        [],
+      );
+    });
+
+    it("should check an indeterminate parent completely", () => {
+      expect(
+        applySelectionAction(items, new Set(["react"]), "toggle", "deps"),
+      ).toEqual(["deps", "react", "tinky", "tinky-theme", "tinky-test"]);
+    });
+
+    it("should propagate a leaf toggle to its ancestors", () => {
+      const selected = new Set(["react", "tinky-theme"]);
+      expect(
+        applySelectionAction(items, selected, "toggle", "tinky-test"),
+      ).toEqual(["deps", "react", "tinky", "tinky-theme", "tinky-test"]);
+    });
+
+    it("should select all and none", () => {
+      expect(applySelectionAction(items, new Set(), "all")).toEqual([
+        "deps",
+        "react",
+        "tinky",
+        "tinky-theme",
+        "tinky-test",
+        "typescript",
+      ]);
+      expect(applySelectionAction(items, new Set(["react"]), "none")).toEqual(
+        [],
+      );
+    });
+
+    describe("with items that cannot be chosen", () => {
+      const menu: UnorderedListItemData[] = [
+        {
+          key: "actions",
+          label: "Actions",
+          selectable: false,
+          children: [
+            { key: "open", label: "Open" },
+            { key: "delete", label: "Delete", disabled: true },
+          ],
+        },
+      ];
+
+      it("should leave disabled descendants out of a toggle", () => {
+        expect(applySelectionAction(menu, new Set(), "toggle", "open")).toEqual(
+          ["open"],
+        );
+      });
+
+      it("should keep the state of disabled items", () => {
+        const selected = new Set(["open", "delete"]);
+
+        expect(applySelectionAction(menu, selected, "none")).toEqual([
+          "delete",
+        ]);
+        expect(applySelectionAction(menu, new Set(), "all")).toEqual(["open"]);
+      });
+
+      it("should not toggle items that cannot be chosen", () => {
+        expect(
+          applySelectionAction(menu, new Set(), "toggle", "actions"),
+        ).toEqual([]);
+        expect(
+          applySelectionAction(menu, new Set(), "toggle", "delete"),
+        ).toEqual([]);
+      });
+    });
+
+    it("should keep the selection when toggling an unknown key", () => {
+      expect(
+        applySelectionAction(items, new Set(["typescript"]), "toggle", "x"),
+      ).toEqual(["typescript"]);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Test suite for the list-sort utilities.
+ *
+ * @module tests/utils/list-sort
+ *
+ * @description
+ * Tests for sorting and grouping data-driven list trees at every level and
+ * for cycling the sort order from the keyboard.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  cycleSortDirection,
+  groupItems,
+  resolveSortAction,
+  sortItems,
+} from "../src/utils/list-sort.js";
+import { type UnorderedListItemData } from "../src/index.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+const labels = (items: readonly UnorderedListItemData[]) =>
+  items.map((item) => item.label);
+
+const files: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      { key: "list", label: "list.ts" },
+      { key: "index", label: "index.ts" },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+  { key: "changelog", label: "CHANGELOG.md" },
+];
+
+describe("list-sort", () => {
+  describe("resolveSortAction", () => {
+    it("should cycle the sort order on s", () => {
+      expect(resolveSortAction("s", noKey)).toBe("cycle");
+    });
+
+    it("should ignore other keys and modifiers", () => {
+      expect(resolveSortAction("S", { ...noKey, shift: true })).toBeUndefined();
+      expect(resolveSortAction("s", { ...noKey, ctrl: true })).toBeUndefined();
+      expect(resolveSortAction("n", noKey)).toBeUndefined();
+    });
+  });
+
+  describe("cycleSortDirection", () => {
+    it("should go from ascending to descending to the order of the data", () => {
+      expect(cycleSortDirection("asc")).toBe("desc");
+      expect(cycleSortDirection("desc")).toBeUndefined();
+      expect(cycleSortDirection(undefined)).toBe("asc");
+    });
+  });
+
+  describe("sortItems", () => {
+    it("should sort every level by label", () => {
+      const sorted = sortItems(files, {});
+
+      expect(labels(sorted)).toEqual(["CHANGELOG.md", "README.md", "src"]);
+      expect(labels(sorted[2]?.children ?? [])).toEqual([
+        "index.ts",
+        "list.ts",
+      ]);
+    });
+
+    it("should sort in descending order", () => {
+      expect(labels(sortItems(files, { direction: "desc" }))).toEqual([
+        "src",
+        "README.md",
+        "CHANGELOG.md",
+      ]);
+    });
+
+    it("should sort by key", () => {
+      expect(labels(sortItems(files, { key: "key" }))).toEqual([
+        "CHANGELOG.md",
+        "README.md",
+        "src",
+      ]);
+    });
+
+    it("should compare the digits of strings as numbers when asked to", () => {
+      const items = [
+        { key: "b", label: "file10" },
+        { key: "a", label: "file2" },
+      ];
+
+      expect(labels(sortItems(items, {}))).toEqual(["file10", "file2"]);
+      expect(labels(sortItems(items, { numeric: true }))).toEqual([
+        "file2",
+        "file10",
+      ]);
+    });
+
+    it("should collate strings for the locale", () => {
+      const items = [
+        { key: "z", label: "z" },
+        { key: "a", label: "ä" },
+      ];
+
+      expect(labels(sortItems(items, { locale: "de" }))).toEqual(["ä", "z"]);
+      expect(labels(sortItems(items, { locale: ["sv"] }))).toEqual(["z", "ä"]);
+    });
+
+    it("should sort by the values read by a function, missing ones last", () => {
+      const sizes = new Map([
+        ["readme", 2048],
+        ["changelog", 512],
+      ]);
+
+      expect(
+        labels(sortItems(files, { key: (item) => sizes.get(item.key) })),
+      ).toEqual(["CHANGELOG.md", "README.md", "src"]);
+      expect(
+        labels(
+          sortItems(files, {
+            key: (item) => sizes.get(item.key),
+            direction: "desc",
+          }),
+        ),
+      ).toEqual(["README.md", "CHANGELOG.md", "src"]);
+    });
+
+    it("should sort with a comparator", () => {
+      expect(
+        labels(
+          sortItems(files, {
+            compare: (a, b) => a.label.length - b.label.length,
+          }),
+        ),
+      ).toEqual(["src", "README.md", "CHANGELOG.md"]);
+    });
+
+    it("should keep the order of equal items in both directions", () => {
+      const items = [
+        { key: "a", label: "same" },
+        { key: "b", label: "same" },
+        { key: "c", label: "other" },
+      ];
+
+      expect(sortItems(items, {}).map((item) => item.key)).toEqual([
+        "c",
+        "a",
+        "b",
+      ]);
+      expect(
+        sortItems(items, { direction: "desc" }).map((item) => item.key),
+      ).toEqual(["a", "b", "c"]);
+    });
+
+    it("should leave the tree it sorts untouched", () => {
+      sortItems(files, {});
+
+      expect(labels(files)).toEqual(["src", "README.md", "CHANGELOG.md"]);
+    });
+  });
+
+  describe("groupItems", () => {
+    const byExtension = (item: UnorderedListItemData) =>
+      item.label.includes(".") ? item.label.split(".").at(-1) : undefined;
+
+    it("should gather the items of every level into groups", () => {
+      expect(groupItems(files, byExtension)).toEqual([
+        {
+          key: "src",
+          label: "src",
+          children: [
+            {
+              key: "src/group:ts",
+              label: "ts",
+              group: true,
+              children: [
+                { key: "list", label: "list.ts" },
+                { key: "index", label: "index.ts" },
+              ],
+            },
+          ],
+        },
+        {
+          key: "group:md",
+          label: "md",
+          group: true,
+          children: [
+            { key: "readme", label: "README.md" },
+            { key: "changelog", label: "CHANGELOG.md" },
+          ],
+        },
+      ]);
+    });
+
+    it("should place groups at their first item", () => {
+      expect(
+        groupItems(
+          [
+            { key: "a", label: "a.ts" },
+            { key: "b", label: "b.md" },
+            { key: "c", label: "c.ts" },
+          ],
+          byExtension,
+        ).map((item) => item.key),
+      ).toEqual(["group:ts", "group:md"]);
+    });
+
+    it("should keep the groups of the data", () => {
+      const grouped = groupItems(
+        [
+          {
+            key: "docs",
+            label: "Docs",
+            group: true,
+            children: [{ key: "readme", label: "README.md" }],
+          },
+        ],
+        () => "Files",
+      );
+
+      expect(grouped[0]?.key).toBe("docs");
+      expect(grouped[0]?.children?.[0]?.key).toBe("docs/group:Files");
+    });
+  });
+});
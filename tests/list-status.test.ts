@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Test suite for the list-status utilities.
+ *
+ * @module tests/utils/list-status
+ *
+ * @description
+ * Tests for the status counts of checklists, from lists of statuses and
+ * from data trees.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { countStatuses, getItemStatuses } from "../src/utils/list-status.js";
+import { type UnorderedListItemData } from "../src/types/unordered-list-item-data.js";
+
+const steps: UnorderedListItemData[] = [
+  { key: "install", label: "Install", status: "success" },
+  {
+    key: "build",
+    label: "Build",
+    status: "running",
+    children: [
+      { key: "lint", label: "Lint", status: "warning" },
+      { key: "types", label: "Types", status: "error" },
+      { key: "notes", label: "Notes" },
+    ],
+  },
+  { key: "deploy", label: "Deploy", status: "pending" },
+];
+
+describe("countStatuses", () => {
+  it("should count items of each status", () => {
+    expect(
+      countStatuses(["success", "success", "error", "skipped", "running"]),
+    ).toEqual({
+      pending: 0,
+      running: 1,
+      success: 2,
+      warning: 0,
+      error: 1,
+      skipped: 1,
+      total: 5,
+    });
+  });
+
+  it("should leave out items without status", () => {
+    expect(countStatuses(["pending", undefined]).total).toBe(1);
+  });
+
+  it("should count an empty list as zero", () => {
+    expect(countStatuses([]).total).toBe(0);
+  });
+});
+
+describe("getItemStatuses", () => {
+  it("should list the statuses of a tree in document order", () => {
+    expect(getItemStatuses(steps)).toEqual([
+      "success",
+      "running",
+      "warning",
+      "error",
+      undefined,
+      "pending",
+    ]);
+  });
+
+  it("should count the items of nested lists", () => {
+    expect(countStatuses(getItemStatuses(steps))).toMatchObject({
+      success: 1,
+      warning: 1,
+      error: 1,
+      total: 5,
+    });
+  });
+});
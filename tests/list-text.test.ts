@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Test suite for the list-text utilities.
+ *
+ * @module tests/utils/list-text
+ *
+ * @description
+ * Tests for the layout of item text: truncation, word wrapping with hanging
+ * indent and the indicator of hidden lines.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  formatHiddenLines,
+  layoutText,
+  locateLines,
+  truncateText,
+  wrapText,
+} from "../src/utils/list-text.js";
+
+describe("truncateText", () => {
+  it("should keep text that fits", () => {
+    expect(truncateText("hello", 5, "end")).toBe("hello");
+  });
+
+  it("should cut text at its end", () => {
+    expect(truncateText("hello world", 8, "end")).toBe("hello w…");
+  });
+
+  it("should cut text in its middle", () => {
+    expect(truncateText("hello world", 8, "middle")).toBe("hell…rld");
+  });
+
+  it("should cut text at its start", () => {
+    expect(truncateText("hello world", 8, "start")).toBe("…o world");
+  });
+
+  it("should not split wide glyphs", () => {
+    expect(truncateText("中文中文", 4, "end")).toBe("中…");
+    expect(truncateText("中文中文", 4, "start")).toBe("…文");
+  });
+
+  it("should return an empty string without room", () => {
+    expect(truncateText("hello", 0, "end")).toBe("");
+    expect(truncateText("hello", 1, "end")).toBe("…");
+  });
+});
+
+describe("wrapText", () => {
+  it("should keep text that fits on one line", () => {
+    expect(wrapText("short", 10)).toEqual(["short"]);
+  });
+
+  it("should break between words", () => {
+    expect(wrapText("the quick brown fox", 10)).toEqual([
+      "the quick",
+      "brown fox",
+    ]);
+  });
+
+  it("should indent continuation lines", () => {
+    expect(wrapText("the quick brown fox", 10, 2)).toEqual([
+      "the quick",
+      "  brown",
+      "  fox",
+    ]);
+  });
+
+  it("should break words wider than a line", () => {
+    expect(wrapText("supercalifragilistic", 8)).toEqual([
+      "supercal",
+      "ifragili",
+      "stic",
+    ]);
+  });
+
+  it("should count wide glyphs as two columns", () => {
+    expect(wrapText("中文中文中文", 5)).toEqual(["中文", "中文", "中文"]);
+  });
+
+  it("should keep explicit line breaks", () => {
+    expect(wrapText("a\n\nb", 5)).toEqual(["a", "", "b"]);
+  });
+
+  it("should keep at least one column of text per line", () => {
+    expect(wrapText("ab cd", 2, 5)).toEqual(["ab", " c", " d"]);
+  });
+});
+
+describe("layoutText", () => {
+  it("should wrap text in wrap mode", () => {
+    expect(
+      layoutText("the quick brown fox", 10, {
+        wrap: "wrap",
+        hangingIndent: 1,
+      }),
+    ).toEqual(["the quick", " brown fox"]);
+  });
+
+  it("should truncate every line in truncation modes", () => {
+    expect(
+      layoutText("first line\nsecond line", 6, { wrap: "truncate-end" }),
+    ).toEqual(["first…", "secon…"]);
+  });
+
+  it("should map truncation modes to their position", () => {
+    expect(layoutText("hello world", 8, { wrap: "truncate-start" })).toEqual([
+      "…o world",
+    ]);
+    expect(layoutText("hello world", 8, { wrap: "truncate-middle" })).toEqual([
+      "hell…rld",
+    ]);
+  });
+
+  it("should indent continuation lines in truncation modes", () => {
+    expect(
+      layoutText("first line\nsecond line", 6, {
+        wrap: "truncate-end",
+        hangingIndent: 2,
+      }),
+    ).toEqual(["first…", "  sec…"]);
+  });
+});
+
+describe("formatHiddenLines", () => {
+  it("should count hidden lines", () => {
+    expect(formatHiddenLines(3)).toBe("…(+3 more lines)");
+  });
+
+  it("should use the singular for one line", () => {
+    expect(formatHiddenLines(1)).toBe("…(+1 more line)");
+  });
+});
+
+describe("locateLines", () => {
+  it("should map the characters of lines to the text", () => {
+    expect(locateLines("hello", ["hello"])).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should skip ellipses of truncated text", () => {
+    expect(locateLines("hello world", ["hell…rld"])).toEqual([
+      0, 1, 2, 3, -1, 8, 9, 10,
+    ]);
+  });
+
+  it("should skip line breaks and indentation of wrapped text", () => {
+    expect(locateLines("ab\ncd", ["ab", "  cd"])).toEqual([
+      0, 1, -1, -1, -1, 3, 4,
+    ]);
+  });
+});
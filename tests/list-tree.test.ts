@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Test suite for the list-tree utilities.
+ *
+ * @module tests/utils/list-tree
+ *
+ * @description
+ * Tests for flattening data-driven list trees into document order.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  collectKeys,
+  expandGroups,
+  findItem,
+  flattenItems,
+  hasChildren,
+  isSelectableItem,
+} from "../src/utils/list-tree.js";
+import { type UnorderedListItemData } from "../src/index.js";
+
+describe("list-tree", () => {
+  describe("flattenItems", () => {
+    const items: UnorderedListItemData[] = [
+      {
+        key: "a",
+        label: "A",
+        children: [
+          { key: "b", label: "B", children: [{ key: "c", label: "C" }] },
+          { key: "d", label: "D" },
+        ],
+      },
+      { key: "e", label: "E" },
+    ];
+
+    it("should return rows in document order", () => {
+      expect(flattenItems(items).map((row) => row.item.key)).toEqual([
+        "a",
+        "b",
+        "c",
+        "d",
+        "e",
+      ]);
+    });
+
+    it("should assign depths relative to the root", () => {
+      expect(flattenItems(items).map((row) => row.depth)).toEqual([
+        0, 1, 2, 1, 0,
+      ]);
+    });
+
+    it("should record parent keys", () => {
+      expect(flattenItems(items).map((row) => row.parentKey)).toEqual([
+        undefined,
+        "a",
+        "b",
+        "a",
+        undefined,
+      ]);
+    });
+
+    it("should record the position of every row", () => {
+      const rows = flattenItems(items);
+
+      expect(rows.map((row) => row.index)).toEqual([0, 0, 0, 1, 1]);
+      expect(rows.map((row) => row.siblingCount)).toEqual([2, 2, 1, 2, 2]);
+      expect(rows.map((row) => row.path)).toEqual([
+        [0],
+        [0, 0],
+        [0, 0, 0],
+        [0, 1],
+        [1],
+      ]);
+    });
+
+    it("should record whether ancestors are last of their list", () => {
+      expect(flattenItems(items).map((row) => row.ancestorsLast)).toEqual([
+        [],
+        [false],
+        [false, false],
+        [false],
+        [],
+      ]);
+    });
+
+    it("should return an empty array for an empty tree", () => {
+      expect(flattenItems([])).toEqual([]);
+    });
+
+    it("should skip the children of collapsed items", () => {
+      expect(
+        flattenItems(items, (item) => item.key !== "b").map(
+          (row) => row.item.key,
+        ),
+      ).toEqual(["a", "b", "d", "e"]);
+    });
+
+    it("should flatten groups at the depth of their items", () => {
+      const rows = flattenItems([
+        { key: "a", label: "A" },
+        {
+          key: "g",
+          label: "Group",
+          group: true,
+          children: [
+            { key: "b", label: "B", children: [{ key: "c", label: "C" }] },
+          ],
+        },
+      ]);
+
+      expect(rows.map((row) => row.item.key)).toEqual(["a", "g", "b", "c"]);
+      expect(rows.map((row) => row.depth)).toEqual([0, 0, 0, 1]);
+      expect(rows.map((row) => row.parentKey)).toEqual([
+        undefined,
+        undefined,
+        undefined,
+        "b",
+      ]);
+    });
+
+    it("should leave headers out of the positions of items", () => {
+      const rows = flattenItems([
+        { key: "a", label: "A" },
+        {
+          key: "g",
+          label: "Group",
+          group: true,
+          children: [{ key: "b", label: "B" }],
+        },
+      ]);
+
+      expect(rows.map((row) => row.index)).toEqual([0, 1, 1]);
+      expect(rows.map((row) => row.siblingCount)).toEqual([2, 2, 2]);
+      expect(rows.map((row) => row.path)).toEqual([[0], [1], [1]]);
+    });
+  });
+
+  describe("expandGroups", () => {
+    it("should list the items of groups after their group", () => {
+      expect(
+        expandGroups([
+          {
+            key: "g",
+            label: "Group",
+            group: true,
+            children: [
+              {
+                key: "h",
+                label: "Nested group",
+                group: true,
+                children: [{ key: "a", label: "A" }],
+              },
+              { key: "b", label: "B", children: [{ key: "c", label: "C" }] },
+            ],
+          },
+          { key: "d", label: "D" },
+        ]).map((item) => item.key),
+      ).toEqual(["g", "h", "a", "b", "d"]);
+    });
+
+    it("should keep lists without groups as they are", () => {
+      const items: UnorderedListItemData[] = [
+        { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+      ];
+
+      expect(expandGroups(items)).toEqual(items);
+    });
+  });
+
+  describe("hasChildren", () => {
+    it("should detect items with children", () => {
+      expect(
+        hasChildren({
+          key: "a",
+          label: "A",
+          children: [{ key: "b", label: "B" }],
+        }),
+      ).toBe(true);
+    });
+
+    it("should treat leaves and empty children as childless", () => {
+      expect(hasChildren({ key: "x", label: "X" })).toBe(false);
+      expect(hasChildren({ key: "x", label: "X", children: [] })).toBe(false);
+    });
+  });
+
+  describe("collectKeys", () => {
+    it("should collect the keys of a subtree in document order", () => {
+      expect(
+        collectKeys({
+          key: "a",
+          label: "A",
+          children: [
+            { key: "b", label: "B", children: [{ key: "c", label: "C" }] },
+          ],
+        }),
+      ).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("isSelectableItem", () => {
+    it("should accept plain items", () => {
+      expect(isSelectableItem({ key: "a", label: "A" })).toBe(true);
+    });
+
+    it("should reject disabled and non-selectable items", () => {
+      expect(isSelectableItem({ key: "a", label: "A", disabled: true })).toBe(
+        false,
+      );
+      expect(
+        isSelectableItem({ key: "a", label: "A", selectable: false }),
+      ).toBe(false);
+    });
+
+    it("should reject groups", () => {
+      expect(isSelectableItem({ key: "g", label: "Group", group: true })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("findItem", () => {
+    const items: UnorderedListItemData[] = [
+      { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+    ];
+
+    it("should find nested items", () => {
+      expect(findItem(items, "b")?.label).toBe("B");
+    });
+
+    it("should return undefined for unknown keys", () => {
+      expect(findItem(items, "z")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Test suite for the list-type-ahead utilities.
+ *
+ * @module tests/utils/list-type-ahead
+ *
+ * @description
+ * Tests for collecting typed characters into a type-ahead buffer with a
+ * timeout and for finding the item the buffer jumps to.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  appendTypeAhead,
+  defaultTypeAheadTimeout,
+  findTypeAheadMatch,
+  isTypeAheadActive,
+  resolveTypeAheadInput,
+} from "../src/utils/list-type-ahead.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+describe("list-type-ahead", () => {
+  describe("resolveTypeAheadInput", () => {
+    it("should type printable characters", () => {
+      expect(resolveTypeAheadInput("r", noKey, false)).toBe("r");
+      expect(resolveTypeAheadInput("R", { ...noKey, shift: true }, false)).toBe(
+        "R",
+      );
+      expect(resolveTypeAheadInput(".", noKey, false)).toBe(".");
+    });
+
+    it("should ignore keys with modifiers and special keys", () => {
+      expect(
+        resolveTypeAheadInput("a", { ...noKey, ctrl: true }, false),
+      ).toBeUndefined();
+      expect(
+        resolveTypeAheadInput("", { ...noKey, return: true }, true),
+      ).toBeUndefined();
+      expect(
+        resolveTypeAheadInput("", { ...noKey, downArrow: true }, true),
+      ).toBeUndefined();
+      expect(resolveTypeAheadInput("\u0007", noKey, true)).toBeUndefined();
+    });
+
+    it("should leave navigation keys and spaces to the list", () => {
+      expect(resolveTypeAheadInput("j", noKey, false)).toBeUndefined();
+      expect(resolveTypeAheadInput("k", noKey, false)).toBeUndefined();
+      expect(resolveTypeAheadInput(" ", noKey, false)).toBeUndefined();
+    });
+
+    it("should extend a buffer being typed with any character", () => {
+      expect(resolveTypeAheadInput("j", noKey, true)).toBe("j");
+      expect(resolveTypeAheadInput(" ", noKey, true)).toBe(" ");
+    });
+  });
+
+  describe("appendTypeAhead", () => {
+    it("should start a buffer", () => {
+      expect(appendTypeAhead(undefined, "r", 1000)).toEqual({
+        text: "r",
+        time: 1000,
+      });
+    });
+
+    it("should grow a buffer within the timeout", () => {
+      expect(appendTypeAhead({ text: "re", time: 1000 }, "a", 1200)).toEqual({
+        text: "rea",
+        time: 1200,
+      });
+    });
+
+    it("should start over after the timeout", () => {
+      expect(
+        appendTypeAhead(
+          { text: "re", time: 1000 },
+          "a",
+          1001 + defaultTypeAheadTimeout,
+        ),
+      ).toEqual({ text: "a", time: 1001 + defaultTypeAheadTimeout });
+    });
+
+    it("should accept a custom timeout", () => {
+      expect(
+        appendTypeAhead({ text: "re", time: 1000 }, "a", 1200, 100),
+      ).toEqual({ text: "a", time: 1200 });
+    });
+  });
+
+  describe("isTypeAheadActive", () => {
+    it("should tell whether the last character is recent", () => {
+      const buffer = { text: "r", time: 1000 };
+
+      expect(isTypeAheadActive(buffer, 1000 + defaultTypeAheadTimeout)).toBe(
+        true,
+      );
+      expect(isTypeAheadActive(buffer, 1001 + defaultTypeAheadTimeout)).toBe(
+        false,
+      );
+      expect(isTypeAheadActive(undefined, 1000)).toBe(false);
+    });
+  });
+
+  describe("findTypeAheadMatch", () => {
+    const labels = ["src", "README.md", "package.json", "pnpm-lock.yaml"];
+
+    it("should find the next item starting with a character", () => {
+      expect(findTypeAheadMatch(labels, 0, "p")).toBe(2);
+    });
+
+    it("should ignore case", () => {
+      expect(findTypeAheadMatch(labels, 0, "r")).toBe(1);
+    });
+
+    it("should wrap around", () => {
+      expect(findTypeAheadMatch(labels, 3, "s")).toBe(0);
+      expect(findTypeAheadMatch(labels, -1, "s")).toBe(0);
+    });
+
+    it("should cycle through items starting with a repeated character", () => {
+      expect(findTypeAheadMatch(labels, 2, "p")).toBe(3);
+      expect(findTypeAheadMatch(labels, 3, "pp")).toBe(2);
+    });
+
+    it("should keep the focused item while it matches a longer prefix", () => {
+      expect(findTypeAheadMatch(labels, 2, "pa")).toBe(2);
+      expect(findTypeAheadMatch(labels, 2, "pn")).toBe(3);
+    });
+
+    it("should ignore leading whitespace of labels", () => {
+      expect(findTypeAheadMatch(["a", "  b"], 0, "b")).toBe(1);
+    });
+
+    it("should return undefined without a match", () => {
+      expect(findTypeAheadMatch(labels, 0, "x")).toBeUndefined();
+      expect(findTypeAheadMatch([], -1, "a")).toBeUndefined();
+    });
+  });
+});
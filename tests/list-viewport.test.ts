@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Test suite for the list-viewport utilities.
+ *
+ * @module tests/utils/list-viewport
+ *
+ * @description
+ * Tests for the viewport of lists with a maximum height: the items shown
+ * next to the scroll indicators, scrolling to an item, the scroll keys and
+ * the indicator text.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type Key } from "tinky";
+import {
+  formatScrollIndicator,
+  getViewport,
+  resolveScrollAction,
+  scrollViewportTo,
+} from "../src/utils/list-viewport.js";
+
+const noKey: Key = {
+  upArrow: false,
+  downArrow: false,
+  leftArrow: false,
+  rightArrow: false,
+  pageDown: false,
+  pageUp: false,
+  home: false,
+  end: false,
+  return: false,
+  escape: false,
+  ctrl: false,
+  shift: false,
+  tab: false,
+  backspace: false,
+  delete: false,
+  meta: false,
+};
+
+describe("getViewport", () => {
+  it("should show every item of a list that fits", () => {
+    expect(getViewport(3, 5, 5)).toEqual({
+      start: 0,
+      end: 5,
+      hiddenAbove: 0,
+      hiddenBelow: 0,
+    });
+  });
+
+  it("should leave a row for the lower indicator at the top", () => {
+    expect(getViewport(0, 5, 20)).toEqual({
+      start: 0,
+      end: 4,
+      hiddenAbove: 0,
+      hiddenBelow: 16,
+    });
+  });
+
+  it("should leave rows for both indicators in the middle", () => {
+    expect(getViewport(8, 5, 20)).toEqual({
+      start: 8,
+      end: 11,
+      hiddenAbove: 8,
+      hiddenBelow: 9,
+    });
+  });
+
+  it("should leave a row for the upper indicator at the bottom", () => {
+    expect(getViewport(30, 5, 20)).toEqual({
+      start: 16,
+      end: 20,
+      hiddenAbove: 16,
+      hiddenBelow: 0,
+    });
+  });
+
+  it("should keep the bottom viewport stable", () => {
+    const bottom = getViewport(30, 5, 20);
+    expect(getViewport(bottom.start, 5, 20)).toEqual(bottom);
+  });
+
+  it("should always show an item", () => {
+    expect(getViewport(5, 1, 20).end - getViewport(5, 1, 20).start).toBe(1);
+  });
+
+  it("should count the rows of items with nested items", () => {
+    expect(getViewport(0, 5, 3, [4, 3, 1])).toEqual({
+      start: 0,
+      end: 1,
+      hiddenAbove: 0,
+      hiddenBelow: 4,
+    });
+    expect(getViewport(1, 5, 3, [4, 3, 1])).toEqual({
+      start: 1,
+      end: 3,
+      hiddenAbove: 4,
+      hiddenBelow: 0,
+    });
+  });
+
+  it("should clip an item taller than the viewport", () => {
+    expect(getViewport(0, 3, 3, [4, 3, 1])).toEqual({
+      start: 0,
+      end: 1,
+      hiddenAbove: 0,
+      hiddenBelow: 6,
+    });
+  });
+
+  it("should show every item whose rows fit", () => {
+    expect(getViewport(0, 8, 3, [4, 3, 1])).toEqual({
+      start: 0,
+      end: 3,
+      hiddenAbove: 0,
+      hiddenBelow: 0,
+    });
+  });
+});
+
+describe("scrollViewportTo", () => {
+  it("should keep the viewport when the item is visible", () => {
+    expect(scrollViewportTo(8, 10, 5, 20).start).toBe(8);
+  });
+
+  it("should scroll up to items above the viewport", () => {
+    expect(scrollViewportTo(8, 2, 5, 20).start).toBe(2);
+  });
+
+  it("should scroll down to items below the viewport", () => {
+    const viewport = scrollViewportTo(0, 12, 5, 20);
+    expect(viewport.start).toBe(10);
+    expect(viewport.end).toBe(13);
+  });
+
+  it("should scroll down to items below the viewport by their rows", () => {
+    const viewport = scrollViewportTo(0, 2, 6, 5, [2, 2, 2, 2, 2]);
+    expect(viewport.start).toBe(1);
+    expect(viewport.end).toBe(3);
+  });
+
+  it("should only clamp without an item to show", () => {
+    expect(scrollViewportTo(30, -1, 5, 20).start).toBe(16);
+  });
+});
+
+describe("resolveScrollAction", () => {
+  it("should map PageUp and PageDown", () => {
+    expect(resolveScrollAction("", { ...noKey, pageUp: true })).toBe("pageUp");
+    expect(resolveScrollAction("", { ...noKey, pageDown: true })).toBe(
+      "pageDown",
+    );
+  });
+
+  it("should ignore other keys", () => {
+    expect(resolveScrollAction("j", noKey)).toBeUndefined();
+  });
+});
+
+describe("formatScrollIndicator", () => {
+  it("should count the hidden items", () => {
+    expect(formatScrollIndicator("↓", 12)).toBe("↓ 12 more");
+  });
+});
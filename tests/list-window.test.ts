@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Test suite for the list-window utilities.
+ *
+ * @module tests/utils/list-window
+ *
+ * @description
+ * Tests for the window of rows mounted by virtualized lists: clamping to the
+ * available rows and scrolling to keep a row in view.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { clampWindow, scrollToRow } from "../src/utils/list-window.js";
+
+describe("clampWindow", () => {
+  it("should keep a window that fits", () => {
+    expect(clampWindow(3, 10, 100)).toEqual({ start: 3, end: 13 });
+  });
+
+  it("should not start before the first row", () => {
+    expect(clampWindow(-5, 10, 100)).toEqual({ start: 0, end: 10 });
+  });
+
+  it("should not end after the last row", () => {
+    expect(clampWindow(95, 10, 100)).toEqual({ start: 90, end: 100 });
+  });
+
+  it("should shrink to the number of rows", () => {
+    expect(clampWindow(2, 10, 4)).toEqual({ start: 0, end: 4 });
+  });
+
+  it("should be empty without rows", () => {
+    expect(clampWindow(0, 10, 0)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe("scrollToRow", () => {
+  it("should keep the window when the row is visible", () => {
+    expect(scrollToRow(3, 5, 10, 100)).toEqual({ start: 3, end: 13 });
+    expect(scrollToRow(3, 12, 10, 100)).toEqual({ start: 3, end: 13 });
+  });
+
+  it("should scroll down to rows below the window", () => {
+    expect(scrollToRow(0, 12, 10, 100)).toEqual({ start: 3, end: 13 });
+  });
+
+  it("should scroll up to rows above the window", () => {
+    expect(scrollToRow(3, 1, 10, 100)).toEqual({ start: 1, end: 11 });
+  });
+
+  it("should only clamp without a row to show", () => {
+    expect(scrollToRow(97, -1, 10, 100)).toEqual({ start: 90, end: 100 });
+  });
+
+  it("should follow the last row", () => {
+    expect(scrollToRow(0, 99, 10, 100)).toEqual({ start: 90, end: 100 });
+  });
+});
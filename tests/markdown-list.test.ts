@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Test suite for the markdown-list utilities.
+ *
+ * @module tests/utils/markdown-list
+ *
+ * @description
+ * Tests for parsing Markdown bullet lists: bullets, nesting, task items,
+ * inline formatting and the errors reported for malformed indentation.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  MarkdownListParseError,
+  parseMarkdownInline,
+  parseMarkdownList,
+} from "../src/utils/markdown-list.js";
+
+/**
+ * Parses Markdown and returns the error it throws.
+ */
+const parseError = (markdown: string): MarkdownListParseError => {
+  try {
+    parseMarkdownList(markdown);
+  } catch (error) {
+    return error as MarkdownListParseError;
+  }
+
+  throw new Error("Expected a parse error");
+};
+
+describe("parseMarkdownInline", () => {
+  it("should return plain text as a single text node", () => {
+    expect(parseMarkdownInline("plain text")).toEqual([
+      { type: "text", value: "plain text" },
+    ]);
+  });
+
+  it("should parse code spans", () => {
+    expect(parseMarkdownInline("run `npm test`")).toEqual([
+      { type: "text", value: "run " },
+      { type: "code", value: "npm test" },
+    ]);
+    expect(parseMarkdownInline("``a `b` c``")).toEqual([
+      { type: "code", value: "a `b` c" },
+    ]);
+  });
+
+  it("should parse emphasis, strong emphasis and strikethrough", () => {
+    expect(parseMarkdownInline("*a* _b_ **c** __d__ ~~e~~")).toEqual([
+      { type: "emphasis", children: [{ type: "text", value: "a" }] },
+      { type: "text", value: " " },
+      { type: "emphasis", children: [{ type: "text", value: "b" }] },
+      { type: "text", value: " " },
+      { type: "strong", children: [{ type: "text", value: "c" }] },
+      { type: "text", value: " " },
+      { type: "strong", children: [{ type: "text", value: "d" }] },
+      { type: "text", value: " " },
+      { type: "strikethrough", children: [{ type: "text", value: "e" }] },
+    ]);
+  });
+
+  it("should nest formatting", () => {
+    expect(parseMarkdownInline("*very **important***")).toEqual([
+      {
+        type: "emphasis",
+        children: [
+          { type: "text", value: "very " },
+          { type: "strong", children: [{ type: "text", value: "important" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse runs of three delimiters as both emphases", () => {
+    expect(parseMarkdownInline("*a **b** c*")[0]).toMatchObject({
+      type: "emphasis",
+      children: [{ type: "text" }, { type: "strong" }, { type: "text" }],
+    });
+    expect(parseMarkdownInline("***x***")).toEqual([
+      {
+        type: "emphasis",
+        children: [
+          { type: "strong", children: [{ type: "text", value: "x" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse inline links and autolinks", () => {
+    expect(
+      parseMarkdownInline('[the *guide*](https://example.com "Guide")'),
+    ).toEqual([
+      {
+        type: "link",
+        url: "https://example.com",
+        children: [
+          { type: "text", value: "the " },
+          { type: "emphasis", children: [{ type: "text", value: "guide" }] },
+        ],
+      },
+    ]);
+    expect(parseMarkdownInline("<https://x.dev>")).toEqual([
+      {
+        type: "link",
+        url: "https://x.dev",
+        children: [{ type: "text", value: "https://x.dev" }],
+      },
+    ]);
+  });
+
+  it("should keep unclosed and intraword delimiters as text", () => {
+    expect(parseMarkdownInline("2 * 3 and snake_case_name")).toEqual([
+      { type: "text", value: "2 * 3 and snake_case_name" },
+    ]);
+    expect(parseMarkdownInline("**open `code")).toEqual([
+      { type: "text", value: "**open `code" },
+    ]);
+  });
+
+  it("should not parse formatting inside code spans", () => {
+    expect(parseMarkdownInline("`*a*`")).toEqual([
+      { type: "code", value: "*a*" },
+    ]);
+  });
+
+  it("should unescape punctuation", () => {
+    expect(parseMarkdownInline("\\*not emphasis\\*")).toEqual([
+      { type: "text", value: "*not emphasis*" },
+    ]);
+  });
+});
+
+describe("parseMarkdownList", () => {
+  it("should parse every bullet character", () => {
+    const items = parseMarkdownList("- a\n* b\n+ c");
+
+    expect(items.map((item) => item.label)).toEqual(["a", "b", "c"]);
+    expect(items.map((item) => item.key)).toEqual(["0", "1", "2"]);
+  });
+
+  it("should nest items by indentation", () => {
+    const items = parseMarkdownList(
+      ["- a", "  - b", "    - c", "  - d", "- e"].join("\n"),
+    );
+
+    expect(items).toHaveLength(2);
+    expect(items[0]?.children?.map((item) => item.key)).toEqual(["0.0", "0.1"]);
+    expect(items[0]?.children?.[0]?.children?.[0]?.label).toBe("c");
+    expect(items[1]?.children).toBeUndefined();
+  });
+
+  it("should nest items under the text of their parent", () => {
+    const items = parseMarkdownList("-   a\n    - b");
+
+    expect(items[0]?.children?.[0]?.label).toBe("b");
+  });
+
+  it("should parse task list items", () => {
+    const items = parseMarkdownList("- [x] done\n- [X] also done\n- [ ] todo");
+
+    expect(items.map((item) => item.checked)).toEqual([true, true, false]);
+    expect(items.map((item) => item.label)).toEqual([
+      "done",
+      "also done",
+      "todo",
+    ]);
+  });
+
+  it("should leave the checked state of plain items undefined", () => {
+    expect(parseMarkdownList("- plain")[0]).not.toHaveProperty("checked");
+  });
+
+  it("should parse the inline content of items into their label", () => {
+    const [item] = parseMarkdownList("- Run `npm test` **first**");
+
+    expect(item?.label).toBe("Run npm test first");
+    expect(item?.content.map((node) => node.type)).toEqual([
+      "text",
+      "code",
+      "text",
+      "strong",
+    ]);
+  });
+
+  it("should join continuation lines and skip blank lines", () => {
+    const items = parseMarkdownList(
+      ["", "- long", "  item", "", "- next", ""].join("\r\n"),
+    );
+
+    expect(items.map((item) => item.label)).toEqual(["long item", "next"]);
+  });
+
+  it("should parse empty sources and items", () => {
+    expect(parseMarkdownList("")).toEqual([]);
+    expect(parseMarkdownList("-")[0]?.label).toBe("");
+  });
+
+  it("should report lines that are not list items", () => {
+    const error = parseError("# Title\n- a");
+
+    expect(error).toBeInstanceOf(MarkdownListParseError);
+    expect(error.line).toBe(1);
+    expect(error.message).toBe(
+      'Line 1: Expected a list item starting with "-", "*" or "+"',
+    );
+  });
+
+  it("should report text that does not continue an item", () => {
+    expect(parseError("- a\ntext").message).toBe(
+      "Line 2: Expected a list item, or text indented 2 spaces to continue the item on line 1, found 0 spaces",
+    );
+  });
+
+  it("should report items between two levels", () => {
+    const error = parseError("- a\n  - b\n - c");
+
+    expect(error.line).toBe(3);
+    expect(error.message).toBe(
+      "Line 3: Item is indented 1 space, which lines up with no list; expected 0, 2 or 4 spaces",
+    );
+  });
+
+  it("should report items indented too deep to nest", () => {
+    expect(parseError("- a\n      - b").message).toBe(
+      "Line 2: Item is indented 6 spaces, nest it under the item on line 1 with 2 spaces",
+    );
+  });
+
+  it("should report tabs in indentation", () => {
+    expect(parseError("- a\n\t- b").message).toBe(
+      "Line 2: Indentation must use spaces, found a tab",
+    );
+  });
+});
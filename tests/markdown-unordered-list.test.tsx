@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Test suite for the MarkdownUnorderedList component.
+ *
+ * @module tests/components/MarkdownUnorderedList
+ *
+ * @description
+ * Tests for the MarkdownUnorderedList component, which renders Markdown
+ * bullet lists with UnorderedList. The lists are rendered into a stub
+ * terminal to check their checkboxes, nesting and inline styles, and how a
+ * malformed document is reported.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Component, type ReactNode } from "react";
+import { Text, applyTextStyles } from "tinky";
+import { ThemeProvider, defaultTheme, extendTheme } from "tinky-theme";
+import {
+  MarkdownListParseError,
+  MarkdownUnorderedList,
+  type MarkdownUnorderedListProps,
+  type UnorderedListStyleState,
+} from "../src/index.js";
+import { renderList } from "./helpers/stub-terminal.js";
+
+const markdown = [
+  "- [x] Run `npm test`",
+  "- [ ] Update the **changelog**",
+  "  - See [the guide](https://example.com/guide)",
+].join("\n");
+
+/**
+ * Shows the message of the error thrown by its children.
+ */
+class ErrorBoundary extends Component<
+  { readonly children: ReactNode; readonly onError: (error: Error) => void },
+  { readonly error?: Error }
+> {
+  state: { readonly error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.error ? (
+      <Text>{this.state.error.message}</Text>
+    ) : (
+      this.props.children
+    );
+  }
+}
+
+describe("MarkdownUnorderedList", () => {
+  it("should export MarkdownUnorderedList component as a function", () => {
+    expect(typeof MarkdownUnorderedList).toBe("function");
+  });
+
+  it("should create an element from Markdown", () => {
+    const element = <MarkdownUnorderedList markdown={markdown} />;
+
+    expect(element.type).toBe(MarkdownUnorderedList);
+    expect(element.props.markdown).toBe(markdown);
+  });
+
+  it("should accept the layout props of UnorderedList", () => {
+    const props: MarkdownUnorderedListProps = {
+      markdown,
+      variant: "tree",
+      marker: ["•", "◦"],
+      wrap: "truncate-end",
+      maxLines: 2,
+      hangingIndent: 2,
+    };
+    const element = <MarkdownUnorderedList {...props} />;
+
+    expect(element.props.variant).toBe("tree");
+    expect(element.props.marker).toEqual(["•", "◦"]);
+  });
+
+  it("should work with custom inline styles", () => {
+    const theme = extendTheme(defaultTheme, {
+      components: {
+        UnorderedList: {
+          styles: {
+            inlineCode: () => ({ color: "cyan" }),
+            link: () => ({ underline: true }),
+          },
+        },
+      },
+    });
+    const element = (
+      <ThemeProvider theme={theme}>
+        <MarkdownUnorderedList markdown={markdown} />
+      </ThemeProvider>
+    );
+
+    expect(element.type).toBe(ThemeProvider);
+  });
+
+  it("should render task items with checkboxes, nested under their parent", () => {
+    const list = renderList(
+      <MarkdownUnorderedList
+        markdown={[
+          "- [x] Build",
+          "  - [ ] Lint",
+          "  - Compile",
+          "- [ ] Release",
+        ].join("\n")}
+      />,
+    );
+
+    expect(list.lastFrame()).toEqual([
+      "☒ Build",
+      "  ☐ Lint",
+      "  ─ Compile",
+      "☐ Release",
+    ]);
+    list.unmount();
+  });
+
+  it("should render inline formatting as plain text", () => {
+    const list = renderList(<MarkdownUnorderedList markdown={markdown} />, {
+      columns: 60,
+    });
+
+    expect(list.lastFrame()).toEqual([
+      "☒ Run npm test",
+      "☐ Update the changelog",
+      "  ─ See the guide (https://example.com/guide)",
+    ]);
+    list.unmount();
+  });
+
+  it("should style inline code, emphasis and links", () => {
+    const states: (readonly number[] | undefined)[] = [];
+    const theme = extendTheme(defaultTheme, {
+      components: {
+        UnorderedList: {
+          styles: {
+            marker: () => ({}),
+            inlineCode: (state: UnorderedListStyleState) => {
+              states.push(state.path);
+              return { color: "cyan" };
+            },
+            link: () => ({ underline: true }),
+          },
+        },
+      },
+    });
+    const list = renderList(
+      <ThemeProvider theme={theme}>
+        <MarkdownUnorderedList
+          markdown={[
+            "- Run `npm test`",
+            "- Read *the* **guide** at [docs](https://example.com)",
+          ].join("\n")}
+        />
+      </ThemeProvider>,
+      { columns: 60 },
+    );
+
+    expect(list.lastStyledFrame()).toEqual([
+      `─ Run ${applyTextStyles("npm test", { color: "cyan" })}`,
+      `─ Read ${applyTextStyles("the", { italic: true })} ${applyTextStyles(
+        "guide",
+        { bold: true },
+      )} at ${applyTextStyles("docs", { underline: true })} (https://example.com)`,
+    ]);
+    expect(states).toContainEqual([0]);
+    list.unmount();
+  });
+
+  it("should style emphasis, strong emphasis and strikethrough with the theme", () => {
+    const theme = extendTheme(defaultTheme, {
+      components: {
+        UnorderedList: {
+          styles: {
+            marker: () => ({}),
+            emphasis: () => ({ color: "green" }),
+            strong: () => ({ color: "red" }),
+            strikethrough: () => ({ dimColor: true }),
+          },
+        },
+      },
+    });
+    const list = renderList(
+      <ThemeProvider theme={theme}>
+        <MarkdownUnorderedList markdown="- *new* **breaking** ~~old~~" />
+      </ThemeProvider>,
+    );
+
+    expect(list.lastStyledFrame()).toEqual([
+      `─ ${applyTextStyles("new", { color: "green" })} ${applyTextStyles(
+        "breaking",
+        { color: "red" },
+      )} ${applyTextStyles("old", { dimColor: true })}`,
+    ]);
+    list.unmount();
+  });
+
+  it("should throw a MarkdownListParseError naming the line of a malformed document", async () => {
+    const errors: Error[] = [];
+    const list = renderList(
+      <ErrorBoundary onError={(error) => errors.push(error)}>
+        <MarkdownUnorderedList markdown={"- Build\nnot a list item"} />
+      </ErrorBoundary>,
+      { columns: 120 },
+    );
+
+    await list.press();
+
+    expect(errors[0]).toBeInstanceOf(MarkdownListParseError);
+    expect((errors[0] as MarkdownListParseError).line).toBe(2);
+    expect(list.lastFrame()).toEqual([errors[0]?.message]);
+    list.unmount();
+  });
+
+  it("should let tinky report a malformed document without an error boundary", async () => {
+    const list = renderList(
+      <MarkdownUnorderedList markdown="Install the package" />,
+      { columns: 120 },
+    );
+
+    await list.press();
+
+    expect(list.frames[0]).toContain("ERROR");
+    expect(list.frames[0]).toContain(
+      'Line 1: Expected a list item starting with "-", "*" or "+"',
+    );
+    list.unmount();
+  });
+});
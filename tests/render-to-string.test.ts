@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Test suite for the static string renderer.
+ *
+ * @module tests/utils/render-to-string
+ *
+ * @description
+ * Tests for renderUnorderedListToString: marker resolution, status glyphs, tree
+ * connectors, indentation, text layout and ANSI styling.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { applyTextStyles } from "tinky";
+import { renderUnorderedListToString } from "../src/utils/render-to-string.js";
+import { defaultStatusMarkers } from "../src/themes/unordered-list-theme.js";
+import { type UnorderedListItemData } from "../src/types/unordered-list-item-data.js";
+import { type UnorderedListStyleState } from "../src/types/unordered-list-style-state.js";
+
+const items: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      {
+        key: "components",
+        label: "components",
+        children: [{ key: "list", label: "List.tsx" }],
+      },
+      { key: "index", label: "index.ts" },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+];
+
+describe("renderUnorderedListToString", () => {
+  it("should render nested items with the default marker", () => {
+    expect(renderUnorderedListToString(items)).toBe(
+      [
+        "─ src",
+        "  ─ components",
+        "    ─ List.tsx",
+        "  ─ index.ts",
+        "─ README.md",
+      ].join("\n"),
+    );
+  });
+
+  it("should resolve per-level markers by depth", () => {
+    const output = renderUnorderedListToString(items, {
+      config: { marker: ["•", "◦"] },
+    });
+
+    expect(output.split("\n")).toEqual([
+      "• src",
+      "  ◦ components",
+      "    ◦ List.tsx",
+      "  ◦ index.ts",
+      "• README.md",
+    ]);
+  });
+
+  it("should pass the position of items to marker functions", () => {
+    const output = renderUnorderedListToString(
+      Array.from({ length: 10 }, (_, index) => ({
+        key: String(index),
+        label: `Item ${index + 1}`,
+      })),
+      {
+        config: {
+          marker: ({ index }) => `${index + 1}.`,
+          markerAlign: "right",
+        },
+      },
+    );
+
+    expect(output.split("\n")[0]).toBe(" 1. Item 1");
+    expect(output.split("\n")[9]).toBe("10. Item 10");
+  });
+
+  it("should pad markers to the widest marker of their list", () => {
+    const output = renderUnorderedListToString(
+      [
+        { key: "a", label: "A" },
+        { key: "b", label: "B", children: [{ key: "c", label: "C" }] },
+      ],
+      { config: { marker: ({ index }) => (index === 0 ? "•" : "[x]") } },
+    );
+
+    expect(output.split("\n")).toEqual(["•   A", "[x] B", "    • C"]);
+  });
+
+  it("should draw connectors with the tree variant", () => {
+    expect(renderUnorderedListToString(items, { variant: "tree" })).toBe(
+      [
+        "├─ src",
+        "│  ├─ components",
+        "│  │  └─ List.tsx",
+        "│  └─ index.ts",
+        "└─ README.md",
+      ].join("\n"),
+    );
+  });
+
+  it("should render groups as headers without markers", () => {
+    const output = renderUnorderedListToString(
+      [
+        {
+          key: "deps",
+          label: "Dependencies",
+          group: true,
+          children: [
+            { key: "react", label: "react" },
+            { key: "tinky", label: "tinky" },
+          ],
+        },
+        {
+          key: "dev",
+          label: "Dev dependencies",
+          group: true,
+          children: [{ key: "typescript", label: "typescript" }],
+        },
+      ],
+      { config: { marker: ({ index }) => `${index + 1}.` } },
+    );
+
+    expect(output.split("\n")).toEqual([
+      "Dependencies",
+      "1. react",
+      "2. tinky",
+      "Dev dependencies",
+      "3. typescript",
+    ]);
+  });
+
+  it("should replace the markers of items with a status by its glyph", () => {
+    const output = renderUnorderedListToString(
+      [
+        { key: "build", label: "Build", status: "success" },
+        {
+          key: "test",
+          label: "Test",
+          status: "running",
+          children: [{ key: "unit", label: "Unit", status: "error" }],
+        },
+        { key: "deploy", label: "Deploy" },
+      ],
+      {
+        config: {
+          statusMarkers: { success: { marker: "+" }, error: { marker: "x" } },
+          spinner: { frames: ["|", "/"], interval: 80 },
+        },
+      },
+    );
+
+    expect(output.split("\n")).toEqual([
+      "+ Build",
+      "| Test",
+      "  x Unit",
+      "─ Deploy",
+    ]);
+  });
+
+  it("should fall back to the default status glyphs", () => {
+    const output = renderUnorderedListToString([
+      { key: "build", label: "Build", status: "success" },
+      { key: "test", label: "Test", status: "running" },
+    ]);
+
+    expect(output.split("\n")).toEqual(["✔ Build", "⠋ Test"]);
+  });
+
+  it("should align the default status glyphs in one column", () => {
+    const output = renderUnorderedListToString(
+      [
+        { key: "install", label: "Install", status: "success" },
+        { key: "build", label: "Build", status: "error" },
+        { key: "lint", label: "Lint", status: "warning" },
+        { key: "test", label: "Test", status: "running" },
+        { key: "docs", label: "Docs", status: "skipped" },
+        { key: "deploy", label: "Deploy", status: "pending" },
+      ],
+      { config: { spinner: false } },
+    );
+
+    expect(output.split("\n")).toEqual([
+      "✔ Install",
+      "✘ Build",
+      "⚠ Lint",
+      "▶ Test",
+      "↓ Docs",
+      "◯ Deploy",
+    ]);
+  });
+
+  it("should show the running glyph while the spinner is disabled", () => {
+    const output = renderUnorderedListToString(
+      [{ key: "test", label: "Test", status: "running" }],
+      { config: { spinner: false } },
+    );
+
+    expect(output).toBe(`${defaultStatusMarkers.running.marker} Test`);
+  });
+
+  it("should draw status glyphs after the connectors of the tree variant", () => {
+    const output = renderUnorderedListToString(
+      [
+        {
+          key: "build",
+          label: "Build",
+          status: "success",
+          children: [{ key: "lint", label: "Lint", status: "warning" }],
+        },
+        { key: "test", label: "Test" },
+      ],
+      {
+        variant: "tree",
+        config: {
+          statusMarkers: { success: { marker: "+" }, warning: { marker: "!" } },
+        },
+      },
+    );
+
+    expect(output.split("\n")).toEqual([
+      "├─ + Build",
+      "│    └─ ! Lint",
+      "└─ Test",
+    ]);
+  });
+
+  it("should color status glyphs when asked to", () => {
+    const output = renderUnorderedListToString(
+      [{ key: "build", label: "Build", status: "error" }],
+      { ansi: true },
+    );
+
+    expect(output).toBe(
+      `${applyTextStyles(defaultStatusMarkers.error.marker, {
+        color: "red",
+      })} Build`,
+    );
+  });
+
+  it("should indent children by the given number of columns", () => {
+    const output = renderUnorderedListToString(items, { indent: 4 });
+
+    expect(output.split("\n").slice(0, 3)).toEqual([
+      "─ src",
+      "    ─ components",
+      "        ─ List.tsx",
+    ]);
+  });
+
+  it("should wrap long labels within the width", () => {
+    const output = renderUnorderedListToString(
+      [{ key: "a", label: "one two three four" }],
+      { width: 12 },
+    );
+
+    expect(output.split("\n")).toEqual(["─ one two", "  three four"]);
+  });
+
+  it("should truncate and limit labels following the configuration", () => {
+    const label = "one two three four five six";
+
+    expect(
+      renderUnorderedListToString([{ key: "a", label }], {
+        width: 12,
+        config: { wrap: "truncate-end" },
+      }),
+    ).toBe("─ one two t…");
+    expect(
+      renderUnorderedListToString([{ key: "a", label }], {
+        width: 12,
+        config: { maxLines: 1 },
+      }).split("\n"),
+    ).toEqual(["─ one two", "  …(+2 more lines)"]);
+  });
+
+  it("should style markers and indicators with the theme when asked to", () => {
+    const output = renderUnorderedListToString(
+      [{ key: "a", label: "one two three" }],
+      { ansi: true, width: 9, config: { maxLines: 1 } },
+    );
+
+    expect(output.split("\n")).toEqual([
+      `${applyTextStyles("─", { dimColor: true })} one two`,
+      `  ${applyTextStyles("…(+1 more line)", { dimColor: true })}`,
+    ]);
+  });
+
+  it("should style markers with custom style functions", () => {
+    const states: UnorderedListStyleState[] = [];
+    const output = renderUnorderedListToString([{ key: "a", label: "A" }], {
+      ansi: true,
+      styles: {
+        marker: (state) => {
+          states.push(state);
+          return { bold: true };
+        },
+      },
+    });
+
+    expect(output).toBe(`${applyTextStyles("─", { bold: true })} A`);
+    expect(states[0]).toMatchObject({ depth: 0, index: 0, path: [0] });
+  });
+
+  it("should render an empty list as an empty string", () => {
+    expect(renderUnorderedListToString([])).toBe("");
+  });
+});
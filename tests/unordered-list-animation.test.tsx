@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Integration tests for animated markers.
+ *
+ * @module tests/integration/unordered-list-animation
+ *
+ * @description
+ * Renders lists with spinners and frame-based markers into a stub terminal
+ * under fake timers, and checks that every animated marker of a list
+ * follows a single shared timer, which stops when nothing animates.
+ */
+
+import { describe, it, expect, jest, afterEach, beforeEach } from "bun:test";
+import { Text } from "tinky";
+import { UnorderedList } from "../src/index.js";
+import { renderList } from "./helpers/stub-terminal.js";
+
+/**
+ * Advances the fake timers, then lets React render the updates they caused.
+ * The scheduler of React uses `setImmediate`, which fake timers leave alone.
+ */
+const advance = async (milliseconds: number): Promise<void> => {
+  jest.advanceTimersByTime(milliseconds);
+  await new Promise((resolve) => setImmediate(resolve));
+};
+
+const steps = (status: "running" | "success") => (
+  <UnorderedList>
+    <UnorderedList.Item status={status}>
+      <Text>Build</Text>
+      <UnorderedList>
+        <UnorderedList.Item status={status}>
+          <Text>Lint</Text>
+        </UnorderedList.Item>
+      </UnorderedList>
+    </UnorderedList.Item>
+    <UnorderedList.Item status={status}>
+      <Text>Test</Text>
+    </UnorderedList.Item>
+  </UnorderedList>
+);
+
+describe("animated markers", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should advance every spinner of a list on a single timer", async () => {
+    const list = renderList(steps("running"));
+
+    expect(list.lastFrame()).toEqual(["⠋ Build", "  ⠋ Lint", "⠋ Test"]);
+    expect(jest.getTimerCount()).toBe(1);
+
+    await advance(160);
+
+    expect(list.lastFrame()).toEqual(["⠹ Build", "  ⠹ Lint", "⠹ Test"]);
+    list.unmount();
+  });
+
+  it("should stop the timer once nothing animates", () => {
+    const list = renderList(steps("running"));
+
+    list.rerender(steps("success"));
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(list.lastFrame()[0]).toStartWith("✔");
+    list.unmount();
+  });
+
+  it("should animate frame-based markers from the marker prop", async () => {
+    const list = renderList(
+      <UnorderedList marker={{ frames: ["◐", "◓", "◑", "◒"], interval: 120 }}>
+        <UnorderedList.Item>
+          <Text>Syncing</Text>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    expect(list.lastFrame()).toEqual(["◐ Syncing"]);
+
+    await advance(360);
+
+    expect(list.lastFrame()).toEqual(["◒ Syncing"]);
+    list.unmount();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -56,6 +56,11 @@ describe("UnorderedListContext", () => {
       expect(nestedProps.depth).toBe(3);
     });
 
+    it("should accept a rendering variant", () => {
+      const props: UnorderedListContextProps = { depth: 1, variant: "tree" };
+      expect(props.variant).toBe("tree");
+    });
+
     it("should work with different depth values", () => {
       const depths = [0, 1, 2, 5, 10, 100];
 
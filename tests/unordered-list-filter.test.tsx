@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Integration tests for filterable lists.
+ *
+ * @module tests/integration/unordered-list-filter
+ *
+ * @description
+ * Renders filterable lists into a stub terminal and checks that a query,
+ * given as a prop or typed after `/`, prunes the tree to the matching items
+ * and their ancestors, at their original depth, highlights the matched
+ * characters and shows the empty state when nothing matches.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { UnorderedList, type UnorderedListItemData } from "../src/index.js";
+import { keys, renderLines, renderList } from "./helpers/stub-terminal.js";
+
+const files: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      { key: "list", label: "UnorderedList.tsx" },
+      { key: "index", label: "index.ts" },
+    ],
+  },
+  { key: "readme", label: "README.md", searchText: "docs" },
+];
+
+describe("filterable lists", () => {
+  it("should keep the ancestors of matching items", () => {
+    const lines = renderLines(
+      <UnorderedList items={files} filterable filterQuery="list" />,
+    );
+
+    expect(lines).toEqual(["/list", "─ src", "  ─ UnorderedList.tsx"]);
+  });
+
+  it("should match items by their search text", () => {
+    const frame = renderLines(
+      <UnorderedList items={files} filterable filterQuery="docs" />,
+    ).join("\n");
+
+    expect(frame).toContain("README.md");
+    expect(frame).not.toContain("src");
+  });
+
+  it("should show the empty state without matches", () => {
+    const frame = renderLines(
+      <UnorderedList items={files} filterable filterQuery="zzz" />,
+    ).join("\n");
+
+    expect(frame).toContain('No matches for "zzz"');
+  });
+
+  it("should show every item without a query", () => {
+    const frame = renderLines(<UnorderedList items={files} filterable />).join(
+      "\n",
+    );
+
+    expect(frame).toContain("index.ts");
+    expect(frame).toContain("README.md");
+    expect(frame).not.toContain("/");
+  });
+
+  it("should filter the items as the query is typed after a slash", async () => {
+    const queries: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        items={files}
+        filterable
+        onFilterChange={(query) => queries.push(query)}
+      />,
+    );
+
+    await list.press("/", "d", "o", "c");
+    expect(list.lastFrame()).toEqual(["/doc", "─ README.md"]);
+
+    await list.press(keys.backspace, keys.backspace, keys.backspace);
+    expect(queries).toEqual(["d", "do", "doc", "do", "d", ""]);
+    list.unmount();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Integration tests for grouped lists.
+ *
+ * @module tests/integration/unordered-list-group
+ *
+ * @description
+ * Renders lists with groups, written as UnorderedList.Group elements or as
+ * data items, into a stub terminal and checks that headers take no marker
+ * and no position, that the items of groups stay at the depth of the list,
+ * and that pagination and collapsed counts only count items.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Text } from "tinky";
+import {
+  UnorderedList,
+  type UnorderedListItemData,
+  type UnorderedListMarkerContext,
+} from "../src/index.js";
+import { renderLines } from "./helpers/stub-terminal.js";
+
+const numbered = ({ index }: UnorderedListMarkerContext) => `${index + 1}.`;
+
+const packages: UnorderedListItemData[] = [
+  {
+    key: "deps",
+    label: "Dependencies",
+    group: true,
+    children: [
+      {
+        key: "react",
+        label: "react",
+        children: [{ key: "envify", label: "loose-envify" }],
+      },
+      { key: "tinky", label: "tinky" },
+    ],
+  },
+  {
+    key: "dev",
+    label: "Dev dependencies",
+    group: true,
+    children: [{ key: "typescript", label: "typescript" }],
+  },
+];
+
+describe("grouped lists", () => {
+  it("should render group elements as headers without markers", () => {
+    const lines = renderLines(
+      <UnorderedList marker={numbered}>
+        <UnorderedList.Item>
+          <Text>README.md</Text>
+        </UnorderedList.Item>
+        <UnorderedList.Group title="Sources">
+          <UnorderedList.Item>
+            <Text>index.ts</Text>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>list.ts</Text>
+          </UnorderedList.Item>
+        </UnorderedList.Group>
+      </UnorderedList>,
+    );
+
+    expect(lines).toEqual([
+      "1. README.md",
+      "Sources",
+      "2. index.ts",
+      "3. list.ts",
+    ]);
+  });
+
+  it("should keep the items of groups at the depth of the list", () => {
+    const lines = renderLines(
+      <UnorderedList>
+        <UnorderedList.Item>
+          <Text>src</Text>
+          <UnorderedList marker={numbered}>
+            <UnorderedList.Group title="Components">
+              <UnorderedList.Item>
+                <Text>UnorderedList.tsx</Text>
+              </UnorderedList.Item>
+            </UnorderedList.Group>
+          </UnorderedList>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    expect(lines).toEqual(["─ src", "  Components", "  1. UnorderedList.tsx"]);
+  });
+
+  it("should render data groups like group elements", () => {
+    const lines = renderLines(
+      <UnorderedList items={packages} marker={numbered} />,
+    );
+
+    expect(lines).toEqual([
+      "Dependencies",
+      "1. react",
+      "   1. loose-envify",
+      "2. tinky",
+      "Dev dependencies",
+      "3. typescript",
+    ]);
+  });
+
+  it("should render data groups in virtualized lists", () => {
+    const lines = renderLines(
+      <UnorderedList items={packages} variant="tree" virtualized height={10} />,
+    );
+
+    expect(lines).toEqual([
+      "Dependencies",
+      "├─ react",
+      "│  └─ loose-envify",
+      "├─ tinky",
+      "Dev dependencies",
+      "└─ typescript",
+    ]);
+  });
+
+  it("should not count headers towards the page size", () => {
+    const lines = renderLines(<UnorderedList items={packages} pageSize={3} />);
+
+    expect(lines).toEqual([
+      "Dependencies",
+      "─ react",
+      "  ─ loose-envify",
+      "─ tinky",
+      "Page 1/2 · n/p to navigate",
+    ]);
+  });
+
+  it("should start pages with the header of their first group", () => {
+    const lines = renderLines(
+      <UnorderedList items={packages} pageSize={3} defaultPage={2} />,
+    );
+
+    expect(lines).toEqual([
+      "Dev dependencies",
+      "─ typescript",
+      "Page 2/2 · n/p to navigate",
+    ]);
+  });
+
+  it("should count the items of groups as hidden children", () => {
+    const lines = renderLines(
+      <UnorderedList
+        collapsible
+        defaultExpandedKeys={[]}
+        items={[{ key: "root", label: "root", children: packages }]}
+      />,
+    );
+
+    expect(lines).toEqual(["▸ root (3)"]);
+  });
+
+  it("should show no checkbox on headers", () => {
+    const lines = renderLines(
+      <UnorderedList
+        items={packages}
+        multiple
+        defaultSelectedKeys={["tinky"]}
+      />,
+    );
+
+    expect(lines).toEqual([
+      "Dependencies",
+      "☐ react",
+      "  ☐ loose-envify",
+      "☒ tinky",
+      "Dev dependencies",
+      "☐ typescript",
+    ]);
+  });
+});
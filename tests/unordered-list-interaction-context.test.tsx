@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Test suite for the UnorderedListInteractionContext.
+ *
+ * @module tests/contexts/UnorderedListInteractionContext
+ *
+ * @description
+ * Tests for the context shared between an interactive root list and the
+ * nested lists it renders from data.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createElement } from "react";
+import {
+  UnorderedListInteractionContext,
+  type UnorderedListInteractionContextProps,
+} from "../src/contexts/unordered-list-interaction-context.js";
+
+describe("UnorderedListInteractionContext", () => {
+  describe("context creation", () => {
+    it("should export UnorderedListInteractionContext", () => {
+      expect(UnorderedListInteractionContext).toBeDefined();
+    });
+
+    it("should be a valid React context object", () => {
+      expect(UnorderedListInteractionContext).toHaveProperty("Provider");
+      expect(UnorderedListInteractionContext).toHaveProperty("Consumer");
+    });
+  });
+
+  describe("context interface", () => {
+    it("should accept an undefined focused key", () => {
+      const props: UnorderedListInteractionContextProps = {
+        focusedKey: undefined,
+        attemptedKey: undefined,
+        multiple: false,
+        selectedKeys: new Set(),
+        collapsible: false,
+        expandedKeys: new Set(),
+        matches: new Map(),
+        sourceItems: new Map(),
+      };
+      expect(props.focusedKey).toBeUndefined();
+    });
+
+    it("should accept a focused key", () => {
+      const props: UnorderedListInteractionContextProps = {
+        focusedKey: "item-1",
+        attemptedKey: undefined,
+        multiple: false,
+        selectedKeys: new Set(),
+        collapsible: false,
+        expandedKeys: new Set(),
+        matches: new Map(),
+        sourceItems: new Map(),
+      };
+      expect(props.focusedKey).toBe("item-1");
+    });
+
+    it("should accept a multi-select selection", () => {
+      const props: UnorderedListInteractionContextProps = {
+        focusedKey: "item-1",
+        attemptedKey: undefined,
+        multiple: true,
+        selectedKeys: new Set(["item-1", "item-2"]),
+        collapsible: false,
+        expandedKeys: new Set(),
+        matches: new Map(),
+        sourceItems: new Map(),
+      };
+      expect(props.multiple).toBe(true);
+      expect(props.selectedKeys.has("item-2")).toBe(true);
+    });
+
+    it("should accept expanded keys of a collapsible list", () => {
+      const props: UnorderedListInteractionContextProps = {
+        focusedKey: "item-1",
+        attemptedKey: undefined,
+        multiple: false,
+        selectedKeys: new Set(),
+        collapsible: true,
+        expandedKeys: new Set(["item-1"]),
+        matches: new Map(),
+        sourceItems: new Map(),
+      };
+      expect(props.collapsible).toBe(true);
+      expect(props.expandedKeys.has("item-1")).toBe(true);
+    });
+  });
+
+  describe("context usage patterns", () => {
+    it("should allow creating provider with a focused key", () => {
+      const providerElement = createElement(
+        UnorderedListInteractionContext.Provider,
+        {
+          value: {
+            focusedKey: "item-1",
+            attemptedKey: undefined,
+            multiple: false,
+            selectedKeys: new Set<string>(),
+            collapsible: false,
+            expandedKeys: new Set<string>(),
+            matches: new Map(),
+            sourceItems: new Map(),
+          },
+        },
+        null,
+      );
+
+      expect(providerElement.type).toBe(
+        UnorderedListInteractionContext.Provider,
+      );
+    });
+  });
+});
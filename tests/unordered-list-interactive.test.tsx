@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Integration tests for interactive lists.
+ *
+ * @module tests/integration/unordered-list-interactive
+ *
+ * @description
+ * Renders interactive lists into a stub terminal, presses keys on its input
+ * and checks where the focus cursor moves, which items are selected, how
+ * the list scrolls and turns its pages and what disabled items show, for
+ * data-driven lists and for lists written with UnorderedList.Item.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Text } from "tinky";
+import { UnorderedList, type UnorderedListItemData } from "../src/index.js";
+import { keys, renderList } from "./helpers/stub-terminal.js";
+
+const files: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [{ key: "index", label: "index.ts" }],
+  },
+  { key: "readme", label: "README.md" },
+];
+
+const letters: UnorderedListItemData[] = Array.from("abcdefgh", (letter) => ({
+  key: letter,
+  label: letter.toUpperCase(),
+}));
+
+describe("interactive lists", () => {
+  it("should move the focus with the arrow keys and select with Enter", async () => {
+    const focused: string[] = [];
+    const selected: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        items={files}
+        onFocusChange={(item) => focused.push(item.key)}
+        onSelect={(item) => selected.push(item.key)}
+      />,
+    );
+
+    await list.press(keys.down, keys.down, keys.down, keys.up, keys.enter);
+
+    expect(focused).toEqual(["index", "readme", "index"]);
+    expect(selected).toEqual(["index"]);
+    list.unmount();
+  });
+
+  it("should jump to the first and last items", async () => {
+    const selected: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        items={files}
+        onSelect={(item) => selected.push(item.key)}
+      />,
+    );
+
+    await list.press(keys.end, keys.enter, keys.home, keys.enter);
+
+    expect(selected).toEqual(["readme", "src"]);
+    list.unmount();
+  });
+
+  it("should move the focus across item elements", async () => {
+    const selected: UnorderedListItemData[] = [];
+    const list = renderList(
+      <UnorderedList interactive onSelect={(item) => selected.push(item)}>
+        <UnorderedList.Item>
+          <Text>Install</Text>
+          <UnorderedList>
+            <UnorderedList.Item>
+              <Text>Globally</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </UnorderedList.Item>
+        <UnorderedList.Group title="Danger zone">
+          <UnorderedList.Item disabled>
+            <Text>Reset</Text>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>Uninstall</Text>
+          </UnorderedList.Item>
+        </UnorderedList.Group>
+      </UnorderedList>,
+    );
+
+    await list.press(keys.enter, keys.down, keys.enter, keys.down, keys.enter);
+
+    expect(selected.map(({ key, label }) => ({ key, label }))).toEqual([
+      { key: "0", label: "Install" },
+      { key: "0.0", label: "Globally" },
+      { key: "2", label: "Uninstall" },
+    ]);
+    expect(list.lastFrame()).toEqual([
+      "─ Install",
+      "  ─ Globally",
+      "Danger zone",
+      "─ Reset",
+      "─ Uninstall",
+    ]);
+    list.unmount();
+  });
+
+  it("should start on the item element of the default focused key", async () => {
+    const selected: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        defaultFocusedKey="1"
+        onSelect={(item) => selected.push(item.label)}
+      >
+        <UnorderedList.Item>
+          <Text>Install</Text>
+        </UnorderedList.Item>
+        <UnorderedList.Item>
+          <Text>Uninstall</Text>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    await list.press(keys.enter);
+
+    expect(selected).toEqual(["Uninstall"]);
+    list.unmount();
+  });
+
+  it("should expand and collapse item elements with the arrow keys", async () => {
+    const changes: boolean[] = [];
+    const list = renderList(
+      <UnorderedList interactive>
+        <UnorderedList.Item
+          defaultExpanded={false}
+          onExpandedChange={(expanded) => changes.push(expanded)}
+        >
+          <Text>src</Text>
+          <UnorderedList>
+            <UnorderedList.Item>
+              <Text>index.ts</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </UnorderedList.Item>
+        <UnorderedList.Item>
+          <Text>README.md</Text>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    await list.press();
+    expect(list.lastFrame()).toEqual(["▸ src (1)", "─ README.md"]);
+
+    await list.press(keys.right);
+    expect(list.lastFrame()).toEqual(["▾ src", "  ─ index.ts", "─ README.md"]);
+
+    await list.press(keys.left);
+    expect(list.lastFrame()).toEqual(["▸ src (1)", "─ README.md"]);
+    expect(changes).toEqual([true, false]);
+    list.unmount();
+  });
+
+  it("should toggle item elements with Enter and skip hidden items", async () => {
+    const selected: string[] = [];
+    const list = renderList(
+      <UnorderedList interactive onSelect={(item) => selected.push(item.label)}>
+        <UnorderedList.Item defaultExpanded>
+          <Text>src</Text>
+          <UnorderedList>
+            <UnorderedList.Item>
+              <Text>index.ts</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </UnorderedList.Item>
+        <UnorderedList.Item>
+          <Text>README.md</Text>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    await list.press(keys.enter);
+    expect(list.lastFrame()).toEqual(["▸ src (1)", "─ README.md"]);
+
+    await list.press(keys.down, keys.enter);
+    expect(selected).toEqual(["README.md"]);
+    list.unmount();
+  });
+
+  it("should expand parents passed after the first render", async () => {
+    const list = renderList(
+      <UnorderedList interactive collapsible items={[]} />,
+    );
+
+    list.rerender(<UnorderedList interactive collapsible items={files} />);
+    await list.press(keys.left);
+    expect(list.lastFrame()).toEqual(["▸ src (1)", "─ README.md"]);
+
+    list.rerender(
+      <UnorderedList
+        interactive
+        collapsible
+        items={[
+          ...files,
+          {
+            key: "docs",
+            label: "docs",
+            children: [{ key: "guide", label: "guide.md" }],
+          },
+        ]}
+      />,
+    );
+    await list.press();
+    expect(list.lastFrame()).toEqual([
+      "▸ src (1)",
+      "─ README.md",
+      "▾ docs",
+      "  ─ guide.md",
+    ]);
+    list.unmount();
+  });
+
+  it("should select with Space and select all with Ctrl+A", async () => {
+    const selections: string[][] = [];
+    const list = renderList(
+      <UnorderedList
+        multiple
+        items={files}
+        onSelectionChange={(keys) => selections.push(keys)}
+      />,
+    );
+
+    await list.press(keys.down, keys.space);
+    expect(list.lastFrame()).toEqual(["☒ src", "  ☒ index.ts", "☐ README.md"]);
+
+    await list.press(keys.ctrlA);
+    expect(list.lastFrame()).toEqual(["☒ src", "  ☒ index.ts", "☒ README.md"]);
+    expect(selections).toEqual([
+      ["src", "index"],
+      ["src", "index", "readme"],
+    ]);
+    list.unmount();
+  });
+
+  it("should scroll by a page with PageUp and PageDown", async () => {
+    const list = renderList(
+      <UnorderedList interactive maxHeight={4} items={letters} />,
+    );
+
+    await list.press(keys.pageDown);
+    expect(list.lastFrame()).toEqual(["↑ 3 more", "─ D", "─ E", "↓ 3 more"]);
+
+    await list.press(keys.pageUp);
+    expect(list.lastFrame()).toEqual(["↑ 1 more", "─ B", "─ C", "↓ 5 more"]);
+    list.unmount();
+  });
+
+  it("should turn the pages with n and p", async () => {
+    const list = renderList(
+      <UnorderedList interactive pageSize={3} items={letters} />,
+    );
+
+    await list.press("n", "n");
+    expect(list.lastFrame()).toEqual([
+      "─ G",
+      "─ H",
+      "Page 3/3 · n/p to navigate",
+    ]);
+
+    await list.press("p");
+    expect(list.lastFrame()).toEqual([
+      "─ D",
+      "─ E",
+      "─ F",
+      "Page 2/3 · n/p to navigate",
+    ]);
+    list.unmount();
+  });
+
+  it("should move the focus onto the page turned", async () => {
+    const focused: string[] = [];
+    const selected: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        pageSize={3}
+        items={letters}
+        onFocusChange={(item) => focused.push(item.key)}
+        onSelect={(item) => selected.push(item.key)}
+      />,
+    );
+
+    await list.press("n", keys.enter, keys.down, "p", keys.enter);
+
+    expect(focused).toEqual(["d", "e", "a"]);
+    expect(selected).toEqual(["d", "a"]);
+    list.unmount();
+  });
+
+  it("should skip disabled items and show why they are disabled", async () => {
+    const focused: string[] = [];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        items={[
+          { key: "build", label: "Build" },
+          {
+            key: "deploy",
+            label: "Deploy",
+            disabled: true,
+            disabledReason: "needs a token",
+          },
+          { key: "test", label: "Test" },
+        ]}
+        onFocusChange={(item) => focused.push(item.key)}
+      />,
+    );
+
+    await list.press();
+    expect(list.lastFrame()).toEqual(["─ Build", "─ Deploy", "─ Test"]);
+
+    await list.press(keys.down);
+    expect(list.lastFrame()).toEqual([
+      "─ Build",
+      "─ Deploy needs a token",
+      "─ Test",
+    ]);
+    expect(focused).toEqual(["test"]);
+    list.unmount();
+  });
+
+  it("should show why an item element is disabled once it is skipped", async () => {
+    const list = renderList(
+      <UnorderedList interactive>
+        <UnorderedList.Item>
+          <Text>Build</Text>
+        </UnorderedList.Item>
+        <UnorderedList.Item disabled disabledReason="needs a token">
+          <Text>Deploy</Text>
+        </UnorderedList.Item>
+        <UnorderedList.Item>
+          <Text>Test</Text>
+        </UnorderedList.Item>
+      </UnorderedList>,
+    );
+
+    await list.press();
+    expect(list.lastFrame()).toEqual(["─ Build", "─ Deploy", "─ Test"]);
+
+    await list.press(keys.down);
+    expect(list.lastFrame()).toEqual([
+      "─ Build",
+      "─ Deploy needs a token",
+      "─ Test",
+    ]);
+
+    await list.press(keys.home);
+    expect(list.lastFrame()).toEqual(["─ Build", "─ Deploy", "─ Test"]);
+    list.unmount();
+  });
+});
@@ -42,6 +42,31 @@ describe("UnorderedListItemContext", () => {
       const props: UnorderedListItemContextProps = { marker: "•" };
       expect(props.marker).toBe("•");
     });
+
+    it("should accept the position of the item among its siblings", () => {
+      const props: UnorderedListItemContextProps = {
+        marker: "•",
+        index: 2,
+        isFirst: false,
+        isLast: true,
+        siblingCount: 3,
+        path: [2],
+      };
+      expect(props.index).toBe(2);
+      expect(props.isFirst).toBe(false);
+      expect(props.isLast).toBe(true);
+      expect(props.siblingCount).toBe(3);
+    });
+
+    it("should accept the index path of nested items", () => {
+      const props: UnorderedListItemContextProps = {
+        marker: "◦",
+        index: 1,
+        path: [0, 4, 1],
+      };
+      expect(props.path).toEqual([0, 4, 1]);
+      expect(props.path?.at(-1)).toBe(props.index);
+    });
   });
 
   describe("context interface", () => {
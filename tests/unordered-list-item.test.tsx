@@ -100,6 +100,170 @@ describe("UnorderedListItem", () => {
     });
   });
 
+  describe("item state", () => {
+    it("should accept a focused flag", () => {
+      const element = (
+        <UnorderedList.Item focused>
+          <Text>Focused</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.focused).toBe(true);
+    });
+
+    it("should accept every checked state", () => {
+      const states = [true, false, "indeterminate"] as const;
+
+      for (const selected of states) {
+        const element = (
+          <UnorderedList.Item selected={selected}>
+            <Text>Checkbox item</Text>
+          </UnorderedList.Item>
+        );
+        expect(element.props.selected).toBe(selected);
+      }
+    });
+
+    it("should accept expanded state for items with nested lists", () => {
+      const element = (
+        <UnorderedList.Item expanded={false}>
+          <Text>Parent</Text>
+          <UnorderedList>
+            <UnorderedList.Item>
+              <Text>Hidden child</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.expanded).toBe(false);
+    });
+
+    it("should accept an initial expanded state", () => {
+      const element = (
+        <UnorderedList.Item defaultExpanded>
+          <Text>Parent</Text>
+          <UnorderedList items={[{ key: "child", label: "Child" }]} />
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.defaultExpanded).toBe(true);
+    });
+  });
+
+  describe("status", () => {
+    it("should accept every status", () => {
+      const statuses = [
+        "pending",
+        "running",
+        "success",
+        "warning",
+        "error",
+        "skipped",
+      ] as const;
+
+      for (const status of statuses) {
+        const element = (
+          <UnorderedList.Item status={status}>
+            <Text>Step</Text>
+          </UnorderedList.Item>
+        );
+
+        expect(element.props.status).toBe(status);
+      }
+    });
+
+    it("should combine with a marker override", () => {
+      const element = (
+        <UnorderedList.Item status="error" marker="!">
+          <Text>Failed step</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.status).toBe("error");
+      expect(element.props.marker).toBe("!");
+    });
+  });
+
+  describe("text layout", () => {
+    it("should accept wrap, maxLines and hangingIndent", () => {
+      const element = (
+        <UnorderedList.Item
+          wrap="truncate-middle"
+          maxLines={2}
+          hangingIndent={1}
+        >
+          <Text>Long item text</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.wrap).toBe("truncate-middle");
+      expect(element.props.maxLines).toBe(2);
+      expect(element.props.hangingIndent).toBe(1);
+    });
+  });
+
+  describe("highlight", () => {
+    it("should accept the indexes of matched characters", () => {
+      const element = (
+        <UnorderedList.Item highlight={[0, 1]}>
+          <Text>list.ts</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.highlight).toEqual([0, 1]);
+    });
+  });
+
+  describe("disabled items", () => {
+    it("should accept disabled, selectable and disabledReason", () => {
+      const element = (
+        <UnorderedList.Item disabled disabledReason="Requires admin rights">
+          <Text>Delete</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.disabled).toBe(true);
+      expect(element.props.disabledReason).toBe("Requires admin rights");
+    });
+
+    it("should accept non-selectable items", () => {
+      const element = (
+        <UnorderedList.Item selectable={false}>
+          <Text>Section</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.selectable).toBe(false);
+    });
+  });
+
+  describe("marker override", () => {
+    it("should accept a string marker", () => {
+      const element = (
+        <UnorderedList.Item marker="⚠">
+          <Text>Warning</Text>
+        </UnorderedList.Item>
+      );
+
+      expect(element.props.marker).toBe("⚠");
+    });
+
+    it("should accept an element marker", () => {
+      const marker = <Text color="red">✗</Text>;
+      const element = (
+        <UnorderedList>
+          <UnorderedList.Item marker={marker}>
+            <Text>Failed</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element).toBeDefined();
+      expect(marker.props.color).toBe("red");
+    });
+  });
+
   describe("multiple items", () => {
     it("should render multiple sibling items", () => {
       const element = (
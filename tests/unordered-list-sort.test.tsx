@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Integration tests for sorted and grouped lists.
+ *
+ * @module tests/integration/unordered-list-sort
+ *
+ * @description
+ * Renders data-driven lists with `sortBy` and `groupBy` into a stub
+ * terminal and checks that every level is arranged, that filtering applies
+ * to the arranged tree, and that `s` cycles the sort direction.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { UnorderedList, type UnorderedListItemData } from "../src/index.js";
+import { renderLines, renderList } from "./helpers/stub-terminal.js";
+
+const files: UnorderedListItemData[] = [
+  {
+    key: "src",
+    label: "src",
+    children: [
+      { key: "list10", label: "list10.ts" },
+      { key: "list2", label: "list2.ts" },
+    ],
+  },
+  { key: "readme", label: "README.md" },
+  { key: "changelog", label: "CHANGELOG.md" },
+];
+
+const byKind = (item: UnorderedListItemData) =>
+  item.children ? undefined : item.label.endsWith(".md") ? "Docs" : "Code";
+
+describe("sorted and grouped lists", () => {
+  it("should sort every level", () => {
+    const lines = renderLines(
+      <UnorderedList items={files} sortBy={{ numeric: true }} />,
+    );
+
+    expect(lines).toEqual([
+      "─ CHANGELOG.md",
+      "─ README.md",
+      "─ src",
+      "  ─ list2.ts",
+      "  ─ list10.ts",
+    ]);
+  });
+
+  it("should group the sorted items of every level", () => {
+    const lines = renderLines(
+      <UnorderedList
+        items={files}
+        sortBy={{ direction: "desc", numeric: true }}
+        groupBy={byKind}
+      />,
+    );
+
+    expect(lines).toEqual([
+      "─ src",
+      "  Code",
+      "  ─ list10.ts",
+      "  ─ list2.ts",
+      "Docs",
+      "─ README.md",
+      "─ CHANGELOG.md",
+    ]);
+  });
+
+  it("should filter the arranged tree", () => {
+    const lines = renderLines(
+      <UnorderedList
+        items={files}
+        sortBy="label"
+        groupBy={byKind}
+        filterable
+        filterQuery="read"
+      />,
+    );
+
+    expect(lines).toEqual(["/read", "Docs", "─ README.md"]);
+  });
+
+  it("should cycle the sort direction with s", async () => {
+    const directions: (string | undefined)[] = [];
+    const ascending = [
+      "─ CHANGELOG.md",
+      "─ README.md",
+      "─ src",
+      "  ─ list2.ts",
+      "  ─ list10.ts",
+    ];
+    const list = renderList(
+      <UnorderedList
+        interactive
+        items={files}
+        sortBy={{ numeric: true }}
+        onSortChange={(direction) => directions.push(direction)}
+      />,
+    );
+
+    await list.press();
+    expect(list.lastFrame()).toEqual(ascending);
+
+    await list.press("s");
+    expect(list.lastFrame()).toEqual([
+      "─ src",
+      "  ─ list10.ts",
+      "  ─ list2.ts",
+      "─ README.md",
+      "─ CHANGELOG.md",
+    ]);
+
+    await list.press("s", "s");
+    expect(list.lastFrame()).toEqual(ascending);
+    expect(directions).toEqual(["desc", undefined, "asc"]);
+    list.unmount();
+  });
+
+  it("should not sort again for an equal sortBy object", () => {
+    let comparisons = 0;
+    const compare = (a: UnorderedListItemData, b: UnorderedListItemData) => {
+      comparisons++;
+      return a.label.localeCompare(b.label);
+    };
+    const list = renderList(
+      <UnorderedList items={files} sortBy={{ compare }} />,
+    );
+    const sorted = comparisons;
+
+    list.rerender(<UnorderedList items={files} sortBy={{ compare }} />);
+
+    expect(sorted).toBeGreaterThan(0);
+    expect(comparisons).toBe(sorted);
+    expect(list.lastFrame()).toEqual([
+      "─ CHANGELOG.md",
+      "─ README.md",
+      "─ src",
+      "  ─ list10.ts",
+      "  ─ list2.ts",
+    ]);
+    list.unmount();
+  });
+});
@@ -11,6 +11,16 @@
 import { describe, it, expect } from "bun:test";
 import {
   defaultMarker,
+  defaultCheckboxMarkers,
+  defaultExpandMarkers,
+  defaultTreeConnectors,
+  defaultScrollIndicators,
+  defaultPageFooter,
+  defaultStatusMarkers,
+  defaultSpinner,
+  defaultStatusSummary,
+  defaultFilterEmpty,
+  defaultFilterPrompt,
   unorderedListTheme,
   type UnorderedListThemeConfig,
 } from "../src/themes/unordered-list-theme.js";
@@ -31,6 +41,113 @@ describe("unordered-list-theme", () => {
     });
   });
 
+  describe("defaultCheckboxMarkers export", () => {
+    it("should provide distinct glyphs for each checked state", () => {
+      const glyphs = new Set([
+        defaultCheckboxMarkers.checked,
+        defaultCheckboxMarkers.unchecked,
+        defaultCheckboxMarkers.indeterminate,
+      ]);
+      expect(glyphs.size).toBe(3);
+    });
+
+    it("should use single-character glyphs", () => {
+      for (const glyph of Object.values(defaultCheckboxMarkers)) {
+        expect([...glyph].length).toBe(1);
+      }
+    });
+  });
+
+  describe("defaultExpandMarkers export", () => {
+    it("should provide distinct glyphs for each expanded state", () => {
+      expect(defaultExpandMarkers.expanded).not.toBe(
+        defaultExpandMarkers.collapsed,
+      );
+    });
+
+    it("should use single-character glyphs", () => {
+      for (const glyph of Object.values(defaultExpandMarkers)) {
+        expect([...glyph].length).toBe(1);
+      }
+    });
+  });
+
+  describe("defaultScrollIndicators export", () => {
+    it("should provide arrows pointing at the hidden items", () => {
+      expect(defaultScrollIndicators.above).toBe("↑");
+      expect(defaultScrollIndicators.below).toBe("↓");
+    });
+  });
+
+  describe("defaultPageFooter export", () => {
+    it("should show the page, the page count and the keys", () => {
+      expect(defaultPageFooter(2, 7)).toBe("Page 2/7 · n/p to navigate");
+    });
+  });
+
+  describe("defaultStatusMarkers export", () => {
+    it("should provide a glyph and a color for every status", () => {
+      expect(defaultStatusMarkers.success).toEqual({
+        marker: "✔",
+        color: "green",
+      });
+      expect(defaultStatusMarkers.error).toEqual({ marker: "✘", color: "red" });
+      expect(Object.keys(defaultStatusMarkers)).toEqual([
+        "pending",
+        "running",
+        "success",
+        "warning",
+        "error",
+        "skipped",
+      ]);
+    });
+  });
+
+  describe("defaultSpinner export", () => {
+    it("should provide frames of equal width and an interval", () => {
+      expect(defaultSpinner.frames.length).toBeGreaterThan(1);
+      expect(defaultSpinner.frames.every((frame) => frame.length === 1)).toBe(
+        true,
+      );
+      expect(defaultSpinner.interval).toBe(80);
+    });
+  });
+
+  describe("defaultStatusSummary export", () => {
+    const counts = {
+      pending: 1,
+      running: 0,
+      success: 2,
+      warning: 1,
+      error: 1,
+      skipped: 0,
+      total: 5,
+    };
+
+    it("should count finished and failed items", () => {
+      expect(defaultStatusSummary(counts)).toBe("3/5 done, 1 failed");
+    });
+
+    it("should leave out failures when there are none", () => {
+      expect(defaultStatusSummary({ ...counts, error: 0, pending: 2 })).toBe(
+        "3/5 done",
+      );
+    });
+  });
+
+  describe("defaultTreeConnectors export", () => {
+    it("should provide box-drawing connectors", () => {
+      expect(defaultTreeConnectors.branch).toBe("├─");
+      expect(defaultTreeConnectors.last).toBe("└─");
+    });
+
+    it("should use connectors of equal width", () => {
+      expect(defaultTreeConnectors.branch.length).toBe(
+        defaultTreeConnectors.last.length,
+      );
+    });
+  });
+
   describe("unorderedListTheme export", () => {
     it("should export unorderedListTheme as an object", () => {
       expect(unorderedListTheme).toBeDefined();
@@ -112,6 +229,186 @@ describe("unordered-list-theme", () => {
         expect(typeof styles).toBe("object");
       });
     });
+
+    describe("focusedItem style", () => {
+      it("should export focusedItem style function", () => {
+        expect(typeof unorderedListTheme.styles.focusedItem).toBe("function");
+      });
+
+      it("should return TextProps with a highlight color", () => {
+        const styles = unorderedListTheme.styles.focusedItem();
+        expect(styles).toHaveProperty("color", "blue");
+      });
+    });
+
+    describe("childCount style", () => {
+      it("should export childCount style function", () => {
+        expect(typeof unorderedListTheme.styles.childCount).toBe("function");
+      });
+
+      it("should return dimmed TextProps", () => {
+        const styles = unorderedListTheme.styles.childCount();
+        expect(styles).toHaveProperty("dimColor", true);
+      });
+    });
+
+    describe("treeLine style", () => {
+      it("should export treeLine style function", () => {
+        expect(typeof unorderedListTheme.styles.treeLine).toBe("function");
+      });
+
+      it("should only draw the left border", () => {
+        const styles = unorderedListTheme.styles.treeLine();
+        expect(styles).toHaveProperty("borderStyle", "single");
+        expect(styles).toHaveProperty("borderTop", false);
+        expect(styles).toHaveProperty("borderRight", false);
+        expect(styles).toHaveProperty("borderBottom", false);
+        expect(styles.borderLeft).not.toBe(false);
+      });
+    });
+
+    describe("moreLines style", () => {
+      it("should export moreLines style function", () => {
+        expect(typeof unorderedListTheme.styles.moreLines).toBe("function");
+      });
+
+      it("should return dimmed TextProps", () => {
+        const styles = unorderedListTheme.styles.moreLines();
+        expect(styles).toHaveProperty("dimColor", true);
+      });
+    });
+
+    describe("scrollIndicator style", () => {
+      it("should export scrollIndicator style function", () => {
+        expect(typeof unorderedListTheme.styles.scrollIndicator).toBe(
+          "function",
+        );
+      });
+
+      it("should return dimmed TextProps", () => {
+        const styles = unorderedListTheme.styles.scrollIndicator();
+        expect(styles).toHaveProperty("dimColor", true);
+      });
+    });
+
+    describe("pageFooter style", () => {
+      it("should export pageFooter style function", () => {
+        expect(typeof unorderedListTheme.styles.pageFooter).toBe("function");
+      });
+
+      it("should return dimmed TextProps", () => {
+        const styles = unorderedListTheme.styles.pageFooter();
+        expect(styles).toHaveProperty("dimColor", true);
+      });
+    });
+
+    describe("inlineCode style", () => {
+      it("should export inlineCode style function", () => {
+        expect(typeof unorderedListTheme.styles.inlineCode).toBe("function");
+      });
+
+      it("should return colored TextProps", () => {
+        const styles = unorderedListTheme.styles.inlineCode();
+        expect(styles).toHaveProperty("color", "yellow");
+      });
+    });
+
+    describe("link style", () => {
+      it("should export link style function", () => {
+        expect(typeof unorderedListTheme.styles.link).toBe("function");
+      });
+
+      it("should return underlined TextProps", () => {
+        const styles = unorderedListTheme.styles.link();
+        expect(styles).toHaveProperty("color", "blue");
+        expect(styles).toHaveProperty("underline", true);
+      });
+    });
+
+    describe("inline formatting styles", () => {
+      it("should export the inline formatting style functions", () => {
+        expect(typeof unorderedListTheme.styles.emphasis).toBe("function");
+        expect(typeof unorderedListTheme.styles.strong).toBe("function");
+        expect(typeof unorderedListTheme.styles.strikethrough).toBe("function");
+      });
+
+      it("should return italic, bold and struck TextProps", () => {
+        expect(unorderedListTheme.styles.emphasis()).toHaveProperty(
+          "italic",
+          true,
+        );
+        expect(unorderedListTheme.styles.strong()).toHaveProperty("bold", true);
+        expect(unorderedListTheme.styles.strikethrough()).toHaveProperty(
+          "strikethrough",
+          true,
+        );
+      });
+    });
+
+    describe("statusSummary style", () => {
+      it("should export statusSummary style function", () => {
+        expect(typeof unorderedListTheme.styles.statusSummary).toBe("function");
+      });
+
+      it("should return dimmed TextProps", () => {
+        const styles = unorderedListTheme.styles.statusSummary();
+        expect(styles).toHaveProperty("dimColor", true);
+      });
+    });
+
+    describe("disabled styles", () => {
+      it("should export the disabled style functions", () => {
+        expect(typeof unorderedListTheme.styles.disabledItem).toBe("function");
+        expect(typeof unorderedListTheme.styles.disabledReason).toBe(
+          "function",
+        );
+      });
+
+      it("should return dimmed TextProps", () => {
+        expect(unorderedListTheme.styles.disabledItem()).toHaveProperty(
+          "dimColor",
+          true,
+        );
+        expect(unorderedListTheme.styles.disabledReason()).toHaveProperty(
+          "italic",
+          true,
+        );
+      });
+    });
+
+    describe("groupHeader style", () => {
+      it("should export groupHeader style function", () => {
+        expect(typeof unorderedListTheme.styles.groupHeader).toBe("function");
+      });
+
+      it("should return bold TextProps", () => {
+        const styles = unorderedListTheme.styles.groupHeader();
+        expect(styles).toHaveProperty("bold", true);
+      });
+    });
+
+    describe("filter styles", () => {
+      it("should export the filter style functions", () => {
+        expect(typeof unorderedListTheme.styles.filterInput).toBe("function");
+        expect(typeof unorderedListTheme.styles.filterMatch).toBe("function");
+        expect(typeof unorderedListTheme.styles.filterEmpty).toBe("function");
+      });
+
+      it("should return bold input, highlighted matches and a dimmed empty state", () => {
+        expect(unorderedListTheme.styles.filterInput()).toHaveProperty(
+          "bold",
+          true,
+        );
+        expect(unorderedListTheme.styles.filterMatch()).toHaveProperty(
+          "color",
+          "yellow",
+        );
+        expect(unorderedListTheme.styles.filterEmpty()).toHaveProperty(
+          "dimColor",
+          true,
+        );
+      });
+    });
   });
 
   describe("theme config", () => {
@@ -134,6 +431,62 @@ describe("unordered-list-theme", () => {
       const config = unorderedListTheme.config();
       expect(config.marker).toBe(defaultMarker);
     });
+
+    it("should use defaultCheckboxMarkers as the checkbox markers", () => {
+      const config = unorderedListTheme.config();
+      expect(config.checkboxMarkers).toEqual(defaultCheckboxMarkers);
+    });
+
+    it("should use defaultExpandMarkers as the expand markers", () => {
+      const config = unorderedListTheme.config();
+      expect(config.expandMarkers).toEqual(defaultExpandMarkers);
+    });
+
+    it("should show child counts by default", () => {
+      const config = unorderedListTheme.config();
+      expect(config.showChildCount).toBe(true);
+    });
+
+    it("should use defaultTreeConnectors as the tree connectors", () => {
+      const config = unorderedListTheme.config();
+      expect(config.treeConnectors).toEqual(defaultTreeConnectors);
+    });
+
+    it("should align markers to the left by default", () => {
+      const config = unorderedListTheme.config();
+      expect(config.markerAlign).toBe("left");
+    });
+
+    it("should wrap long text without hanging indent or line limit", () => {
+      const config = unorderedListTheme.config();
+      expect(config.wrap).toBe("wrap");
+      expect(config.hangingIndent).toBe(0);
+      expect(config.maxLines).toBeUndefined();
+    });
+
+    it("should use the default scroll indicators", () => {
+      const config = unorderedListTheme.config();
+      expect(config.scrollIndicators).toEqual(defaultScrollIndicators);
+    });
+
+    it("should use the default page footer", () => {
+      const config = unorderedListTheme.config();
+      expect(config.pageFooter).toBe(defaultPageFooter);
+    });
+
+    it("should use the default status markers, spinner and summary", () => {
+      const config = unorderedListTheme.config();
+      expect(config.statusMarkers).toEqual(defaultStatusMarkers);
+      expect(config.spinner).toEqual(defaultSpinner);
+      expect(config.statusSummary).toBe(defaultStatusSummary);
+    });
+
+    it("should use the default filter prompt and empty state", () => {
+      const config = unorderedListTheme.config();
+      expect(config.filterPrompt).toBe(defaultFilterPrompt);
+      expect(config.filterEmpty).toBe(defaultFilterEmpty);
+      expect(defaultFilterEmpty("zz")).toBe('No matches for "zz"');
+    });
   });
 
   describe("UnorderedListThemeConfig type", () => {
@@ -151,6 +504,54 @@ describe("unordered-list-theme", () => {
       expect(Array.isArray(config.marker)).toBe(true);
     });
 
+    it("should accept partial checkbox markers", () => {
+      const config: UnorderedListThemeConfig = {
+        marker: "•",
+        checkboxMarkers: { checked: "[x]", unchecked: "[ ]" },
+      };
+      expect(config.checkboxMarkers?.checked).toBe("[x]");
+      expect(config.checkboxMarkers?.indeterminate).toBeUndefined();
+    });
+
+    it("should accept expand markers and child count toggle", () => {
+      const config: UnorderedListThemeConfig = {
+        marker: "•",
+        expandMarkers: { collapsed: "+" },
+        showChildCount: false,
+      };
+      expect(config.expandMarkers?.collapsed).toBe("+");
+      expect(config.showChildCount).toBe(false);
+    });
+
+    it("should accept text layout options", () => {
+      const config: UnorderedListThemeConfig = {
+        marker: "•",
+        wrap: "truncate-middle",
+        maxLines: 3,
+        hangingIndent: 2,
+      };
+      expect(config.wrap).toBe("truncate-middle");
+      expect(config.maxLines).toBe(3);
+    });
+
+    it("should accept partial status markers and a disabled spinner", () => {
+      const config: UnorderedListThemeConfig = {
+        marker: "•",
+        statusMarkers: { error: { marker: "!" }, success: { color: "cyan" } },
+        spinner: false,
+      };
+      expect(config.statusMarkers?.error?.marker).toBe("!");
+      expect(config.spinner).toBe(false);
+    });
+
+    it("should accept a marker alignment", () => {
+      const config: UnorderedListThemeConfig = {
+        marker: "•",
+        markerAlign: "right",
+      };
+      expect(config.markerAlign).toBe("right");
+    });
+
     it("should accept various marker characters", () => {
       const markers = ["•", "◦", "▪", "─", "*", "-", "+", ">", "→"];
 
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Integration tests for the type-ahead of interactive lists.
+ *
+ * @module tests/integration/unordered-list-type-ahead
+ *
+ * @description
+ * Renders interactive lists into a stub terminal, types characters on its
+ * input and checks which item the focus cursor jumps to. The clock is set
+ * by the tests, so that the type-ahead timeout does not depend on how fast
+ * they run.
+ */
+
+import { afterEach, describe, it, expect, setSystemTime } from "bun:test";
+import { UnorderedList, type UnorderedListItemData } from "../src/index.js";
+import { renderList } from "./helpers/stub-terminal.js";
+
+const files: UnorderedListItemData[] = [
+  { key: "src", label: "src" },
+  { key: "package", label: "package.json" },
+  { key: "public", label: "public" },
+  { key: "pnpm", label: "pnpm-lock.yaml" },
+  { key: "utils", label: "utils" },
+];
+
+/**
+ * Renders an interactive list of `items` and records the keys it focuses.
+ */
+const renderFocus = (
+  items: readonly UnorderedListItemData[],
+  props: {
+    collapsible?: boolean;
+    defaultExpandedKeys?: readonly string[];
+    typeAheadTimeout?: number;
+  } = {},
+) => {
+  const focused: string[] = [];
+  const list = renderList(
+    <UnorderedList
+      interactive
+      items={items}
+      onFocusChange={(item) => focused.push(item.key)}
+      {...props}
+    />,
+  );
+
+  return { focused, list };
+};
+
+describe("type-ahead", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("should jump to the first item starting with a typed character", async () => {
+    const { focused, list } = renderFocus(files);
+
+    await list.press("u");
+
+    expect(focused).toEqual(["utils"]);
+    list.unmount();
+  });
+
+  it("should extend the prefix with the characters typed next", async () => {
+    setSystemTime(new Date(0));
+    const { focused, list } = renderFocus(files);
+
+    await list.press("p", "u");
+
+    expect(focused).toEqual(["package", "public"]);
+    list.unmount();
+  });
+
+  it("should start a new prefix once the timeout has elapsed", async () => {
+    setSystemTime(new Date(0));
+    const { focused, list } = renderFocus(files, { typeAheadTimeout: 500 });
+
+    await list.press("p");
+    setSystemTime(new Date(1000));
+    await list.press("u");
+
+    expect(focused).toEqual(["package", "utils"]);
+    list.unmount();
+  });
+
+  it("should cycle through the items starting with a repeated character", async () => {
+    setSystemTime(new Date(0));
+    const { focused, list } = renderFocus(files);
+
+    await list.press("p", "p", "p", "p");
+
+    expect(focused).toEqual(["package", "public", "pnpm", "package"]);
+    list.unmount();
+  });
+
+  it("should skip collapsed and disabled items", async () => {
+    const { focused, list } = renderFocus(
+      [
+        {
+          key: "src",
+          label: "src",
+          children: [{ key: "index", label: "index.ts" }],
+        },
+        { key: "internal", label: "internal", disabled: true },
+        { key: "install", label: "install.sh" },
+      ],
+      { collapsible: true, defaultExpandedKeys: [] },
+    );
+
+    await list.press("i");
+
+    expect(focused).toEqual(["install"]);
+    list.unmount();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Integration tests for virtualized unordered lists.
+ *
+ * @module tests/integration/unordered-list-virtualization
+ *
+ * @description
+ * Renders virtualized lists into a stub terminal and checks that only the
+ * visible window is mounted: the output has `height` rows whatever the size
+ * of the tree, and the same items are mounted whether the tree holds 1,000
+ * or 20,000 of them.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  UnorderedList,
+  type UnorderedListItemData,
+  type UnorderedListMarkerContext,
+} from "../src/index.js";
+import { renderLines } from "./helpers/stub-terminal.js";
+
+/**
+ * Builds a two-level tree with `count` items in total.
+ */
+const createItems = (count: number): UnorderedListItemData[] =>
+  Array.from({ length: count / 2 }, (_, index) => ({
+    key: `item-${index}`,
+    label: `Log entry ${index}`,
+    children: [{ key: `detail-${index}`, label: `Details of entry ${index}` }],
+  }));
+
+/**
+ * Keys of the items whose marker a virtualized list resolves, which are the
+ * items it mounts and their ancestors.
+ */
+const mountedKeys = (items: readonly UnorderedListItemData[]) => {
+  const keys = new Set<string>();
+  const marker = ({ item }: UnorderedListMarkerContext) => {
+    if (item) {
+      keys.add(item.key);
+    }
+    return "•";
+  };
+
+  renderLines(
+    <UnorderedList items={items} virtualized height={10} marker={marker} />,
+  );
+  return [...keys];
+};
+
+describe("UnorderedList virtualization", () => {
+  it("should only render the rows of the window", () => {
+    const lines = renderLines(
+      <UnorderedList
+        items={createItems(10_000)}
+        virtualized
+        height={10}
+        marker={["•", "◦"]}
+      />,
+    );
+
+    expect(lines).toHaveLength(10);
+    expect(lines[0]).toBe("• Log entry 0");
+    expect(lines[1]).toBe("  ◦ Details of entry 0");
+  });
+
+  it("should default to the height of the terminal", () => {
+    const lines = renderLines(
+      <UnorderedList items={createItems(1_000)} virtualized />,
+    );
+
+    expect(lines).toHaveLength(24);
+  });
+
+  it("should mount as many items for large lists as for small ones", () => {
+    const small = mountedKeys(createItems(1_000));
+    const large = mountedKeys(createItems(20_000));
+
+    expect(small).toHaveLength(10);
+    expect(large).toEqual(small);
+  });
+});
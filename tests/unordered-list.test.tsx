@@ -8,10 +8,20 @@
  * theme integration, nested list behavior, and marker configuration.
  */
 
-import { describe, it, expect } from "bun:test";
-import { Text } from "tinky";
+import { describe, it, expect, mock } from "bun:test";
+import { createRef } from "react";
+import { Box, Text } from "tinky";
 import { ThemeProvider, defaultTheme, extendTheme } from "tinky-theme";
-import { UnorderedList } from "../src/index.js";
+import {
+  UnorderedList,
+  renderUnorderedListToString,
+  type UnorderedListHandle,
+  type UnorderedListItemData,
+  type UnorderedListItemState,
+  type UnorderedListMarkerContext,
+  type UnorderedListStyleState,
+} from "../src/index.js";
+import { keys, renderLines, renderList } from "./helpers/stub-terminal.js";
 
 describe("UnorderedList", () => {
   describe("component exports", () => {
@@ -208,6 +218,910 @@ describe("UnorderedList", () => {
         </ThemeProvider>
       );
 
+      expect(element).toBeDefined();
+    });
+  });
+  describe("data-driven items", () => {
+    const items: UnorderedListItemData[] = [
+      {
+        key: "frontend",
+        label: "Frontend",
+        children: [
+          { key: "react", label: "React" },
+          {
+            key: "vue",
+            label: "Vue",
+            children: [{ key: "nuxt", label: "Nuxt" }],
+          },
+        ],
+      },
+      { key: "backend", label: "Backend" },
+    ];
+
+    it("should render a flat items array", () => {
+      const element = (
+        <UnorderedList
+          items={[
+            { key: "a", label: "First" },
+            { key: "b", label: "Second" },
+          ]}
+        />
+      );
+
+      expect(element).toBeDefined();
+      expect(element.props.items).toHaveLength(2);
+    });
+
+    it("should render a nested items tree", () => {
+      const element = <UnorderedList items={items} />;
+
+      expect(element).toBeDefined();
+      expect(element.props.items[0].children).toHaveLength(2);
+    });
+
+    it("should accept a custom renderItem callback", () => {
+      const renderItem = (item: UnorderedListItemData) => (
+        <Text bold>{item.label.toUpperCase()}</Text>
+      );
+      const element = <UnorderedList items={items} renderItem={renderItem} />;
+
+      expect(element.props.renderItem).toBe(renderItem);
+      expect(renderItem(items[1]).props.children).toBe("BACKEND");
+    });
+
+    it("should render an empty items array", () => {
+      const element = <UnorderedList items={[]} />;
+
+      expect(element).toBeDefined();
+    });
+
+    it("should work with array markers from theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: ["•", "◦", "▪"],
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList items={items} />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+  describe("interactive mode", () => {
+    const items: UnorderedListItemData[] = [
+      { key: "install", label: "Install" },
+      {
+        key: "configure",
+        label: "Configure",
+        children: [{ key: "advanced", label: "Advanced" }],
+      },
+    ];
+
+    it("should accept interactive props", () => {
+      const onSelect = mock(() => undefined);
+      const onFocusChange = mock(() => undefined);
+      const element = (
+        <UnorderedList
+          interactive
+          items={items}
+          defaultFocusedKey="configure"
+          onSelect={onSelect}
+          onFocusChange={onFocusChange}
+        />
+      );
+
+      expect(element.props.interactive).toBe(true);
+      expect(element.props.defaultFocusedKey).toBe("configure");
+      expect(element.props.onSelect).toBe(onSelect);
+      expect(element.props.onFocusChange).toBe(onFocusChange);
+    });
+
+    it("should pass focus state to renderItem", () => {
+      const renderItem = (
+        item: UnorderedListItemData,
+        { focused }: { focused: boolean },
+      ) => <Text bold={focused}>{item.label}</Text>;
+
+      expect(renderItem(items[0], { focused: true }).props.bold).toBe(true);
+      expect(renderItem(items[0], { focused: false }).props.bold).toBe(false);
+    });
+  });
+
+  describe("multi-select mode", () => {
+    const items: UnorderedListItemData[] = [
+      {
+        key: "dependencies",
+        label: "Dependencies",
+        children: [
+          { key: "react", label: "react" },
+          { key: "tinky", label: "tinky" },
+        ],
+      },
+      { key: "typescript", label: "typescript" },
+    ];
+
+    it("should accept uncontrolled selection props", () => {
+      const element = (
+        <UnorderedList multiple items={items} defaultSelectedKeys={["react"]} />
+      );
+
+      expect(element.props.multiple).toBe(true);
+      expect(element.props.defaultSelectedKeys).toEqual(["react"]);
+    });
+
+    it("should accept controlled selection props", () => {
+      const onSelectionChange = mock((keys: string[]) => keys);
+      const element = (
+        <UnorderedList
+          multiple
+          items={items}
+          selectedKeys={["react", "tinky"]}
+          onSelectionChange={onSelectionChange}
+        />
+      );
+
+      expect(element.props.selectedKeys).toEqual(["react", "tinky"]);
+      expect(element.props.onSelectionChange).toBe(onSelectionChange);
+    });
+
+    it("should work with custom checkbox markers in theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              checkboxMarkers: { checked: "[x]", unchecked: "[ ]" },
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList multiple items={items} />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("collapsible mode", () => {
+    const items: UnorderedListItemData[] = [
+      {
+        key: "src",
+        label: "src",
+        children: [{ key: "index", label: "index.ts" }],
+      },
+      { key: "readme", label: "README.md" },
+    ];
+
+    it("should accept uncontrolled expansion props", () => {
+      const element = (
+        <UnorderedList
+          interactive
+          collapsible
+          items={items}
+          defaultExpandedKeys={[]}
+        />
+      );
+
+      expect(element.props.collapsible).toBe(true);
+      expect(element.props.defaultExpandedKeys).toEqual([]);
+    });
+
+    it("should accept controlled expansion props", () => {
+      const onExpandedChange = mock((keys: string[]) => keys);
+      const element = (
+        <UnorderedList
+          collapsible
+          items={items}
+          expandedKeys={["src"]}
+          onExpandedChange={onExpandedChange}
+        />
+      );
+
+      expect(element.props.expandedKeys).toEqual(["src"]);
+      expect(element.props.onExpandedChange).toBe(onExpandedChange);
+    });
+
+    it("should work with custom expand markers in theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              expandMarkers: { expanded: "-", collapsed: "+" },
+              showChildCount: false,
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList collapsible items={items} />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("tree variant", () => {
+    it("should accept the tree variant", () => {
+      const element = (
+        <UnorderedList variant="tree">
+          <UnorderedList.Item>
+            <Text>src</Text>
+            <UnorderedList>
+              <UnorderedList.Item>
+                <Text>index.ts</Text>
+              </UnorderedList.Item>
+            </UnorderedList>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>package.json</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element.props.variant).toBe("tree");
+    });
+
+    it("should combine with data-driven items", () => {
+      const element = (
+        <UnorderedList
+          variant="tree"
+          items={[
+            {
+              key: "src",
+              label: "src",
+              children: [{ key: "index", label: "index.ts" }],
+            },
+          ]}
+        />
+      );
+
+      expect(element.props.items).toHaveLength(1);
+    });
+
+    it("should work with custom tree connectors in theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              treeConnectors: { branch: "|-", last: "`-" },
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList variant="tree">
+            <UnorderedList.Item>
+              <Text>Item</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("item position", () => {
+    it("should pass the item position to renderItem", () => {
+      const renderItem = mock(
+        (item: UnorderedListItemData, state: UnorderedListItemState) => (
+          <Text>
+            {state.path.join(".")} {item.label} ({state.index + 1}/
+            {state.siblingCount})
+          </Text>
+        ),
+      );
+      const element = (
+        <UnorderedList
+          items={[
+            { key: "a", label: "A" },
+            { key: "b", label: "B" },
+          ]}
+          renderItem={renderItem}
+        />
+      );
+
+      expect(element.props.renderItem).toBe(renderItem);
+    });
+
+    it("should work with position-aware styles in theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            styles: {
+              marker: ({ isLast }) => ({
+                color: isLast ? "red" : "green",
+              }),
+              content: ({ index }) => ({
+                flexDirection: "column",
+                backgroundColor: Number(index) % 2 === 1 ? "gray" : undefined,
+              }),
+            },
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList>
+            <UnorderedList.Item>
+              <Text>Odd</Text>
+            </UnorderedList.Item>
+            <UnorderedList.Item>
+              <Text>Even</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("state-aware styles", () => {
+    it("should accept style functions typed with the style state", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            styles: {
+              list: ({ depth = 0 }: UnorderedListStyleState) => ({
+                flexDirection: "column",
+                marginLeft: depth > 1 ? 1 : 0,
+              }),
+              marker: ({ depth = 0, selected }: UnorderedListStyleState) => ({
+                color: selected === true ? "green" : undefined,
+                dimColor: depth > 0,
+              }),
+              listItem: ({ focused }: UnorderedListStyleState) => ({
+                gap: focused ? 2 : 1,
+              }),
+            },
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList
+            multiple
+            items={[
+              {
+                key: "a",
+                label: "A",
+                children: [{ key: "b", label: "B" }],
+              },
+            ]}
+          />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("marker prop", () => {
+    it("should accept a single marker", () => {
+      const element = (
+        <UnorderedList marker="⚠">
+          <UnorderedList.Item>
+            <Text>Deprecated option</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element.props.marker).toBe("⚠");
+    });
+
+    it("should accept per-level markers for data-driven lists", () => {
+      const element = (
+        <UnorderedList
+          marker={["•", "◦"]}
+          items={[
+            { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+          ]}
+        />
+      );
+
+      expect(element.props.marker).toEqual(["•", "◦"]);
+    });
+
+    it("should accept a marker resolver", () => {
+      const element = (
+        <UnorderedList
+          marker={({ path }) => path.map((index) => index + 1).join(".")}
+          items={[{ key: "a", label: "A" }]}
+        />
+      );
+
+      expect(typeof element.props.marker).toBe("function");
+    });
+
+    it("should accept element markers", () => {
+      const marker = (
+        <Box gap={1}>
+          <Text color="yellow">⚠</Text>
+          <Text dimColor>3</Text>
+        </Box>
+      );
+      const element = (
+        <UnorderedList marker={marker}>
+          <UnorderedList.Item>
+            <Text>Warnings</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element.props.marker).toBe(marker);
+    });
+
+    it("should take precedence over the theme within a ThemeProvider", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({ marker: "•" }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList marker="✓">
+            <UnorderedList.Item>
+              <Text>Done</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("text layout", () => {
+    it("should accept text layout props", () => {
+      const element = (
+        <UnorderedList
+          wrap="truncate-end"
+          maxLines={3}
+          hangingIndent={2}
+          items={[
+            { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+          ]}
+        />
+      );
+
+      expect(element.props.wrap).toBe("truncate-end");
+      expect(element.props.maxLines).toBe(3);
+      expect(element.props.hangingIndent).toBe(2);
+    });
+
+    it("should accept text layout options from the theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              wrap: "truncate-start",
+              maxLines: 1,
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList>
+            <UnorderedList.Item wrap="wrap">
+              <Text>Wrapped despite the theme</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("virtualized mode", () => {
+    it("should accept virtualization props", () => {
+      const element = (
+        <UnorderedList
+          virtualized
+          height={5}
+          items={Array.from({ length: 100 }, (_, index) => ({
+            key: String(index),
+            label: `Item ${index}`,
+          }))}
+        />
+      );
+
+      expect(element.props.virtualized).toBe(true);
+      expect(element.props.height).toBe(5);
+    });
+
+    it("should combine with interactive, collapsible and tree modes", () => {
+      const element = (
+        <UnorderedList
+          virtualized
+          height={10}
+          interactive
+          collapsible
+          variant="tree"
+          items={[
+            { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+          ]}
+        />
+      );
+
+      expect(element.props.virtualized).toBe(true);
+      expect(element.props.variant).toBe("tree");
+    });
+  });
+
+  describe("scrollable viewport", () => {
+    it("should accept a maximum height", () => {
+      const element = (
+        <UnorderedList maxHeight={5}>
+          {Array.from({ length: 20 }, (_, index) => (
+            <UnorderedList.Item key={index}>
+              <Text>Entry {index}</Text>
+            </UnorderedList.Item>
+          ))}
+        </UnorderedList>
+      );
+
+      expect(element.props.maxHeight).toBe(5);
+    });
+
+    it("should accept a ref receiving the scroll methods", () => {
+      const listRef = createRef<UnorderedListHandle>();
+      const element = (
+        <UnorderedList ref={listRef} maxHeight={3}>
+          <UnorderedList.Item>
+            <Text>Item</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element.props.ref).toBe(listRef);
+    });
+
+    it("should accept custom scroll indicators from the theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              scrollIndicators: { above: "▲", below: "▼" },
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList maxHeight={2} items={[{ key: "a", label: "A" }]} />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+
+    it("should count the rows of nested items", () => {
+      const tree: UnorderedListItemData[] = [
+        {
+          key: "a",
+          label: "A",
+          children: [
+            { key: "a1", label: "a1" },
+            { key: "a2", label: "a2" },
+            { key: "a3", label: "a3" },
+          ],
+        },
+        {
+          key: "b",
+          label: "B",
+          children: [
+            { key: "b1", label: "b1" },
+            { key: "b2", label: "b2" },
+          ],
+        },
+        { key: "c", label: "C" },
+      ];
+
+      expect(renderLines(<UnorderedList maxHeight={3} items={tree} />)).toEqual(
+        ["─ A", "  ─ a1", "↓ 6 more"],
+      );
+    });
+
+    it("should count the rows of nested item elements", () => {
+      const lines = renderLines(
+        <UnorderedList maxHeight={3}>
+          <UnorderedList.Item>
+            <Text>A</Text>
+            <UnorderedList>
+              <UnorderedList.Item>
+                <Text>a1</Text>
+              </UnorderedList.Item>
+              <UnorderedList.Item>
+                <Text>a2</Text>
+              </UnorderedList.Item>
+            </UnorderedList>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>B</Text>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>C</Text>
+          </UnorderedList.Item>
+          <UnorderedList.Item>
+            <Text>D</Text>
+          </UnorderedList.Item>
+        </UnorderedList>,
+      );
+
+      expect(lines).toEqual(["─ A", "  ─ a1", "↓ 4 more"]);
+    });
+
+    it("should scroll a nested tree by its rows", async () => {
+      const list = renderList(
+        <UnorderedList
+          interactive
+          maxHeight={5}
+          items={[
+            {
+              key: "a",
+              label: "A",
+              children: [
+                { key: "a1", label: "a1" },
+                { key: "a2", label: "a2" },
+                { key: "a3", label: "a3" },
+              ],
+            },
+            {
+              key: "b",
+              label: "B",
+              children: [{ key: "b1", label: "b1" }],
+            },
+            { key: "c", label: "C" },
+            { key: "d", label: "D" },
+          ]}
+        />,
+      );
+
+      await list.press();
+      expect(list.lastFrame()).toEqual([
+        "─ A",
+        "  ─ a1",
+        "  ─ a2",
+        "  ─ a3",
+        "↓ 4 more",
+      ]);
+
+      await list.press(keys.pageDown);
+      expect(list.lastFrame()).toEqual([
+        "↑ 4 more",
+        "─ B",
+        "  ─ b1",
+        "─ C",
+        "─ D",
+      ]);
+      list.unmount();
+    });
+  });
+
+  describe("pagination", () => {
+    it("should accept a page size and an initial page", () => {
+      const element = (
+        <UnorderedList
+          pageSize={10}
+          defaultPage={2}
+          items={Array.from({ length: 50 }, (_, index) => ({
+            key: String(index),
+            label: `Item ${index}`,
+          }))}
+        />
+      );
+
+      expect(element.props.pageSize).toBe(10);
+      expect(element.props.defaultPage).toBe(2);
+    });
+
+    it("should accept a controlled page", () => {
+      const onPageChange = mock((page: number) => page);
+      const element = (
+        <UnorderedList pageSize={2} page={3} onPageChange={onPageChange}>
+          <UnorderedList.Item>
+            <Text>Item</Text>
+          </UnorderedList.Item>
+        </UnorderedList>
+      );
+
+      expect(element.props.page).toBe(3);
+      expect(element.props.onPageChange).toBe(onPageChange);
+    });
+
+    it("should accept a custom page footer from the theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              pageFooter: (page: number, pageCount: number) =>
+                `${page} of ${pageCount}`,
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList pageSize={1} items={[{ key: "a", label: "A" }]} />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+  });
+
+  describe("status checklists", () => {
+    it("should accept data items with a status and a summary", () => {
+      const items: UnorderedListItemData[] = [
+        { key: "install", label: "Install", status: "success" },
+        {
+          key: "build",
+          label: "Build",
+          status: "running",
+          children: [{ key: "lint", label: "Lint", status: "warning" }],
+        },
+        { key: "deploy", label: "Deploy", status: "pending" },
+      ];
+      const element = <UnorderedList summary items={items} />;
+
+      expect(element.props.summary).toBe(true);
+      expect(element.props.items?.[1]?.status).toBe("running");
+    });
+
+    it("should accept status markers, spinner and summary from the theme", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: "•",
+              statusMarkers: { success: { marker: "ok", color: "green" } },
+              spinner: { frames: ["-", "\\", "|", "/"], interval: 100 },
+              statusSummary: ({
+                success,
+                total,
+              }: {
+                success: number;
+                total: number;
+              }) => `${success} of ${total}`,
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList summary>
+            <UnorderedList.Item status="success">
+              <Text>Install</Text>
+            </UnorderedList.Item>
+            <UnorderedList.Item status="running">
+              <Text>Build</Text>
+            </UnorderedList.Item>
+          </UnorderedList>
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+
+    it("should render the default status glyphs in one column", () => {
+      const lines = renderLines(
+        <UnorderedList
+          items={[
+            { key: "install", label: "Install", status: "success" },
+            { key: "build", label: "Build", status: "error" },
+            { key: "lint", label: "Lint", status: "warning" },
+            { key: "test", label: "Test", status: "running" },
+            { key: "docs", label: "Docs", status: "skipped" },
+            { key: "deploy", label: "Deploy", status: "pending" },
+          ]}
+        />,
+      );
+
+      expect(lines).toEqual([
+        "✔ Install",
+        "✘ Build",
+        "⚠ Lint",
+        "⠋ Test",
+        "↓ Docs",
+        "◯ Deploy",
+      ]);
+      expect(lines).toEqual(
+        renderUnorderedListToString([
+          { key: "install", label: "Install", status: "success" },
+          { key: "build", label: "Build", status: "error" },
+          { key: "lint", label: "Lint", status: "warning" },
+          { key: "test", label: "Test", status: "running" },
+          { key: "docs", label: "Docs", status: "skipped" },
+          { key: "deploy", label: "Deploy", status: "pending" },
+        ]).split("\n"),
+      );
+    });
+  });
+
+  describe("marker resolvers", () => {
+    it("should accept a marker resolver in the theme config", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: ({ index }: UnorderedListMarkerContext) =>
+                index % 2 === 0 ? "•" : "◦",
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList
+            items={[
+              { key: "a", label: "A" },
+              { key: "b", label: "B" },
+            ]}
+          />
+        </ThemeProvider>
+      );
+
+      expect(element).toBeDefined();
+    });
+
+    it("should accept resolvers returning elements", () => {
+      const customTheme = extendTheme(defaultTheme, {
+        components: {
+          UnorderedList: {
+            config: () => ({
+              marker: ({ item }: UnorderedListMarkerContext) => (
+                <Text color={item?.children ? "blue" : undefined}>•</Text>
+              ),
+            }),
+          },
+        },
+      });
+
+      const element = (
+        <ThemeProvider theme={customTheme}>
+          <UnorderedList
+            items={[
+              { key: "a", label: "A", children: [{ key: "b", label: "B" }] },
+            ]}
+          />
+        </ThemeProvider>
+      );
+
       expect(element).toBeDefined();
     });
   });